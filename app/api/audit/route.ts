@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getSessions } from '@/lib/router/session-manager';
+import { getAuditStore, AuditOutcome } from '@/lib/router/audit-log';
+import { getToolDisplayName } from '@/lib/chat/guardrails';
+
+const OUTCOMES: AuditOutcome[] = ['success', 'unconfirmed', 'failed'];
+
+function parseDate(value: string | null): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Audit log of changes made to the user's routers, newest first
+ * GET /api/audit?routerId=upstairs-ap&tool=setWifiChannel&outcome=failed&user=admin&conversationId=...&since=2026-10-01&until=...&limit=50
+ */
+export async function GET(req: Request) {
+    try {
+        const params = new URL(req.url).searchParams;
+        const routerId = params.get('routerId');
+        const outcome = params.get('outcome') as AuditOutcome | null;
+        const limit = Math.min(parseInt(params.get('limit') || '100', 10) || 100, 500);
+
+        if (outcome && !OUTCOMES.includes(outcome)) {
+            return NextResponse.json(
+                { success: false, message: `outcome must be one of: ${OUTCOMES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        // Only routers this client is logged in to
+        const sessions = (await getSessions()).filter(s => !routerId || s.id === routerId);
+        if (sessions.length === 0) {
+            return NextResponse.json({ entries: [] });
+        }
+
+        const entries = await getAuditStore().list({
+            routerIps: sessions.map(s => s.routerIp),
+            toolName: params.get('tool') || undefined,
+            outcome: outcome || undefined,
+            user: params.get('user') || undefined,
+            conversationId: params.get('conversationId') || undefined,
+            since: parseDate(params.get('since')),
+            until: parseDate(params.get('until')),
+            limit,
+        });
+
+        return NextResponse.json({
+            entries: entries.map(entry => ({
+                ...entry,
+                action: getToolDisplayName(entry.toolName),
+            })),
+        });
+    } catch (error: unknown) {
+        console.error('[Audit] List error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load audit log', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
@@ -1,4 +1,4 @@
-import { getSession } from '@/lib/router/session-manager';
+import { getSession, getSessions } from '@/lib/router/session-manager';
 import { NextResponse } from 'next/server';
 
 export async function GET() {
@@ -15,6 +15,8 @@ export async function GET() {
         return NextResponse.json({
             authenticated: true,
             routerIp: session.routerIp,
+            routerId: session.id,
+            routerCount: (await getSessions()).length,
         });
     } catch (error) {
         console.error('Auth check error:', error);
@@ -1,31 +1,100 @@
 import { streamAgentWithEvents } from '@/lib/chat/stream-agent';
 import { SYSTEM_PROMPT } from '@/lib/chat/prompts';
-import { getSession } from '@/lib/router/session-manager';
+import { getSessions, getActiveRouterId, getClientSessionId, reloginRouter } from '@/lib/router/session-manager';
+import { appendMessage, createConversation, getConversation, titleFromMessage } from '@/lib/chat/conversation-store';
+import { markThreadPending, takePendingThread } from '@/lib/chat/checkpointer';
+import { createSnapshotRecorder } from '@/lib/router/config-snapshots';
+import { hashSessionId } from '@/lib/router/audit-log';
+
+/**
+ * Save the new user message, creating the conversation on the first one.
+ * History is best-effort: without a database the chat still works.
+ */
+async function saveUserMessage(
+    conversationId: string | undefined,
+    content: string,
+    router: { routerIp: string; name: string }
+): Promise<{ conversationId: string; messageId: string } | null> {
+    try {
+        let id = conversationId && await getConversation(conversationId) ? conversationId : null;
+        if (!id) {
+            const conversation = await createConversation({
+                title: titleFromMessage(content),
+                routerIp: router.routerIp,
+                routerName: router.name,
+            });
+            id = conversation.id;
+        }
+        const message = await appendMessage(id, 'user', content);
+        return { conversationId: id, messageId: message.id };
+    } catch (error: unknown) {
+        console.error('[Conversations] Failed to save message:', error instanceof Error ? error.message : error);
+        return null;
+    }
+}
 
 export async function POST(req: Request) {
     try {
-        const { messages } = await req.json();
+        const { messages, routerIds, conversationId, resume } = await req.json();
+        const clientSessionId = await getClientSessionId();
+
+        // Resuming a run that paused for confirmation: { resume: { threadId, approved } }
+        const pendingRun = resume ? takePendingThread(String(resume.threadId), clientSessionId) : null;
+        if (resume && !pendingRun) {
+            return new Response(
+                JSON.stringify({ error: 'This action has expired or was already answered. Please ask again.' }),
+                { status: 409, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
 
         // Validate basic request structure
-        if (!Array.isArray(messages)) {
+        if (!pendingRun && !Array.isArray(messages)) {
             return new Response(
                 JSON.stringify({ error: 'Invalid request: messages must be an array' }),
                 { status: 400, headers: { 'Content-Type': 'application/json' } }
             );
         }
 
-        // Get router session from httpOnly cookie
-        const routerSession = await getSession();
+        // Get router sessions from httpOnly cookie
+        const sessions = await getSessions();
 
-        if (!routerSession) {
+        if (sessions.length === 0) {
             return new Response(
                 JSON.stringify({ error: 'No router session found. Please login to your router first.' }),
                 { status: 401, headers: { 'Content-Type': 'application/json' } }
             );
         }
 
-        const routerIp = routerSession.routerIp;
-        const sessionCookie = routerSession.cookies.map(c => `${c.name}=${c.value}`).join('; ');
+        // Target the requested routers (in the order given), or the active one.
+        // A resumed run keeps the routers it started with.
+        const targetIds: string[] = pendingRun
+            ? pendingRun.routerIds
+            : Array.isArray(routerIds) && routerIds.length > 0
+                ? routerIds
+                : [await getActiveRouterId() ?? sessions[0].id];
+        const targets = targetIds
+            .map(id => sessions.find(s => s.id === id))
+            .filter(s => s !== undefined);
+
+        if (targets.length === 0) {
+            return new Response(
+                JSON.stringify({ error: `Unknown router: ${targetIds.join(', ')}` }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        // Persist the latest user message to the conversation history
+        const lastMessage = pendingRun ? null : messages[messages.length - 1];
+        const saved = !pendingRun && lastMessage?.role === 'user'
+            ? await saveUserMessage(conversationId, String(lastMessage.content), targets[0])
+            : null;
+        const savedConversationId = pendingRun ? pendingRun.conversationId ?? null : saved?.conversationId ?? null;
+        const savedMessageId = pendingRun ? pendingRun.messageId ?? null : saved?.messageId ?? null;
+
+        // Recorded with configuration snapshots, so changes can be traced to the request
+        const chatMessage = pendingRun
+            ? pendingRun.chatMessage ?? null
+            : lastMessage?.role === 'user' ? String(lastMessage.content) : null;
 
         // Create SSE stream using ReadableStream
         const encoder = new TextEncoder();
@@ -34,16 +103,60 @@ export async function POST(req: Request) {
             async start(controller) {
                 try {
                     // Stream events from the agent
-                    const eventStream = streamAgentWithEvents(messages, {
+                    const eventStream = streamAgentWithEvents(pendingRun ? [] : messages, {
                         systemPrompt: SYSTEM_PROMPT,
-                        routerIp,
-                        sessionCookie,
+                        routers: targets.map(session => ({
+                            id: session.id,
+                            name: session.name,
+                            routerIp: session.routerIp,
+                            sessionCookie: session.cookies.map(c => `${c.name}=${c.value}`).join('; '),
+                            adapterId: session.adapterId,
+                            // Routers with stored credentials re-login automatically when their session expires
+                            relogin: clientSessionId && session.credentials
+                                ? () => reloginRouter(clientSessionId, session.id)
+                                : undefined,
+                            onBeforeWrite: createSnapshotRecorder({
+                                routerIp: session.routerIp,
+                                routerName: session.name,
+                                user: session.username,
+                                chatMessage,
+                                conversationId: savedConversationId,
+                            }),
+                            audit: {
+                                routerIp: session.routerIp,
+                                routerName: session.name,
+                                routerId: session.id,
+                                sessionId: hashSessionId(clientSessionId),
+                                user: session.username,
+                                conversationId: savedConversationId,
+                                messageId: savedMessageId,
+                            },
+                        })),
+                        threadId: pendingRun ? String(resume.threadId) : undefined,
+                        resume: pendingRun ? { approved: resume.approved === true } : undefined,
                     });
 
                     for await (const event of eventStream) {
+                        // Remember who may approve the paused run, and where it was going (before the client can answer)
+                        if (event.type === 'confirmation_required') {
+                            markThreadPending(event.threadId, {
+                                owner: clientSessionId,
+                                routerIds: targets.map(session => session.id),
+                                conversationId: savedConversationId,
+                                chatMessage,
+                                messageId: savedMessageId,
+                            });
+                        }
+
                         // Format as SSE: data: {...}\n\n
                         const sseData = `data: ${JSON.stringify(event)}\n\n`;
                         controller.enqueue(encoder.encode(sseData));
+
+                        if (event.type === 'done' && savedConversationId && event.content) {
+                            await appendMessage(savedConversationId, 'assistant', event.content).catch((error: unknown) => {
+                                console.error('[Conversations] Failed to save reply:', error instanceof Error ? error.message : error);
+                            });
+                        }
                     }
 
                     controller.close();
@@ -61,6 +174,7 @@ export async function POST(req: Request) {
                 'Content-Type': 'text/event-stream',
                 'Cache-Control': 'no-cache',
                 'Connection': 'keep-alive',
+                ...(savedConversationId ? { 'X-Conversation-Id': savedConversationId } : {}),
             }
         });
     } catch (error) {
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { getConversation, renameConversation, deleteConversation } from '@/lib/chat/conversation-store';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Load a conversation with its messages
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const conversation = await getConversation(id);
+
+        if (!conversation) {
+            return NextResponse.json({ success: false, message: 'Conversation not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ conversation });
+    } catch (error: unknown) {
+        console.error('[Conversations] Load error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load conversation', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Rename a conversation
+ * Body: { title }
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const { title } = await req.json();
+
+        if (typeof title !== 'string' || !title.trim()) {
+            return NextResponse.json(
+                { success: false, message: 'Missing title' },
+                { status: 400 }
+            );
+        }
+
+        if (!await renameConversation(id, title.trim())) {
+            return NextResponse.json({ success: false, message: 'Conversation not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, message: 'Conversation renamed' });
+    } catch (error: unknown) {
+        console.error('[Conversations] Rename error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to rename conversation', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Delete a conversation and its messages
+ */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+
+        if (!await deleteConversation(id)) {
+            return NextResponse.json({ success: false, message: 'Conversation not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, message: 'Conversation deleted' });
+    } catch (error: unknown) {
+        console.error('[Conversations] Delete error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to delete conversation', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
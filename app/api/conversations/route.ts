@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { listConversations } from '@/lib/chat/conversation-store';
+
+/**
+ * List saved conversations, newest first
+ * GET /api/conversations?routerIp=192.168.1.1&q=port+forward
+ */
+export async function GET(req: Request) {
+    try {
+        const params = new URL(req.url).searchParams;
+
+        const conversations = await listConversations({
+            routerIp: params.get('routerIp') || undefined,
+            query: params.get('q') || undefined,
+        });
+
+        return NextResponse.json({ conversations });
+    } catch (error: unknown) {
+        console.error('[Conversations] List error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load chat history', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
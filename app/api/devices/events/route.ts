@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { getSessions } from '@/lib/router/session-manager';
+import { getDeviceEventStore, DeviceEventType } from '@/lib/router/presence';
+
+const TYPES: DeviceEventType[] = ['joined', 'left'];
+
+/**
+ * Devices joining and leaving the user's routers, newest first
+ * GET /api/devices/events?routerId=upstairs-ap&type=joined&newOnly=1&undismissed=1&hours=24&limit=50
+ */
+export async function GET(req: Request) {
+    try {
+        const params = new URL(req.url).searchParams;
+        const routerId = params.get('routerId');
+        const type = params.get('type') as DeviceEventType | null;
+        const hours = parseFloat(params.get('hours') || '');
+        const limit = Math.min(parseInt(params.get('limit') || '100', 10) || 100, 500);
+
+        if (type && !TYPES.includes(type)) {
+            return NextResponse.json(
+                { success: false, message: `type must be one of: ${TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        // Only routers this client is logged in to
+        const sessions = (await getSessions()).filter(s => !routerId || s.id === routerId);
+        if (sessions.length === 0) {
+            return NextResponse.json({ events: [] });
+        }
+
+        const events = await getDeviceEventStore().list({
+            routerIps: sessions.map(s => s.routerIp),
+            type: type || undefined,
+            newOnly: params.get('newOnly') === '1',
+            undismissedOnly: params.get('undismissed') === '1',
+            since: hours > 0 ? new Date(Date.now() - hours * 60 * 60 * 1000) : undefined,
+            limit,
+        });
+
+        return NextResponse.json({
+            events: events.map(event => {
+                const session = sessions.find(s => s.routerIp === event.routerIp);
+                return { ...event, routerId: session?.id, routerName: session?.name };
+            }),
+        });
+    } catch (error: unknown) {
+        console.error('[Presence] List error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load device events', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Dismiss new-device alerts: the given ones, or all of them
+ * Body: { ids?: string[] }
+ */
+export async function POST(req: Request) {
+    try {
+        const { ids } = await req.json().catch(() => ({}));
+        if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+            return NextResponse.json({ success: false, message: 'ids must be an array of event ids' }, { status: 400 });
+        }
+
+        const sessions = await getSessions();
+        const dismissed = await getDeviceEventStore().dismiss(sessions.map(s => s.routerIp), ids);
+
+        return NextResponse.json({ success: true, message: `${dismissed} alert(s) dismissed`, dismissed });
+    } catch (error: unknown) {
+        console.error('[Presence] Dismiss error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to dismiss alerts', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
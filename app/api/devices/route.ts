@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { getSessions } from '@/lib/router/session-manager';
+import { getDeviceStore, displayName } from '@/lib/router/device-inventory';
+import { isMacAddress, normalizeMac } from '@/lib/router/dhcp-reservations';
+
+/**
+ * Devices seen on the user's routers, most recently seen first
+ * GET /api/devices?routerId=upstairs-ap
+ */
+export async function GET(req: Request) {
+    try {
+        const routerId = new URL(req.url).searchParams.get('routerId');
+
+        // Only routers this client is logged in to
+        const sessions = (await getSessions()).filter(s => !routerId || s.id === routerId);
+        const store = getDeviceStore();
+        const devices = await Promise.all(sessions.map(async session =>
+            (await store.list(session.routerIp)).map(device => ({
+                ...device,
+                name: displayName(device),
+                routerId: session.id,
+                routerName: session.name,
+            }))
+        ));
+
+        return NextResponse.json({ devices: devices.flat() });
+    } catch (error: unknown) {
+        console.error('[Devices] List error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load devices', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Set a device's nickname and/or owner (null or "" clears it)
+ * Body: { routerId?, mac, nickname?, owner? }
+ */
+export async function PATCH(req: Request) {
+    try {
+        const { routerId, mac, nickname, owner } = await req.json();
+
+        if (typeof mac !== 'string' || !isMacAddress(mac)) {
+            return NextResponse.json({ success: false, message: 'Missing or invalid MAC address' }, { status: 400 });
+        }
+
+        const sessions = await getSessions();
+        const session = sessions.find(s => s.id === (routerId || sessions[0]?.id));
+        if (!session) {
+            return NextResponse.json({ success: false, message: 'Router not found' }, { status: 404 });
+        }
+
+        const label = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+        const device = await getDeviceStore().label(session.routerIp, normalizeMac(mac), {
+            ...(nickname !== undefined ? { nickname: label(nickname) } : {}),
+            ...(owner !== undefined ? { owner: label(owner) } : {}),
+        });
+        if (!device) {
+            return NextResponse.json({ success: false, message: 'Device not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, message: 'Device updated', device: { ...device, name: displayName(device) } });
+    } catch (error: unknown) {
+        console.error('[Devices] Update error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to update device', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { createAdapter } from '@/lib/adapters/registry';
+import { getSession } from '@/lib/router/session-manager';
+import { METRICS, availableMetrics, downsampleSeries, getMetricStore, summarizeSeries } from '@/lib/router/metrics';
+
+/**
+ * Sampled line and traffic history for one router, averaged into at most `points` points per metric
+ * GET /api/metrics?routerId=upstairs-ap&metric=dsl.snrDown,dsl.snrUp&hours=168&points=200
+ */
+export async function GET(req: Request) {
+    try {
+        const params = new URL(req.url).searchParams;
+        const hours = parseFloat(params.get('hours') || '') || 24;
+        const points = Math.min(parseInt(params.get('points') || '200', 10) || 200, 1000);
+
+        // Only routers this client is logged in to (the active one by default)
+        const session = await getSession(params.get('routerId') || undefined);
+        if (!session) {
+            return NextResponse.json({ success: false, message: 'Router not found' }, { status: 404 });
+        }
+
+        // Metrics the router's adapter can provide (no request is sent to the router)
+        const available = availableMetrics(createAdapter(session.adapterId, session.routerIp, ''));
+        const requested = params.get('metric')?.split(',').map(m => m.trim()).filter(Boolean) ?? available;
+        const unknown = requested.filter(metric => !METRICS[metric]);
+        if (unknown.length > 0) {
+            return NextResponse.json(
+                { success: false, message: `Unknown metric(s): ${unknown.join(', ')}. Available: ${available.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const until = new Date();
+        const since = new Date(until.getTime() - hours * 60 * 60 * 1000);
+        const series = await getMetricStore().query({ routerIp: session.routerIp, metrics: requested, since, until });
+
+        return NextResponse.json({
+            routerId: session.id,
+            since,
+            until,
+            available,
+            metrics: requested.map(metric => ({
+                metric,
+                ...METRICS[metric],
+                summary: summarizeSeries(series[metric]),
+                points: downsampleSeries(series[metric], since, until, points),
+            })),
+        });
+    } catch (error: unknown) {
+        console.error('[Metrics] Query error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load metrics', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
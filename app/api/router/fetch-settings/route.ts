@@ -2,12 +2,13 @@
  * API Route: Fetch all router settings pages HTML
  * 
  * This crawls the router, fetches each settings page, and returns their HTML content.
+ * Only available for adapters with the `rawPages` capability (currently ZTE).
  * Use this to analyze form fields for creating setter tools.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/router/session-manager';
-import { ZTERouterAdapter } from '@/lib/adapters/zte';
+import { createAdapter, hasCapability } from '@/lib/adapters/registry';
 
 // Settings pages to fetch (common ZTE router pages)
 const SETTINGS_PAGES = [
@@ -43,8 +44,9 @@ const SETTINGS_PAGES = [
 
 export async function GET(request: NextRequest) {
     try {
-        // Get router session
-        const session = await getSession();
+        // Get router session (?routerId= picks one of several logged-in routers)
+        const routerId = request.nextUrl.searchParams.get('routerId') ?? undefined;
+        const session = await getSession(routerId);
         if (!session) {
             return NextResponse.json({
                 error: 'Not logged in to router. Please login first via /setup'
@@ -53,7 +55,14 @@ export async function GET(request: NextRequest) {
 
         // Create adapter
         const cookieString = session.cookies.map(c => `${c.name}=${c.value}`).join('; ');
-        const adapter = new ZTERouterAdapter(session.routerIp, cookieString);
+        const adapter = createAdapter(session.adapterId, session.routerIp, cookieString);
+
+        // Only HTML-based admin UIs expose raw settings pages
+        if (!hasCapability(adapter, 'rawPages')) {
+            return NextResponse.json({
+                error: `The ${adapter.id} adapter does not expose raw settings pages`
+            }, { status: 400 });
+        }
 
         // Results
         const results: {
@@ -71,7 +80,7 @@ export async function GET(request: NextRequest) {
         // Fetch each page
         for (const page of SETTINGS_PAGES) {
             try {
-                const html = await adapter['fetchPage'](page);
+                const html = await adapter.fetchPage(page);
 
                 // Extract form info using regex (simple extraction)
                 const formRegex = /<form[^>]*action=["']([^"']*)["'][^>]*method=["']([^"']*)["'][^>]*>([\s\S]*?)<\/form>/gi;
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { getSessions, getActiveRouterId, renameRouter, setActiveRouter, removeSession } from '@/lib/router/session-manager';
+
+/**
+ * List the routers the user is logged in to (no credentials or cookies)
+ */
+export async function GET() {
+    try {
+        const [sessions, activeRouterId] = await Promise.all([getSessions(), getActiveRouterId()]);
+
+        return NextResponse.json({
+            routers: sessions.map(session => ({
+                id: session.id,
+                name: session.name,
+                ip: session.routerIp,
+                adapterId: session.adapterId,
+            })),
+            activeRouterId,
+        });
+    } catch (error: unknown) {
+        console.error('[Routers] List error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to list routers' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Rename a router and/or make it the default chat target
+ * Body: { id, name?, active? }
+ */
+export async function PATCH(req: Request) {
+    try {
+        const { id, name, active } = await req.json();
+
+        if (!id) {
+            return NextResponse.json(
+                { success: false, message: 'Missing router id' },
+                { status: 400 }
+            );
+        }
+
+        if (typeof name === 'string' && name.trim()) {
+            if (!await renameRouter(id, name.trim())) {
+                return NextResponse.json({ success: false, message: 'Router not found' }, { status: 404 });
+            }
+        }
+
+        if (active === true) {
+            if (!await setActiveRouter(id)) {
+                return NextResponse.json({ success: false, message: 'Router not found' }, { status: 404 });
+            }
+        }
+
+        return NextResponse.json({ success: true, message: 'Router updated' });
+    } catch (error: unknown) {
+        console.error('[Routers] Update error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to update router', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Log out of a single router: DELETE /api/routers?id=upstairs-ap
+ */
+export async function DELETE(req: Request) {
+    try {
+        const id = new URL(req.url).searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json(
+                { success: false, message: 'Missing router id' },
+                { status: 400 }
+            );
+        }
+
+        await removeSession(id);
+        return NextResponse.json({ success: true, message: 'Logged out of router' });
+    } catch (error: unknown) {
+        console.error('[Routers] Delete error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to log out of router', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
@@ -1,9 +1,19 @@
 import { NextResponse } from 'next/server';
-import si from 'systeminformation';
+import { fingerprintRouter, describeFingerprint } from '@/lib/router/fingerprint';
+import { listAdapters } from '@/lib/adapters/registry';
+import { discoverGateways, GatewayCandidate } from '@/lib/network/gateway';
 
 interface RouterInfo {
     name: string;
     ip: string;
+    vendor: string | null;
+    model: string | null;
+    confidence: number;
+    adapterId: string | null;
+    supported: boolean;
+    signals: string[];
+    /** md5 of the router's favicon, for adding to the fingerprint table */
+    faviconHash?: string;
 }
 
 // Check if IP is a valid private network address (not VPN)
@@ -23,87 +33,79 @@ function isValidPrivateIP(ip: string): boolean {
     return privateRanges.some(range => range.test(ip));
 }
 
-// Detect router type based on IP
+// Detect router vendor/model by fingerprinting its web interface
 async function detectRouterType(gateway: string): Promise<RouterInfo> {
-    const commonRouters: Record<string, string> = {
-        '192.168.1.1': 'Generic Router',
-        '192.168.0.1': 'Generic Router',
-        '192.168.2.1': 'Generic Router',
-        '192.168.10.1': 'Generic Router',
-        '10.0.0.1': 'Generic Router',
-        '10.0.0.138': 'Generic Router',
+    const fingerprint = await fingerprintRouter(gateway);
+
+    return {
+        name: describeFingerprint(fingerprint),
+        ip: gateway,
+        vendor: fingerprint.vendor,
+        model: fingerprint.model,
+        confidence: fingerprint.confidence,
+        adapterId: fingerprint.adapterId,
+        supported: fingerprint.supported,
+        signals: fingerprint.signals,
+        faviconHash: fingerprint.faviconHash,
     };
+}
 
-    const name = commonRouters[gateway] || 'Generic Router';
-    return { name, ip: gateway };
+// Interfaces that never lead to the home router
+function isIgnoredInterface(iface: string): boolean {
+    const name = iface.toLowerCase();
+
+    // ignore tunnels, VPNs, virtual crap
+    return (
+        name.includes('vpn') ||
+        name.includes('hamachi') ||
+        name.includes('radmin') ||
+        name.includes('virtual') ||
+        name.includes('vethernet') ||
+        name.includes('loopback') ||
+        name.includes('pseudo') ||
+        name.startsWith('tun') ||
+        name.startsWith('wg')
+    );
 }
 
-// Find the best gateway by checking network interfaces
-async function findBestGateway(): Promise<string | null> {
+// Pick the gateway to fingerprint from the OS default routes
+async function findBestGateway(): Promise<{ gateway: string | null; candidates: GatewayCandidate[] }> {
     try {
-        const interfaces = await si.networkInterfaces();
-
-        // Hard-prioritize real local networks
-        const candidates = interfaces
-            .filter(iface => {
-                const name = iface.iface.toLowerCase();
-
-                // ignore tunnels, VPNs, virtual crap
-                if (
-                    name.includes('vpn') ||
-                    name.includes('hamachi') ||
-                    name.includes('radmin') ||
-                    name.includes('virtual') ||
-                    name.includes('vEthernet'.toLowerCase()) ||
-                    name.includes('loopback') ||
-                    name.includes('pseudo')
-                ) return false;
-
-                // must have IPv4
-                if (!iface.ip4) return false;
+        const candidates = await discoverGateways();
 
-                // must be private local IP, not 172.24.x.x (WSL)
-                return isValidPrivateIP(iface.ip4);
-            })
-            .sort((a, b) => {
-                // WIFI gets highest priority
-                if (a.type === 'wireless' && b.type !== 'wireless') return -1;
-                if (b.type === 'wireless' && a.type !== 'wireless') return 1;
-                return 0;
-            });
-
-        if (candidates.length === 0) return null;
-
-        const iface = candidates[0];
-        const parts = iface.ip4.split('.');
-        return `${parts[0]}.${parts[1]}.${parts[2]}.1`;
+        // Candidates are already ordered by route metric; skip VPN/virtual routes
+        // and prefer a gateway the machine has actually talked to (ARP entry)
+        const usable = candidates.filter(c => !isIgnoredInterface(c.iface) && isValidPrivateIP(c.ip));
+        const best = usable.find(c => c.inArpCache) ?? usable[0];
 
+        return { gateway: best?.ip ?? null, candidates };
     } catch (err) {
         console.error('Gateway detection failed:', err);
-        return null;
+        return { gateway: null, candidates: [] };
     }
 }
 
 export async function GET() {
     try {
         // Find the best gateway
-        const gateway = await findBestGateway();
+        const { gateway, candidates } = await findBestGateway();
 
         if (!gateway) {
             return NextResponse.json(
-                { found: false, message: 'No valid router gateway found. Please ensure you are connected to a local network.' },
+                { found: false, message: 'No valid router gateway found. Please ensure you are connected to a local network.', gateways: candidates },
                 { status: 404 }
             );
         }
 
-        console.log('Detecting router at', gateway);
-
         // Detect router type
         const routerInfo = await detectRouterType(gateway);
 
         return NextResponse.json({
             found: true,
-            router: routerInfo
+            router: routerInfo,
+            gateways: candidates,
+            // Lets the setup page offer a manual choice when fingerprinting is inconclusive
+            adapters: listAdapters().map(({ id, vendor }) => ({ id, vendor }))
         });
     } catch (error) {
         console.error('Router detection error:', error);
@@ -2,12 +2,12 @@ import { NextResponse } from 'next/server';
 import { loginAndSaveSession, clearSession } from '@/lib/router/session-manager';
 
 /**
- * Login route using httpOnly cookies for session storage
- * Session is stored in browser cookie and clears when browser closes
+ * Login route using the server-side session store
+ * The browser only gets an opaque session id in an httpOnly cookie
  */
 export async function POST(req: Request) {
     try {
-        const { ip, username, password } = await req.json();
+        const { ip, username, password, adapterId, name, remember } = await req.json();
         console.log('[Router Login] Received request:', { ip, username: username ? '***' : null });
 
         if (!ip || !username || !password) {
@@ -18,11 +18,14 @@ export async function POST(req: Request) {
             );
         }
 
-        // Login and save session to httpOnly cookie
+        // Login and save session to the session store
         const result = await loginAndSaveSession({
             ip,
             username,
-            password
+            password,
+            adapterId,
+            name,
+            remember: remember === true
         });
 
         if (!result.success) {
@@ -32,11 +35,13 @@ export async function POST(req: Request) {
             );
         }
 
-        console.log('[Router Login] Session saved to cookie');
+        console.log('[Router Login] Session saved');
 
         return NextResponse.json({
             success: true,
-            message: result.message
+            message: result.message,
+            routerId: result.routerId,
+            credentialsSaved: result.credentialsSaved
         });
 
     } catch (error: any) {
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { createAdapter } from '@/lib/adapters/registry';
+import { getSessions, getClientSessionId, reloginRouter } from '@/lib/router/session-manager';
+import { getSnapshotStore, createSnapshotRecorder, revertSnapshot } from '@/lib/router/config-snapshots';
+import { recordAudit, hashSessionId, setterOutcome } from '@/lib/router/audit-log';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Revert a configuration change by restoring the settings captured before it
+ */
+export async function POST(_req: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const snapshot = await getSnapshotStore().get(id);
+
+        // Only routers this client is logged in to
+        const session = snapshot && (await getSessions()).find(s => s.routerIp === snapshot.routerIp);
+        if (!snapshot || !session) {
+            return NextResponse.json({ success: false, message: 'Change not found' }, { status: 404 });
+        }
+
+        const clientSessionId = await getClientSessionId();
+        const adapter = createAdapter(
+            session.adapterId,
+            session.routerIp,
+            session.cookies.map(c => `${c.name}=${c.value}`).join('; '),
+            {
+                relogin: clientSessionId && session.credentials
+                    ? () => reloginRouter(clientSessionId, session.id)
+                    : undefined,
+                // The revert is itself a change that can be undone
+                onBeforeWrite: createSnapshotRecorder({
+                    routerIp: session.routerIp,
+                    routerName: session.name,
+                    user: session.username,
+                    chatMessage: `Revert of an earlier change (${snapshot.operation})`,
+                    conversationId: snapshot.conversationId,
+                }),
+            }
+        );
+
+        const result = await revertSnapshot(id, adapter, session.routerIp);
+        await recordAudit({
+            routerIp: session.routerIp,
+            routerName: session.name,
+            routerId: session.id,
+            sessionId: hashSessionId(clientSessionId),
+            user: session.username,
+            conversationId: snapshot.conversationId,
+        }, {
+            toolName: 'revertChange',
+            args: { changeId: id, source: 'recent changes panel' },
+            before: snapshot.before,
+            outcome: setterOutcome(result),
+            result: result.message,
+        });
+        return NextResponse.json(result, { status: result.success ? 200 : 409 });
+    } catch (error: unknown) {
+        console.error('[Snapshots] Revert error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to revert change', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getSessions } from '@/lib/router/session-manager';
+import { getSnapshotStore, describeSnapshot } from '@/lib/router/config-snapshots';
+
+/**
+ * Configuration changes made to the user's routers, newest first
+ * GET /api/snapshots?routerId=upstairs-ap&limit=20
+ */
+export async function GET(req: Request) {
+    try {
+        const params = new URL(req.url).searchParams;
+        const routerId = params.get('routerId');
+        const limit = Math.min(parseInt(params.get('limit') || '50', 10) || 50, 200);
+
+        // Only routers this client is logged in to
+        const sessions = (await getSessions()).filter(s => !routerId || s.id === routerId);
+        if (sessions.length === 0) {
+            return NextResponse.json({ snapshots: [] });
+        }
+
+        const snapshots = await getSnapshotStore().list({ routerIps: sessions.map(s => s.routerIp), limit });
+
+        return NextResponse.json({
+            snapshots: snapshots.map(snapshot => ({
+                id: snapshot.id,
+                routerIp: snapshot.routerIp,
+                routerName: snapshot.routerName,
+                area: snapshot.area,
+                operation: snapshot.operation,
+                summary: describeSnapshot(snapshot),
+                before: snapshot.before,
+                user: snapshot.user,
+                chatMessage: snapshot.chatMessage,
+                conversationId: snapshot.conversationId,
+                createdAt: snapshot.createdAt,
+                revertedAt: snapshot.revertedAt,
+            })),
+        });
+    } catch (error: unknown) {
+        console.error('[Snapshots] List error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load change history', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
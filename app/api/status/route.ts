@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { createAdapter } from '@/lib/adapters/registry';
+import { getSession, getClientSessionId, reloginRouter } from '@/lib/router/session-manager';
+import { getFullStatus } from '@/lib/router/network-status';
+
+/**
+ * Health snapshot of one router for the dashboard (the active one by default)
+ * GET /api/status?routerId=upstairs-ap
+ */
+export async function GET(req: Request) {
+    try {
+        const routerId = new URL(req.url).searchParams.get('routerId') || undefined;
+        const session = await getSession(routerId);
+        if (!session) {
+            return NextResponse.json({ success: false, message: 'Not logged in to this router' }, { status: 401 });
+        }
+
+        const clientSessionId = await getClientSessionId();
+        const adapter = createAdapter(
+            session.adapterId,
+            session.routerIp,
+            session.cookies.map(c => `${c.name}=${c.value}`).join('; '),
+            {
+                relogin: clientSessionId && session.credentials
+                    ? () => reloginRouter(clientSessionId, session.id)
+                    : undefined,
+            }
+        );
+
+        const status = await getFullStatus(session.routerIp, adapter);
+        return NextResponse.json({
+            routerId: session.id,
+            routerName: session.name,
+            routerIp: session.routerIp,
+            ...status,
+        });
+    } catch (error: unknown) {
+        console.error('[Status] Error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to read router status', details: error instanceof Error ? error.message : undefined },
+            { status: 500 }
+        );
+    }
+}
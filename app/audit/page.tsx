@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, CircleAlert, CircleCheck, CircleX } from "lucide-react";
+import { ModeToggle } from "@/components/mode-toggle";
+import { cn } from "@/lib/utils";
+import { useRouters } from "@/hooks/use-routers";
+import { useAuditLog, AuditLogEntry, AuditOutcome } from "@/hooks/use-audit-log";
+
+const selectClassName = "h-9 rounded-md border bg-background px-3 text-sm";
+
+const OUTCOME_STYLES: Record<AuditOutcome, { label: string; icon: typeof CircleCheck; className: string }> = {
+    success: { label: 'Confirmed', icon: CircleCheck, className: 'text-green-600 dark:text-green-400' },
+    unconfirmed: { label: 'Not confirmed', icon: CircleAlert, className: 'text-amber-600 dark:text-amber-400' },
+    failed: { label: 'Failed', icon: CircleX, className: 'text-destructive' },
+};
+
+function formatJson(value: unknown): string {
+    return JSON.stringify(value, null, 2);
+}
+
+function AuditEntryRow({ entry }: { entry: AuditLogEntry }) {
+    const outcome = OUTCOME_STYLES[entry.outcome];
+    const Icon = outcome.icon;
+
+    return (
+        <div className="rounded-lg border px-4 py-3 space-y-1.5">
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                <Icon className={cn("size-4", outcome.className)} />
+                <span className="text-sm font-medium">{entry.action}</span>
+                <span className={cn("text-xs", outcome.className)}>{outcome.label}</span>
+                <span className="text-xs text-muted-foreground ml-auto">{new Date(entry.createdAt).toLocaleString()}</span>
+            </div>
+            <div className="text-xs text-muted-foreground">
+                {entry.routerName || entry.routerIp} ({entry.routerIp})
+                {entry.user && <> · by {entry.user}</>}
+                {entry.sessionId && <> · session {entry.sessionId.slice(0, 8)}</>}
+            </div>
+            <details className="text-xs">
+                <summary className="cursor-pointer text-muted-foreground">Details</summary>
+                <div className="mt-2 space-y-2">
+                    <p className="whitespace-pre-wrap">{entry.result}</p>
+                    <div>
+                        <div className="font-medium">Arguments</div>
+                        <pre className="overflow-x-auto rounded bg-muted p-2">{formatJson(entry.args)}</pre>
+                    </div>
+                    {entry.before !== undefined && entry.before !== null && (
+                        <div>
+                            <div className="font-medium">Before</div>
+                            <pre className="overflow-x-auto rounded bg-muted p-2">{formatJson(entry.before)}</pre>
+                        </div>
+                    )}
+                    {entry.after !== undefined && entry.after !== null && (
+                        <div>
+                            <div className="font-medium">After</div>
+                            <pre className="overflow-x-auto rounded bg-muted p-2">{formatJson(entry.after)}</pre>
+                        </div>
+                    )}
+                    {entry.conversationId && (
+                        <p className="text-muted-foreground">
+                            Conversation {entry.conversationId}{entry.messageId && <>, message {entry.messageId}</>}
+                        </p>
+                    )}
+                </div>
+            </details>
+        </div>
+    );
+}
+
+export default function AuditPage() {
+    const [routerId, setRouterId] = useState('');
+    const [outcome, setOutcome] = useState<AuditOutcome | ''>('');
+    const [user, setUser] = useState('');
+
+    const { data: routersData, isLoading: isLoadingRouters } = useRouters();
+    const hasRouters = (routersData?.routers.length ?? 0) > 0;
+    const { data: entries, isLoading, isError } = useAuditLog(
+        { routerId, outcome: outcome || undefined, user: user.trim() },
+        hasRouters
+    );
+
+    return (
+        <div className="min-h-screen bg-background">
+            <header className="sticky top-0 z-10 flex items-center gap-3 px-4 h-14 border-b bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/60">
+                <Button variant="ghost" size="icon" asChild title="Back to Chat">
+                    <Link href="/chat">
+                        <ArrowLeft className="size-5" />
+                        <span className="sr-only">Back to Chat</span>
+                    </Link>
+                </Button>
+                <h1 className="text-lg font-semibold mr-auto">Audit Log</h1>
+                <ModeToggle />
+            </header>
+
+            <main className="max-w-4xl mx-auto p-4 space-y-4">
+                <p className="text-sm text-muted-foreground">
+                    Every change made to your routers through the assistant, newest first.
+                </p>
+
+                <div className="flex flex-wrap gap-2">
+                    <select
+                        className={selectClassName}
+                        value={routerId}
+                        onChange={(e) => setRouterId(e.target.value)}
+                        aria-label="Router"
+                    >
+                        <option value="">All routers</option>
+                        {routersData?.routers.map(r => (
+                            <option key={r.id} value={r.id}>{r.name} ({r.ip})</option>
+                        ))}
+                    </select>
+                    <select
+                        className={selectClassName}
+                        value={outcome}
+                        onChange={(e) => setOutcome(e.target.value as AuditOutcome | '')}
+                        aria-label="Result"
+                    >
+                        <option value="">Any result</option>
+                        {Object.entries(OUTCOME_STYLES).map(([value, style]) => (
+                            <option key={value} value={value}>{style.label}</option>
+                        ))}
+                    </select>
+                    <Input
+                        className="w-48"
+                        placeholder="Router user"
+                        value={user}
+                        onChange={(e) => setUser(e.target.value)}
+                    />
+                </div>
+
+                {!isLoadingRouters && !hasRouters && (
+                    <p className="text-sm text-muted-foreground">
+                        <Link href="/setup" className="underline">Log in to a router</Link> to see its audit log.
+                    </p>
+                )}
+                {isLoading && hasRouters && <p className="text-sm text-muted-foreground">Loading...</p>}
+                {isError && <p className="text-sm text-destructive">Failed to load the audit log</p>}
+                {entries?.length === 0 && <p className="text-sm text-muted-foreground">No changes recorded</p>}
+
+                <div className="space-y-2">
+                    {entries?.map(entry => <AuditEntryRow key={entry.id} entry={entry} />)}
+                </div>
+            </main>
+        </div>
+    );
+}
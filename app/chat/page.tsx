@@ -2,16 +2,27 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { LogOut, RotateCcw } from "lucide-react";
+import { Sheet, SheetContent, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { useQueryClient } from "@tanstack/react-query";
+import { LayoutDashboard, LogOut, PanelLeft, RotateCcw } from "lucide-react";
 import { ModeToggle } from "@/components/mode-toggle";
 
 import { EmptyState } from "@/components/chat/empty-state";
 import { ChatMessage, Message } from "@/components/chat/chat-message";
 import { ChatInput } from "@/components/chat/chat-input";
 import { ReasoningTrace } from "@/components/chat/reasoning-trace";
+import { RouterSwitcher } from "@/components/chat/router-switcher";
+import { ChatSidebar } from "@/components/chat/chat-sidebar";
+import { ConfirmationCard } from "@/components/chat/confirmation-card";
+import { RecentChanges } from "@/components/chat/recent-changes";
+import { DeviceAlerts } from "@/components/chat/device-alerts";
+import { useRouters, useUpdateRouter } from "@/hooks/use-routers";
+import type { PendingAction } from "@/lib/chat/confirmation";
+import { useConversations, useLoadConversation, useRenameConversation, useDeleteConversation } from "@/hooks/use-conversations";
 
 export default function Chat() {
     const router = useRouter();
@@ -23,9 +34,35 @@ export default function Chat() {
     // State for reasoning trace - just the current step
     const [currentStep, setCurrentStep] = useState<string>('');
 
+    // Notices for the current request (e.g. automatic re-login)
+    const [notices, setNotices] = useState<string[]>([]);
+
     // State for streaming content
     const [streamingContent, setStreamingContent] = useState<string>('');
 
+    // Sensitive actions waiting for the user's approval
+    const [pendingConfirmation, setPendingConfirmation] = useState<{ threadId: string; actions: PendingAction[] } | null>(null);
+
+    // Routers the next message targets (defaults to the active router)
+    const [selectedRouterIds, setSelectedRouterIds] = useState<string[]>([]);
+    const { data: routersData } = useRouters(!isCheckingAuth);
+    const { mutate: updateRouter } = useUpdateRouter();
+
+    // Saved conversations for the primary selected router
+    const queryClient = useQueryClient();
+    const [currentChatId, setCurrentChatId] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [debouncedQuery, setDebouncedQuery] = useState('');
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const primaryRouterIp = routersData?.routers.find(r => r.id === selectedRouterIds[0])?.ip;
+    const { data: conversations } = useConversations(
+        { routerIp: primaryRouterIp, query: debouncedQuery },
+        !isCheckingAuth && !!primaryRouterIp
+    );
+    const { mutate: loadConversation } = useLoadConversation();
+    const { mutate: renameConversation } = useRenameConversation();
+    const { mutate: deleteConversation } = useDeleteConversation();
+
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
     // Check authentication on mount
@@ -48,15 +85,68 @@ export default function Chat() {
         checkAuth();
     }, [router]);
 
+    // Select the active router once the router list loads
+    useEffect(() => {
+        if (!routersData) return;
+        const known = routersData.routers.map(r => r.id);
+        setSelectedRouterIds(prev => {
+            const kept = prev.filter(id => known.includes(id));
+            if (kept.length > 0) return kept;
+            return routersData.activeRouterId ? [routersData.activeRouterId] : known.slice(0, 1);
+        });
+    }, [routersData]);
+
+    const handleRouterSelection = (ids: string[]) => {
+        setSelectedRouterIds(ids);
+        // A single selection also becomes the default for new sessions
+        if (ids.length === 1) updateRouter({ id: ids[0], active: true });
+    };
+
+    // Search as the user types, without a request per keystroke
+    useEffect(() => {
+        const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+        return () => clearTimeout(timer);
+    }, [searchQuery]);
+
     // Scroll to bottom when messages or streaming content changes
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [messages, currentStep, streamingContent]);
+    }, [messages, currentStep, streamingContent, pendingConfirmation]);
 
     const handleNewChat = () => {
         setMessages([]);
         setCurrentStep('');
         setStreamingContent('');
+        setCurrentChatId(null);
+        setPendingConfirmation(null);
+        setIsSidebarOpen(false);
+    };
+
+    const handleSelectChat = (id: string) => {
+        if (isLoading || id === currentChatId) return;
+        loadConversation(id, {
+            onSuccess: (conversation) => {
+                setMessages(conversation.messages.map(m => ({ id: m.id, role: m.role, content: m.content })));
+                setCurrentChatId(conversation.id);
+                setPendingConfirmation(null);
+                setCurrentStep('');
+                setStreamingContent('');
+                setIsSidebarOpen(false);
+            },
+        });
+    };
+
+    const handleDeleteChat = (id: string, e: React.MouseEvent) => {
+        e.stopPropagation();
+        deleteConversation(id, {
+            onSuccess: () => {
+                if (id === currentChatId) handleNewChat();
+            },
+        });
+    };
+
+    const handleRenameChat = (id: string, title: string) => {
+        renameConversation({ id, title });
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -71,20 +161,41 @@ export default function Chat() {
 
         setMessages(prev => [...prev, userMessage]);
         setInput('');
+
+        await sendChatRequest({
+            messages: [...messages, userMessage].map(m => ({
+                role: m.role,
+                content: m.content,
+            })),
+            routerIds: selectedRouterIds,
+            conversationId: currentChatId,
+        });
+    };
+
+    // Answer a confirmation_required event; the paused run continues on the server
+    const handleConfirmation = async (approved: boolean) => {
+        if (!pendingConfirmation || isLoading) return;
+
+        const { threadId } = pendingConfirmation;
+        await sendChatRequest({
+            resume: { threadId, approved },
+            conversationId: currentChatId,
+        });
+    };
+
+    // POST to the chat endpoint and handle the SSE stream of agent events
+    const sendChatRequest = async (body: Record<string, unknown>) => {
         setIsLoading(true);
         setCurrentStep('');
+        setNotices([]);
         setStreamingContent('');
+        setPendingConfirmation(null);
 
         try {
             const response = await fetch('/api/chat', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    messages: [...messages, userMessage].map(m => ({
-                        role: m.role,
-                        content: m.content,
-                    })),
-                }),
+                body: JSON.stringify(body),
             });
 
             if (!response.ok) {
@@ -93,9 +204,23 @@ export default function Chat() {
                     router.replace('/setup');
                     return;
                 }
+                if (response.status === 409) {
+                    // The approval expired or was already answered
+                    const data = await response.json().catch(() => null);
+                    setMessages(prev => [...prev, {
+                        id: `msg-${Date.now()}-error`,
+                        role: 'assistant',
+                        content: data?.error || 'This action is no longer waiting for approval.',
+                    }]);
+                    return;
+                }
                 throw new Error('Failed to get response');
             }
 
+            // The server starts a new conversation on the first message
+            const conversationId = response.headers.get('X-Conversation-Id');
+            if (conversationId) setCurrentChatId(conversationId);
+
             // Handle SSE stream
             const reader = response.body?.getReader();
             if (!reader) throw new Error('No response body');
@@ -124,6 +249,12 @@ export default function Chat() {
                             } else if (event.type === 'tool') {
                                 // Update current step with tool info
                                 setCurrentStep(event.tool);
+                            } else if (event.type === 'notice') {
+                                setNotices(prev => [...prev, event.message]);
+                            } else if (event.type === 'confirmation_required') {
+                                // Paused until the user approves or rejects
+                                setCurrentStep('');
+                                setPendingConfirmation({ threadId: event.threadId, actions: event.actions });
                             } else if (event.type === 'content') {
                                 // Append streaming content
                                 setStreamingContent(prev => prev + event.content);
@@ -157,6 +288,7 @@ export default function Chat() {
             setStreamingContent('');
         } finally {
             setIsLoading(false);
+            queryClient.invalidateQueries({ queryKey: ['conversations'] });
         }
     };
 
@@ -180,107 +312,181 @@ export default function Chat() {
         );
     }
 
+    const sidebar = (
+        <ChatSidebar
+            chatHistory={(conversations ?? []).map(c => ({
+                id: c.id,
+                title: c.title,
+                timestamp: new Date(c.updatedAt),
+            }))}
+            currentChatId={currentChatId ?? ''}
+            onNewChat={handleNewChat}
+            onSelectChat={handleSelectChat}
+            onDeleteChat={handleDeleteChat}
+            onRenameChat={handleRenameChat}
+            searchQuery={searchQuery}
+            onSearchChange={setSearchQuery}
+        />
+    );
+
     return (
-        <div className="flex flex-col h-screen bg-background text-foreground overflow-hidden">
+        <div className="flex h-screen bg-background text-foreground overflow-hidden">
+
+            {/* Chat history (desktop) */}
+            <aside className="hidden md:flex w-64 flex-none border-r">
+                {sidebar}
+            </aside>
+
+            <div className="flex flex-col flex-1 min-w-0">
+
+                {/* Fixed Header */}
+                <header className="flex-none sticky top-0 z-10 flex items-center gap-3 px-4 h-14 border-b bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/60">
+                    {/* Chat history (mobile) */}
+                    <Sheet open={isSidebarOpen} onOpenChange={setIsSidebarOpen}>
+                        <SheetTrigger asChild>
+                            <Button variant="ghost" size="icon" className="md:hidden" title="Chat History">
+                                <PanelLeft className="size-5" />
+                                <span className="sr-only">Chat History</span>
+                            </Button>
+                        </SheetTrigger>
+                        <SheetContent side="left" className="w-72 p-0">
+                            <SheetTitle className="sr-only">Chat History</SheetTitle>
+                            {sidebar}
+                        </SheetContent>
+                    </Sheet>
+
+                    <h1 className="text-lg font-semibold mr-auto">AI Network Assistant</h1>
+
+                    {/* Router switcher */}
+                    {routersData && routersData.routers.length > 0 && (
+                        <RouterSwitcher
+                            routers={routersData.routers}
+                            selectedIds={selectedRouterIds}
+                            onChange={handleRouterSelection}
+                            onAddRouter={() => router.push('/setup')}
+                            disabled={isLoading}
+                        />
+                    )}
+
+                    {/* New Chat button */}
+                    {messages.length > 0 && (
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={handleNewChat}
+                            title="New Chat"
+                        >
+                            <RotateCcw className="size-5" />
+                            <span className="sr-only">New Chat</span>
+                        </Button>
+                    )}
+
+                    {/* Network health dashboard */}
+                    <Button variant="ghost" size="icon" asChild title="Dashboard">
+                        <Link href="/dashboard">
+                            <LayoutDashboard className="size-5" />
+                            <span className="sr-only">Dashboard</span>
+                        </Link>
+                    </Button>
+
+                    {/* New-device alerts */}
+                    <DeviceAlerts />
 
-            {/* Fixed Header */}
-            <header className="flex-none sticky top-0 z-10 flex items-center gap-3 px-4 h-14 border-b bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/60">
-                <h1 className="text-lg font-semibold mr-auto">AI Network Assistant</h1>
+                    {/* Configuration change history */}
+                    <RecentChanges />
 
-                {/* New Chat button */}
-                {messages.length > 0 && (
+                    {/* Logout button */}
                     <Button
                         variant="ghost"
                         size="icon"
-                        onClick={handleNewChat}
-                        title="New Chat"
+                        onClick={async () => {
+                            await fetch('/api/auth/logout', { method: 'POST' });
+                            router.push('/setup');
+                        }}
+                        title="Logout"
                     >
-                        <RotateCcw className="size-5" />
-                        <span className="sr-only">New Chat</span>
+                        <LogOut className="size-5" />
+                        <span className="sr-only">Logout</span>
                     </Button>
-                )}
-
-                {/* Logout button */}
-                <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={async () => {
-                        await fetch('/api/auth/logout', { method: 'POST' });
-                        router.push('/setup');
-                    }}
-                    title="Logout"
-                >
-                    <LogOut className="size-5" />
-                    <span className="sr-only">Logout</span>
-                </Button>
-
-                {/* Theme toggle */}
-                <ModeToggle />
-            </header>
-
-            {/* Scrollable Message Area */}
-            <div className="flex-1 min-h-0 overflow-hidden">
-                <ScrollArea className="h-full p-4">
-                    <div className="max-w-3xl mx-auto space-y-6 pb-4">
-                        {messages.length === 0 && !currentStep && !streamingContent && (
-                            <EmptyState onSuggestionClick={handleSuggestionClick} />
-                        )}
 
-                        {messages.map((message) => (
-                            <ChatMessage key={message.id} message={message} />
-                        ))}
+                    {/* Theme toggle */}
+                    <ModeToggle />
+                </header>
+
+                {/* Scrollable Message Area */}
+                <div className="flex-1 min-h-0 overflow-hidden">
+                    <ScrollArea className="h-full p-4">
+                        <div className="max-w-3xl mx-auto space-y-6 pb-4">
+                            {messages.length === 0 && !currentStep && !streamingContent && (
+                                <EmptyState onSuggestionClick={handleSuggestionClick} />
+                            )}
+
+                            {messages.map((message) => (
+                                <ChatMessage key={message.id} message={message} />
+                            ))}
+
+                            {/* Approval prompt for sensitive actions */}
+                        {pendingConfirmation && !isLoading && (
+                            <ConfirmationCard
+                                actions={pendingConfirmation.actions}
+                                onApprove={() => handleConfirmation(true)}
+                                onReject={() => handleConfirmation(false)}
+                            />
+                        )}
 
                         {/* Streaming content - shows while receiving response */}
-                        {isLoading && streamingContent && (
-                            <div className="flex gap-4 w-full justify-start animate-in fade-in slide-in-from-bottom-2 duration-300">
-                                <Avatar className="size-8 border mt-1">
-                                    <AvatarFallback className="bg-primary text-primary-foreground">AI</AvatarFallback>
-                                </Avatar>
-                                <div className="bg-muted border px-4 py-3 rounded-2xl rounded-tl-sm max-w-[85%]">
-                                    <div className="prose prose-sm dark:prose-invert">
-                                        {streamingContent}
-                                        <span className="inline-block size-2 bg-primary/50 animate-pulse ml-0.5" />
+                            {isLoading && streamingContent && (
+                                <div className="flex gap-4 w-full justify-start animate-in fade-in slide-in-from-bottom-2 duration-300">
+                                    <Avatar className="size-8 border mt-1">
+                                        <AvatarFallback className="bg-primary text-primary-foreground">AI</AvatarFallback>
+                                    </Avatar>
+                                    <div className="bg-muted border px-4 py-3 rounded-2xl rounded-tl-sm max-w-[85%]">
+                                        <div className="prose prose-sm dark:prose-invert">
+                                            {streamingContent}
+                                            <span className="inline-block size-2 bg-primary/50 animate-pulse ml-0.5" />
+                                        </div>
                                     </div>
                                 </div>
-                            </div>
-                        )}
-
-                        {/* Reasoning Trace - shows while processing */}
-                        {isLoading && currentStep && !streamingContent && (
-                            <ReasoningTrace
-                                currentStep={currentStep}
-                                isActive={true}
-                            />
-                        )}
-
-                        {/* Simple loading indicator when no steps yet */}
-                        {isLoading && !currentStep && !streamingContent && (
-                            <div className="flex gap-4 w-full justify-start">
-                                <Avatar className="size-8 border mt-1">
-                                    <AvatarFallback className="bg-primary text-primary-foreground">AI</AvatarFallback>
-                                </Avatar>
-                                <div className="bg-muted border px-4 py-3 rounded-2xl rounded-tl-sm flex items-center gap-2">
-                                    <div className="flex space-x-1">
-                                        <div className="size-2 bg-foreground/40 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
-                                        <div className="size-2 bg-foreground/40 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
-                                        <div className="size-2 bg-foreground/40 rounded-full animate-bounce"></div>
+                            )}
+
+                            {/* Reasoning Trace - shows while processing */}
+                            {isLoading && currentStep && !streamingContent && (
+                                <ReasoningTrace
+                                    currentStep={currentStep}
+                                    isActive={true}
+                                    notices={notices}
+                                />
+                            )}
+
+                            {/* Simple loading indicator when no steps yet */}
+                            {isLoading && !currentStep && !streamingContent && (
+                                <div className="flex gap-4 w-full justify-start">
+                                    <Avatar className="size-8 border mt-1">
+                                        <AvatarFallback className="bg-primary text-primary-foreground">AI</AvatarFallback>
+                                    </Avatar>
+                                    <div className="bg-muted border px-4 py-3 rounded-2xl rounded-tl-sm flex items-center gap-2">
+                                        <div className="flex space-x-1">
+                                            <div className="size-2 bg-foreground/40 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
+                                            <div className="size-2 bg-foreground/40 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
+                                            <div className="size-2 bg-foreground/40 rounded-full animate-bounce"></div>
+                                        </div>
                                     </div>
                                 </div>
-                            </div>
-                        )}
-                        <div ref={messagesEndRef} />
-                    </div>
-                </ScrollArea>
-            </div>
+                            )}
+                            <div ref={messagesEndRef} />
+                        </div>
+                    </ScrollArea>
+                </div>
 
-            {/* Fixed Footer - Input */}
-            <div className="flex-none bg-background pb-4">
-                <ChatInput
-                    input={input}
-                    setInput={setInput}
-                    onSubmit={handleSubmit}
-                    isLoading={isLoading}
-                />
+                {/* Fixed Footer - Input */}
+                <div className="flex-none bg-background pb-4">
+                    <ChatInput
+                        input={input}
+                        setInput={setInput}
+                        onSubmit={handleSubmit}
+                        isLoading={isLoading}
+                    />
+                </div>
             </div>
         </div>
     );
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Cable, Globe, Laptop, RefreshCw, Router, Wifi, Activity } from "lucide-react";
+import { ModeToggle } from "@/components/mode-toggle";
+import { MetricChart } from "@/components/dashboard/metric-chart";
+import { cn } from "@/lib/utils";
+import { useRouters } from "@/hooks/use-routers";
+import { useRouterStatus, useMetrics, MetricSeries } from "@/hooks/use-dashboard";
+
+const selectClassName = "h-9 rounded-md border bg-background px-3 text-sm";
+
+const RANGES = [
+    { hours: 24, label: 'Last 24 hours' },
+    { hours: 24 * 7, label: 'Last 7 days' },
+    { hours: 24 * 30, label: 'Last 30 days' },
+];
+
+// Metrics drawn together on one chart (they share a unit)
+const CHARTS = [
+    { title: 'SNR margin', metrics: ['dsl.snrDown', 'dsl.snrUp'] },
+    { title: 'Line rate', metrics: ['dsl.rateDown', 'dsl.rateUp'] },
+    { title: 'Line errors', metrics: ['dsl.crcErrors', 'dsl.headerErrors'] },
+    { title: 'WiFi traffic', metrics: ['wlan.rxRate', 'wlan.txRate'] },
+    { title: 'WiFi errors', metrics: ['wlan.errors', 'wlan.dropped'] },
+    { title: 'Wired traffic', metrics: ['lan.rxRate', 'lan.txRate'] },
+];
+
+// Router status strings vary by vendor ("Connected", "Up", "Showtime", ...)
+function isUp(status: string | undefined): boolean {
+    return /^(up|connected|showtime|active|online)/i.test(status?.trim() ?? '');
+}
+
+function StatusDot({ up }: { up: boolean }) {
+    return <span className={cn("size-2.5 rounded-full shrink-0", up ? "bg-green-500" : "bg-destructive")} />;
+}
+
+function Row({ label, value }: { label: string; value: React.ReactNode }) {
+    return (
+        <div className="flex justify-between gap-3 text-sm">
+            <span className="text-muted-foreground">{label}</span>
+            <span className="font-medium text-right break-all">{value || '—'}</span>
+        </div>
+    );
+}
+
+function StatusCard({ title, icon: Icon, error, children }: {
+    title: string;
+    icon: typeof Globe;
+    error?: string;
+    children: React.ReactNode;
+}) {
+    return (
+        <Card className="gap-3 py-4">
+            <CardHeader className="px-4">
+                <CardTitle className="flex items-center gap-2 text-sm">
+                    <Icon className="size-4 text-muted-foreground" />
+                    {title}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 space-y-1.5">
+                {error ? <p className="text-sm text-destructive">Unavailable: {error}</p> : children}
+            </CardContent>
+        </Card>
+    );
+}
+
+export default function DashboardPage() {
+    const [routerId, setRouterId] = useState('');
+    const [hours, setHours] = useState(24);
+
+    const { data: routersData, isLoading: isLoadingRouters } = useRouters();
+    const hasRouters = (routersData?.routers.length ?? 0) > 0;
+    const selectedId = routerId || routersData?.activeRouterId || undefined;
+
+    const { data: status, isLoading, isError, isFetching, refetch } = useRouterStatus(selectedId, hasRouters);
+    const { data: metrics } = useMetrics(selectedId, hours, hasRouters);
+
+    const series = new Map<string, MetricSeries>(metrics?.metrics.map(m => [m.metric, m]) ?? []);
+    const charts = CHARTS
+        .map(chart => ({ ...chart, series: chart.metrics.map(m => series.get(m)).filter(s => s !== undefined) }))
+        .filter(chart => chart.series.length > 0);
+
+    const wanUp = isUp(status?.wan?.pppoeStatus) || isUp(status?.wan?.dslStatus) || !!status?.wan?.wanIp;
+
+    return (
+        <div className="min-h-screen bg-background">
+            <header className="sticky top-0 z-10 flex items-center gap-3 px-4 h-14 border-b bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/60">
+                <Button variant="ghost" size="icon" asChild title="Back to Chat">
+                    <Link href="/chat">
+                        <ArrowLeft className="size-5" />
+                        <span className="sr-only">Back to Chat</span>
+                    </Link>
+                </Button>
+                <h1 className="text-lg font-semibold mr-auto">Dashboard</h1>
+                <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isFetching} title="Refresh">
+                    <RefreshCw className={cn("size-5", isFetching && "animate-spin")} />
+                    <span className="sr-only">Refresh</span>
+                </Button>
+                <ModeToggle />
+            </header>
+
+            <main className="max-w-6xl mx-auto p-4 space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                    {(routersData?.routers.length ?? 0) > 1 && (
+                        <select
+                            className={selectClassName}
+                            value={selectedId ?? ''}
+                            onChange={(e) => setRouterId(e.target.value)}
+                            aria-label="Router"
+                        >
+                            {routersData?.routers.map(r => (
+                                <option key={r.id} value={r.id}>{r.name} ({r.ip})</option>
+                            ))}
+                        </select>
+                    )}
+                    {status && (
+                        <p className="text-sm text-muted-foreground">
+                            {status.routerName} · updated {new Date(status.fetchedAt).toLocaleTimeString()}
+                        </p>
+                    )}
+                </div>
+
+                {!isLoadingRouters && !hasRouters && (
+                    <p className="text-sm text-muted-foreground">
+                        <Link href="/setup" className="underline">Log in to a router</Link> to see its dashboard.
+                    </p>
+                )}
+                {isLoading && hasRouters && <p className="text-sm text-muted-foreground">Loading...</p>}
+                {isError && <p className="text-sm text-destructive">Failed to read the router status</p>}
+
+                {status && (
+                    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                        <StatusCard title="Internet" icon={Globe} error={status.errors.wan}>
+                            <div className="flex items-center gap-2 text-sm font-medium">
+                                <StatusDot up={wanUp} />
+                                {wanUp ? 'Connected' : 'Disconnected'}
+                            </div>
+                            <Row label="WAN IP" value={status.wan?.wanIp} />
+                            <Row label="PPPoE" value={status.wan?.pppoeStatus} />
+                            <Row label="Gateway" value={status.wan?.gateway} />
+                            <Row label="DNS" value={[status.wan?.primaryDns, status.wan?.secondaryDns].filter(Boolean).join(', ')} />
+                        </StatusCard>
+
+                        {(status.dsl || status.errors.dsl) && (
+                            <StatusCard title="DSL Line" icon={Activity} error={status.errors.dsl}>
+                                <div className="flex items-center gap-2 text-sm font-medium">
+                                    <StatusDot up={isUp(status.dsl?.linkStatus)} />
+                                    {status.dsl?.linkStatus || 'Unknown'}
+                                </div>
+                                <Row label="SNR margin" value={`${status.dsl?.snrMarginDown} ↓ / ${status.dsl?.snrMarginUp} ↑`} />
+                                <Row label="Attenuation" value={`${status.dsl?.attenuationDown} ↓ / ${status.dsl?.attenuationUp} ↑`} />
+                                <Row label="Line rate" value={`${status.dsl?.lineRateDown} ↓ / ${status.dsl?.lineRateUp} ↑`} />
+                                {status.dsl?.modulation && <Row label="Modulation" value={status.dsl.modulation} />}
+                            </StatusCard>
+                        )}
+
+                        <StatusCard title="Devices" icon={Laptop} error={status.errors.devices}>
+                            <div className="text-3xl font-semibold">{status.devices?.online ?? '—'}</div>
+                            <p className="text-sm text-muted-foreground">
+                                connected now, {status.devices?.known ?? 0} seen in total
+                            </p>
+                        </StatusCard>
+
+                        <StatusCard title="WiFi" icon={Wifi} error={status.errors.wifi}>
+                            <Row label="Network" value={status.wifi?.ssid} />
+                            <Row label="Channel" value={status.wifi?.channel} />
+                            <Row label="Security" value={status.wifi?.securityType} />
+                            <Row label="Clients" value={String(status.wifi?.clients.length ?? 0)} />
+                            <div className="pt-1 space-y-1">
+                                {status.wifi?.clients.slice(0, 5).map(client => (
+                                    <div key={client.mac} className="flex justify-between gap-3 text-xs text-muted-foreground">
+                                        <span className="truncate">{client.hostname || client.ip || client.mac}</span>
+                                        {client.rssi && <span>{client.rssi}</span>}
+                                    </div>
+                                ))}
+                            </div>
+                        </StatusCard>
+
+                        {(status.lanPorts || status.errors.lanPorts) && (
+                            <StatusCard title="LAN Ports" icon={Cable} error={status.errors.lanPorts}>
+                                <div className="flex flex-wrap gap-2">
+                                    {status.lanPorts?.map(port => (
+                                        <div key={port.port} className="flex items-center gap-1.5 rounded-md border px-2 py-1 text-sm">
+                                            <StatusDot up={isUp(port.status)} />
+                                            {port.port}
+                                            <span className="text-xs text-muted-foreground">{port.status ?? 'Unknown'}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </StatusCard>
+                        )}
+
+                        <StatusCard title="Router" icon={Router} error={status.errors.device}>
+                            <Row label="Model" value={status.device?.model} />
+                            <Row label="Firmware" value={status.device?.firmwareVersion} />
+                            <Row label="Uptime" value={status.device?.uptime} />
+                            <Row label="Address" value={status.routerIp} />
+                        </StatusCard>
+                    </div>
+                )}
+
+                {hasRouters && metrics && charts.length > 0 && (
+                    <section className="space-y-3 pt-2">
+                        <div className="flex items-center justify-between gap-2">
+                            <h2 className="text-base font-semibold">History</h2>
+                            <select
+                                className={selectClassName}
+                                value={hours}
+                                onChange={(e) => setHours(Number(e.target.value))}
+                                aria-label="Time range"
+                            >
+                                {RANGES.map(range => (
+                                    <option key={range.hours} value={range.hours}>{range.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="grid gap-4 md:grid-cols-2">
+                            {charts.map(chart => (
+                                <MetricChart
+                                    key={chart.title}
+                                    title={chart.title}
+                                    series={chart.series}
+                                    since={new Date(metrics.since)}
+                                    until={new Date(metrics.until)}
+                                />
+                            ))}
+                        </div>
+                    </section>
+                )}
+            </main>
+        </div>
+    );
+}
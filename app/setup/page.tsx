@@ -6,14 +6,19 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Loader2, Router, ShieldCheck, AlertCircle, Info } from "lucide-react";
-import { useDetectRouter } from "@/hooks/use-detect-router";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Router, ShieldCheck, AlertCircle, AlertTriangle, Info } from "lucide-react";
+import { useDetectRouter, DetectedRouter } from "@/hooks/use-detect-router";
 import { useLoginRouter } from "@/hooks/use-login-router";
 
 export default function SetupPage() {
     const router = useRouter();
     const [step, setStep] = useState<'detect' | 'login'>('detect');
-    const [routerInfo, setRouterInfo] = useState<{ name: string; ip: string } | null>(null);
+    const [routerInfo, setRouterInfo] = useState<DetectedRouter | null>(null);
+    const [adapterId, setAdapterId] = useState('');
+    const [routerIp, setRouterIp] = useState('');
+    const [routerName, setRouterName] = useState('');
+    const [remember, setRemember] = useState(false);
     const [username, setUsername] = useState('admin');
     const [password, setPassword] = useState('396E9');
 
@@ -36,6 +41,9 @@ export default function SetupPage() {
     useEffect(() => {
         if (detectionData?.found && detectionData.router) {
             setRouterInfo(detectionData.router);
+            setAdapterId(detectionData.router.adapterId ?? '');
+            setRouterIp(detectionData.router.ip);
+            setRouterName(detectionData.router.name);
             setStep('login');
         }
     }, [detectionData]);
@@ -43,13 +51,16 @@ export default function SetupPage() {
     const handleLogin = (e: React.FormEvent) => {
         e.preventDefault();
 
-        if (!routerInfo) return;
+        if (!routerInfo || !adapterId || !routerIp) return;
 
         loginRouter(
             {
-                ip: routerInfo.ip,
+                ip: routerIp,
                 username,
-                password
+                password,
+                adapterId,
+                name: routerName,
+                remember
             },
             {
                 onSuccess: () => {
@@ -102,14 +113,73 @@ export default function SetupPage() {
 
                     {step === 'login' && routerInfo && (
                         <form onSubmit={handleLogin} className="space-y-4">
-                            <div className="flex items-center gap-2 p-3 rounded-lg bg-green-500/10 border border-green-500/20">
-                                <ShieldCheck className="w-5 h-5 text-green-500" />
-                                <div className="flex-1">
-                                    <p className="text-sm font-medium">Router Detected</p>
-                                    <p className="text-xs text-muted-foreground">{routerInfo.name} ({routerInfo.ip})</p>
+                            {routerInfo.supported ? (
+                                <div className="flex items-center gap-2 p-3 rounded-lg bg-green-500/10 border border-green-500/20">
+                                    <ShieldCheck className="w-5 h-5 text-green-500" />
+                                    <div className="flex-1">
+                                        <p className="text-sm font-medium">{routerInfo.name} detected</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {routerInfo.ip} · {Math.round(routerInfo.confidence * 100)}% confidence
+                                        </p>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
+                                    <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
+                                    <div className="flex-1">
+                                        <p className="text-sm font-medium">{routerInfo.name} is not supported yet</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            No adapter matched the router at {routerInfo.ip}. If you know it is compatible, choose an adapter below.
+                                        </p>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                    <Label htmlFor="router-name">Name</Label>
+                                    <Input
+                                        id="router-name"
+                                        type="text"
+                                        placeholder="e.g. Upstairs AP"
+                                        value={routerName}
+                                        onChange={(e) => setRouterName(e.target.value)}
+                                        disabled={isLoggingIn}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="router-ip">Address</Label>
+                                    <Input
+                                        id="router-ip"
+                                        type="text"
+                                        placeholder="192.168.1.1"
+                                        value={routerIp}
+                                        onChange={(e) => setRouterIp(e.target.value)}
+                                        disabled={isLoggingIn}
+                                        required
+                                    />
                                 </div>
                             </div>
 
+                            {/* Another address (e.g. an access point) may be a different router type */}
+                            {(!routerInfo.supported || routerInfo.confidence < 0.5 || routerIp !== routerInfo.ip) && (
+                                <div className="space-y-2">
+                                    <Label htmlFor="adapter">Router type</Label>
+                                    <select
+                                        id="adapter"
+                                        value={adapterId}
+                                        onChange={(e) => setAdapterId(e.target.value)}
+                                        disabled={isLoggingIn}
+                                        className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring"
+                                    >
+                                        <option value="">Select a router type...</option>
+                                        {detectionData?.adapters?.map((adapter) => (
+                                            <option key={adapter.id} value={adapter.id}>{adapter.vendor}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
                             <div className="space-y-2">
                                 <Label htmlFor="username">Username</Label>
                                 <Input
@@ -136,7 +206,22 @@ export default function SetupPage() {
                                 />
                             </div>
 
-                            <Button type="submit" className="w-full" disabled={isLoggingIn}>
+                            <div className="flex items-start justify-between gap-3">
+                                <div className="space-y-0.5">
+                                    <Label htmlFor="remember">Stay signed in</Label>
+                                    <p className="text-xs text-muted-foreground">
+                                        Store the password encrypted on the server to log in again automatically when the router session expires.
+                                    </p>
+                                </div>
+                                <Switch
+                                    id="remember"
+                                    checked={remember}
+                                    onCheckedChange={setRemember}
+                                    disabled={isLoggingIn}
+                                />
+                            </div>
+
+                            <Button type="submit" className="w-full" disabled={isLoggingIn || !adapterId}>
                                 {isLoggingIn ? (
                                     <>
                                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
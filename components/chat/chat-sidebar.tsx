@@ -1,7 +1,9 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { MessageSquare, Plus, X } from "lucide-react";
+import { MessageSquare, Pencil, Plus, Search, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface ChatHistory {
@@ -16,6 +18,9 @@ interface SidebarProps {
     onNewChat: () => void;
     onSelectChat: (id: string) => void;
     onDeleteChat: (id: string, e: React.MouseEvent) => void;
+    onRenameChat?: (id: string, title: string) => void;
+    searchQuery?: string;
+    onSearchChange?: (query: string) => void;
     className?: string;
 }
 
@@ -25,33 +30,85 @@ export function ChatSidebar({
     onNewChat,
     onSelectChat,
     onDeleteChat,
+    onRenameChat,
+    searchQuery,
+    onSearchChange,
     className
 }: SidebarProps) {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editTitle, setEditTitle] = useState('');
+
+    const startRename = (chat: ChatHistory, e: React.MouseEvent) => {
+        e.stopPropagation();
+        setEditingId(chat.id);
+        setEditTitle(chat.title);
+    };
+
+    const finishRename = () => {
+        if (editingId && editTitle.trim()) onRenameChat?.(editingId, editTitle.trim());
+        setEditingId(null);
+    };
+
     return (
         <div className={cn("flex flex-col h-full", className)}>
             <div className="p-4 border-b">
                 <Button onClick={onNewChat} className="w-full justify-start gap-2" variant="default">
                     <Plus className="size-4" /> New Chat
                 </Button>
+                {onSearchChange && (
+                    <div className="relative mt-3">
+                        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+                        <Input
+                            value={searchQuery ?? ''}
+                            onChange={(e) => onSearchChange(e.target.value)}
+                            placeholder="Search chats"
+                            className="pl-8"
+                        />
+                    </div>
+                )}
             </div>
             <ScrollArea className="flex-1 p-2">
                 <div className="space-y-2">
                     <h3 className="text-xs font-semibold text-muted-foreground px-2 py-2">Recent Chats</h3>
                     {chatHistory.length === 0 && (
-                        <p className="text-sm text-muted-foreground px-2">No recent chats</p>
+                        <p className="text-sm text-muted-foreground px-2">
+                            {searchQuery ? 'No matching chats' : 'No recent chats'}
+                        </p>
                     )}
-                    {chatHistory.map((chat) => (
+                    {chatHistory.map((chat) => editingId === chat.id ? (
+                        <Input
+                            key={chat.id}
+                            value={editTitle}
+                            autoFocus
+                            onChange={(e) => setEditTitle(e.target.value)}
+                            onBlur={finishRename}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') finishRename();
+                                if (e.key === 'Escape') setEditingId(null);
+                            }}
+                        />
+                    ) : (
                         <Button
                             key={chat.id}
                             variant={chat.id === currentChatId ? "secondary" : "ghost"}
-                            className="w-full justify-start text-left font-normal group relative pr-8"
+                            className={cn("w-full justify-start text-left font-normal group relative", onRenameChat ? "pr-14" : "pr-8")}
                             onClick={() => onSelectChat(chat.id)}
                         >
                             <MessageSquare className="mr-2 size-4" />
                             <span className="truncate">{chat.title}</span>
+                            {onRenameChat && (
+                                <div
+                                    className="absolute right-8 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-background rounded-sm cursor-pointer"
+                                    onClick={(e) => startRename(chat, e)}
+                                    title="Rename"
+                                >
+                                    <Pencil className="size-3 text-muted-foreground" />
+                                </div>
+                            )}
                             <div
                                 className="absolute right-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-background rounded-sm cursor-pointer"
                                 onClick={(e) => onDeleteChat(chat.id, e)}
+                                title="Delete"
                             >
                                 <X className="size-3 text-muted-foreground" />
                             </div>
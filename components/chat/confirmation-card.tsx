@@ -0,0 +1,76 @@
+'use client';
+
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { ArrowRight, Check, ShieldAlert, TriangleAlert, X } from "lucide-react";
+import type { PendingAction } from "@/lib/chat/confirmation";
+
+interface ConfirmationCardProps {
+    actions: PendingAction[];
+    onApprove: () => void;
+    onReject: () => void;
+    disabled?: boolean;
+    className?: string;
+}
+
+/**
+ * Asks the user to approve or reject sensitive actions before the agent runs them.
+ * Shows what will change (current → new value) for each action.
+ */
+export function ConfirmationCard({ actions, onApprove, onReject, disabled, className }: ConfirmationCardProps) {
+    return (
+        <div className={cn("flex gap-4 w-full justify-start animate-in fade-in slide-in-from-bottom-2 duration-300", className)}>
+            <Avatar className="size-8 border mt-1">
+                <AvatarFallback className="bg-primary text-primary-foreground">AI</AvatarFallback>
+            </Avatar>
+
+            <div className="bg-muted border rounded-2xl rounded-tl-sm px-4 py-3 max-w-[85%] space-y-3">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                    <ShieldAlert className="size-4 text-amber-500" />
+                    <span>Your approval is needed</span>
+                </div>
+
+                {actions.map((action) => (
+                    <div key={action.toolCallId} className="rounded-lg border bg-background px-3 py-2 space-y-1.5">
+                        <div className="text-sm font-medium">
+                            {action.title}
+                            {action.router && (
+                                <span className="font-normal text-muted-foreground"> on {action.router}</span>
+                            )}
+                        </div>
+
+                        {action.changes.map((change, index) => (
+                            <div key={index} className="flex flex-wrap items-center gap-1.5 text-xs">
+                                <span className="text-muted-foreground">{change.field}:</span>
+                                {change.from !== undefined && (
+                                    <>
+                                        <span className="line-through text-muted-foreground">{change.from}</span>
+                                        <ArrowRight className="size-3 text-muted-foreground" />
+                                    </>
+                                )}
+                                <span className="font-medium">{change.to}</span>
+                            </div>
+                        ))}
+
+                        {action.warning && (
+                            <div className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+                                <TriangleAlert className="size-3.5" />
+                                <span>{action.warning}</span>
+                            </div>
+                        )}
+                    </div>
+                ))}
+
+                <div className="flex gap-2">
+                    <Button size="sm" onClick={onApprove} disabled={disabled}>
+                        <Check className="size-4" /> Approve
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={onReject} disabled={disabled}>
+                        <X className="size-4" /> Reject
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Bell, LogIn, LogOut } from "lucide-react";
+import { useDeviceAlerts, useDeviceEvents, useDismissDeviceAlerts, DeviceEvent } from "@/hooks/use-device-events";
+
+function describeDevice(event: DeviceEvent): string {
+    const details = [event.ip, event.vendor].filter(Boolean).join(', ');
+    return `${event.name || event.mac}${details ? ` (${details})` : ''}`;
+}
+
+/**
+ * Header bell for new-device alerts, with a sheet listing them and
+ * the last day of devices joining and leaving
+ */
+export function DeviceAlerts() {
+    const [open, setOpen] = useState(false);
+    const { data: alerts } = useDeviceAlerts();
+    const { data: events, isLoading } = useDeviceEvents(24, open);
+    const { mutate: dismiss, isPending } = useDismissDeviceAlerts();
+
+    // Toast alerts that arrive while the page is open (not the ones already there on load)
+    const seenIds = useRef<Set<string> | null>(null);
+    useEffect(() => {
+        if (!alerts) return;
+        if (seenIds.current) {
+            for (const alert of alerts.filter(a => !seenIds.current!.has(a.id))) {
+                toast.warning('New Device Joined', {
+                    description: `${describeDevice(alert)} on ${alert.routerName || alert.routerIp}`,
+                });
+            }
+        }
+        seenIds.current = new Set(alerts.map(a => a.id));
+    }, [alerts]);
+
+    const count = alerts?.length ?? 0;
+
+    return (
+        <Sheet open={open} onOpenChange={setOpen}>
+            <SheetTrigger asChild>
+                <Button variant="ghost" size="icon" title="Device Alerts" className="relative">
+                    <Bell className="size-5" />
+                    {count > 0 && (
+                        <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-[10px] leading-4 text-white">
+                            {count > 9 ? '9+' : count}
+                        </span>
+                    )}
+                    <span className="sr-only">Device Alerts</span>
+                </Button>
+            </SheetTrigger>
+            <SheetContent className="w-full sm:max-w-md">
+                <SheetHeader>
+                    <SheetTitle>Device Alerts</SheetTitle>
+                    <SheetDescription>
+                        Devices seen on your network for the first time, and who joined or left today.
+                    </SheetDescription>
+                </SheetHeader>
+
+                <ScrollArea className="flex-1 min-h-0 px-4 pb-4">
+                    <div className="space-y-5">
+                        <section className="space-y-3">
+                            <div className="flex items-center justify-between">
+                                <h3 className="text-sm font-medium">New devices</h3>
+                                {count > 0 && (
+                                    <Button size="sm" variant="outline" onClick={() => dismiss(undefined)} disabled={isPending}>
+                                        Dismiss all
+                                    </Button>
+                                )}
+                            </div>
+                            {count === 0 && (
+                                <p className="text-sm text-muted-foreground">No new devices</p>
+                            )}
+                            {alerts?.map((alert) => (
+                                <div key={alert.id} className="rounded-lg border border-destructive/40 px-3 py-2 space-y-1.5">
+                                    <div className="flex items-start justify-between gap-2">
+                                        <div className="text-sm font-medium break-all">{describeDevice(alert)}</div>
+                                        <Button size="sm" variant="ghost" onClick={() => dismiss([alert.id])} disabled={isPending}>
+                                            Dismiss
+                                        </Button>
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                        {alert.mac} · {alert.routerName || alert.routerIp} · {new Date(alert.createdAt).toLocaleString()}
+                                    </div>
+                                </div>
+                            ))}
+                        </section>
+
+                        <section className="space-y-2">
+                            <h3 className="text-sm font-medium">Last 24 hours</h3>
+                            {isLoading && (
+                                <p className="text-sm text-muted-foreground">Loading...</p>
+                            )}
+                            {events?.length === 0 && (
+                                <p className="text-sm text-muted-foreground">No devices joined or left</p>
+                            )}
+                            {events?.map((event) => (
+                                <div key={event.id} className="flex items-start gap-2 text-sm">
+                                    {event.type === 'joined' ? (
+                                        <LogIn className="size-4 mt-0.5 text-green-600 shrink-0" />
+                                    ) : (
+                                        <LogOut className="size-4 mt-0.5 text-muted-foreground shrink-0" />
+                                    )}
+                                    <div className="min-w-0">
+                                        <div className="break-all">
+                                            {describeDevice(event)} {event.type}
+                                            {event.isNew && <span className="ml-1 text-xs text-destructive">new</span>}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground">
+                                            {event.routerName || event.routerIp} · {new Date(event.createdAt).toLocaleString()}
+                                        </div>
+                                    </div>
+                                </div>
+                            ))}
+                        </section>
+                    </div>
+                </ScrollArea>
+            </SheetContent>
+        </Sheet>
+    );
+}
@@ -2,11 +2,13 @@
 
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { cn } from "@/lib/utils";
-import { Loader2 } from "lucide-react";
+import { Loader2, RefreshCw } from "lucide-react";
 
 interface ReasoningTraceProps {
     currentStep: string;
     isActive: boolean;
+    /** Things that happened along the way (e.g. an automatic re-login) */
+    notices?: string[];
     className?: string;
 }
 
@@ -14,7 +16,7 @@ interface ReasoningTraceProps {
  * Displays the current reasoning step while the AI agent is processing.
  * Shows only the active step with a smooth transition.
  */
-export function ReasoningTrace({ currentStep, isActive, className }: ReasoningTraceProps) {
+export function ReasoningTrace({ currentStep, isActive, notices = [], className }: ReasoningTraceProps) {
     if (!isActive || !currentStep) return null;
 
     return (
@@ -28,6 +30,12 @@ export function ReasoningTrace({ currentStep, isActive, className }: ReasoningTr
                     <Loader2 className="size-4 animate-spin text-primary" />
                     <span className="animate-pulse">{currentStep}</span>
                 </div>
+                {notices.map((notice, index) => (
+                    <div key={index} className="flex items-center gap-2.5 mt-1.5 text-xs text-muted-foreground">
+                        <RefreshCw className="size-3.5" />
+                        <span>{notice}</span>
+                    </div>
+                ))}
             </div>
         </div>
     );
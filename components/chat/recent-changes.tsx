@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { History, ScrollText, Undo2 } from "lucide-react";
+import { useSnapshots, useRevertSnapshot } from "@/hooks/use-snapshots";
+
+/**
+ * Header button + sheet listing recent configuration changes,
+ * each with a one-click revert
+ */
+export function RecentChanges() {
+    const [open, setOpen] = useState(false);
+    const { data: changes, isLoading } = useSnapshots(open);
+    const { mutate: revert, isPending, variables: revertingId } = useRevertSnapshot();
+
+    return (
+        <Sheet open={open} onOpenChange={setOpen}>
+            <SheetTrigger asChild>
+                <Button variant="ghost" size="icon" title="Recent Changes">
+                    <History className="size-5" />
+                    <span className="sr-only">Recent Changes</span>
+                </Button>
+            </SheetTrigger>
+            <SheetContent className="w-full sm:max-w-md">
+                <SheetHeader>
+                    <SheetTitle>Recent Changes</SheetTitle>
+                    <SheetDescription>
+                        Settings are saved before every change, so you can put them back.
+                    </SheetDescription>
+                    <Link href="/audit" className="flex items-center gap-1.5 text-sm underline-offset-4 hover:underline">
+                        <ScrollText className="size-4" />
+                        View full audit log
+                    </Link>
+                </SheetHeader>
+
+                <ScrollArea className="flex-1 min-h-0 px-4 pb-4">
+                    <div className="space-y-3">
+                        {isLoading && (
+                            <p className="text-sm text-muted-foreground">Loading...</p>
+                        )}
+                        {changes?.length === 0 && (
+                            <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+                        )}
+                        {changes?.map((change) => (
+                            <div key={change.id} className="rounded-lg border px-3 py-2 space-y-1.5">
+                                <div className="flex items-start justify-between gap-2">
+                                    <div className="text-sm font-medium break-all">{change.summary}</div>
+                                    {change.revertedAt ? (
+                                        <span className="text-xs text-muted-foreground whitespace-nowrap">Reverted</span>
+                                    ) : (
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => revert(change.id)}
+                                            disabled={isPending}
+                                        >
+                                            <Undo2 className="size-4" />
+                                            {isPending && revertingId === change.id ? 'Reverting...' : 'Revert'}
+                                        </Button>
+                                    )}
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                    {change.routerName || change.routerIp} · {new Date(change.createdAt).toLocaleString()}
+                                    {change.user && <> · {change.user}</>}
+                                </div>
+                                {change.chatMessage && (
+                                    <div className="text-xs italic text-muted-foreground truncate">
+                                        &ldquo;{change.chatMessage}&rdquo;
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </ScrollArea>
+            </SheetContent>
+        </Sheet>
+    );
+}
@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import { Plus, Router } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { RouterSummary } from "@/hooks/use-routers";
+
+interface RouterSwitcherProps {
+    routers: RouterSummary[];
+    selectedIds: string[];
+    onChange: (ids: string[]) => void;
+    onAddRouter: () => void;
+    disabled?: boolean;
+}
+
+// Chooses which logged-in routers the next chat message targets.
+// Click a router to toggle it; at least one stays selected.
+export function RouterSwitcher({ routers, selectedIds, onChange, onAddRouter, disabled }: RouterSwitcherProps) {
+    const toggle = (id: string) => {
+        if (selectedIds.includes(id)) {
+            if (selectedIds.length > 1) onChange(selectedIds.filter(selected => selected !== id));
+        } else {
+            onChange([...selectedIds, id]);
+        }
+    };
+
+    const allSelected = routers.length > 1 && routers.every(r => selectedIds.includes(r.id));
+
+    return (
+        <div className="flex items-center gap-1 overflow-x-auto">
+            {routers.map((router) => (
+                <Button
+                    key={router.id}
+                    variant={selectedIds.includes(router.id) ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => toggle(router.id)}
+                    disabled={disabled}
+                    title={`${router.name} (${router.ip})`}
+                    className={cn("gap-1.5", !selectedIds.includes(router.id) && "text-muted-foreground")}
+                >
+                    <Router className="size-4" />
+                    <span className="max-w-32 truncate">{router.name}</span>
+                </Button>
+            ))}
+            {routers.length > 1 && !allSelected && (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(routers.map(r => r.id))}
+                    disabled={disabled}
+                    className="text-muted-foreground"
+                >
+                    All
+                </Button>
+            )}
+            <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={onAddRouter}
+                disabled={disabled}
+                title="Add Router"
+            >
+                <Plus className="size-4" />
+                <span className="sr-only">Add Router</span>
+            </Button>
+        </div>
+    );
+}
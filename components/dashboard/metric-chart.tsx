@@ -0,0 +1,103 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { MetricSeries } from "@/hooks/use-dashboard";
+
+const COLORS = ['var(--chart-1)', 'var(--chart-2)', 'var(--chart-3)', 'var(--chart-4)', 'var(--chart-5)'];
+const WIDTH = 300;
+const HEIGHT = 100;
+
+function formatValue(value: number): string {
+    return Math.abs(value) >= 100 ? Math.round(value).toLocaleString() : value.toFixed(1);
+}
+
+function formatTime(date: Date, spanHours: number): string {
+    return spanHours > 48
+        ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+        : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Line chart of one or more sampled metrics that share a unit
+ */
+export function MetricChart({ title, series, since, until }: {
+    title: string;
+    series: MetricSeries[];
+    since: Date;
+    until: Date;
+}) {
+    const values = series.flatMap(s => s.points.map(p => p.value));
+    const hasData = values.length > 0;
+    const unit = series[0]?.unit ?? '';
+
+    // Pad the range so flat lines don't sit on the edge
+    let min = hasData ? Math.min(...values) : 0;
+    let max = hasData ? Math.max(...values) : 1;
+    if (max === min) {
+        min -= 1;
+        max += 1;
+    }
+    const padding = (max - min) * 0.1;
+    min -= padding;
+    max += padding;
+
+    const span = until.getTime() - since.getTime();
+    const x = (at: string) => ((new Date(at).getTime() - since.getTime()) / span) * WIDTH;
+    const y = (value: number) => HEIGHT - ((value - min) / (max - min)) * HEIGHT;
+
+    return (
+        <Card className="gap-3 py-4">
+            <CardHeader className="px-4">
+                <CardTitle className="text-sm">{title}</CardTitle>
+                <CardDescription className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                    {series.map((s, i) => (
+                        <span key={s.metric} className="flex items-center gap-1.5">
+                            <span className="size-2 rounded-full" style={{ background: COLORS[i % COLORS.length] }} />
+                            {s.label}
+                            {s.summary && <span className="font-medium text-foreground">{formatValue(s.summary.last)} {s.unit}</span>}
+                        </span>
+                    ))}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="px-4">
+                {hasData ? (
+                    <div className="flex gap-2">
+                        <div className="flex flex-col justify-between text-[10px] text-muted-foreground text-right w-10 shrink-0">
+                            <span>{formatValue(max)}</span>
+                            <span>{unit}</span>
+                            <span>{formatValue(min)}</span>
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <svg
+                                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                                preserveAspectRatio="none"
+                                className="w-full h-28 rounded border bg-muted/30"
+                                role="img"
+                                aria-label={title}
+                            >
+                                {series.map((s, i) => (
+                                    <polyline
+                                        key={s.metric}
+                                        fill="none"
+                                        stroke={COLORS[i % COLORS.length]}
+                                        strokeWidth={2}
+                                        vectorEffect="non-scaling-stroke"
+                                        points={s.points.map(p => `${x(p.at)},${y(p.value)}`).join(' ')}
+                                    />
+                                ))}
+                            </svg>
+                            <div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+                                <span>{formatTime(since, span / 3_600_000)}</span>
+                                <span>{formatTime(until, span / 3_600_000)}</span>
+                            </div>
+                        </div>
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        No samples yet. Figures are sampled in the background every few minutes.
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,50 @@
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+
+export type AuditOutcome = 'success' | 'unconfirmed' | 'failed';
+
+export interface AuditLogEntry {
+    id: string;
+    routerIp: string;
+    routerName: string | null;
+    routerId: string | null;
+    sessionId: string | null;
+    user: string | null;
+    toolName: string;
+    /** Human-friendly name of the action */
+    action: string;
+    args: Record<string, unknown>;
+    before?: unknown;
+    after?: unknown;
+    outcome: AuditOutcome;
+    result: string;
+    conversationId: string | null;
+    messageId: string | null;
+    createdAt: string;
+}
+
+export interface AuditLogFilter {
+    routerId?: string;
+    tool?: string;
+    outcome?: AuditOutcome;
+    user?: string;
+}
+
+export function useAuditLog(filter: AuditLogFilter, enabled: boolean = true) {
+    return useQuery({
+        queryKey: ['audit', filter.routerId, filter.tool, filter.outcome, filter.user],
+        queryFn: async () => {
+            const response = await axios.get<{ entries: AuditLogEntry[] }>('/api/audit', {
+                params: {
+                    routerId: filter.routerId || undefined,
+                    tool: filter.tool || undefined,
+                    outcome: filter.outcome || undefined,
+                    user: filter.user || undefined,
+                },
+            });
+            return response.data.entries;
+        },
+        enabled,
+        refetchOnWindowFocus: false,
+    });
+}
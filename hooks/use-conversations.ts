@@ -0,0 +1,87 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import axios, { AxiosError } from 'axios';
+import { toast } from 'sonner';
+
+export interface ConversationSummary {
+    id: string;
+    title: string;
+    routerIp: string | null;
+    routerName: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ConversationMessage {
+    id: string;
+    role: 'user' | 'assistant';
+    content: string;
+    createdAt: string;
+}
+
+export interface ConversationDetail extends ConversationSummary {
+    messages: ConversationMessage[];
+}
+
+export function useConversations(filter: { routerIp?: string; query?: string }, enabled: boolean = true) {
+    return useQuery({
+        queryKey: ['conversations', filter.routerIp ?? null, filter.query ?? ''],
+        queryFn: async () => {
+            const response = await axios.get<{ conversations: ConversationSummary[] }>('/api/conversations', {
+                params: { routerIp: filter.routerIp, q: filter.query || undefined },
+            });
+            return response.data.conversations;
+        },
+        enabled,
+        refetchOnWindowFocus: false,
+        // History is optional; don't hammer a missing database
+        retry: false,
+    });
+}
+
+export function useLoadConversation() {
+    return useMutation({
+        mutationFn: async (id: string) => {
+            const response = await axios.get<{ conversation: ConversationDetail }>(`/api/conversations/${id}`);
+            return response.data.conversation;
+        },
+        onError: (error: AxiosError<{ message?: string }>) => {
+            toast.error('Load Failed', {
+                description: error.response?.data?.message || 'Failed to load conversation',
+            });
+        },
+    });
+}
+
+export function useRenameConversation() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ id, title }: { id: string; title: string }) => {
+            const response = await axios.patch(`/api/conversations/${id}`, { title });
+            return response.data;
+        },
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['conversations'] }),
+        onError: (error: AxiosError<{ message?: string }>) => {
+            toast.error('Rename Failed', {
+                description: error.response?.data?.message || 'Failed to rename conversation',
+            });
+        },
+    });
+}
+
+export function useDeleteConversation() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (id: string) => {
+            const response = await axios.delete(`/api/conversations/${id}`);
+            return response.data;
+        },
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['conversations'] }),
+        onError: (error: AxiosError<{ message?: string }>) => {
+            toast.error('Delete Failed', {
+                description: error.response?.data?.message || 'Failed to delete conversation',
+            });
+        },
+    });
+}
@@ -0,0 +1,97 @@
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+
+export interface RouterStatus {
+    routerId: string;
+    routerName: string;
+    routerIp: string;
+    device: {
+        model: string;
+        firmwareVersion: string;
+        uptime: string;
+        lanMac: string;
+        wlanMac: string;
+        lanStatus: string;
+        wlanStatus: string;
+    } | null;
+    wan: {
+        wanIp: string;
+        pppoeStatus: string;
+        dslStatus: string;
+        gateway: string;
+        primaryDns: string;
+        secondaryDns: string;
+    } | null;
+    wifi: {
+        ssid: string;
+        encrypted: boolean;
+        securityType: string;
+        channel: string;
+        noise: string;
+        clients: Array<{ mac: string; hostname: string; ip: string; rssi: string }>;
+    } | null;
+    dsl: {
+        snrMarginDown: string;
+        snrMarginUp: string;
+        attenuationDown: string;
+        attenuationUp: string;
+        lineRateDown: string;
+        lineRateUp: string;
+        linkStatus: string;
+        modulation?: string;
+    } | null;
+    devices: { online: number; known: number } | null;
+    lanPorts: Array<{ port: string; status?: string; bytesSent: number; bytesReceived: number }> | null;
+    errors: Record<string, string>;
+    fetchedAt: string;
+}
+
+export interface MetricSeries {
+    metric: string;
+    label: string;
+    unit: string;
+    summary: { samples: number; min: number; max: number; avg: number; first: number; last: number; trendPerDay: number | null } | null;
+    points: Array<{ at: string; value: number }>;
+}
+
+interface MetricsResponse {
+    routerId: string;
+    since: string;
+    until: string;
+    available: string[];
+    metrics: MetricSeries[];
+}
+
+// Status reads several router pages; the metrics only change when the collector samples
+const STATUS_REFRESH_MS = 30_000;
+const METRICS_REFRESH_MS = 60_000;
+
+export function useRouterStatus(routerId: string | undefined, enabled: boolean = true) {
+    return useQuery({
+        queryKey: ['status', routerId],
+        queryFn: async () => {
+            const response = await axios.get<RouterStatus>('/api/status', {
+                params: { routerId: routerId || undefined },
+            });
+            return response.data;
+        },
+        enabled,
+        refetchInterval: STATUS_REFRESH_MS,
+        refetchOnWindowFocus: false,
+    });
+}
+
+export function useMetrics(routerId: string | undefined, hours: number, enabled: boolean = true) {
+    return useQuery({
+        queryKey: ['metrics', routerId, hours],
+        queryFn: async () => {
+            const response = await axios.get<MetricsResponse>('/api/metrics', {
+                params: { routerId: routerId || undefined, hours, points: 120 },
+            });
+            return response.data;
+        },
+        enabled,
+        refetchInterval: METRICS_REFRESH_MS,
+        refetchOnWindowFocus: false,
+    });
+}
@@ -1,12 +1,24 @@
 import { useQuery } from '@tanstack/react-query';
 import axios from 'axios';
+import type { GatewayCandidate } from '@/lib/network/gateway';
+
+export interface DetectedRouter {
+    name: string;
+    ip: string;
+    vendor: string | null;
+    model: string | null;
+    confidence: number;
+    adapterId: string | null;
+    supported: boolean;
+    signals: string[];
+}
 
 interface DetectRouterResponse {
     found: boolean;
-    router?: {
-        name: string;
-        ip: string;
-    };
+    router?: DetectedRouter;
+    adapters?: Array<{ id: string; vendor: string }>;
+    /** Every default route found on the machine, preferred first */
+    gateways?: GatewayCandidate[];
 }
 
 export function useDetectRouter(enabled: boolean = true) {
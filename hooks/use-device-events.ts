@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import axios, { AxiosError } from 'axios';
+import { toast } from 'sonner';
+
+export interface DeviceEvent {
+    id: string;
+    routerIp: string;
+    routerId?: string;
+    routerName?: string;
+    mac: string;
+    type: 'joined' | 'left';
+    /** First time the device was ever seen */
+    isNew: boolean;
+    name: string | null;
+    ip: string | null;
+    vendor: string | null;
+    dismissedAt: string | null;
+    createdAt: string;
+}
+
+// The presence monitor checks every couple of minutes; polling faster gains nothing
+const REFRESH_INTERVAL_MS = 30_000;
+
+/**
+ * New-device alerts nobody has dismissed yet, refreshed in the background
+ */
+export function useDeviceAlerts() {
+    return useQuery({
+        queryKey: ['device-events', 'alerts'],
+        queryFn: async () => {
+            const response = await axios.get<{ events: DeviceEvent[] }>('/api/devices/events', {
+                params: { newOnly: 1, undismissed: 1 },
+            });
+            return response.data.events;
+        },
+        refetchInterval: REFRESH_INTERVAL_MS,
+        refetchOnWindowFocus: false,
+    });
+}
+
+/**
+ * Recent joins and leaves
+ */
+export function useDeviceEvents(hours: number, enabled: boolean = true) {
+    return useQuery({
+        queryKey: ['device-events', 'recent', hours],
+        queryFn: async () => {
+            const response = await axios.get<{ events: DeviceEvent[] }>('/api/devices/events', {
+                params: { hours },
+            });
+            return response.data.events;
+        },
+        enabled,
+        refetchInterval: enabled ? REFRESH_INTERVAL_MS : false,
+        refetchOnWindowFocus: false,
+    });
+}
+
+export function useDismissDeviceAlerts() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (ids?: string[]) => {
+            const response = await axios.post<{ success: boolean; message: string }>('/api/devices/events', { ids });
+            return response.data;
+        },
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['device-events'] }),
+        onError: (error: AxiosError<{ message?: string }>) => {
+            toast.error('Dismiss Failed', {
+                description: error.response?.data?.message || 'Failed to dismiss alerts',
+            });
+        },
+    });
+}
@@ -6,6 +6,9 @@ interface LoginRouterRequest {
     ip: string;
     username: string;
     password: string;
+    adapterId?: string;
+    name?: string;
+    remember?: boolean;
 }
 
 interface LoginRouterResponse {
@@ -13,6 +16,8 @@ interface LoginRouterResponse {
     cookies: string;
     sessionId?: string;
     message?: string;
+    routerId?: string;
+    credentialsSaved?: boolean;
 }
 
 export function useLoginRouter() {
@@ -21,11 +26,16 @@ export function useLoginRouter() {
             const response = await axios.post<LoginRouterResponse>('/api/setup/login', credentials);
             return response.data;
         },
-        onSuccess: (_, variables) => {
+        onSuccess: (data, variables) => {
             // Session is stored in database by the API, no need for localStorage
             toast.success('Connected Successfully!', {
-                description: `Logged in to router at ${variables.ip}`,
+                description: `Logged in to ${variables.name || 'router'} at ${variables.ip}`,
             });
+            if (variables.remember && !data.credentialsSaved) {
+                toast.warning('Automatic re-login unavailable', {
+                    description: 'The server has no ROUTER_CREDENTIALS_KEY configured, so your password was not stored.',
+                });
+            }
         },
         onError: (error: any) => {
             const errorMessage = error.response?.data?.message || 'Failed to connect to router';
@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import axios, { AxiosError } from 'axios';
+import { toast } from 'sonner';
+
+export interface RouterSummary {
+    id: string;
+    name: string;
+    ip: string;
+    adapterId?: string;
+}
+
+interface RoutersResponse {
+    routers: RouterSummary[];
+    activeRouterId: string | null;
+}
+
+export function useRouters(enabled: boolean = true) {
+    return useQuery({
+        queryKey: ['routers'],
+        queryFn: async () => {
+            const response = await axios.get<RoutersResponse>('/api/routers');
+            return response.data;
+        },
+        enabled,
+        refetchOnWindowFocus: false,
+    });
+}
+
+export function useUpdateRouter() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (update: { id: string; name?: string; active?: boolean }) => {
+            const response = await axios.patch('/api/routers', update);
+            return response.data;
+        },
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['routers'] }),
+        onError: (error: AxiosError<{ message?: string }>) => {
+            toast.error('Update Failed', {
+                description: error.response?.data?.message || 'Failed to update router',
+            });
+        },
+    });
+}
+
+export function useRemoveRouter() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (id: string) => {
+            const response = await axios.delete('/api/routers', { params: { id } });
+            return response.data;
+        },
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['routers'] }),
+        onError: (error: AxiosError<{ message?: string }>) => {
+            toast.error('Logout Failed', {
+                description: error.response?.data?.message || 'Failed to log out of router',
+            });
+        },
+    });
+}
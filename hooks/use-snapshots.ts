@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import axios, { AxiosError } from 'axios';
+import { toast } from 'sonner';
+
+export interface ConfigChange {
+    id: string;
+    routerIp: string;
+    routerName: string | null;
+    area: string;
+    operation: string;
+    summary: string;
+    before: unknown;
+    user: string | null;
+    chatMessage: string | null;
+    conversationId: string | null;
+    createdAt: string;
+    revertedAt: string | null;
+}
+
+export function useSnapshots(enabled: boolean = true) {
+    return useQuery({
+        queryKey: ['snapshots'],
+        queryFn: async () => {
+            const response = await axios.get<{ snapshots: ConfigChange[] }>('/api/snapshots');
+            return response.data.snapshots;
+        },
+        enabled,
+        refetchOnWindowFocus: false,
+    });
+}
+
+export function useRevertSnapshot() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (id: string) => {
+            const response = await axios.post<{ success: boolean; message: string }>(`/api/snapshots/${id}/revert`);
+            return response.data;
+        },
+        onSuccess: (data) => {
+            toast.success('Change Reverted', { description: data.message });
+            queryClient.invalidateQueries({ queryKey: ['snapshots'] });
+        },
+        onError: (error: AxiosError<{ message?: string }>) => {
+            toast.error('Revert Failed', {
+                description: error.response?.data?.message || 'Failed to revert change',
+            });
+        },
+    });
+}
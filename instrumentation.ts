@@ -0,0 +1,12 @@
+/**
+ * Server startup hook (run once per Next.js server process)
+ */
+export async function register() {
+    // Background jobs need Node APIs and a long-lived process
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        const { startPresencePoller } = await import('./lib/router/presence');
+        const { startMetricsCollector } = await import('./lib/router/metrics');
+        startPresencePoller();
+        startMetricsCollector();
+    }
+}
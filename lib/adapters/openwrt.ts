@@ -0,0 +1,841 @@
+import axios, { AxiosInstance } from 'axios';
+
+import { isSessionExpiredError, shareRelogin } from './relogin';
+import type {
+    AdapterOptions,
+    ReloginHandler,
+    DeviceInfo,
+    WanInfo,
+    DhcpLease,
+    WifiStatus,
+    WifiClient,
+    WifiNeighbor,
+    LanStats,
+    PortStats,
+    WlanStats,
+    LanSettings,
+    WirelessSettings,
+    NatRule,
+    DhcpReservation,
+    PortForwardingOptions,
+    SetterResult,
+    RouterAdapter,
+    RouterCapability,
+    RestartCapable,
+    TrafficStatsCapable,
+    WifiConfigCapable,
+    LanConfigCapable,
+    PortForwardingCapable,
+    MacFilterCapable,
+    DhcpReservationsCapable,
+    SiteSurveyCapable
+} from './types';
+
+// ============ UBUS PROTOCOL ============
+
+// Session id used for unauthenticated calls (session.login)
+const UBUS_NULL_SESSION = '00000000000000000000000000000000';
+
+// Cookie name LuCI uses for the ubus session token
+export const OPENWRT_SESSION_COOKIE = 'sysauth';
+
+// ubus status codes (libubus UBUS_STATUS_*)
+const UBUS_STATUS_OK = 0;
+const UBUS_STATUS_NOT_FOUND = 4;
+const UBUS_STATUS_PERMISSION_DENIED = 6;
+
+// JSON-RPC error code rpcd returns for an invalid/expired session
+const RPC_ACCESS_DENIED = -32002;
+
+interface UbusResponse<T> {
+    jsonrpc: '2.0';
+    id: number;
+    result?: [number, T?];
+    error?: { code: number; message: string };
+}
+
+type UciSection = Record<string, string | string[]> & {
+    '.type': string;
+    '.name': string;
+    '.index'?: number;
+};
+
+interface UbusDeviceStatus {
+    up?: boolean;
+    carrier?: boolean;
+    macaddr?: string;
+    statistics?: Record<string, number>;
+}
+
+interface UbusInterfaceStatus {
+    up: boolean;
+    proto: string;
+    'ipv4-address'?: Array<{ address: string; mask: number }>;
+    route?: Array<{ target: string; mask: number; nexthop: string }>;
+    'dns-server'?: string[];
+}
+
+interface IwinfoInfo {
+    ssid?: string;
+    bssid?: string;
+    channel?: number;
+    noise?: number;
+    encryption?: { enabled: boolean; description?: string };
+}
+
+interface IwinfoScanResult {
+    ssid?: string;
+    bssid: string;
+    channel?: number;
+    signal?: number;
+    encryption?: { enabled: boolean; description?: string; wpa?: number[] };
+}
+
+const MAC_REGEX = /^([0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}$/;
+
+// ============ HELPERS ============
+
+/** Format a number of seconds as "N days HH:MM:SS" (same shape as the ZTE lease table) */
+function formatDuration(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.floor(totalSeconds));
+    const days = Math.floor(seconds / 86400);
+    const hh = String(Math.floor((seconds % 86400) / 3600)).padStart(2, '0');
+    const mm = String(Math.floor((seconds % 3600) / 60)).padStart(2, '0');
+    const ss = String(seconds % 60).padStart(2, '0');
+    return `${days} days ${hh}:${mm}:${ss}`;
+}
+
+/** Convert a CIDR prefix length to a dotted subnet mask */
+function prefixToMask(prefix: number): string {
+    const bits = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+    return [24, 16, 8, 0].map(shift => (bits >>> shift) & 255).join('.');
+}
+
+function ipToInt(ip: string): number {
+    return ip.split('.').reduce((acc, octet) => ((acc << 8) + parseInt(octet, 10)) >>> 0, 0);
+}
+
+function intToIp(value: number): string {
+    return [24, 16, 8, 0].map(shift => (value >>> shift) & 255).join('.');
+}
+
+/** Human-readable name for an OpenWrt `encryption` option */
+function describeEncryption(encryption: string | undefined): string {
+    const map: Record<string, string> = {
+        'none': 'Open',
+        'psk': 'WPA-PSK',
+        'psk2': 'WPA2-PSK',
+        'psk-mixed': 'WPA/WPA2-PSK',
+        'sae': 'WPA3-SAE',
+        'sae-mixed': 'WPA2/WPA3-PSK',
+        'owe': 'OWE',
+    };
+    const base = (encryption || 'none').split('+')[0];
+    return map[base] || encryption || 'Unknown';
+}
+
+// ============ ADAPTER CLASS ============
+
+/**
+ * OpenWrt adapter talking to rpcd over the ubus JSON-RPC endpoint (/ubus).
+ * The session cookie carries the ubus session token (LuCI's `sysauth`).
+ */
+export class OpenWrtRouterAdapter implements RouterAdapter,
+    RestartCapable, TrafficStatsCapable, WifiConfigCapable, LanConfigCapable,
+    PortForwardingCapable, MacFilterCapable, DhcpReservationsCapable, SiteSurveyCapable {
+    readonly id = 'openwrt';
+    readonly capabilities: readonly RouterCapability[] = [
+        'restart', 'trafficStats', 'wifiConfig', 'lanConfig', 'portForwarding', 'macFilter', 'dhcpReservations', 'siteSurvey'
+    ];
+
+    private ubusSession: string;
+    private client: AxiosInstance;
+    private requestId = 0;
+    private relogin?: ReloginHandler;
+
+    constructor(ip: string, sessionCookie: string, options: AdapterOptions = {}) {
+        this.ubusSession = OpenWrtRouterAdapter.parseSessionCookie(sessionCookie);
+        this.relogin = options.relogin && shareRelogin(options.relogin);
+
+        this.client = axios.create({
+            baseURL: `http://${ip}`,
+            headers: { 'Content-Type': 'application/json' },
+            timeout: 10000,
+            validateStatus: (status) => status < 500
+        });
+    }
+
+    // ============ SESSION ============
+
+    /** Accepts either a raw ubus token or a cookie string containing `sysauth=<token>` */
+    static parseSessionCookie(sessionCookie: string): string {
+        const match = sessionCookie.match(new RegExp(`(?:^|;\\s*)${OPENWRT_SESSION_COOKIE}(?:_https?)?=([^;]+)`));
+        if (match) return match[1];
+        return sessionCookie.includes('=') ? UBUS_NULL_SESSION : (sessionCookie || UBUS_NULL_SESSION);
+    }
+
+    /**
+     * Log in via `session login` and return the ubus session token
+     * ubus: session login
+     */
+    static async login(ip: string, username: string, password: string): Promise<string> {
+        const adapter = new OpenWrtRouterAdapter(ip, UBUS_NULL_SESSION);
+        try {
+            const result = await adapter.call<{ ubus_rpc_session: string }>('session', 'login', { username, password });
+            if (!result.ubus_rpc_session) {
+                throw new Error('Invalid credentials');
+            }
+            return result.ubus_rpc_session;
+        } catch (error: unknown) {
+            if (error instanceof Error && error.message.toLowerCase().includes('session expired')) {
+                throw new Error('Invalid credentials');
+            }
+            throw error;
+        }
+    }
+
+    // ============ HELPER METHODS ============
+
+    /** ubus call that re-logs in and retries once if the session expired */
+    private async call<T>(object: string, method: string, args: Record<string, unknown> = {}): Promise<T> {
+        const sessionUsed = this.ubusSession;
+        try {
+            return await this.callOnce<T>(object, method, args);
+        } catch (error: unknown) {
+            if (!this.relogin || !isSessionExpiredError(error)) throw error;
+
+            // A concurrent call may already have logged in again
+            if (this.ubusSession === sessionUsed) {
+                console.log('[OpenWrt Adapter] Session expired, logging in again');
+                this.ubusSession = OpenWrtRouterAdapter.parseSessionCookie(await this.relogin());
+            }
+            return this.callOnce<T>(object, method, args);
+        }
+    }
+
+    private async callOnce<T>(object: string, method: string, args: Record<string, unknown> = {}): Promise<T> {
+        try {
+            const response = await this.client.post<UbusResponse<T>>('/ubus', {
+                jsonrpc: '2.0',
+                id: ++this.requestId,
+                method: 'call',
+                params: [this.ubusSession, object, method, args]
+            });
+
+            if (response.status === 401 || response.status === 403) {
+                throw new Error('Session expired');
+            }
+
+            const body = response.data;
+            if (body.error) {
+                if (body.error.code === RPC_ACCESS_DENIED) throw new Error('Session expired');
+                throw new Error(`ubus ${object}.${method}: ${body.error.message}`);
+            }
+
+            const [status, data] = body.result ?? [UBUS_STATUS_NOT_FOUND];
+            if (status === UBUS_STATUS_PERMISSION_DENIED) {
+                throw new Error('Session expired');
+            }
+            if (status !== UBUS_STATUS_OK) {
+                throw new Error(`ubus ${object}.${method} failed with status ${status}`);
+            }
+            return (data ?? {}) as T;
+        } catch (error: unknown) {
+            console.error(`[OpenWrt Adapter] ubus call ${object}.${method} failed:`, error instanceof Error ? error.message : error);
+            throw error;
+        }
+    }
+
+    /** Get all sections of a UCI config, ordered by their index */
+    private async uciSections(config: string, type?: string): Promise<UciSection[]> {
+        const { values } = await this.call<{ values: Record<string, UciSection> }>('uci', 'get', { config });
+        return Object.values(values || {})
+            .filter(section => !type || section['.type'] === type)
+            .sort((a, b) => (a['.index'] ?? 0) - (b['.index'] ?? 0));
+    }
+
+    private async uciCommit(config: string): Promise<void> {
+        await this.call('uci', 'commit', { config });
+    }
+
+    // uci options of a firewall redirect for a port forwarding rule
+    private redirectValues(options: PortForwardingOptions): Record<string, string> {
+        return {
+            name: options.name,
+            proto: options.protocol === 'ALL' ? 'tcp udp' : options.protocol.toLowerCase(),
+            src_dport: options.externalPort.toString(),
+            dest_ip: options.internalIp,
+            dest_port: (options.internalPort || options.externalPort).toString(),
+            enabled: options.enabled === false ? '0' : '1'
+        };
+    }
+
+    private async getWirelessSections(): Promise<{ iface: UciSection | undefined; radio: UciSection | undefined }> {
+        const sections = await this.uciSections('wireless');
+        const iface = sections.find(s => s['.type'] === 'wifi-iface' && (s.mode ?? 'ap') === 'ap');
+        const radio = sections.find(s => s['.type'] === 'wifi-device' && s['.name'] === iface?.device);
+        return { iface, radio };
+    }
+
+    private async getFirstWifiDevice(): Promise<string | null> {
+        const { devices } = await this.call<{ devices: string[] }>('iwinfo', 'devices');
+        return devices?.[0] ?? null;
+    }
+
+    // ============ STATUS ENDPOINTS ============
+
+    /** ubus: system board + system info + network.device status */
+    async getDeviceInfo(): Promise<DeviceInfo & {
+        hostname: string;
+        kernel: string;
+        lanIp: string;
+        subnetMask: string;
+    }> {
+        const [board, info, devices, lan] = await Promise.all([
+            this.call<{ model?: string; hostname?: string; kernel?: string; release?: { description?: string; version?: string } }>('system', 'board'),
+            this.call<{ uptime?: number }>('system', 'info'),
+            this.call<Record<string, UbusDeviceStatus>>('network.device', 'status'),
+            this.call<UbusInterfaceStatus>('network.interface.lan', 'status')
+        ]);
+
+        const lanDevice = devices['br-lan'] ?? Object.entries(devices).find(([name]) => name.startsWith('eth'))?.[1];
+        const wlanDevice = Object.entries(devices).find(([name]) => name.startsWith('wlan') || name.startsWith('phy'))?.[1];
+        const lanAddress = lan['ipv4-address']?.[0];
+
+        return {
+            model: board.model || 'OpenWrt',
+            firmwareVersion: board.release?.description || board.release?.version || 'N/A',
+            uptime: info.uptime !== undefined ? formatDuration(info.uptime) : 'N/A',
+            lanMac: lanDevice?.macaddr?.toUpperCase() || 'N/A',
+            wlanMac: wlanDevice?.macaddr?.toUpperCase() || 'N/A',
+            lanStatus: lanDevice?.up ? 'Up' : 'Down',
+            wlanStatus: wlanDevice?.up ? 'Up' : 'Down',
+            hostname: board.hostname || 'N/A',
+            kernel: board.kernel || 'N/A',
+            lanIp: lanAddress?.address || 'N/A',
+            subnetMask: lanAddress ? prefixToMask(lanAddress.mask) : 'N/A'
+        };
+    }
+
+    /** ubus: network.interface.wan status */
+    async getWanInfo(): Promise<WanInfo> {
+        const wan = await this.call<UbusInterfaceStatus>('network.interface.wan', 'status');
+        const defaultRoute = wan.route?.find(r => r.target === '0.0.0.0' && r.mask === 0);
+        const dns = wan['dns-server'] ?? [];
+
+        return {
+            wanIp: wan['ipv4-address']?.[0]?.address || 'N/A',
+            pppoeStatus: wan.up ? 'Connected' : 'Disconnected',
+            dslStatus: wan.proto === 'pppoe' ? 'PPPoE' : (wan.proto || 'N/A'),
+            gateway: defaultRoute?.nexthop || 'N/A',
+            primaryDns: dns[0] || 'N/A',
+            secondaryDns: dns[1] || 'N/A'
+        };
+    }
+
+    /** ubus: luci-rpc getDHCPLeases */
+    async getDhcpLeases(): Promise<DhcpLease[]> {
+        const { dhcp_leases: leases = [] } = await this.call<{
+            dhcp_leases?: Array<{ hostname?: string; ipaddr?: string; macaddr: string; expires: number }>;
+        }>('luci-rpc', 'getDHCPLeases');
+
+        return leases
+            .filter(lease => lease.ipaddr)
+            .map(lease => ({
+                hostname: lease.hostname || 'Unknown',
+                ip: lease.ipaddr as string,
+                mac: lease.macaddr.toUpperCase(),
+                leaseTime: lease.expires < 0 ? 'Infinite' : formatDuration(lease.expires)
+            }));
+    }
+
+    /** ubus: file read /proc/net/arp, joined with DHCP leases */
+    async getConnectedDevices(): Promise<DhcpLease[]> {
+        const [{ data = '' }, leases] = await Promise.all([
+            this.call<{ data?: string }>('file', 'read', { path: '/proc/net/arp' }),
+            this.getDhcpLeases()
+        ]);
+
+        const macToHostname = new Map<string, string>();
+        leases.forEach(lease => macToHostname.set(lease.mac.toLowerCase(), lease.hostname));
+
+        // /proc/net/arp: IP address, HW type, Flags, HW address, Mask, Device
+        return data.split('\n').slice(1)
+            .map(line => line.trim().split(/\s+/))
+            .filter(cols => cols.length >= 6 && cols[2] !== '0x0' && cols[3] !== '00:00:00:00:00:00')
+            .map(cols => ({
+                hostname: macToHostname.get(cols[3].toLowerCase()) || 'Unknown',
+                ip: cols[0],
+                mac: cols[3].toUpperCase(),
+                leaseTime: 'Active'
+            }));
+    }
+
+    /** ubus: iwinfo info + iwinfo assoclist */
+    async getWifiStatus(): Promise<WifiStatus & { clients: WifiClient[] }> {
+        const device = await this.getFirstWifiDevice();
+        if (!device) {
+            return { ssid: 'N/A', encrypted: false, securityType: 'N/A', channel: 'N/A', noise: 'N/A', clients: [] };
+        }
+
+        const [info, assoc, leases] = await Promise.all([
+            this.call<IwinfoInfo>('iwinfo', 'info', { device }),
+            this.call<{ results?: Array<{ mac: string; signal?: number }> }>('iwinfo', 'assoclist', { device }),
+            this.getDhcpLeases()
+        ]);
+
+        const leaseByMac = new Map(leases.map(lease => [lease.mac.toLowerCase(), lease]));
+        const clients: WifiClient[] = (assoc.results ?? []).map(station => {
+            const lease = leaseByMac.get(station.mac.toLowerCase());
+            return {
+                mac: station.mac.toUpperCase(),
+                hostname: lease?.hostname || 'N/A',
+                ip: lease?.ip || '',
+                rssi: station.signal !== undefined ? `${station.signal} dBm` : 'N/A'
+            };
+        });
+
+        return {
+            ssid: info.ssid || 'N/A',
+            encrypted: info.encryption?.enabled ?? false,
+            securityType: info.encryption?.description || 'N/A',
+            channel: info.channel !== undefined ? String(info.channel) : 'N/A',
+            noise: info.noise !== undefined ? `${info.noise} dBm` : 'N/A',
+            clients
+        };
+    }
+
+    /** ubus: iwinfo scan (briefly takes the radio off-channel, a few seconds) */
+    async scanWifiNetworks(): Promise<WifiNeighbor[]> {
+        const device = await this.getFirstWifiDevice();
+        if (!device) return [];
+
+        const { results } = await this.call<{ results?: IwinfoScanResult[] }>('iwinfo', 'scan', { device });
+        return (results ?? [])
+            .filter(network => network.channel !== undefined && network.signal !== undefined)
+            .map(network => ({
+                ssid: network.ssid || '',
+                bssid: network.bssid.toUpperCase(),
+                channel: network.channel!,
+                signal: network.signal!,
+                security: network.encryption?.enabled
+                    ? network.encryption.description || (network.encryption.wpa?.length ? `WPA${Math.max(...network.encryption.wpa)}` : 'Encrypted')
+                    : 'Open',
+            }));
+    }
+
+    // ============ STATISTICS ENDPOINTS ============
+
+    /** ubus: network.device status (LAN switch ports) */
+    async getLanStats(): Promise<LanStats & { ports: Array<PortStats & { status: string }> }> {
+        const devices = await this.call<Record<string, UbusDeviceStatus>>('network.device', 'status');
+        const ports: Array<PortStats & { status: string }> = [];
+        let totalPacketsSent = 0, totalPacketsReceived = 0;
+
+        for (const [name, device] of Object.entries(devices)) {
+            if (!/^(lan\d+|eth\d+)$/.test(name)) continue;
+            const stats = device.statistics ?? {};
+
+            ports.push({
+                port: name.toUpperCase(),
+                status: device.carrier ? 'Up' : 'NoLink',
+                bytesReceived: stats.rx_bytes || 0,
+                packetsReceived: stats.rx_packets || 0,
+                bytesSent: stats.tx_bytes || 0,
+                packetsSent: stats.tx_packets || 0
+            });
+
+            totalPacketsSent += stats.tx_packets || 0;
+            totalPacketsReceived += stats.rx_packets || 0;
+        }
+
+        return { totalPacketsSent, totalPacketsReceived, ports };
+    }
+
+    /** ubus: network.device status (wireless interfaces) */
+    async getWlanStats(): Promise<WlanStats> {
+        const devices = await this.call<Record<string, UbusDeviceStatus>>('network.device', 'status');
+        const totals: WlanStats = { packetsSent: 0, packetsReceived: 0, bytesSent: 0, bytesReceived: 0, errors: 0, dropped: 0 };
+
+        for (const [name, device] of Object.entries(devices)) {
+            if (!name.startsWith('wlan') && !name.startsWith('phy')) continue;
+            const stats = device.statistics ?? {};
+            totals.packetsSent += stats.tx_packets || 0;
+            totals.packetsReceived += stats.rx_packets || 0;
+            totals.bytesSent += stats.tx_bytes || 0;
+            totals.bytesReceived += stats.rx_bytes || 0;
+            totals.errors += (stats.tx_errors || 0) + (stats.rx_errors || 0);
+            totals.dropped += (stats.tx_dropped || 0) + (stats.rx_dropped || 0);
+        }
+
+        return totals;
+    }
+
+    // ============ CONFIGURATION ENDPOINTS ============
+
+    /** ubus: uci get network.lan + dhcp.lan */
+    async getLanSettings(): Promise<LanSettings> {
+        const [network, dhcp] = await Promise.all([
+            this.uciSections('network', 'interface'),
+            this.uciSections('dhcp', 'dhcp')
+        ]);
+        const lan = network.find(s => s['.name'] === 'lan');
+        const pool = dhcp.find(s => s.interface === 'lan' || s['.name'] === 'lan');
+
+        // ipaddr may be "192.168.1.1" or a CIDR list entry "192.168.1.1/24"
+        const rawIp = Array.isArray(lan?.ipaddr) ? lan.ipaddr[0] : (lan?.ipaddr || '');
+        const [ipAddress, prefix] = rawIp.split('/');
+        const subnetMask = (lan?.netmask as string) || (prefix ? prefixToMask(parseInt(prefix, 10)) : '255.255.255.0');
+
+        const start = parseInt(pool?.start as string, 10) || 100;
+        const limit = parseInt(pool?.limit as string, 10) || 150;
+        const network32 = ipToInt(ipAddress || '0.0.0.0') & ipToInt(subnetMask);
+
+        return {
+            ipAddress: ipAddress || 'N/A',
+            subnetMask,
+            dhcpEnabled: !!pool && pool.ignore !== '1',
+            dhcpStartIp: ipAddress ? intToIp(network32 + start) : 'N/A',
+            dhcpEndIp: ipAddress ? intToIp(network32 + start + limit - 1) : 'N/A',
+            leaseTime: (pool?.leasetime as string) || '12h'
+        };
+    }
+
+    /** ubus: uci get wireless */
+    async getWirelessSettings(): Promise<WirelessSettings> {
+        const { iface, radio } = await this.getWirelessSections();
+        const channel = (radio?.channel as string) || 'auto';
+
+        return {
+            ssid: (iface?.ssid as string) || '',
+            enabled: !!iface && iface.disabled !== '1' && radio?.disabled !== '1',
+            channel: channel === 'auto' ? 'Auto' : channel,
+            security: describeEncryption(iface?.encryption as string),
+            hiddenSsid: iface?.hidden === '1'
+        };
+    }
+
+    /** ubus: uci get firewall (redirect sections) */
+    async getNatRules(): Promise<NatRule[]> {
+        const redirects = await this.uciSections('firewall', 'redirect');
+        return redirects.map(rule => {
+            const proto = ((rule.proto as string) || 'tcp udp').toLowerCase();
+            return {
+                name: (rule.name as string) || rule['.name'],
+                protocol: proto.includes('tcp') && proto.includes('udp') ? 'ALL' : proto.toUpperCase(),
+                externalPort: (rule.src_dport as string) || '',
+                internalPort: (rule.dest_port as string) || (rule.src_dport as string) || '',
+                internalIp: (rule.dest_ip as string) || '',
+                enabled: rule.enabled !== '0'
+            };
+        });
+    }
+
+    /** ubus: uci get dhcp (host sections) */
+    async getDhcpReservations(): Promise<DhcpReservation[]> {
+        const hosts = await this.uciSections('dhcp', 'host');
+        return hosts.flatMap(host => {
+            // mac may be a list or a space-separated string; one entry per MAC
+            const macs = (Array.isArray(host.mac) ? host.mac : String(host.mac || '').split(/\s+/)).filter(Boolean);
+            return macs.map(mac => ({
+                name: (host.name as string) || host['.name'],
+                mac: mac.toUpperCase(),
+                ip: (host.ip as string) || ''
+            }));
+        });
+    }
+
+    // ============ SYSTEM ============
+
+    /** ubus: system reboot */
+    async restart(): Promise<boolean> {
+        try {
+            await this.call('system', 'reboot');
+            return true;
+        } catch (error) {
+            console.error('[OpenWrt Adapter] Failed to restart:', error);
+            return false;
+        }
+    }
+
+    // ============ WIFI SETTINGS (SETTERS) ============
+
+    /**
+     * Change WiFi settings. Only the provided fields are written.
+     * ubus: uci set wireless + uci commit
+     */
+    async setWifiSettings(options: {
+        ssid?: string;
+        password?: string;
+        enabled?: boolean;
+        channel?: number;
+    }): Promise<SetterResult> {
+        try {
+            if (options.password !== undefined && (options.password.length < 8 || options.password.length > 63)) {
+                return { success: false, message: 'Password must be between 8 and 63 characters' };
+            }
+
+            const { iface, radio } = await this.getWirelessSections();
+            if (!iface || !radio) {
+                return { success: false, message: 'No wireless access point is configured on this router' };
+            }
+
+            const ifaceValues: Record<string, string> = {};
+            if (options.ssid !== undefined) ifaceValues.ssid = options.ssid;
+            if (options.password !== undefined) {
+                ifaceValues.key = options.password;
+                if (!iface.encryption || iface.encryption === 'none') ifaceValues.encryption = 'psk2';
+            }
+            if (options.enabled !== undefined) ifaceValues.disabled = options.enabled ? '0' : '1';
+
+            const radioValues: Record<string, string> = {};
+            if (options.channel !== undefined) radioValues.channel = options.channel === 0 ? 'auto' : String(options.channel);
+            if (options.enabled) radioValues.disabled = '0';
+
+            if (Object.keys(ifaceValues).length > 0) {
+                await this.call('uci', 'set', { config: 'wireless', section: iface['.name'], values: ifaceValues });
+            }
+            if (Object.keys(radioValues).length > 0) {
+                await this.call('uci', 'set', { config: 'wireless', section: radio['.name'], values: radioValues });
+            }
+            await this.uciCommit('wireless');
+
+            return { success: true, message: 'WiFi settings updated successfully' };
+        } catch (error: unknown) {
+            console.error('[OpenWrt Adapter] Failed to update WiFi settings:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to update WiFi settings' };
+        }
+    }
+
+    async setWifiEnabled(enabled: boolean): Promise<SetterResult> {
+        return this.setWifiSettings({ enabled });
+    }
+
+    async setWifiSsid(ssid: string): Promise<SetterResult> {
+        if (!ssid || ssid.length > 32) {
+            return { success: false, message: 'SSID must be between 1 and 32 characters' };
+        }
+        return this.setWifiSettings({ ssid });
+    }
+
+    async setWifiPassword(password: string): Promise<SetterResult> {
+        return this.setWifiSettings({ password });
+    }
+
+    async setWifiChannel(channel: number): Promise<SetterResult> {
+        if (channel < 0 || channel > 14) {
+            return { success: false, message: 'Channel must be between 0 (auto) and 14' };
+        }
+        return this.setWifiSettings({ channel });
+    }
+
+    // ============ LAN SETTINGS (SETTERS) ============
+
+    /**
+     * Enable or disable the DHCP server on the LAN
+     * ubus: uci set dhcp.lan.ignore + uci commit
+     */
+    async setDhcpEnabled(enabled: boolean): Promise<SetterResult> {
+        try {
+            const pools = await this.uciSections('dhcp', 'dhcp');
+            const pool = pools.find(s => s.interface === 'lan' || s['.name'] === 'lan');
+            if (!pool) {
+                return { success: false, message: 'No DHCP pool is configured for the LAN' };
+            }
+
+            await this.call('uci', 'set', { config: 'dhcp', section: pool['.name'], values: { ignore: enabled ? '0' : '1' } });
+            await this.uciCommit('dhcp');
+
+            return { success: true, message: `DHCP server ${enabled ? 'enabled' : 'disabled'}` };
+        } catch (error: unknown) {
+            console.error('[OpenWrt Adapter] Failed to toggle DHCP:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to toggle DHCP' };
+        }
+    }
+
+    // ============ PORT FORWARDING (SETTERS) ============
+
+    /**
+     * Add a port forwarding (DNAT redirect) rule
+     * ubus: uci add firewall redirect + uci commit
+     */
+    async addPortForwardingRule(options: PortForwardingOptions): Promise<SetterResult> {
+        try {
+            await this.call('uci', 'add', {
+                config: 'firewall',
+                type: 'redirect',
+                values: { target: 'DNAT', src: 'wan', dest: 'lan', ...this.redirectValues(options) }
+            });
+            await this.uciCommit('firewall');
+
+            return { success: true, message: `Port forwarding rule "${options.name}" added successfully` };
+        } catch (error: unknown) {
+            console.error('[OpenWrt Adapter] Failed to add port forwarding rule:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to add port forwarding rule' };
+        }
+    }
+
+    /**
+     * Replace the options of a port forwarding rule by its position in the rule list
+     * ubus: uci set firewall.<redirect> + uci commit
+     */
+    async updatePortForwardingRule(ruleIndex: number, options: PortForwardingOptions): Promise<SetterResult> {
+        try {
+            const redirects = await this.uciSections('firewall', 'redirect');
+            const rule = redirects[ruleIndex];
+            if (!rule) {
+                return { success: false, message: `No port forwarding rule at index ${ruleIndex}` };
+            }
+
+            await this.call('uci', 'set', { config: 'firewall', section: rule['.name'], values: this.redirectValues(options) });
+            await this.uciCommit('firewall');
+
+            return { success: true, message: `Port forwarding rule "${options.name}" updated` };
+        } catch (error: unknown) {
+            console.error('[OpenWrt Adapter] Failed to update port forwarding rule:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to update port forwarding rule' };
+        }
+    }
+
+    /**
+     * Delete a port forwarding rule by its position in the rule list
+     * ubus: uci delete firewall.<redirect> + uci commit
+     */
+    async deletePortForwardingRule(ruleIndex: number): Promise<SetterResult> {
+        try {
+            const redirects = await this.uciSections('firewall', 'redirect');
+            const rule = redirects[ruleIndex];
+            if (!rule) {
+                return { success: false, message: `No port forwarding rule at index ${ruleIndex}` };
+            }
+
+            await this.call('uci', 'delete', { config: 'firewall', section: rule['.name'] });
+            await this.uciCommit('firewall');
+
+            return { success: true, message: `Port forwarding rule at index ${ruleIndex} deleted` };
+        } catch (error: unknown) {
+            console.error('[OpenWrt Adapter] Failed to delete port forwarding rule:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to delete port forwarding rule' };
+        }
+    }
+
+    // ============ DHCP RESERVATIONS (SETTERS) ============
+
+    /**
+     * Reserve an IP for a MAC address
+     * ubus: uci add dhcp host + uci commit
+     */
+    async addDhcpReservation(reservation: DhcpReservation): Promise<SetterResult> {
+        try {
+            if (!MAC_REGEX.test(reservation.mac)) {
+                return { success: false, message: 'Invalid MAC address format. Use format: XX:XX:XX:XX:XX:XX' };
+            }
+            const mac = reservation.mac.replace(/-/g, ':').toUpperCase();
+            // dnsmasq host names may not contain spaces
+            const name = reservation.name.trim().replace(/[^A-Za-z0-9-]+/g, '-') || mac.replace(/:/g, '');
+
+            await this.call('uci', 'add', {
+                config: 'dhcp',
+                type: 'host',
+                values: { name, mac, ip: reservation.ip, dns: '1' }
+            });
+            await this.uciCommit('dhcp');
+
+            return { success: true, message: `${reservation.ip} reserved for ${mac}` };
+        } catch (error: unknown) {
+            console.error('[OpenWrt Adapter] Failed to add DHCP reservation:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to add DHCP reservation' };
+        }
+    }
+
+    /**
+     * Remove the reservation(s) of a MAC address
+     * ubus: uci delete dhcp.<host> + uci commit
+     */
+    async removeDhcpReservation(macAddress: string): Promise<SetterResult> {
+        try {
+            if (!MAC_REGEX.test(macAddress)) {
+                return { success: false, message: 'Invalid MAC address format. Use format: XX:XX:XX:XX:XX:XX' };
+            }
+            const mac = macAddress.replace(/-/g, ':').toUpperCase();
+
+            const hosts = await this.uciSections('dhcp', 'host');
+            const matching = hosts.filter(host =>
+                (Array.isArray(host.mac) ? host.mac : String(host.mac || '').split(/\s+/))
+                    .some(entry => entry.toUpperCase() === mac)
+            );
+            if (matching.length === 0) {
+                return { success: false, message: `No DHCP reservation for ${mac}` };
+            }
+
+            for (const host of matching) {
+                await this.call('uci', 'delete', { config: 'dhcp', section: host['.name'] });
+            }
+            await this.uciCommit('dhcp');
+
+            return { success: true, message: `DHCP reservation for ${mac} removed` };
+        } catch (error: unknown) {
+            console.error('[OpenWrt Adapter] Failed to remove DHCP reservation:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to remove DHCP reservation' };
+        }
+    }
+
+    // ============ MAC FILTERING (SETTERS) ============
+
+    /**
+     * Block a device by adding a firewall REJECT rule for its MAC
+     * ubus: uci add firewall rule + uci commit
+     */
+    async blockDevice(macAddress: string): Promise<SetterResult> {
+        try {
+            if (!MAC_REGEX.test(macAddress)) {
+                return { success: false, message: 'Invalid MAC address format. Use format: XX:XX:XX:XX:XX:XX' };
+            }
+            const mac = macAddress.replace(/-/g, ':').toUpperCase();
+
+            await this.call('uci', 'add', {
+                config: 'firewall',
+                type: 'rule',
+                values: { name: `Block ${mac}`, src: 'lan', src_mac: mac, dest: '*', target: 'REJECT' }
+            });
+            await this.uciCommit('firewall');
+
+            return { success: true, message: `MAC address ${mac} blocked` };
+        } catch (error: unknown) {
+            console.error('[OpenWrt Adapter] Failed to block device:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to set MAC filter' };
+        }
+    }
+
+    /**
+     * Unblock a device by removing the firewall rules that reject its MAC
+     * ubus: uci delete firewall.<rule> + uci commit
+     */
+    async allowDevice(macAddress: string): Promise<SetterResult> {
+        try {
+            if (!MAC_REGEX.test(macAddress)) {
+                return { success: false, message: 'Invalid MAC address format. Use format: XX:XX:XX:XX:XX:XX' };
+            }
+            const mac = macAddress.replace(/-/g, ':').toUpperCase();
+
+            const rules = await this.uciSections('firewall', 'rule');
+            const blocking = rules.filter(rule =>
+                String(rule.src_mac || '').toUpperCase() === mac &&
+                ['REJECT', 'DROP'].includes(String(rule.target || '').toUpperCase())
+            );
+            if (blocking.length === 0) {
+                return { success: true, message: `MAC address ${mac} was not blocked` };
+            }
+
+            for (const rule of blocking) {
+                await this.call('uci', 'delete', { config: 'firewall', section: rule['.name'] });
+            }
+            await this.uciCommit('firewall');
+
+            return { success: true, message: `MAC address ${mac} allowed` };
+        } catch (error: unknown) {
+            console.error('[OpenWrt Adapter] Failed to allow device:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to set MAC filter' };
+        }
+    }
+}
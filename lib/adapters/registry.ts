@@ -0,0 +1,133 @@
+/**
+ * Router Adapter Registry
+ *
+ * Keeps track of the available vendor adapters and picks the right one
+ * for a detected router. New vendors register themselves here.
+ */
+
+import { ZTERouterAdapter } from './zte';
+import { OpenWrtRouterAdapter, OPENWRT_SESSION_COOKIE } from './openwrt';
+import type { AdapterOptions, RouterAdapter, RouterCapability, RouterCapabilityMap } from './types';
+
+// ============ REGISTRY TYPES ============
+
+/**
+ * Generic web UI login strategies:
+ * - http: plain requests (Basic/Digest auth or login form), fast and lightweight
+ * - browser: headless Chromium via Puppeteer, for UIs that need JavaScript
+ */
+export type LoginStrategy = 'http' | 'browser';
+
+// Tried in order until one succeeds (wrong credentials stop the search)
+export const DEFAULT_LOGIN_STRATEGIES: LoginStrategy[] = ['http', 'browser'];
+
+export interface AdapterDefinition {
+    /** Stable id stored in the session (e.g. "zte") */
+    id: string;
+    /** Human-friendly vendor name */
+    vendor: string;
+    /** Patterns matched against detection hints (vendor, model, HTTP banner, page title) */
+    matchers: RegExp[];
+    /** Create an adapter for a router using an authenticated session cookie */
+    create(ip: string, sessionCookie: string, options?: AdapterOptions): RouterAdapter;
+    /** Generic login strategies to try when there is no vendor-specific `login` */
+    loginStrategies?: LoginStrategy[];
+    /**
+     * Optional vendor-specific login returning the session cookies.
+     * Adapters without one use `loginStrategies`.
+     */
+    login?(ip: string, username: string, password: string): Promise<{
+        sessionId: string;
+        cookies: Array<{ name: string; value: string }>;
+    }>;
+}
+
+// Adapter used for sessions created before adapters were pluggable
+export const DEFAULT_ADAPTER_ID = 'zte';
+
+const adapters = new Map<string, AdapterDefinition>();
+
+// ============ REGISTRATION ============
+
+/**
+ * Register an adapter definition (replaces any existing one with the same id)
+ */
+export function registerAdapter(definition: AdapterDefinition): void {
+    adapters.set(definition.id, definition);
+}
+
+/**
+ * List all registered adapters
+ */
+export function listAdapters(): AdapterDefinition[] {
+    return Array.from(adapters.values());
+}
+
+/**
+ * Get an adapter definition by id
+ */
+export function getAdapterDefinition(id: string): AdapterDefinition | undefined {
+    return adapters.get(id);
+}
+
+// ============ LOOKUP ============
+
+/**
+ * Find the adapter that supports a router, given detection hints
+ * such as vendor name, model string, server banner or page title.
+ */
+export function findAdapterForRouter(hints: string[]): AdapterDefinition | null {
+    const haystack = hints.filter(Boolean).join(' ');
+    if (!haystack) return null;
+
+    for (const definition of adapters.values()) {
+        if (definition.matchers.some(matcher => matcher.test(haystack))) {
+            return definition;
+        }
+    }
+    return null;
+}
+
+/**
+ * Instantiate an adapter by id. Sessions saved without an id use the default adapter;
+ * an unknown id is an error, since another adapter's requests would go to the wrong kind of router.
+ */
+export function createAdapter(id: string | undefined, ip: string, sessionCookie: string, options?: AdapterOptions): RouterAdapter {
+    const definition = adapters.get(id || DEFAULT_ADAPTER_ID);
+    if (!definition) {
+        throw new Error(`Unsupported router adapter "${id}"`);
+    }
+    return definition.create(ip, sessionCookie, options);
+}
+
+/**
+ * Check whether an adapter declares a capability (narrows its type)
+ */
+export function hasCapability<C extends RouterCapability>(
+    adapter: RouterAdapter,
+    capability: C
+): adapter is RouterAdapter & RouterCapabilityMap[C] {
+    return adapter.capabilities.includes(capability);
+}
+
+// ============ BUILT-IN ADAPTERS ============
+
+registerAdapter({
+    id: 'zte',
+    vendor: 'ZTE',
+    matchers: [/\bZTE\b/i, /ZXHN/i, /ZXV10/i, /DSL-?226/i],
+    // HTTP Basic auth; the browser is only a fallback for unusual firmware
+    loginStrategies: ['http', 'browser'],
+    create: (ip, sessionCookie, options) => new ZTERouterAdapter(ip, sessionCookie, options),
+});
+
+registerAdapter({
+    id: 'openwrt',
+    vendor: 'OpenWrt',
+    matchers: [/OpenWrt/i, /LuCI/i, /\bubus\b/i],
+    create: (ip, sessionCookie, options) => new OpenWrtRouterAdapter(ip, sessionCookie, options),
+    login: async (ip, username, password) => {
+        const sessionId = await OpenWrtRouterAdapter.login(ip, username, password);
+        return { sessionId, cookies: [{ name: OPENWRT_SESSION_COOKIE, value: sessionId }] };
+    },
+});
@@ -0,0 +1,52 @@
+/**
+ * Session Expiry Helpers
+ *
+ * Shared by adapters to recognise an expired router session and to
+ * re-login at most once per expiry, even when several requests fail at once.
+ */
+
+import type { AxiosResponse } from 'axios';
+import type { ReloginHandler } from './types';
+
+/**
+ * Whether an error means the router session is no longer valid
+ */
+export function isSessionExpiredError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : '';
+    return message.toLowerCase().includes('session expired') ||
+        message.includes('401') ||
+        message.includes('403');
+}
+
+/**
+ * Whether a response is the router rejecting the session:
+ * 401/403, or a redirect that ended on a login page
+ */
+export function isLoginResponse(response: AxiosResponse): boolean {
+    if (response.status === 401 || response.status === 403) return true;
+
+    const location = response.headers?.location;
+    if (response.status >= 300 && response.status < 400 && typeof location === 'string') {
+        return /login/i.test(location);
+    }
+
+    // Node follows redirects; the final URL is on the underlying response
+    const finalUrl: string = response.request?.res?.responseUrl || '';
+    const requestedPath = response.config?.url || '';
+    return /login/i.test(finalUrl) && !/login/i.test(requestedPath);
+}
+
+/**
+ * Wrap a re-login handler so concurrent expiries share one login
+ */
+export function shareRelogin(handler: ReloginHandler): ReloginHandler {
+    let pending: Promise<string> | null = null;
+    return () => {
+        if (!pending) {
+            pending = handler().finally(() => {
+                pending = null;
+            });
+        }
+        return pending;
+    };
+}
@@ -1,5 +1,5 @@
 // ============ ROUTER TYPES ============
-// Type definitions for ZTE Router Adapter
+// Type definitions shared by all router adapters
 
 // Status Interfaces
 export interface DeviceInfo {
@@ -34,6 +34,13 @@ export interface DhcpLease {
     leaseTime: string;
 }
 
+/** Static DHCP lease: the router always gives this MAC the same IP */
+export interface DhcpReservation {
+    name: string;
+    mac: string;
+    ip: string;
+}
+
 export interface WifiStatus {
     ssid: string;
     encrypted: boolean;
@@ -215,3 +222,283 @@ export interface InterfaceGroup {
     lanPorts: string[];
     wanInterface: string;
 }
+
+export interface WifiClient {
+    mac: string;
+    hostname: string;
+    ip: string;
+    rssi: string;
+}
+
+/** A network heard in a WiFi scan (site survey) */
+export interface WifiNeighbor {
+    ssid: string;
+    bssid: string;
+    channel: number;
+    /** dBm, e.g. -67 */
+    signal: number;
+    security?: string;
+}
+
+/** One value a write meant to set, checked by re-reading the router afterwards */
+export interface FieldVerification {
+    field: string;
+    expected: string;
+    /** Value the router showed when re-read (absent if it could not be read back) */
+    actual?: string;
+    status: 'applied' | 'mismatch' | 'unverified';
+}
+
+export interface SetterResult {
+    success: boolean;
+    message: string;
+    /** Per-field read-back, for adapters that verify their writes */
+    verification?: FieldVerification[];
+}
+
+// ============ ADAPTER CONTRACT ============
+
+/**
+ * Optional feature groups an adapter can advertise.
+ * Tools are only registered for the capabilities an adapter declares.
+ */
+export type RouterCapability =
+    | 'restart'
+    | 'dsl'
+    | 'trafficStats'
+    | 'parentalControl'
+    | 'qos'
+    | 'firewall'
+    | 'ddns'
+    | 'wifiConfig'
+    | 'lanConfig'
+    | 'portForwarding'
+    | 'macFilter'
+    | 'adminPassword'
+    | 'rawPages'
+    | 'rollback'
+    | 'logs'
+    | 'routing'
+    | 'wanServices'
+    | 'vpn'
+    | 'upnp'
+    | 'ipFilter'
+    | 'systemTime'
+    | 'dhcpReservations'
+    | 'siteSurvey';
+
+/**
+ * Logs in to the router again and returns the new session cookie string.
+ * Adapters call it once when a request fails because the session expired.
+ */
+export type ReloginHandler = () => Promise<string>;
+
+/** Settings area a write touches; each is read back with a matching getter */
+export type ConfigArea = 'wifi' | 'lan' | 'wan' | 'portForwarding' | 'macFilter' | 'qos';
+
+/** Settings captured right before a write, enough to undo it */
+export interface ConfigSnapshotData {
+    area: ConfigArea;
+    /** Adapter method that made the change (e.g. "setWifiSettings") */
+    operation: string;
+    /** Arguments of the write, with secrets redacted */
+    args: Record<string, unknown>;
+    /** Getter output before the write */
+    before: unknown;
+}
+
+/** Receives a snapshot before every configuration write */
+export type SnapshotHandler = (snapshot: ConfigSnapshotData) => Promise<void>;
+
+export interface AdapterOptions {
+    /** Enables transparent re-login (requires stored credentials) */
+    relogin?: ReloginHandler;
+    /** Records the current settings before each write so it can be reverted */
+    onBeforeWrite?: SnapshotHandler;
+}
+
+/**
+ * Vendor-neutral router adapter. Every adapter supports the core read
+ * operations below; everything else is opt-in via `capabilities`.
+ */
+export interface RouterAdapter {
+    /** Registry id of the adapter (e.g. "zte") */
+    readonly id: string;
+    /** Features this adapter implements beyond the core surface */
+    readonly capabilities: readonly RouterCapability[];
+
+    getDeviceInfo(): Promise<DeviceInfo>;
+    getWanInfo(): Promise<WanInfo>;
+    getDhcpLeases(): Promise<DhcpLease[]>;
+    getConnectedDevices(): Promise<DhcpLease[]>;
+    getWifiStatus(): Promise<WifiStatus & { clients: WifiClient[] }>;
+    getWirelessSettings(): Promise<WirelessSettings>;
+}
+
+export interface RestartCapable {
+    restart(): Promise<boolean>;
+}
+
+export interface DslCapable {
+    getDslStats(): Promise<DslStats>;
+    getAdslStats(): Promise<AdslStats>;
+}
+
+export interface TrafficStatsCapable {
+    getLanStats(): Promise<LanStats>;
+    getWlanStats(): Promise<WlanStats>;
+}
+
+export interface SiteSurveyCapable {
+    /** Scan for neighbouring networks from the router's own radio */
+    scanWifiNetworks(): Promise<WifiNeighbor[]>;
+}
+
+export interface ParentalControlCapable {
+    getParentalControl(): Promise<{
+        enabled: boolean;
+        rules: Array<{ mac: string; days: string[]; startTime: string; endTime: string }>;
+    }>;
+}
+
+export interface QosCapable {
+    getQosSettings(): Promise<{
+        enabled: boolean;
+        totalBandwidth: string;
+        rules: Array<{ name: string; priority: string; protocol: string; port: string }>;
+    }>;
+    setQosEnabled(enabled: boolean): Promise<SetterResult>;
+    addQosRule(options: {
+        ruleIndex?: number;
+        enabled?: boolean;
+        protocol?: 'TCP/UDP' | 'TCP' | 'UDP' | 'ICMP' | 'IGMP';
+        sourceIp?: string;
+        destIp?: string;
+        sourcePort?: number | string;
+        destPort?: number | string;
+        priority?: 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7;
+    }): Promise<SetterResult>;
+}
+
+export interface FirewallCapable {
+    getFirewallSettings(): Promise<{ firewallEnabled: boolean; spiEnabled: boolean; dosProtection: boolean }>;
+}
+
+export interface DdnsCapable {
+    getDdnsSettings(): Promise<DdnsSettings>;
+}
+
+export interface WifiConfigCapable {
+    setWifiSsid(ssid: string): Promise<SetterResult>;
+    setWifiPassword(password: string): Promise<SetterResult>;
+    setWifiEnabled(enabled: boolean): Promise<SetterResult>;
+    setWifiChannel(channel: number): Promise<SetterResult>;
+}
+
+export interface LanConfigCapable {
+    getLanSettings(): Promise<LanSettings>;
+    setDhcpEnabled(enabled: boolean): Promise<SetterResult>;
+}
+
+export interface DhcpReservationsCapable {
+    getDhcpReservations(): Promise<DhcpReservation[]>;
+    addDhcpReservation(reservation: DhcpReservation): Promise<SetterResult>;
+    /** Remove the reservation for a MAC address */
+    removeDhcpReservation(macAddress: string): Promise<SetterResult>;
+}
+
+export interface PortForwardingOptions {
+    name: string;
+    protocol: 'TCP' | 'UDP' | 'ALL';
+    externalPort: number | string;
+    internalIp: string;
+    internalPort?: number | string;
+    enabled?: boolean;
+}
+
+export interface PortForwardingCapable {
+    getNatRules(): Promise<NatRule[]>;
+    addPortForwardingRule(options: PortForwardingOptions): Promise<SetterResult>;
+    /** Replace the rule at `ruleIndex` (position in `getNatRules()`) */
+    updatePortForwardingRule(ruleIndex: number, options: PortForwardingOptions): Promise<SetterResult>;
+    deletePortForwardingRule(ruleIndex: number): Promise<SetterResult>;
+}
+
+export interface MacFilterCapable {
+    blockDevice(macAddress: string): Promise<SetterResult>;
+    allowDevice(macAddress: string): Promise<SetterResult>;
+}
+
+export interface AdminPasswordCapable {
+    setAdminPassword(newPassword: string): Promise<SetterResult>;
+}
+
+/** Raw page access for vendors with an HTML admin UI (used by crawl/debug tooling) */
+export interface RawPagesCapable {
+    fetchPage(path: string): Promise<string>;
+    crawlRouterLinks(startPath?: string, maxDepth?: number): Promise<string[]>;
+}
+
+/** Undo a write from the snapshot taken before it */
+export interface RollbackCapable {
+    restoreSnapshot(snapshot: ConfigSnapshotData): Promise<SetterResult>;
+}
+
+export interface LogsCapable {
+    getSystemLog(): Promise<LogEntry[]>;
+    getSecurityLog(): Promise<LogEntry[]>;
+}
+
+/** ARP cache, routing table and port-to-WAN bindings */
+export interface RoutingCapable {
+    getArpTable(): Promise<ArpEntry[]>;
+    getRoutingTable(): Promise<RoutingEntry[]>;
+    getInterfaceGroups(): Promise<InterfaceGroup[]>;
+}
+
+export interface WanServicesCapable {
+    getWanServices(): Promise<WanService[]>;
+}
+
+export interface VpnCapable {
+    getVpnSettings(): Promise<VpnSettings>;
+}
+
+export interface UpnpCapable {
+    getUpnpStatus(): Promise<UpnpStatus>;
+}
+
+export interface IpFilterCapable {
+    getIpFilterRules(): Promise<IpFilterRule[]>;
+}
+
+export interface SystemTimeCapable {
+    getSystemTime(): Promise<SystemTime>;
+}
+
+/** Maps each capability to the methods an adapter must implement for it */
+export interface RouterCapabilityMap {
+    restart: RestartCapable;
+    dsl: DslCapable;
+    trafficStats: TrafficStatsCapable;
+    parentalControl: ParentalControlCapable;
+    qos: QosCapable;
+    firewall: FirewallCapable;
+    ddns: DdnsCapable;
+    wifiConfig: WifiConfigCapable;
+    lanConfig: LanConfigCapable;
+    portForwarding: PortForwardingCapable;
+    macFilter: MacFilterCapable;
+    adminPassword: AdminPasswordCapable;
+    rawPages: RawPagesCapable;
+    rollback: RollbackCapable;
+    logs: LogsCapable;
+    routing: RoutingCapable;
+    wanServices: WanServicesCapable;
+    vpn: VpnCapable;
+    upnp: UpnpCapable;
+    ipFilter: IpFilterCapable;
+    systemTime: SystemTimeCapable;
+    dhcpReservations: DhcpReservationsCapable;
+    siteSurvey: SiteSurveyCapable;
+}
@@ -1,8 +1,15 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 import * as cheerio from 'cheerio';
 
 // Import types from separate file
+import { isLoginResponse, shareRelogin } from './relogin';
 import type {
+    AdapterOptions,
+    ConfigArea,
+    ConfigSnapshotData,
+    SnapshotHandler,
+    SetterResult,
+    FieldVerification,
     DeviceInfo,
     WanInfo,
     ArpEntry,
@@ -18,6 +25,7 @@ import type {
     WanService,
     WirelessSettings,
     NatRule,
+    PortForwardingOptions,
     FirewallRule,
     QosRule,
     DdnsSettings,
@@ -28,17 +36,65 @@ import type {
     RoutingEntry,
     VpnSettings,
     InterfaceGroup,
-    UpnpMapping
+    UpnpMapping,
+    WifiClient,
+    RouterAdapter,
+    RouterCapability,
+    RestartCapable,
+    DslCapable,
+    TrafficStatsCapable,
+    ParentalControlCapable,
+    QosCapable,
+    FirewallCapable,
+    DdnsCapable,
+    WifiConfigCapable,
+    LanConfigCapable,
+    PortForwardingCapable,
+    MacFilterCapable,
+    AdminPasswordCapable,
+    RawPagesCapable,
+    RollbackCapable,
+    LogsCapable,
+    RoutingCapable,
+    WanServicesCapable,
+    VpnCapable,
+    UpnpCapable,
+    IpFilterCapable,
+    SystemTimeCapable
 } from './types';
 
+// Wait before re-reading once more when a write has not shown up yet
+const VERIFY_RETRY_DELAY_MS = 2000;
+
+// Stands in for secrets in verification results
+const HIDDEN_VALUE = '••••••••';
+
+// Form fields holding one MAC filter rule on the IP filter page
+const MAC_FILTER_FIELDS = ['FILTERRuleTypeSEL', 'MacAddrTXT', 'RuleTypeSEL', 'RuleActiveRDO', 'DirectionSEL'];
+
+// Form fields holding the QoS switch and scheduling on the QoS page
+const QOS_FIELDS = ['Qos_active', 'Qosdiscipline', 'QosWRRweight2', 'QosWRRweight3', 'QosWRRweight4'];
+
 // ============ ADAPTER CLASS ============
 
-export class ZTERouterAdapter {
+export class ZTERouterAdapter implements RouterAdapter,
+    RestartCapable, DslCapable, TrafficStatsCapable, ParentalControlCapable, QosCapable,
+    FirewallCapable, DdnsCapable, WifiConfigCapable, LanConfigCapable, PortForwardingCapable,
+    MacFilterCapable, AdminPasswordCapable, RawPagesCapable, RollbackCapable, LogsCapable, RoutingCapable,
+    WanServicesCapable, VpnCapable, UpnpCapable, IpFilterCapable, SystemTimeCapable {
+    readonly id = 'zte';
+    readonly capabilities: readonly RouterCapability[] = [
+        'restart', 'dsl', 'trafficStats', 'parentalControl', 'qos', 'firewall', 'ddns',
+        'wifiConfig', 'lanConfig', 'portForwarding', 'macFilter', 'adminPassword', 'rawPages', 'rollback',
+        'logs', 'routing', 'wanServices', 'vpn', 'upnp', 'ipFilter', 'systemTime'
+    ];
+
     private ip: string;
     private sessionCookie: string;
     private client: AxiosInstance;
+    private onBeforeWrite?: SnapshotHandler;
 
-    constructor(ip: string, sessionCookie: string) {
+    constructor(ip: string, sessionCookie: string, options: AdapterOptions = {}) {
         this.ip = ip;
         this.sessionCookie = sessionCookie;
 
@@ -51,11 +107,39 @@ export class ZTERouterAdapter {
             timeout: 10000,
             validateStatus: (status) => status < 500
         });
+
+        if (options.relogin) {
+            this.installRelogin(shareRelogin(options.relogin));
+        }
+        this.onBeforeWrite = options.onBeforeWrite;
+    }
+
+    /**
+     * Re-login and retry a request once when the router rejects the session
+     * (401/403 or a redirect to the login page)
+     */
+    private installRelogin(relogin: () => Promise<string>) {
+        this.client.interceptors.response.use(async (response) => {
+            const config = response.config as InternalAxiosRequestConfig & { _reloginRetried?: boolean };
+            if (!isLoginResponse(response) || config._reloginRetried) {
+                return response;
+            }
+
+            // A concurrent request may already have logged in again
+            if (config.headers.get('Cookie') === this.sessionCookie) {
+                console.log('[ZTE Adapter] Session expired, logging in again');
+                this.sessionCookie = await relogin();
+                this.client.defaults.headers['Cookie'] = this.sessionCookie;
+            }
+            config.headers.set('Cookie', this.sessionCookie);
+            config._reloginRetried = true;
+            return this.client.request(config);
+        });
     }
 
     // ============ HELPER METHODS ============
 
-    private async fetchPage(path: string): Promise<string> {
+    async fetchPage(path: string): Promise<string> {
         try {
             const response = await this.client.get(path);
             if (response.status === 401 || response.status === 403) {
@@ -301,9 +385,9 @@ export class ZTERouterAdapter {
     }
 
     /** GET /cgi-bin/status_wifi.asp - returns connected WiFi clients */
-    async getWifiStatus(): Promise<WifiStatus & { clients: Array<{ mac: string; hostname: string; ip: string; rssi: string }> }> {
+    async getWifiStatus(): Promise<WifiStatus & { clients: WifiClient[] }> {
         const html = await this.fetchPage('/cgi-bin/status_wifi.asp');
-        const clients: Array<{ mac: string; hostname: string; ip: string; rssi: string }> = [];
+        const clients: WifiClient[] = [];
 
         // Extract clientnumber and MAC addresses from if/else blocks
         const clientNumMatch = html.match(/clientnumber\s*=\s*(\d+);/);
@@ -816,6 +900,258 @@ export class ZTERouterAdapter {
         }));
     }
 
+    // ============ CONFIG SNAPSHOTS ============
+
+    /**
+     * Record the settings a write is about to change, read through the matching getter.
+     * Throws if they cannot be read, so nothing is changed without a way back.
+     */
+    private async captureSnapshot(area: ConfigArea, operation: string, args: object, before?: unknown): Promise<void> {
+        if (!this.onBeforeWrite) return;
+
+        const readers: Record<ConfigArea, () => Promise<unknown>> = {
+            wifi: () => this.getWirelessSettings(),
+            lan: () => this.getLanSettings(),
+            wan: () => this.getWanServices(),
+            portForwarding: () => this.getNatRules(),
+            macFilter: () => this.readMacFilterRule(Number((args as { ruleIndex?: number }).ruleIndex ?? 0)),
+            qos: () => this.readFormFields('/cgi-bin/adv_qos.asp', QOS_FIELDS),
+        };
+
+        const redacted = Object.fromEntries(Object.entries(args).map(([key, value]) =>
+            [key, /password|key/i.test(key) && value !== undefined ? '[REDACTED]' : value]
+        ));
+
+        await this.onBeforeWrite({
+            area,
+            operation,
+            args: redacted,
+            before: before ?? await readers[area](),
+        });
+    }
+
+    /**
+     * Undo a write by putting back the settings captured before it
+     */
+    async restoreSnapshot(snapshot: ConfigSnapshotData): Promise<SetterResult> {
+        switch (snapshot.area) {
+            case 'wifi': {
+                const before = snapshot.before as WirelessSettings;
+                const result = await this.setWifiSettings({
+                    ssid: before.ssid,
+                    enabled: before.enabled,
+                    channel: this.parseChannel(before.channel),
+                });
+                // The router never reveals the current key, so it cannot be put back
+                if (result.success && snapshot.args.password !== undefined) {
+                    return { success: true, message: `${result.message}. The WiFi password cannot be restored automatically; set the old one again if needed.` };
+                }
+                return result;
+            }
+
+            case 'lan': {
+                const before = snapshot.before as LanSettings;
+                const start = before.dhcpStartIp.split('.').map(Number);
+                const end = before.dhcpEndIp.split('.').map(Number);
+                const poolSize = end[3] - start[3] + 1;
+                return this.setLanSettings({
+                    ipAddress: before.ipAddress,
+                    subnetMask: before.subnetMask,
+                    dhcpEnabled: before.dhcpEnabled,
+                    dhcpStartIp: before.dhcpStartIp,
+                    dhcpPoolSize: poolSize > 0 ? poolSize : undefined,
+                    dhcpLeaseTime: parseInt(before.leaseTime, 10) || undefined,
+                });
+            }
+
+            case 'portForwarding': {
+                // Delete rules added since the snapshot and re-add the ones removed
+                const ruleKey = (rule: NatRule) => [rule.name, rule.protocol, rule.externalPort, rule.internalIp, rule.internalPort].join('|');
+                const before = snapshot.before as NatRule[];
+                const current = await this.getNatRules();
+                const beforeKeys = new Set(before.map(ruleKey));
+                const currentKeys = new Set(current.map(ruleKey));
+
+                const added = current
+                    .map((rule, index) => ({ rule, index }))
+                    .filter(({ rule }) => !beforeKeys.has(ruleKey(rule)))
+                    .reverse(); // highest index first so earlier indexes stay valid
+                const removed = before.filter(rule => !currentKeys.has(ruleKey(rule)));
+
+                if (added.length === 0 && removed.length === 0) {
+                    return { success: true, message: 'Port forwarding rules already match the snapshot' };
+                }
+
+                for (const { index } of added) {
+                    const result = await this.deletePortForwardingRule(index);
+                    if (!result.success) return result;
+                }
+                for (const rule of removed) {
+                    const result = await this.addPortForwardingRule({
+                        name: rule.name,
+                        protocol: (['TCP', 'UDP', 'ALL'].includes(rule.protocol.toUpperCase()) ? rule.protocol.toUpperCase() : 'ALL') as 'TCP' | 'UDP' | 'ALL',
+                        externalPort: rule.externalPort,
+                        internalIp: rule.internalIp,
+                        internalPort: rule.internalPort,
+                        enabled: rule.enabled,
+                    });
+                    if (!result.success) return result;
+                }
+                return { success: true, message: `Port forwarding restored (${added.length} rule(s) removed, ${removed.length} re-added)` };
+            }
+
+            case 'macFilter': {
+                const ruleIndex = Number(snapshot.args.ruleIndex ?? 0);
+                const before = snapshot.before as Record<string, string | undefined>;
+                if (Array.isArray(before)) {
+                    return { success: false, message: 'This change was recorded without the previous rule, so it cannot be reverted automatically' };
+                }
+                // The slot was empty before the write, so removing the rule puts it back
+                if (!before.MacAddrTXT) {
+                    return this.deleteMacFilter(ruleIndex);
+                }
+                if (before.FILTERRuleTypeSEL !== 'MAC') {
+                    return { success: false, message: `Filter rule #${ruleIndex} held an IP rule before the change; it cannot be restored automatically` };
+                }
+                const direction = before.DirectionSEL?.toLowerCase();
+                return this.setMacFilter({
+                    macAddress: before.MacAddrTXT,
+                    action: before.RuleTypeSEL === 'White' ? 'allow' : 'block',
+                    direction: direction === 'incoming' || direction === 'outgoing' ? direction : 'both',
+                    ruleIndex,
+                    enabled: before.RuleActiveRDO !== 'No',
+                });
+            }
+
+            case 'qos': {
+                if (snapshot.operation === 'addQosRule') {
+                    return this.deleteQosRule(Number(snapshot.args.ruleIndex ?? 0));
+                }
+                // Turning QoS on or off also resets the discipline, so put both back
+                const before = snapshot.before as Record<string, string | undefined>;
+                const result = await this.setQosEnabled(before.Qos_active === 'Yes');
+                if (!result.success) return result;
+
+                const weight = (name: string) => parseInt(before[name] ?? '', 10) || undefined;
+                return this.setQosDiscipline(before.Qosdiscipline === 'WRR' ? 'WRR' : 'SP', {
+                    high: weight('QosWRRweight2'),
+                    medium: weight('QosWRRweight3'),
+                    low: weight('QosWRRweight4'),
+                });
+            }
+
+            case 'wan':
+                return {
+                    success: false,
+                    message: 'WAN changes cannot be reverted automatically: the router does not reveal the previous PPPoE credentials or connection settings',
+                };
+        }
+    }
+
+    // ============ WRITE VERIFICATION ============
+
+    /**
+     * Re-read the router after a write and compare each intended value with what it shows.
+     * Fails if any value differs, after one retry since some pages update a moment late.
+     * Values missing from the read-back (passwords) are reported as unverified.
+     */
+    private async verifyWrite(
+        appliedMessage: string,
+        expected: Record<string, string>,
+        readBack: () => Promise<Record<string, string | undefined>>
+    ): Promise<SetterResult> {
+        const compare = (shown: Record<string, string | undefined>): FieldVerification[] =>
+            Object.entries(expected).map(([field, value]) => {
+                const actual = shown[field];
+                if (actual === undefined) return { field, expected: value, status: 'unverified' };
+                const matches = actual.trim().toLowerCase() === value.trim().toLowerCase();
+                return { field, expected: value, actual, status: matches ? 'applied' : 'mismatch' };
+            });
+
+        let verification: FieldVerification[];
+        try {
+            verification = compare(await readBack());
+            if (verification.some(check => check.status === 'mismatch')) {
+                await new Promise(resolve => setTimeout(resolve, VERIFY_RETRY_DELAY_MS));
+                verification = compare(await readBack());
+            }
+        } catch (error: unknown) {
+            return this.unverifiedWrite(appliedMessage, expected, `the router could not be re-read (${error instanceof Error ? error.message : error})`);
+        }
+
+        const mismatches = verification.filter(check => check.status === 'mismatch');
+        if (mismatches.length > 0) {
+            const details = mismatches.map(check => `${check.field} is "${check.actual}" instead of "${check.expected}"`);
+            return { success: false, message: `The router did not apply the change: ${details.join('; ')}`, verification };
+        }
+
+        const unverified = verification.filter(check => check.status === 'unverified').map(check => check.field);
+        return {
+            success: true,
+            message: unverified.length > 0
+                ? `${appliedMessage} (could not confirm: ${unverified.join(', ')})`
+                : `${appliedMessage} (confirmed on the router)`,
+            verification,
+        };
+    }
+
+    /**
+     * Result for a write whose effect the router does not show
+     */
+    private unverifiedWrite(appliedMessage: string, expected: Record<string, string>, reason: string): SetterResult {
+        return {
+            success: true,
+            message: `${appliedMessage}, but it could not be confirmed: ${reason}`,
+            verification: Object.entries(expected).map(([field, value]) => ({ field, expected: value, status: 'unverified' })),
+        };
+    }
+
+    /**
+     * Current values of named form fields on a settings page
+     * (checked radio/checkbox, selected option, or input value)
+     */
+    private async readFormFields(path: string, names: string[]): Promise<Record<string, string | undefined>> {
+        return this.parseFormFields(await this.fetchPage(path), names);
+    }
+
+    /**
+     * Values of named form fields in a page already fetched
+     */
+    private parseFormFields(html: string, names: string[]): Record<string, string | undefined> {
+        const $ = cheerio.load(html);
+        const values: Record<string, string | undefined> = {};
+
+        for (const name of names) {
+            const field = $(`[name="${name}"]`);
+            if (field.length === 0) continue;
+
+            if (field.is('select')) {
+                values[name] = (field.find('option:selected').val() ?? field.find('option').first().val()) as string | undefined;
+            } else if (field.is('input[type="radio"], input[type="checkbox"]')) {
+                values[name] = $(`[name="${name}"]:checked`).val() as string | undefined;
+            } else {
+                values[name] = field.val() as string | undefined;
+            }
+        }
+        return values;
+    }
+
+    /**
+     * Form values of one MAC filter rule. Selecting a rule index re-renders the
+     * IP filter page with that rule filled in; without Set or Delete nothing changes.
+     */
+    private async readMacFilterRule(ruleIndex: number): Promise<Record<string, string | undefined>> {
+        const response = await this.client.post('/cgi-bin/access_ipfilter.asp', new URLSearchParams({
+            'RuleIndexSEL': ruleIndex.toString(),
+        }));
+        return this.parseFormFields(response.data, MAC_FILTER_FIELDS);
+    }
+
+    /** Channel number from the wireless page's channel text ("Auto" → 0) */
+    private parseChannel(channel: string): number {
+        return parseInt(channel.match(/\d+/)?.[0] ?? '', 10) || 0;
+    }
+
     // ============ WIFI SETTINGS (SETTERS) ============
 
     /**
@@ -837,15 +1173,15 @@ export class ZTERouterAdapter {
             // Form: name="WLAN" action="/cgi-bin/home_wireless.asp"
             const params: Record<string, string> = {
                 // Access Point enable/disable
-                'wlan_APenable': options.enabled === false ? '0' : '1',
+                'wlan_APenable': (options.enabled ?? currentSettings.enabled) ? '1' : '0',
                 // SSID (network name)
                 'ESSID': options.ssid ?? currentSettings.ssid,
                 // Broadcast SSID (0=Yes/broadcast, 1=No/hidden)
                 'ESSID_HIDE_Selection': currentSettings.hiddenSsid ? '1' : '0',
                 // Enable SSID
                 'ESSID_Enable_Selection': '1',
-                // Channel (0 = Auto)
-                'Channel_ID': options.channel?.toString() ?? '0',
+                // Channel (0 = Auto); unchanged unless one was given
+                'Channel_ID': (options.channel ?? this.parseChannel(currentSettings.channel)).toString(),
                 // Wireless Mode (9 = 802.11b+g+n)
                 'WirelessMode': '9',
                 // Authentication Type
@@ -874,9 +1210,25 @@ export class ZTERouterAdapter {
                 }
             }
 
+            await this.captureSnapshot('wifi', 'setWifiSettings', options, currentSettings);
             await this.client.post('/cgi-bin/home_wireless.asp', new URLSearchParams(params));
 
-            return { success: true, message: 'WiFi settings updated successfully' };
+            const channelLabel = (channel: number) => channel === 0 ? 'Auto' : channel.toString();
+            const expected: Record<string, string> = {};
+            if (options.ssid !== undefined) expected['SSID'] = options.ssid;
+            if (options.enabled !== undefined) expected['WiFi'] = options.enabled ? 'On' : 'Off';
+            if (options.channel !== undefined) expected['Channel'] = channelLabel(options.channel);
+            if (options.password !== undefined) expected['Password'] = HIDDEN_VALUE;
+
+            // The page never shows the key, so a password change stays unverified
+            return this.verifyWrite('WiFi settings updated successfully', expected, async () => {
+                const settings = await this.getWirelessSettings();
+                return {
+                    'SSID': settings.ssid,
+                    'WiFi': settings.enabled ? 'On' : 'Off',
+                    'Channel': channelLabel(this.parseChannel(settings.channel)),
+                };
+            });
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to update WiFi settings:', error);
             return { success: false, message: error.message || 'Failed to update WiFi settings' };
@@ -945,6 +1297,7 @@ export class ZTERouterAdapter {
             const currentLeaseTime = $('input[name="dhcp_LeaseTime"]').val() as string || '86400';
             const currentAliasIp = $('input[name="uiViewAliasIPAddr"]').val() as string || '192.168.2.1';
             const currentAliasMask = $('input[name="uiViewAliasNetMask"]').val() as string || '255.255.255.0';
+            const currentDhcpType = $('input[name="dhcpTypeRadio"]:checked').val() as string || '1';
 
             // Build params with current values as defaults
             // Based on actual form fields from home_lan.asp
@@ -956,7 +1309,7 @@ export class ZTERouterAdapter {
                 'uiViewAliasIPAddr': currentAliasIp,
                 'uiViewAliasNetMask': currentAliasMask,
                 // DHCP Type: 0=Disabled, 1=Enabled, 2=Relay
-                'dhcpTypeRadio': options.dhcpEnabled === false ? '0' : '1',
+                'dhcpTypeRadio': options.dhcpEnabled === undefined ? currentDhcpType : options.dhcpEnabled ? '1' : '0',
                 // DHCP pool settings
                 'StartIp': options.dhcpStartIp || currentStartIp,
                 'PoolSize': options.dhcpPoolSize?.toString() || currentPoolSize,
@@ -972,9 +1325,35 @@ export class ZTERouterAdapter {
                 'DNSproxy': 'Yes',
             };
 
+            await this.captureSnapshot('lan', 'setLanSettings', options);
             await this.client.post('/cgi-bin/home_lan.asp', new URLSearchParams(params));
 
-            return { success: true, message: 'LAN settings updated successfully' };
+            const dhcpModes: Record<string, string> = { '0': 'Off', '1': 'On', '2': 'Relay' };
+            const expected: Record<string, string> = {};
+            if (options.ipAddress) expected['LAN IP address'] = options.ipAddress;
+            if (options.subnetMask) expected['Subnet mask'] = options.subnetMask;
+            if (options.dhcpEnabled !== undefined) expected['DHCP server'] = options.dhcpEnabled ? 'On' : 'Off';
+            if (options.dhcpStartIp) expected['DHCP start IP'] = options.dhcpStartIp;
+            if (options.dhcpPoolSize) expected['DHCP pool size'] = options.dhcpPoolSize.toString();
+            if (options.dhcpLeaseTime) expected['DHCP lease time'] = options.dhcpLeaseTime.toString();
+
+            if (options.ipAddress && options.ipAddress !== currentIp) {
+                return this.unverifiedWrite('LAN settings updated successfully', expected, `the router now answers at ${options.ipAddress}`);
+            }
+
+            return this.verifyWrite('LAN settings updated successfully', expected, async () => {
+                const form = await this.readFormFields('/cgi-bin/home_lan.asp', [
+                    'uiViewIPAddr', 'uiViewNetMask', 'dhcpTypeRadio', 'StartIp', 'PoolSize', 'dhcp_LeaseTime',
+                ]);
+                return {
+                    'LAN IP address': form['uiViewIPAddr'],
+                    'Subnet mask': form['uiViewNetMask'],
+                    'DHCP server': form['dhcpTypeRadio'] && (dhcpModes[form['dhcpTypeRadio']] ?? form['dhcpTypeRadio']),
+                    'DHCP start IP': form['StartIp'],
+                    'DHCP pool size': form['PoolSize'],
+                    'DHCP lease time': form['dhcp_LeaseTime'],
+                };
+            });
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to update LAN settings:', error);
             return { success: false, message: error.message || 'Failed to update LAN settings' };
@@ -1065,9 +1444,29 @@ export class ZTERouterAdapter {
                 params['wan_vid'] = options.vlanId.toString();
             }
 
+            await this.captureSnapshot('wan', 'setWanSettings', options);
             await this.client.post('/cgi-bin/home_wan.asp', new URLSearchParams(params));
 
-            return { success: true, message: 'WAN settings updated successfully' };
+            const expected: Record<string, string> = {};
+            if (options.pppUsername) expected['PPPoE username'] = options.pppUsername;
+            if (options.pppPassword) expected['PPPoE password'] = HIDDEN_VALUE;
+            if (options.connectionType) expected['Connection type'] = options.connectionType;
+            if (options.natEnabled !== undefined) expected['NAT'] = options.natEnabled ? 'On' : 'Off';
+            if (options.mtu !== undefined) expected['MTU'] = options.mtu.toString();
+            if (options.vlanId !== undefined) expected['VLAN ID'] = options.vlanId.toString();
+
+            return this.verifyWrite('WAN settings updated successfully', expected, async () => {
+                const form = await this.readFormFields('/cgi-bin/home_wan.asp', [
+                    'wan_PPPUsername', 'wanTypeRadio', 'wan_NAT0', 'wan_TCPMTU0', 'wan_vid',
+                ]);
+                return {
+                    'PPPoE username': form['wan_PPPUsername'],
+                    'Connection type': Object.keys(connectionTypeMap).find(type => connectionTypeMap[type] === form['wanTypeRadio']),
+                    'NAT': form['wan_NAT0'] && (form['wan_NAT0'] === 'Enable' ? 'On' : 'Off'),
+                    'MTU': form['wan_TCPMTU0'],
+                    'VLAN ID': form['wan_vid'],
+                };
+            });
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to update WAN settings:', error);
             return { success: false, message: error.message || 'Failed to update WAN settings' };
@@ -1094,46 +1493,73 @@ export class ZTERouterAdapter {
     // ============ PORT FORWARDING (SETTERS) ============
 
     /**
-     * Add or update a port forwarding rule
+     * Add a port forwarding rule
      * POST /cgi-bin/adv_nat_virsvr.asp
      */
-    async addPortForwardingRule(options: {
-        name: string;
-        protocol: 'TCP' | 'UDP' | 'ALL';
-        externalPort: number | string;
-        internalIp: string;
-        internalPort?: number | string;
-        enabled?: boolean;
-    }): Promise<{ success: boolean; message: string }> {
+    async addPortForwardingRule(options: PortForwardingOptions): Promise<{ success: boolean; message: string }> {
         try {
-            const startPort = options.externalPort.toString();
-            const localPort = (options.internalPort || options.externalPort).toString();
-
-            const params = new URLSearchParams({
-                'Application': options.name,
-                'SelectProtocol': options.protocol,
-                'start_port': startPort,
-                'end_port': startPort,
-                'Addr': options.internalIp,
-                'local_sport': localPort,
-                'local_eport': localPort,
-                'enbl': options.enabled !== false ? 'on' : 'off',
-                'isLocalPortSupport': 'Yes',
-                'enblflag': 'Yes',
-                'editFlag': '0',
-                'delFlag': '0',
-                'editnum': '-1',
-            });
-
-            await this.client.post('/cgi-bin/adv_nat_virsvr.asp', params);
+            await this.captureSnapshot('portForwarding', 'addPortForwardingRule', options);
+            await this.client.post('/cgi-bin/adv_nat_virsvr.asp', this.portForwardingParams(options, -1));
 
-            return { success: true, message: `Port forwarding rule "${options.name}" added successfully` };
+            return this.verifyPortForwardingRule(`Port forwarding rule "${options.name}" added successfully`, options,
+                rules => rules.find(r => r.name === options.name));
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to add port forwarding rule:', error);
             return { success: false, message: error.message || 'Failed to add port forwarding rule' };
         }
     }
 
+    /**
+     * Edit the port forwarding rule at an index (same form, with editFlag set)
+     */
+    async updatePortForwardingRule(ruleIndex: number, options: PortForwardingOptions): Promise<{ success: boolean; message: string }> {
+        try {
+            await this.captureSnapshot('portForwarding', 'updatePortForwardingRule', { ruleIndex, ...options });
+            await this.client.post('/cgi-bin/adv_nat_virsvr.asp', this.portForwardingParams(options, ruleIndex));
+
+            return this.verifyPortForwardingRule(`Port forwarding rule "${options.name}" updated`, options,
+                rules => rules[ruleIndex]);
+        } catch (error: unknown) {
+            console.error('[ZTE Adapter] Failed to update port forwarding rule:', error);
+            return { success: false, message: error instanceof Error ? error.message : 'Failed to update port forwarding rule' };
+        }
+    }
+
+    // Form fields of adv_nat_virsvr.asp; editnum -1 adds a new rule
+    private portForwardingParams(options: PortForwardingOptions, editIndex: number): URLSearchParams {
+        const startPort = options.externalPort.toString();
+        const localPort = (options.internalPort || options.externalPort).toString();
+
+        return new URLSearchParams({
+            'Application': options.name,
+            'SelectProtocol': options.protocol,
+            'start_port': startPort,
+            'end_port': startPort,
+            'Addr': options.internalIp,
+            'local_sport': localPort,
+            'local_eport': localPort,
+            'enbl': options.enabled !== false ? 'on' : 'off',
+            'isLocalPortSupport': 'Yes',
+            'enblflag': 'Yes',
+            'editFlag': editIndex >= 0 ? '1' : '0',
+            'delFlag': '0',
+            'editnum': editIndex.toString(),
+        });
+    }
+
+    // Read the rule list back and check the written rule is there as intended
+    private verifyPortForwardingRule(message: string, options: PortForwardingOptions, pick: (rules: NatRule[]) => NatRule | undefined): Promise<SetterResult> {
+        const localPort = (options.internalPort || options.externalPort).toString();
+        const field = `Rule "${options.name}"`;
+
+        return this.verifyWrite(message, {
+            [field]: `${options.externalPort} → ${options.internalIp}:${localPort}`,
+        }, async () => {
+            const rule = pick(await this.getNatRules());
+            return { [field]: rule && rule.name === options.name ? `${rule.externalPort} → ${rule.internalIp}:${rule.internalPort}` : 'missing' };
+        });
+    }
+
     /**
      * Delete a port forwarding rule by index
      */
@@ -1144,9 +1570,24 @@ export class ZTERouterAdapter {
                 'editnum': ruleIndex.toString(),
             });
 
+            // The rule list before the write tells which rule should disappear
+            const before = await this.getNatRules().catch(() => undefined);
+
+            await this.captureSnapshot('portForwarding', 'deletePortForwardingRule', { ruleIndex }, before);
             await this.client.post('/cgi-bin/adv_nat_virsvr.asp', params);
 
-            return { success: true, message: `Port forwarding rule at index ${ruleIndex} deleted` };
+            const message = `Port forwarding rule at index ${ruleIndex} deleted`;
+            const target = before?.[ruleIndex];
+            if (!target) {
+                return this.unverifiedWrite(message, { [`Rule #${ruleIndex}`]: 'deleted' }, 'no rule was listed at that index');
+            }
+
+            const field = `Rule "${target.name}"`;
+            const ruleKey = (rule: NatRule) => [rule.name, rule.externalPort, rule.internalIp].join('|');
+            return this.verifyWrite(message, { [field]: 'deleted' }, async () => {
+                const rules = await this.getNatRules();
+                return { [field]: rules.some(rule => ruleKey(rule) === ruleKey(target)) ? 'still present' : 'deleted' };
+            });
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to delete port forwarding rule:', error);
             return { success: false, message: error.message || 'Failed to delete port forwarding rule' };
@@ -1204,12 +1645,21 @@ export class ZTERouterAdapter {
                 'IpFilterApply': 'Set',
             });
 
+            await this.captureSnapshot('macFilter', 'setMacFilter', { ...options, ruleIndex: options.ruleIndex || 0 });
             await this.client.post('/cgi-bin/access_ipfilter.asp', params);
 
-            return {
-                success: true,
-                message: `MAC address ${options.macAddress} ${options.action === 'block' ? 'blocked' : 'allowed'}`
-            };
+            return this.verifyWrite(`MAC address ${options.macAddress} ${options.action === 'block' ? 'blocked' : 'allowed'}`, {
+                'MAC address': options.macAddress.toUpperCase(),
+                'Rule type': options.action === 'block' ? 'Black' : 'White',
+                'Active': options.enabled !== false ? 'Yes' : 'No',
+            }, async () => {
+                const rule = await this.readMacFilterRule(options.ruleIndex || 0);
+                return {
+                    'MAC address': rule['MacAddrTXT'],
+                    'Rule type': rule['RuleTypeSEL'],
+                    'Active': rule['RuleActiveRDO'],
+                };
+            });
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to set MAC filter:', error);
             return { success: false, message: error.message || 'Failed to set MAC filter' };
@@ -1242,7 +1692,11 @@ export class ZTERouterAdapter {
 
             await this.client.post('/cgi-bin/access_ipfilter.asp', params);
 
-            return { success: true, message: `MAC filter rule at index ${ruleIndex} deleted` };
+            return this.unverifiedWrite(
+                `MAC filter rule at index ${ruleIndex} deleted`,
+                { [`Filter rule #${ruleIndex}`]: 'deleted' },
+                'the filter list does not show rule numbers'
+            );
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to delete MAC filter:', error);
             return { success: false, message: error.message || 'Failed to delete MAC filter' };
@@ -1272,9 +1726,15 @@ export class ZTERouterAdapter {
                 'Qosdisciplinesave': 'Discipline Save',
             });
 
+            await this.captureSnapshot('qos', 'setQosEnabled', { enabled });
             await this.client.post('/cgi-bin/adv_qos.asp', params);
 
-            return { success: true, message: enabled ? 'QoS enabled successfully' : 'QoS disabled' };
+            return this.verifyWrite(enabled ? 'QoS enabled successfully' : 'QoS disabled', {
+                'QoS': enabled ? 'On' : 'Off',
+            }, async () => {
+                const form = await this.readFormFields('/cgi-bin/adv_qos.asp', ['Qos_active']);
+                return { 'QoS': form['Qos_active'] && (form['Qos_active'] === 'Yes' ? 'On' : 'Off') };
+            });
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to toggle QoS:', error);
             return { success: false, message: error.message || 'Failed to toggle QoS' };
@@ -1298,9 +1758,26 @@ export class ZTERouterAdapter {
                 if (weights.low !== undefined) params['QosWRRweight4'] = weights.low.toString();
             }
 
+            await this.captureSnapshot('qos', 'setQosDiscipline', { discipline, ...weights });
             await this.client.post('/cgi-bin/adv_qos.asp', new URLSearchParams(params));
 
-            return { success: true, message: `QoS discipline set to ${discipline}` };
+            const weightFields: Record<string, string> = {
+                'High priority weight': 'QosWRRweight2',
+                'Medium priority weight': 'QosWRRweight3',
+                'Low priority weight': 'QosWRRweight4',
+            };
+            const expected: Record<string, string> = { 'Discipline': discipline };
+            for (const [field, name] of Object.entries(weightFields)) {
+                if (params[name] !== undefined) expected[field] = params[name];
+            }
+
+            return this.verifyWrite(`QoS discipline set to ${discipline}`, expected, async () => {
+                const form = await this.readFormFields('/cgi-bin/adv_qos.asp', ['Qosdiscipline', ...Object.values(weightFields)]);
+                return {
+                    'Discipline': form['Qosdiscipline'],
+                    ...Object.fromEntries(Object.entries(weightFields).map(([field, name]) => [field, form[name]])),
+                };
+            });
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to set QoS discipline:', error);
             return { success: false, message: error.message || 'Failed to set QoS discipline' };
@@ -1352,9 +1829,14 @@ export class ZTERouterAdapter {
                 params['QosIPPValue1'] = options.priority.toString();
             }
 
+            await this.captureSnapshot('qos', 'addQosRule', { ...options, ruleIndex: options.ruleIndex || 0 });
             await this.client.post('/cgi-bin/adv_qos.asp', new URLSearchParams(params));
 
-            return { success: true, message: 'QoS rule added successfully' };
+            return this.unverifiedWrite(
+                'QoS rule added successfully',
+                { [`QoS rule #${params['QosRuleIndex']}`]: 'added' },
+                'the rule list does not show rule numbers'
+            );
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to add QoS rule:', error);
             return { success: false, message: error.message || 'Failed to add QoS rule' };
@@ -1373,7 +1855,11 @@ export class ZTERouterAdapter {
 
             await this.client.post('/cgi-bin/adv_qos.asp', params);
 
-            return { success: true, message: `QoS rule ${ruleIndex} deleted` };
+            return this.unverifiedWrite(
+                `QoS rule ${ruleIndex} deleted`,
+                { [`QoS rule #${ruleIndex}`]: 'deleted' },
+                'the rule list does not show rule numbers'
+            );
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to delete QoS rule:', error);
             return { success: false, message: error.message || 'Failed to delete QoS rule' };
@@ -1401,7 +1887,11 @@ export class ZTERouterAdapter {
 
             await this.client.post('/cgi-bin/tools_admin.asp', params);
 
-            return { success: true, message: 'Admin password changed successfully. Remember to update your login credentials.' };
+            return this.unverifiedWrite(
+                'Admin password changed successfully. Remember to update your login credentials.',
+                { 'Admin password': HIDDEN_VALUE },
+                'the router never shows its password'
+            );
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to change admin password:', error);
             return { success: false, message: error.message || 'Failed to change admin password' };
@@ -1449,7 +1939,26 @@ export class ZTERouterAdapter {
 
             await this.client.post('/cgi-bin/access_ddns.asp', new URLSearchParams(params));
 
-            return { success: true, message: options.enabled ? 'Dynamic DNS enabled successfully' : 'Dynamic DNS disabled' };
+            const yesNo = (value: string | undefined) => value && (value === 'Yes' ? 'On' : 'Off');
+            const expected: Record<string, string> = { 'Dynamic DNS': options.enabled ? 'On' : 'Off' };
+            if (options.provider) expected['Provider'] = options.provider;
+            if (options.hostname) expected['Hostname'] = options.hostname;
+            if (options.username) expected['Username'] = options.username;
+            if (options.password) expected['Password'] = HIDDEN_VALUE;
+            if (options.wildcard !== undefined) expected['Wildcard'] = options.wildcard ? 'On' : 'Off';
+
+            return this.verifyWrite(options.enabled ? 'Dynamic DNS enabled successfully' : 'Dynamic DNS disabled', expected, async () => {
+                const form = await this.readFormFields('/cgi-bin/access_ddns.asp', [
+                    'Enable_DyDNS', 'ddns_ServerName', 'sysDNSHost', 'sysDNSUser', 'Enable_Wildcard',
+                ]);
+                return {
+                    'Dynamic DNS': yesNo(form['Enable_DyDNS']),
+                    'Provider': form['ddns_ServerName'],
+                    'Hostname': form['sysDNSHost'],
+                    'Username': form['sysDNSUser'],
+                    'Wildcard': yesNo(form['Enable_Wildcard']),
+                };
+            });
         } catch (error: any) {
             console.error('[ZTE Adapter] Failed to configure DDNS:', error);
             return { success: false, message: error.message || 'Failed to configure Dynamic DNS' };
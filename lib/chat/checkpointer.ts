@@ -0,0 +1,85 @@
+/**
+ * Agent Checkpointer
+ *
+ * Keeps the state of agent runs that are paused waiting for the user to
+ * approve or reject a sensitive action, so the next request can resume them.
+ * Runs that finish are released straight away; paused ones expire.
+ */
+
+import { MemorySaver } from '@langchain/langgraph';
+
+// How long a paused run waits for the user's decision
+const PENDING_TTL_MS = 30 * 60 * 1000;
+
+export interface PendingThread {
+    /** Client session that started the run; only it may resume the run */
+    owner: string | null;
+    /** Routers the run was started with (tool calls refer to them by id) */
+    routerIds: string[];
+    conversationId?: string | null;
+    /** User message that started the run (recorded with configuration snapshots) */
+    chatMessage?: string | null;
+    /** Stored id of that message (recorded in the audit log) */
+    messageId?: string | null;
+    pausedAt: number;
+}
+
+// Kept on globalThis so Next.js dev reloads don't drop paused runs
+const globalForCheckpointer = globalThis as unknown as {
+    agentCheckpointer?: MemorySaver;
+    pendingAgentThreads?: Map<string, PendingThread>;
+};
+
+/**
+ * Get the process-wide checkpointer shared by all agent graphs
+ */
+export function getCheckpointer(): MemorySaver {
+    if (!globalForCheckpointer.agentCheckpointer) {
+        globalForCheckpointer.agentCheckpointer = new MemorySaver();
+    }
+    return globalForCheckpointer.agentCheckpointer;
+}
+
+function getPendingThreads(): Map<string, PendingThread> {
+    if (!globalForCheckpointer.pendingAgentThreads) {
+        globalForCheckpointer.pendingAgentThreads = new Map();
+    }
+    return globalForCheckpointer.pendingAgentThreads;
+}
+
+/**
+ * Record that a run is paused waiting for confirmation
+ */
+export function markThreadPending(threadId: string, pending: Omit<PendingThread, 'pausedAt'>): void {
+    purgeExpiredThreads();
+    getPendingThreads().set(threadId, { ...pending, pausedAt: Date.now() });
+}
+
+/**
+ * Claim a paused run so it can be resumed (once). Returns null if there is
+ * no such run, it expired, or it belongs to another client session.
+ */
+export function takePendingThread(threadId: string, owner: string | null): PendingThread | null {
+    const pending = getPendingThreads().get(threadId);
+    if (!pending || Date.now() - pending.pausedAt > PENDING_TTL_MS || pending.owner !== owner) return null;
+
+    getPendingThreads().delete(threadId);
+    return pending;
+}
+
+/**
+ * Drop a run's checkpoints (after it finished or was abandoned)
+ */
+export async function releaseThread(threadId: string): Promise<void> {
+    getPendingThreads().delete(threadId);
+    await getCheckpointer().deleteThread(threadId);
+}
+
+function purgeExpiredThreads(): void {
+    const now = Date.now();
+    for (const [threadId, pending] of getPendingThreads()) {
+        if (now - pending.pausedAt > PENDING_TTL_MS) {
+            releaseThread(threadId).catch(() => undefined);
+        }
+    }
+}
@@ -0,0 +1,219 @@
+/**
+ * Action Confirmation
+ *
+ * Describes sensitive tool calls for the approval prompt in the chat UI:
+ * what will happen, on which router, and a before → after list of the
+ * settings that change. Current values are read from the router when possible.
+ */
+
+import type { RouterTarget } from './tools';
+import { getToolDisplayName } from './guardrails';
+import { hasCapability } from '@/lib/adapters/registry';
+import { getSnapshotStore, describeSnapshot } from '@/lib/router/config-snapshots';
+import { displayName, findDevices, getDeviceStore } from '@/lib/router/device-inventory';
+import { checkPortForwarding, describeRule, findRulesByName } from '@/lib/router/port-forwarding';
+import type { PortForwardingOptions } from '@/lib/adapters/types';
+
+// ============ TYPES ============
+
+export interface ActionChange {
+    field: string;
+    /** Current value, when it could be read from the router */
+    from?: string;
+    to: string;
+}
+
+export interface PendingAction {
+    toolCallId: string;
+    /** Human-friendly action name (never the internal tool name) */
+    title: string;
+    /** Router the action runs on, e.g. "Main Router (192.168.1.1)" */
+    router?: string;
+    changes: ActionChange[];
+    /** Side effects worth knowing before approving */
+    warning?: string;
+}
+
+export interface ConfirmationDecision {
+    approved: boolean;
+}
+
+interface ToolCallLike {
+    id?: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+const MASKED = '••••••••';
+
+// ============ HELPERS ============
+
+function onOff(value: unknown): string {
+    return value ? 'On' : 'Off';
+}
+
+async function readCurrent<T>(read: () => Promise<T>): Promise<T | undefined> {
+    try {
+        return await read();
+    } catch {
+        // Best-effort: the approval prompt still works without the current value
+        return undefined;
+    }
+}
+
+// ============ DESCRIPTIONS ============
+
+/**
+ * Build the approval prompt entry for one sensitive tool call
+ */
+export async function describeToolCall(toolCall: ToolCallLike, routers: RouterTarget[]): Promise<PendingAction> {
+    const { routerId, ...args } = toolCall.args;
+    const target = routers.find(r => r.id === (routerId || routers[0]?.id));
+    const adapter = target?.adapter;
+
+    const action: PendingAction = {
+        toolCallId: toolCall.id ?? '',
+        title: getToolDisplayName(toolCall.name),
+        router: target ? `${target.name} (${target.ip})` : undefined,
+        changes: [],
+    };
+
+    switch (toolCall.name) {
+        case 'restartRouter':
+            action.warning = 'All devices will lose their connection for a minute or two.';
+            break;
+
+        case 'setWifiSsid': {
+            const current = adapter && await readCurrent(() => adapter.getWirelessSettings());
+            action.changes.push({ field: 'WiFi name (SSID)', from: current?.ssid, to: String(args.ssid) });
+            action.warning = 'Devices will need to reconnect to the new network name.';
+            break;
+        }
+
+        case 'setWifiPassword':
+            action.changes.push({ field: 'WiFi password', from: MASKED, to: MASKED });
+            action.warning = 'Devices will need to reconnect with the new password.';
+            break;
+
+        case 'setWifiEnabled': {
+            const current = adapter && await readCurrent(() => adapter.getWirelessSettings());
+            action.changes.push({ field: 'WiFi', from: current ? onOff(current.enabled) : undefined, to: onOff(args.enabled) });
+            if (!args.enabled) action.warning = 'All WiFi devices will be disconnected.';
+            break;
+        }
+
+        case 'setWifiChannel': {
+            const current = adapter && await readCurrent(() => adapter.getWirelessSettings());
+            action.changes.push({ field: 'WiFi channel', from: current?.channel, to: args.channel === 0 ? 'Auto' : String(args.channel) });
+            action.warning = 'WiFi devices may briefly disconnect.';
+            break;
+        }
+
+        case 'analyzeWifiChannels': {
+            const current = adapter && await readCurrent(() => adapter.getWirelessSettings());
+            action.changes.push({ field: 'WiFi channel', from: current?.channel, to: args.channel === undefined ? 'Not given' : String(args.channel) });
+            action.warning = 'WiFi devices may briefly disconnect.';
+            break;
+        }
+
+        case 'setDhcpEnabled': {
+            const current = adapter && hasCapability(adapter, 'lanConfig')
+                ? await readCurrent(() => adapter.getLanSettings())
+                : undefined;
+            action.changes.push({ field: 'DHCP server', from: current ? onOff(current.dhcpEnabled) : undefined, to: onOff(args.enabled) });
+            if (!args.enabled) action.warning = 'Devices may lose their IP addresses and go offline.';
+            break;
+        }
+
+        case 'addPortForwarding': {
+            action.changes.push({
+                field: `Port forwarding "${args.name}"`,
+                to: `${args.protocol} ${args.externalPort} → ${args.internalIp}:${args.internalPort || args.externalPort}`,
+            });
+            const rules = adapter && hasCapability(adapter, 'portForwarding')
+                ? await readCurrent(() => adapter.getNatRules())
+                : undefined;
+            const lan = adapter && hasCapability(adapter, 'lanConfig')
+                ? await readCurrent(() => adapter.getLanSettings())
+                : undefined;
+            // Same fields as the tool's schema, not yet validated by it
+            const check = rules && checkPortForwarding(args as unknown as PortForwardingOptions, { rules, lan });
+            action.warning = check?.errors.length
+                ? `This rule will be refused: ${check.errors.join('; ')}.`
+                : 'The port will be reachable from the internet.';
+            break;
+        }
+
+        case 'editPortForwarding':
+        case 'deletePortForwarding': {
+            const rules = adapter && hasCapability(adapter, 'portForwarding')
+                ? await readCurrent(() => adapter.getNatRules())
+                : undefined;
+            const matches = rules ? findRulesByName(rules, String(args.name)) : [];
+            const rule = matches.length === 1 ? matches[0].rule : undefined;
+            const from = rule ? describeRule(rule) : String(args.name);
+
+            if (toolCall.name === 'deletePortForwarding') {
+                action.changes.push({ field: 'Port forwarding', from, to: 'Deleted' });
+                break;
+            }
+            const edits: Record<string, string> = {
+                newName: 'Name', protocol: 'Protocol', externalPort: 'External port',
+                internalIp: 'Internal IP', internalPort: 'Internal port',
+            };
+            action.changes.push({ field: 'Rule', to: from });
+            for (const [key, label] of Object.entries(edits)) {
+                if (args[key] !== undefined) action.changes.push({ field: label, to: String(args[key]) });
+            }
+            if (args.enabled !== undefined) {
+                action.changes.push({ field: 'Status', from: rule ? onOff(rule.enabled) : undefined, to: onOff(args.enabled) });
+            }
+            break;
+        }
+
+        case 'addDhcpReservation':
+            action.changes.push({ field: `Device ${args.device}`, to: `Always gets ${args.ip ?? 'its current IP'}` });
+            break;
+
+        case 'removeDhcpReservation':
+            action.changes.push({ field: `Address reservation ${args.device}`, from: 'Fixed', to: 'Removed' });
+            action.warning = 'The device may get a different address later, which can break port forwards to it.';
+            break;
+
+        case 'blockDevice': {
+            // Name the device as the user knows it, with its MAC
+            const devices = target ? await readCurrent(() => getDeviceStore().list(target.ip)) : undefined;
+            const matches = devices ? findDevices(devices, String(args.device)) : [];
+            const device = matches.length === 1 ? `${displayName(matches[0])} (${matches[0].mac})` : String(args.device);
+            action.changes.push({ field: `Device ${device}`, from: 'Allowed', to: 'Blocked' });
+            break;
+        }
+
+        case 'setAdminPassword':
+            action.changes.push({ field: 'Router admin password', from: MASKED, to: MASKED });
+            action.warning = 'You will need the new password to log in to the router.';
+            break;
+
+        case 'revertChange': {
+            const snapshots = target
+                ? await readCurrent(() => getSnapshotStore().list({ routerIps: [target.ip], limit: 50 }))
+                : undefined;
+            const snapshot = snapshots?.find(s => args.changeId ? s.id === args.changeId : !s.revertedAt);
+            action.changes.push({
+                field: 'Undo',
+                to: snapshot ? `${describeSnapshot(snapshot)} from ${snapshot.createdAt.toLocaleString()}` : String(args.changeId ?? 'most recent change'),
+            });
+            action.warning = 'The settings will be put back to what they were before that change.';
+            break;
+        }
+
+        default:
+            // Unknown sensitive action: list the arguments, hiding anything secret
+            for (const [field, value] of Object.entries(args)) {
+                if (field === 'confirm') continue;
+                action.changes.push({ field, to: /password|secret|key/i.test(field) ? MASKED : String(value) });
+            }
+    }
+
+    return action;
+}
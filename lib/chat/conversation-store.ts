@@ -0,0 +1,136 @@
+/**
+ * Conversation Store
+ *
+ * Persists chat threads and their messages in Postgres so history survives
+ * reloads. Conversations are tagged with the router they were started on,
+ * which is how the sidebar groups them.
+ */
+
+import { prisma } from '@/prisma/prisma';
+
+const TITLE_MAX_LENGTH = 60;
+
+// ============ TYPES ============
+
+export type ConversationRole = 'user' | 'assistant';
+
+export interface ConversationSummary {
+    id: string;
+    title: string;
+    routerIp: string | null;
+    routerName: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface StoredMessage {
+    id: string;
+    role: ConversationRole;
+    content: string;
+    createdAt: Date;
+}
+
+export interface ConversationDetail extends ConversationSummary {
+    messages: StoredMessage[];
+}
+
+export interface ConversationFilter {
+    /** Only conversations started on this router */
+    routerIp?: string;
+    /** Case-insensitive match against titles and message content */
+    query?: string;
+    limit?: number;
+}
+
+// ============ HELPERS ============
+
+/**
+ * Title for a new conversation: the first line of the opening message, shortened
+ */
+export function titleFromMessage(content: string): string {
+    const firstLine = content.trim().split('\n')[0].replace(/\s+/g, ' ');
+    if (!firstLine) return 'New Chat';
+    return firstLine.length > TITLE_MAX_LENGTH
+        ? `${firstLine.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…`
+        : firstLine;
+}
+
+// ============ QUERIES ============
+
+export async function listConversations(filter: ConversationFilter = {}): Promise<ConversationSummary[]> {
+    const query = filter.query?.trim();
+
+    return prisma.conversation.findMany({
+        where: {
+            ...(filter.routerIp ? { routerIp: filter.routerIp } : {}),
+            ...(query
+                ? {
+                    OR: [
+                        { title: { contains: query, mode: 'insensitive' } },
+                        { messages: { some: { content: { contains: query, mode: 'insensitive' } } } },
+                    ],
+                }
+                : {}),
+        },
+        orderBy: { updatedAt: 'desc' },
+        take: filter.limit ?? 100,
+    });
+}
+
+export async function getConversation(id: string): Promise<ConversationDetail | null> {
+    const conversation = await prisma.conversation.findUnique({
+        where: { id },
+        include: { messages: { orderBy: { createdAt: 'asc' } } },
+    });
+    if (!conversation) return null;
+
+    return {
+        ...conversation,
+        messages: conversation.messages.map(message => ({
+            id: message.id,
+            role: message.role as ConversationRole,
+            content: message.content,
+            createdAt: message.createdAt,
+        })),
+    };
+}
+
+// ============ MUTATIONS ============
+
+export async function createConversation(data: { title: string; routerIp?: string; routerName?: string }): Promise<ConversationSummary> {
+    return prisma.conversation.create({
+        data: {
+            title: data.title,
+            routerIp: data.routerIp ?? null,
+            routerName: data.routerName ?? null,
+        },
+    });
+}
+
+/**
+ * Append a message and bump the conversation to the top of the list
+ */
+export async function appendMessage(conversationId: string, role: ConversationRole, content: string): Promise<StoredMessage> {
+    const [message] = await prisma.$transaction([
+        prisma.message.create({ data: { conversationId, role, content } }),
+        prisma.conversation.update({ where: { id: conversationId }, data: { updatedAt: new Date() } }),
+    ]);
+
+    return { id: message.id, role, content: message.content, createdAt: message.createdAt };
+}
+
+/**
+ * Returns false if the conversation does not exist
+ */
+export async function renameConversation(id: string, title: string): Promise<boolean> {
+    const { count } = await prisma.conversation.updateMany({ where: { id }, data: { title } });
+    return count > 0;
+}
+
+/**
+ * Delete a conversation and its messages. Returns false if it did not exist.
+ */
+export async function deleteConversation(id: string): Promise<boolean> {
+    const { count } = await prisma.conversation.deleteMany({ where: { id } });
+    return count > 0;
+}
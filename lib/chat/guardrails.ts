@@ -8,6 +8,9 @@
  */
 
 import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import type { z } from 'zod';
+import { isMutatingTool } from './tools';
 
 // ============ CONFIGURATION ============
 
@@ -21,10 +24,6 @@ const OFF_TOPIC_KEYWORDS = [
     'homework', 'essay', 'translate',
 ];
 
-const SENSITIVE_TOOL_PATTERNS = [
-    'reboot', 'reset', 'delete', 'remove', 'disable', 'restart',
-];
-
 // ============ GUARDRAIL TYPES ============
 
 export interface GuardrailResult {
@@ -89,20 +88,27 @@ export function runInputGuardrails(content: string): GuardrailResult {
 // ============ TOOL CALL GUARDRAILS ============
 
 /**
- * Check if a tool call requires confirmation
+ * Check if a tool call requires confirmation.
+ * Every tool that writes to the router takes `confirm`, so its schema decides, not its name.
  */
-export function checkSensitiveToolCall(toolName: string): GuardrailResult {
-    const lowerToolName = toolName.toLowerCase();
+export function checkSensitiveToolCall(routerTool: StructuredToolInterface, args: Record<string, unknown> = {}): GuardrailResult {
+    if (!isMutatingTool(routerTool)) {
+        return { passed: true };
+    }
 
-    for (const pattern of SENSITIVE_TOOL_PATTERNS) {
-        if (lowerToolName.includes(pattern)) {
-            return {
-                passed: true, // Still allow, but flag for confirmation
-                reason: `Sensitive action: ${toolName} requires user confirmation`,
-            };
-        }
+    // Analysis tools that can also apply their result only change settings with `apply`
+    if ('apply' in (routerTool.schema as z.ZodObject<z.ZodRawShape>).shape) {
+        if (args.apply !== true) return { passed: true };
+        return {
+            passed: true,
+            reason: `Sensitive action: ${routerTool.name} with apply requires user confirmation`,
+        };
     }
-    return { passed: true };
+
+    return {
+        passed: true, // Still allow, but flag for confirmation
+        reason: `Sensitive action: ${routerTool.name} requires user confirmation`,
+    };
 }
 
 // ============ OUTPUT GUARDRAILS ============
@@ -134,10 +140,16 @@ export function maskToolNames(content: string): string {
         'getDeviceInfo', 'getWanInfo', 'getConnectedDevices', 'getDslStats', 'getWlanStats',
         'getLanStats', 'getDhcpLeases', 'getWifiClients', 'getWifiSettings', 'restartRouter',
         'getParentalControl', 'getQosSettings', 'getFirewallSettings', 'getDdnsSettings',
-        'setWifiSsid', 'setWifiPassword', 'setWifiEnabled', 'setWifiChannel',
-        'setQosEnabled', 'addQosRule', 'addPortForwarding', 'blockDevice', 'allowDevice',
-        'setDhcpEnabled', 'setAdminPassword',
-        'pingWebsite', 'lookupDns', 'checkInternetConnectivity', 'checkPortOpen'
+        'setWifiSsid', 'setWifiPassword', 'setWifiEnabled', 'setWifiChannel', 'analyzeWifiChannels',
+        'setQosEnabled', 'addQosRule', 'addPortForwarding', 'editPortForwarding', 'deletePortForwarding',
+        'blockDevice', 'allowDevice', 'getDeviceInventory', 'setDeviceNickname', 'getDeviceEvents',
+        'setDhcpEnabled', 'getDhcpReservations', 'addDhcpReservation', 'removeDhcpReservation',
+        'setAdminPassword', 'listRecentChanges', 'revertChange',
+        'getAdslStats', 'getPortForwardingRules', 'getSystemLog', 'getSecurityLog', 'getArpTable',
+        'getRoutingTable', 'getInterfaceGroups', 'getWanServices', 'getVpnSettings', 'getUpnpStatus',
+        'getIpFilterRules', 'getSystemTime', 'getMetricHistory',
+        'pingWebsite', 'lookupDns', 'checkInternetConnectivity', 'checkPortOpen', 'traceRoute', 'runSpeedTest',
+        'troubleshootInternet', 'compareDnsServers'
     ];
     let masked = content;
     for (const name of toolNames) {
@@ -157,40 +169,72 @@ export const TOOL_DISPLAY_NAMES: Record<string, string> = {
     'getDeviceInfo': 'Fetching router info',
     'getWanInfo': 'Checking internet connection',
     'getConnectedDevices': 'Scanning connected devices',
+    'getDeviceInventory': 'Checking device inventory',
+    'setDeviceNickname': 'Naming device',
+    'getDeviceEvents': 'Checking who joined or left',
     'getDslStats': 'Reading DSL statistics',
     'getWlanStats': 'Checking WiFi statistics',
     'getLanStats': 'Reading LAN port stats',
+    'getMetricHistory': 'Reviewing line and traffic history',
     'getDhcpLeases': 'Looking up device leases',
     'getWifiClients': 'Finding WiFi clients',
     'getWifiSettings': 'Reading WiFi settings',
+    'listRouters': 'Listing your routers',
+    'getAdslStats': 'Reading line error counters',
+    'getWanServices': 'Checking WAN connections',
+    'getSystemTime': 'Checking router clock',
+    // Logs
+    'getSystemLog': 'Reading router log',
+    'getSecurityLog': 'Reading security log',
+    // Network Tables
+    'getArpTable': 'Reading ARP table',
+    'getRoutingTable': 'Reading routing table',
+    'getInterfaceGroups': 'Checking interface groups',
     // Settings (getters)
     'getParentalControl': 'Checking parental controls',
     'getQosSettings': 'Reading QoS settings',
     'getFirewallSettings': 'Checking firewall status',
     'getDdnsSettings': 'Reading DDNS settings',
+    'getVpnSettings': 'Reading VPN settings',
+    'getUpnpStatus': 'Checking UPnP mappings',
+    'getIpFilterRules': 'Reading filter rules',
+    'getPortForwardingRules': 'Reading port forwarding rules',
     // WiFi Actions
     'restartRouter': 'Restarting router',
     'setWifiSsid': 'Changing network name',
     'setWifiPassword': 'Updating WiFi password',
     'setWifiEnabled': 'Toggling WiFi',
     'setWifiChannel': 'Changing WiFi channel',
+    'analyzeWifiChannels': 'Choosing the best WiFi channel',
     // QoS Actions
     'setQosEnabled': 'Toggling QoS',
     'addQosRule': 'Adding QoS rule',
     // Port Forwarding
     'addPortForwarding': 'Adding port forwarding',
+    'editPortForwarding': 'Changing port forwarding',
+    'deletePortForwarding': 'Removing port forwarding',
     // Device Blocking
     'blockDevice': 'Blocking device',
     'allowDevice': 'Unblocking device',
     // LAN/DHCP
     'setDhcpEnabled': 'Toggling DHCP',
+    'getDhcpReservations': 'Reading address reservations',
+    'addDhcpReservation': 'Reserving an IP address',
+    'removeDhcpReservation': 'Removing address reservation',
     // Admin
     'setAdminPassword': 'Changing admin password',
+    // Change History
+    'listRecentChanges': 'Reviewing recent changes',
+    'revertChange': 'Reverting change',
     // Diagnostics
     'pingWebsite': 'Pinging host',
     'lookupDns': 'Looking up DNS',
     'checkInternetConnectivity': 'Testing connectivity',
     'checkPortOpen': 'Checking port',
+    'traceRoute': 'Tracing the route',
+    'runSpeedTest': 'Running a speed test',
+    'troubleshootInternet': 'Troubleshooting the connection',
+    'compareDnsServers': 'Comparing DNS servers',
     // Local Machine
     'getLocalIP': 'Getting your IP address',
     'getLocalNetworkInterfaces': 'Scanning network adapters',
@@ -2,13 +2,14 @@
  * Local Machine Network Tools
  * 
  * Tools for getting network information about the local machine (the server running this app).
- * These tools use Node.js built-in modules (os, dns) and don't require router access.
+ * These tools use Node.js built-in modules (os, dns) and the OS routing table, and don't require router access.
  */
 
 import { tool } from '@langchain/core/tools';
 import { z } from 'zod';
 import * as os from 'os';
 import * as dns from 'dns';
+import { discoverGateways } from '@/lib/network/gateway';
 
 /**
  * Get formatted network interface information
@@ -163,31 +164,30 @@ export const resolveDomain = tool(
 export const getDefaultGateway = tool(
     async () => {
         try {
-            // Get default gateway from environment or common patterns
-            const interfaces = os.networkInterfaces();
-            let localIP = getPrimaryLocalIP();
-
-            // Common gateway pattern: x.x.x.1
-            const parts = localIP.split('.');
-            if (parts.length === 4) {
-                parts[3] = '1';
-                const likelyGateway = parts.join('.');
-
-                return JSON.stringify({
-                    localIP,
-                    probableGateway: likelyGateway,
-                    note: 'This is the most common gateway address based on your IP. Your actual gateway may differ.'
-                }, null, 2);
+            const gateways = await discoverGateways();
+            const localIP = getPrimaryLocalIP();
+
+            if (gateways.length === 0) {
+                return JSON.stringify({ localIP, gateways, note: 'No default route found in the routing table. The machine may not be connected to a network.' }, null, 2);
             }
 
-            return JSON.stringify({ localIP, note: 'Could not determine gateway' }, null, 2);
+            const primary = gateways[0];
+            return JSON.stringify({
+                localIP,
+                defaultGateway: primary.ip,
+                interface: primary.iface,
+                gateways,
+                note: primary.inArpCache
+                    ? `Default gateway ${primary.ip} (${primary.mac}) read from the routing table and confirmed in the ARP cache.`
+                    : `Default gateway ${primary.ip} read from the routing table, but it is not in the ARP cache yet (it may be unreachable).`
+            }, null, 2);
         } catch (error: any) {
             return `Error getting gateway info: ${error.message}`;
         }
     },
     {
         name: 'getDefaultGateway',
-        description: 'Get the probable default gateway (router) address based on local machine IP.',
+        description: 'Get the default gateway (router) address from the local machine routing table. Returns every default route on every interface with its metric and ARP cache MAC, preferred route first.',
         schema: z.object({}),
     }
 );
@@ -1,10 +1,17 @@
-import { StateGraph, Annotation, MessagesAnnotation } from '@langchain/langgraph';
+import { randomUUID } from 'crypto';
+import { StateGraph, Annotation, MessagesAnnotation, Command, interrupt } from '@langchain/langgraph';
+import type { Interrupt, StreamMode } from '@langchain/langgraph';
 import { ToolNode } from '@langchain/langgraph/prebuilt';
-import { HumanMessage, SystemMessage, AIMessage, BaseMessage } from '@langchain/core/messages';
-import { createRouterTools } from './tools';
+import { HumanMessage, SystemMessage, AIMessage, ToolMessage, BaseMessage } from '@langchain/core/messages';
+import { createRouterTools, RouterTarget } from './tools';
 import { createLocalMachineTools } from './local-machine-tools';
-import { ZTERouterAdapter } from '@/lib/adapters/zte';
-import { runInputGuardrails, sanitizeOutput, maskToolNames } from './guardrails';
+import { createAdapter } from '@/lib/adapters/registry';
+import { isSessionExpiredError } from '@/lib/adapters/relogin';
+import type { SnapshotHandler } from '@/lib/adapters/types';
+import type { AuditContext } from '@/lib/router/audit-log';
+import { runInputGuardrails, checkSensitiveToolCall, sanitizeOutput, maskToolNames } from './guardrails';
+import { describeToolCall, PendingAction, ConfirmationDecision } from './confirmation';
+import { getCheckpointer, releaseThread } from './checkpointer';
 import { createLLMWithTools, getActiveProvider, getActiveModel, LLMProvider } from './llm-provider';
 
 // Define the state annotation for our graph with guardrail flag
@@ -13,28 +20,76 @@ const AgentState = Annotation.Root({
     blocked: Annotation<boolean>({ default: () => false, reducer: (_, b) => b }),
 });
 
+// A logged-in router the agent may use
+export interface AgentRouter {
+    id: string;
+    name: string;
+    routerIp: string;
+    sessionCookie: string;
+    adapterId?: string;
+    /** Logs in again with stored credentials; returns the new cookie string */
+    relogin?: () => Promise<string>;
+    /** Records settings before each configuration write (for rollback) */
+    onBeforeWrite?: SnapshotHandler;
+    /** Who is making changes, for the audit log */
+    audit?: AuditContext;
+}
+
 // Options for the agent
 interface AgentOptions {
     provider?: LLMProvider;
     model?: string;
     systemPrompt?: string;
+    /** Routers this request targets; the first one is the default */
+    routers?: AgentRouter[];
+    // Single-router shorthand, used when `routers` is not given
     routerIp?: string;
     sessionCookie?: string;
+    adapterId?: string;
+    /** Checkpointer thread; pass the one from `confirmation_required` to resume */
+    threadId?: string;
+    /** The user's answer to a `confirmation_required` event */
+    resume?: ConfirmationDecision;
+}
+
+// Tell the model which routers it can target with `routerId`
+function describeRouters(routers: RouterTarget[]): string {
+    if (routers.length < 2) return '';
+
+    const list = routers.map(r => `- ${r.name} (routerId "${r.id}", ${r.ip})`).join('\n');
+    return `\n\n## Routers In This Conversation\nThe user is asking about these routers (the first is the default):\n${list}\nPass routerId to choose a router. When a question may involve several routers (e.g. which router a device is connected to), check each of them.`;
 }
 
-// Create the agent graph with guardrails
-function createAgentGraph(options: AgentOptions = {}) {
+// Create the agent graph with guardrails.
+// `onRelogin` is told when a router session expired and was renewed mid-request.
+function createAgentGraph(options: AgentOptions = {}, onRelogin?: (routerName: string) => void) {
     const {
         provider = getActiveProvider(),
         model = getActiveModel(),
         systemPrompt = '',
         routerIp = '',
         sessionCookie = '',
+        adapterId,
     } = options;
-
-    // Create the router adapter and tools
-    const adapter = new ZTERouterAdapter(routerIp, sessionCookie);
-    const routerTools = createRouterTools(adapter);
+    const routers = options.routers ?? [{ id: 'main', name: 'Router', routerIp, sessionCookie, adapterId }];
+
+    // Create an adapter per router and the tools (tools depend on adapter capabilities)
+    const targets: RouterTarget[] = routers.map(router => ({
+        id: router.id,
+        name: router.name,
+        ip: router.routerIp,
+        adapter: createAdapter(router.adapterId, router.routerIp, router.sessionCookie, {
+            relogin: router.relogin && (async () => {
+                const cookie = await router.relogin!();
+                onRelogin?.(router.name);
+                return cookie;
+            }),
+            onBeforeWrite: router.onBeforeWrite,
+        }),
+        audit: router.audit,
+    }));
+    const routerTools = createRouterTools(targets);
+    const fullSystemPrompt = systemPrompt + describeRouters(targets);
 
     // Create local machine tools (no router required)
     const localTools = createLocalMachineTools();
@@ -47,6 +102,7 @@ function createAgentGraph(options: AgentOptions = {}) {
 
     // Create the tool node
     const toolNode = new ToolNode(tools);
+    const toolsByName = new Map(tools.map(t => [t.name, t]));
 
     // ========== GUARDRAIL NODE: Input Validation ==========
     function inputGuardrail(state: typeof AgentState.State) {
@@ -86,12 +142,61 @@ function createAgentGraph(options: AgentOptions = {}) {
 
         const messagesWithSystem = hasSystemMessage
             ? messages
-            : [new SystemMessage(systemPrompt), ...messages];
+            : [new SystemMessage(fullSystemPrompt), ...messages];
 
         const response = await llm.invoke(messagesWithSystem);
         return { messages: [response] };
     }
 
+    // ========== CONFIRMATION NODE: Human Approval ==========
+    // Sensitive tool calls pause the run until the user approves or rejects them.
+    // The model's own `confirm` flag is not trusted for these.
+    async function confirmActions(state: typeof AgentState.State) {
+        const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+        const toolCalls = lastMessage.tool_calls ?? [];
+        const sensitiveIds = new Set(
+            toolCalls.filter(call => {
+                const routerTool = toolsByName.get(call.name);
+                return routerTool !== undefined && checkSensitiveToolCall(routerTool, call.args).reason;
+            }).map(call => call.id)
+        );
+        if (sensitiveIds.size === 0) {
+            return {};
+        }
+
+        // Runs again from the top when resumed, so keep this free of side effects
+        const actions = await Promise.all(
+            toolCalls.filter(call => sensitiveIds.has(call.id)).map(call => describeToolCall(call, targets))
+        );
+        const decision = interrupt<PendingAction[], ConfirmationDecision>(actions);
+
+        if (decision?.approved) {
+            // Same id, so the reducer replaces the model's message
+            return {
+                messages: [new AIMessage({
+                    id: lastMessage.id,
+                    content: lastMessage.content,
+                    additional_kwargs: lastMessage.additional_kwargs,
+                    response_metadata: lastMessage.response_metadata,
+                    tool_calls: toolCalls.map(call => sensitiveIds.has(call.id)
+                        ? { ...call, args: { ...call.args, confirm: true } }
+                        : call),
+                })],
+            };
+        }
+
+        // Every tool call needs an answer before the model can continue
+        return {
+            messages: toolCalls.map(call => new ToolMessage({
+                tool_call_id: call.id ?? '',
+                name: call.name,
+                content: sensitiveIds.has(call.id)
+                    ? 'The user rejected this action. It was not performed. Do not retry unless the user asks again.'
+                    : 'Not performed because the user rejected another action in the same step.',
+            })),
+        };
+    }
+
     // ========== GUARDRAIL NODE: Output Sanitization ==========
     function outputGuardrail(state: typeof AgentState.State) {
         const messages = state.messages;
@@ -127,32 +232,46 @@ function createAgentGraph(options: AgentOptions = {}) {
         return 'agent';
     }
 
-    // Route after agent: has tool calls -> tools, else -> output_guardrail
-    function routeAfterAgent(state: typeof AgentState.State): 'tools' | 'output_guardrail' {
+    // Route after agent: has tool calls -> confirm_actions, else -> output_guardrail
+    function routeAfterAgent(state: typeof AgentState.State): 'confirm_actions' | 'output_guardrail' {
         const messages = state.messages;
         const lastMessage = messages[messages.length - 1] as AIMessage;
 
         if (lastMessage.tool_calls && lastMessage.tool_calls.length > 0) {
-            return 'tools';
+            return 'confirm_actions';
         }
         return 'output_guardrail';
     }
 
+    // Route after confirmation: rejected (answered with tool messages) -> agent, else -> tools
+    function routeAfterConfirmation(state: typeof AgentState.State): 'tools' | 'agent' {
+        const messages = state.messages;
+        const lastMessage = messages[messages.length - 1];
+
+        if (lastMessage._getType() === 'tool') {
+            return 'agent';
+        }
+        return 'tools';
+    }
+
     // ========== BUILD THE GRAPH ==========
     const graph = new StateGraph(AgentState)
         // Nodes
         .addNode('input_guardrail', inputGuardrail)
         .addNode('agent', callModel)
+        .addNode('confirm_actions', confirmActions)
         .addNode('tools', toolNode)
         .addNode('output_guardrail', outputGuardrail)
         // Edges
         .addEdge('__start__', 'input_guardrail')
         .addConditionalEdges('input_guardrail', routeAfterInputGuardrail)
         .addConditionalEdges('agent', routeAfterAgent)
+        .addConditionalEdges('confirm_actions', routeAfterConfirmation)
         .addEdge('tools', 'agent')
         .addEdge('output_guardrail', '__end__');
 
-    return graph.compile();
+    // The checkpointer lets a run paused for confirmation resume in a later request
+    return graph.compile({ checkpointer: getCheckpointer() });
 }
 
 // Convert frontend messages to LangChain format
@@ -176,10 +295,16 @@ export async function getAgentResponse(
 ): Promise<string> {
     const graph = createAgentGraph(options);
     const langchainMessages = convertToLangChainMessages(messages);
+    const threadId = randomUUID();
 
     try {
         // Invoke the graph and get final state
-        const result = await graph.invoke({ messages: langchainMessages });
+        const result = await graph.invoke({ messages: langchainMessages }, { configurable: { thread_id: threadId } });
+
+        // Sensitive actions can only be approved from the chat UI
+        if ('__interrupt__' in result) {
+            return 'This action needs your approval. Please ask again in the chat, where you can approve or reject it.';
+        }
 
         // Get the last AI message from the result
         const resultMessages = result.messages || [];
@@ -208,6 +333,8 @@ export async function getAgentResponse(
     } catch (error: any) {
         console.error('Agent error:', error);
         return `Error: ${error.message || 'An unexpected error occurred'}`;
+    } finally {
+        await releaseThread(threadId);
     }
 }
 
@@ -220,30 +347,61 @@ export type StreamEvent =
     | { type: 'step'; step: string }
     | { type: 'tool'; tool: string }
     | { type: 'content'; content: string }
+    | { type: 'notice'; message: string }
+    | { type: 'confirmation_required'; threadId: string; actions: PendingAction[] }
     | { type: 'done'; content: string };
 
+// What the graph streams: node outputs keyed by node name (plus the pause from
+// the confirmation node), and the progress lines tools write
+type StreamChunk =
+    | ['updates', Record<string, unknown> & { __interrupt__?: Interrupt<PendingAction[]>[] }]
+    | ['custom', { step?: unknown } | undefined];
+
 /**
  * Stream agent response with intermediate step events
- * Yields events as the agent processes the request
+ * Yields events as the agent processes the request.
+ * A run that needs approval ends with `confirmation_required` instead of `done`;
+ * call again with `threadId` and `resume` to continue it.
  */
 export async function* streamAgentWithEvents(
     messages: { role: string; content: string }[],
     options: AgentOptions = {}
 ): AsyncGenerator<StreamEvent> {
-    const graph = createAgentGraph(options);
-    const langchainMessages = convertToLangChainMessages(messages);
+    // Re-logins happen inside tool calls; they are reported after the node finishes
+    const pendingEvents: StreamEvent[] = [];
+    const graph = createAgentGraph(options, (routerName) => {
+        pendingEvents.push({ type: 'notice', message: `Session expired - logged in to ${routerName} again` });
+    });
+    const threadId = options.threadId ?? randomUUID();
 
     let finalContent = '';
+    let pendingActions: PendingAction[] | null = null;
     const seenNodes = new Set<string>();
 
     try {
-        // Use LangGraph's stream() with 'updates' mode to get node-by-node updates
-        const stream = await graph.stream(
-            { messages: langchainMessages },
-            { streamMode: 'updates' as any }
-        );
+        // Use LangGraph's stream() with 'updates' mode to get node-by-node updates,
+        // plus 'custom' for progress that long-running tools report while they run.
+        // Resuming continues the paused run from its checkpoint with the user's decision.
+        const config = { streamMode: ['updates', 'custom'] as StreamMode[], configurable: { thread_id: threadId } };
+        const stream = options.resume
+            ? await graph.stream(new Command({ resume: options.resume }), config)
+            : await graph.stream({ messages: convertToLangChainMessages(messages) }, config);
+
+        for await (const [mode, chunk] of stream as AsyncIterable<StreamChunk>) {
+            yield* pendingEvents.splice(0);
+
+            // A tool's progress line, e.g. one step of the internet playbook
+            if (mode === 'custom') {
+                if (typeof chunk?.step === 'string') yield { type: 'step', step: chunk.step };
+                continue;
+            }
+
+            // The confirmation node paused the run
+            if (chunk.__interrupt__) {
+                pendingActions = chunk.__interrupt__[0]?.value ?? [];
+                continue;
+            }
 
-        for await (const chunk of stream) {
             // chunk is an object like { nodeName: nodeOutput }
             for (const [nodeName, nodeOutput] of Object.entries(chunk)) {
                 // Emit step event for each node (but only once per node)
@@ -306,6 +464,12 @@ export async function* streamAgentWithEvents(
             }
         }
 
+        // Wait for the user's decision; the checkpoint is kept until they answer
+        if (pendingActions) {
+            yield { type: 'confirmation_required', threadId, actions: pendingActions };
+            return;
+        }
+
         // Stream the final content character by character for smooth animation
         if (finalContent) {
             const sanitized = sanitizeOutput(finalContent);
@@ -329,9 +493,7 @@ export async function* streamAgentWithEvents(
 
         // Check for session expiration
         const errorMessage = error.message || '';
-        if (errorMessage.toLowerCase().includes('session expired') ||
-            errorMessage.includes('401') ||
-            errorMessage.includes('403')) {
+        if (isSessionExpiredError(error)) {
             yield {
                 type: 'done',
                 content: '⚠️ **Your router session has expired.** Please go back to the setup page and login to your router again to continue.'
@@ -339,5 +501,7 @@ export async function* streamAgentWithEvents(
         } else {
             yield { type: 'done', content: `Error: ${errorMessage || 'An unexpected error occurred'}` };
         }
+    } finally {
+        if (!pendingActions) await releaseThread(threadId);
     }
 }
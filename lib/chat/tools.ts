@@ -1,20 +1,142 @@
-import { tool } from '@langchain/core/tools';
+import { AsyncLocalStorage } from 'async_hooks';
+import { tool, StructuredToolInterface } from '@langchain/core/tools';
 import { z } from 'zod';
-import { ZTERouterAdapter } from '@/lib/adapters/zte';
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
+import type { RouterAdapter, RouterCapabilityMap, SetterResult, LogEntry, NatRule, PortForwardingOptions, DhcpLease, DhcpReservation } from '@/lib/adapters/types';
+import { hasCapability } from '@/lib/adapters/registry';
+import { isSessionExpiredError } from '@/lib/adapters/relogin';
+import { getSnapshotStore, describeSnapshot, revertSnapshot } from '@/lib/router/config-snapshots';
+import { recordAudit, setterOutcome, AuditContext, AuditOutcome } from '@/lib/router/audit-log';
+import { checkPortForwarding, describeRule, findRulesByName, IndexedRule, PortForwardingContext } from '@/lib/router/port-forwarding';
+import { DeviceLabels, displayName, findDevices, getDeviceStore, resolveDevice, syncInventory } from '@/lib/router/device-inventory';
+import { getDeviceEventStore } from '@/lib/router/presence';
+import { METRICS, availableMetrics, downsampleSeries, getMetricStore, summarizeSeries } from '@/lib/router/metrics';
+import { checkDhcpReservation, describeReservation, findLeases, findReservations, isMacAddress, normalizeMac } from '@/lib/router/dhcp-reservations';
 
 // Helper to format tool errors with session expiration detection
 function formatToolError(error: any, operation: string): string {
-    const message = error?.message || '';
-    if (message.toLowerCase().includes('session expired') ||
-        message.includes('401') ||
-        message.includes('403')) {
-        return 'Session expired - please re-login to your router';
+    if (isSessionExpiredError(error)) {
+        return 'Session expired - please re-login to your router (or turn on "Stay signed in" to re-login automatically)';
     }
-    return `Error ${operation}: ${message}`;
+    return `Error ${operation}: ${error?.message || ''}`;
 }
 
-// Factory to create tools with a specific adapter instance
-export function createRouterTools(adapter: ZTERouterAdapter) {
+// Setter results of the audited call in progress (see invokeAudited)
+const auditedWrites = new AsyncLocalStorage<SetterResult[]>();
+
+// Helper to format setter results with the per-field read-back, so only confirmed changes are reported
+function formatSetterResult(result: SetterResult, appliedMessage: string): string {
+    auditedWrites.getStore()?.push(result);
+    const checks = result.verification ?? [];
+    const unconfirmed = checks.some(check => check.status === 'unverified');
+
+    const lines = [
+        !result.success
+            ? `❌ Failed: ${result.message}`
+            : unconfirmed
+                ? `⚠️ ${appliedMessage} The router accepted the request, but not every value could be confirmed.`
+                : `✅ ${appliedMessage}`,
+    ];
+    for (const check of checks) {
+        if (check.status === 'applied') lines.push(`- ${check.field}: ${check.expected} (confirmed)`);
+        else if (check.status === 'mismatch') lines.push(`- ${check.field}: expected ${check.expected}, router shows ${check.actual}`);
+        else lines.push(`- ${check.field}: ${check.expected} (not confirmed)`);
+    }
+    return lines.join('\n');
+}
+
+// Helper to format a write refused by a pre-write check (nothing was sent to the router)
+function formatRefusal(check: { errors: string[]; warnings: string[] }): string {
+    return [`❌ Not changed: ${check.errors.join('; ')}.`, ...check.warnings.map(warning => `- ${warning}`)].join('\n');
+}
+
+// ========== PAGING & FILTERING ==========
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Schema fields shared by tools that return long lists
+const pagingFields = {
+    limit: z.number().min(1).max(200).optional().describe(`Maximum entries to return (default ${DEFAULT_PAGE_SIZE})`),
+    offset: z.number().min(0).optional().describe('Entries to skip; pass nextOffset from the previous page to continue'),
+};
+
+// One page of a list, with the total so the agent knows whether there is more
+function formatPage<T>(items: T[], paging: { limit?: number; offset?: number }, extra: Record<string, unknown> = {}): string {
+    const { limit = DEFAULT_PAGE_SIZE, offset = 0 } = paging;
+    const page = items.slice(offset, offset + limit);
+    const nextOffset = offset + page.length < items.length ? offset + page.length : undefined;
+    return JSON.stringify({ total: items.length, offset, returned: page.length, nextOffset, ...extra, items: page }, null, 2);
+}
+
+// Case-insensitive "contains"; an empty filter matches everything
+function matchesFilter(value: string | undefined, filter: string | undefined): boolean {
+    return !filter || (value ?? '').toLowerCase().includes(filter.toLowerCase());
+}
+
+// Router log timestamps often omit the year ("Oct 18 10:22:01"): assume the most recent such date
+function parseLogTime(timestamp: string, now: Date): Date | null {
+    const hasYear = /\b\d{4}\b/.test(timestamp);
+    const parsed = new Date(hasYear ? timestamp : `${timestamp} ${now.getFullYear()}`);
+    if (isNaN(parsed.getTime())) return null;
+    if (!hasYear && parsed.getTime() > now.getTime() + 24 * 60 * 60 * 1000) {
+        parsed.setFullYear(parsed.getFullYear() - 1);
+    }
+    return parsed;
+}
+
+const logFilterFields = {
+    level: z.string().optional().describe('Only entries whose level contains this text, e.g. "error", "warn", "info"'),
+    search: z.string().optional().describe('Only entries whose message contains this text'),
+    lastHours: z.number().min(0).optional().describe('Only entries from the last N hours'),
+    since: z.string().optional().describe('Only entries at or after this date/time, e.g. "2026-10-18 08:00"'),
+    until: z.string().optional().describe('Only entries at or before this date/time'),
+    newestFirst: z.boolean().optional().describe('List the newest entries first (default true)'),
+    ...pagingFields,
+};
+
+interface LogFilter {
+    level?: string;
+    search?: string;
+    lastHours?: number;
+    since?: string;
+    until?: string;
+    newestFirst?: boolean;
+    limit?: number;
+    offset?: number;
+}
+
+// Filter and page a router log (routers list entries oldest first)
+function formatLog(entries: LogEntry[], filter: LogFilter): string {
+    const now = new Date();
+    const from = filter.lastHours !== undefined
+        ? new Date(now.getTime() - filter.lastHours * 60 * 60 * 1000)
+        : filter.since ? new Date(filter.since) : undefined;
+    const to = filter.until ? new Date(filter.until) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return 'Invalid date/time. Use a format like "2026-10-18 08:00".';
+    }
+
+    let withoutTimestamp = 0;
+    let matching = entries.filter(entry => matchesFilter(entry.level, filter.level) && matchesFilter(entry.message, filter.search));
+    if (from || to) {
+        matching = matching.filter(entry => {
+            const time = parseLogTime(entry.timestamp, now);
+            if (!time) {
+                withoutTimestamp++;
+                return false;
+            }
+            return (!from || time >= from) && (!to || time <= to);
+        });
+    }
+    if (filter.newestFirst !== false) matching = [...matching].reverse();
+
+    return formatPage(matching, filter, withoutTimestamp > 0 ? { skippedWithoutTimestamp: withoutTimestamp } : {});
+}
+
+// ========== CORE TOOLS ==========
+
+// Tools backed by the core adapter surface (available for every router)
+function createCoreTools(adapter: RouterAdapter) {
     const getDeviceInfo = tool(
         async () => {
             try {
@@ -63,54 +185,6 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
         }
     );
 
-    const getDslStats = tool(
-        async () => {
-            try {
-                const stats = await adapter.getDslStats();
-                return JSON.stringify(stats, null, 2);
-            } catch (error: any) {
-                return `Error fetching DSL stats: ${error.message}`;
-            }
-        },
-        {
-            name: 'getDslStats',
-            description: 'Get DSL line statistics including SNR margin, line attenuation, data rate (downstream/upstream), and line state.',
-            schema: z.object({}),
-        }
-    );
-
-    const getWlanStats = tool(
-        async () => {
-            try {
-                const stats = await adapter.getWlanStats();
-                return JSON.stringify(stats, null, 2);
-            } catch (error: any) {
-                return `Error fetching WLAN stats: ${error.message}`;
-            }
-        },
-        {
-            name: 'getWlanStats',
-            description: 'Get wireless network statistics including packets sent/received, transmission errors, and dropped packets.',
-            schema: z.object({}),
-        }
-    );
-
-    const getLanStats = tool(
-        async () => {
-            try {
-                const stats = await adapter.getLanStats();
-                return JSON.stringify(stats, null, 2);
-            } catch (error: any) {
-                return `Error fetching LAN stats: ${error.message}`;
-            }
-        },
-        {
-            name: 'getLanStats',
-            description: 'Get LAN port statistics showing status (Up/NoLink), bytes and packets sent/received for each Ethernet port (LAN1-LAN4).',
-            schema: z.object({}),
-        }
-    );
-
     const getDhcpLeases = tool(
         async () => {
             try {
@@ -159,6 +233,11 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
         }
     );
 
+    return [getDeviceInfo, getWanInfo, getConnectedDevices, getDhcpLeases, getWifiClients, getWifiSettings];
+}
+
+// Router restart
+function createRestartTools(adapter: RouterCapabilityMap['restart']) {
     const restartRouter = tool(
         async ({ confirm }: { confirm: boolean }) => {
             if (!confirm) {
@@ -167,9 +246,9 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
             try {
                 const success = await adapter.restart();
                 if (success) {
-                    return 'Router restart initiated successfully. The router will restart and may be offline for 1-2 minutes.';
+                    return '✅ Router restart initiated successfully. The router will restart and may be offline for 1-2 minutes.';
                 } else {
-                    return 'Failed to initiate router restart. Please try again or check the router manually.';
+                    return '❌ Failed to initiate router restart. Please try again or check the router manually.';
                 }
             } catch (error: any) {
                 return `Error restarting router: ${error.message}`;
@@ -184,8 +263,135 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
         }
     );
 
-    // ========== ADVANCED SETTINGS TOOLS ==========
+    return [restartRouter];
+}
+
+// DSL line statistics
+function createDslTools(adapter: RouterCapabilityMap['dsl']) {
+    const getDslStats = tool(
+        async () => {
+            try {
+                const stats = await adapter.getDslStats();
+                return JSON.stringify(stats, null, 2);
+            } catch (error: unknown) {
+                return `Error fetching DSL stats: ${error instanceof Error ? error.message : error}`;
+            }
+        },
+        {
+            name: 'getDslStats',
+            description: 'Get DSL line statistics including SNR margin, line attenuation, data rate (downstream/upstream), and line state.',
+            schema: z.object({}),
+        }
+    );
+
+    const getAdslStats = tool(
+        async () => {
+            try {
+                const stats = await adapter.getAdslStats();
+                return JSON.stringify(stats, null, 2);
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching ADSL error counters');
+            }
+        },
+        {
+            name: 'getAdslStats',
+            description: 'Get ADSL error counters: received/transmitted blocks, CRC errors, header errors and cell delineation defects. Rising CRC errors point to a noisy line.',
+            schema: z.object({}),
+        }
+    );
+
+    return [getDslStats, getAdslStats];
+}
+
+// LAN/WLAN traffic statistics
+function createTrafficStatsTools(adapter: RouterCapabilityMap['trafficStats']) {
+    const getWlanStats = tool(
+        async () => {
+            try {
+                const stats = await adapter.getWlanStats();
+                return JSON.stringify(stats, null, 2);
+            } catch (error: unknown) {
+                return `Error fetching WLAN stats: ${error instanceof Error ? error.message : error}`;
+            }
+        },
+        {
+            name: 'getWlanStats',
+            description: 'Get wireless network statistics including packets sent/received, transmission errors, and dropped packets.',
+            schema: z.object({}),
+        }
+    );
+
+    const getLanStats = tool(
+        async () => {
+            try {
+                const stats = await adapter.getLanStats();
+                return JSON.stringify(stats, null, 2);
+            } catch (error: unknown) {
+                return `Error fetching LAN stats: ${error instanceof Error ? error.message : error}`;
+            }
+        },
+        {
+            name: 'getLanStats',
+            description: 'Get LAN port statistics showing status (Up/NoLink), bytes and packets sent/received for each Ethernet port (LAN1-LAN4).',
+            schema: z.object({}),
+        }
+    );
+
+    return [getWlanStats, getLanStats];
+}
+
+// Line & traffic history (sampled in the background)
+function createMetricsTools(adapter: RouterAdapter, routerIp: string) {
+    const available = availableMetrics(adapter);
+    const round = (value: number | null) => value === null ? null : Math.round(value * 100) / 100;
+
+    const getMetricHistory = tool(
+        async ({ metrics, hours, points }) => {
+            try {
+                const until = new Date();
+                const since = new Date(until.getTime() - (hours ?? 24 * 7) * 60 * 60 * 1000);
+                const series = await getMetricStore().query({ routerIp, metrics, since, until });
+
+                const result = metrics.map(metric => {
+                    const summary = summarizeSeries(series[metric]);
+                    return {
+                        metric,
+                        label: METRICS[metric].label,
+                        unit: METRICS[metric].unit,
+                        summary: summary && {
+                            ...summary,
+                            min: round(summary.min), max: round(summary.max), avg: round(summary.avg),
+                            first: round(summary.first), last: round(summary.last), trendPerDay: round(summary.trendPerDay),
+                        },
+                        points: downsampleSeries(series[metric], since, until, points ?? 24)
+                            .map(point => ({ time: point.at.toISOString(), value: round(point.value) })),
+                    };
+                });
+
+                if (result.every(r => !r.summary)) {
+                    return `No samples recorded for ${metrics.join(', ')} since ${since.toISOString()}. Samples are taken in the background every few minutes while someone is logged in to the router.`;
+                }
+                return JSON.stringify({ since: since.toISOString(), until: until.toISOString(), metrics: result }, null, 2);
+            } catch (error: unknown) {
+                return formatToolError(error, 'reading metric history');
+            }
+        },
+        {
+            name: 'getMetricHistory',
+            description: `History of line and traffic figures sampled in the background, with min/max/average, first/last value and trend per day (least-squares slope). Use for "has my SNR been dropping this week?", "how much WiFi traffic today?", "are CRC errors increasing?". Metrics: ${available.map(metric => `${metric} (${METRICS[metric].label}, ${METRICS[metric].unit})`).join('; ')}.`,
+            schema: z.object({
+                metrics: z.array(z.enum(available as [string, ...string[]])).min(1).describe('Metrics to read'),
+                hours: z.number().min(1).max(24 * 90).optional().describe('How far back to look, in hours (default 168 = one week)'),
+                points: z.number().min(1).max(200).optional().describe('Number of averaged points to return per metric (default 24)'),
+            }),
+        }
+    );
+
+    return [getMetricHistory];
+}
 
+// Parental control
+function createParentalControlTools(adapter: RouterCapabilityMap['parentalControl']) {
     const getParentalControl = tool(
         async () => {
             try {
@@ -202,6 +408,18 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
         }
     );
 
+    return [getParentalControl];
+}
+
+// Protocols and priorities the adapters' addQosRule accepts
+type QosRuleOptions = Parameters<RouterCapabilityMap['qos']['addQosRule']>[0];
+const QOS_PROTOCOL: z.ZodType<NonNullable<QosRuleOptions['protocol']>> = z.enum(['TCP/UDP', 'TCP', 'UDP', 'ICMP', 'IGMP']);
+const QOS_PRIORITY: z.ZodType<NonNullable<QosRuleOptions['priority']>> = z.union([
+    z.literal(0), z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5), z.literal(6), z.literal(7),
+]);
+
+// QoS settings
+function createQosTools(adapter: RouterCapabilityMap['qos']) {
     const getQosSettings = tool(
         async () => {
             try {
@@ -218,6 +436,65 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
         }
     );
 
+    const setQosEnabled = tool(
+        async ({ enabled, confirm }) => {
+            if (!confirm) {
+                return `Please confirm you want to ${enabled ? 'enable' : 'disable'} QoS (Quality of Service). This controls traffic prioritization on your network.`;
+            }
+            try {
+                const result = await adapter.setQosEnabled(enabled);
+                return formatSetterResult(result, `QoS has been ${enabled ? 'enabled' : 'disabled'}.`);
+            } catch (error: unknown) {
+                return formatToolError(error, 'toggling QoS');
+            }
+        },
+        {
+            name: 'setQosEnabled',
+            description: 'Enable or disable Quality of Service (QoS) for traffic prioritization. Always ask for user confirmation first.',
+            schema: z.object({
+                enabled: z.boolean().describe('True to enable QoS, false to disable'),
+                confirm: z.boolean().describe('Must be true to confirm. Ask user first.')
+            }),
+        }
+    );
+
+    const addQosRule = tool(
+        async ({ protocol, sourceIp, destIp, destPort, priority, confirm }) => {
+            if (!confirm) {
+                return `Please confirm you want to add a QoS rule for ${protocol || 'all'} traffic${destPort ? ` on port ${destPort}` : ''} with priority ${priority}.`;
+            }
+            try {
+                const result = await adapter.addQosRule({
+                    protocol,
+                    sourceIp,
+                    destIp,
+                    destPort,
+                    priority
+                });
+                return formatSetterResult(result, 'QoS rule added successfully.');
+            } catch (error: unknown) {
+                return formatToolError(error, 'adding QoS rule');
+            }
+        },
+        {
+            name: 'addQosRule',
+            description: 'Add a QoS traffic prioritization rule. Priority 0-7 (higher = more priority).',
+            schema: z.object({
+                protocol: QOS_PROTOCOL.optional().describe('Protocol to prioritize'),
+                sourceIp: z.string().optional().describe('Source IP address to match'),
+                destIp: z.string().optional().describe('Destination IP address to match'),
+                destPort: z.number().optional().describe('Destination port to prioritize'),
+                priority: QOS_PRIORITY.describe('Priority level (0-7, higher = more priority)'),
+                confirm: z.boolean().describe('Must be true to confirm.')
+            }),
+        }
+    );
+
+    return [getQosSettings, setQosEnabled, addQosRule];
+}
+
+// Firewall settings
+function createFirewallTools(adapter: RouterCapabilityMap['firewall']) {
     const getFirewallSettings = tool(
         async () => {
             try {
@@ -234,6 +511,11 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
         }
     );
 
+    return [getFirewallSettings];
+}
+
+// Dynamic DNS settings
+function createDdnsTools(adapter: RouterCapabilityMap['ddns']) {
     const getDdnsSettings = tool(
         async () => {
             try {
@@ -250,8 +532,11 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
         }
     );
 
-    // ========== WIFI SETTINGS TOOLS ==========
+    return [getDdnsSettings];
+}
 
+// WiFi settings (setters)
+function createWifiConfigTools(adapter: RouterCapabilityMap['wifiConfig']) {
     const setWifiSsid = tool(
         async ({ ssid, confirm }) => {
             if (!confirm) {
@@ -259,9 +544,7 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
             }
             try {
                 const result = await adapter.setWifiSsid(ssid);
-                return result.success
-                    ? `✅ WiFi SSID changed to "${ssid}". All devices will need to reconnect.`
-                    : `❌ Failed: ${result.message}`;
+                return formatSetterResult(result, `WiFi SSID changed to "${ssid}". All devices will need to reconnect.`);
             } catch (error: any) {
                 return `Error changing SSID: ${error.message}`;
             }
@@ -283,9 +566,7 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
             }
             try {
                 const result = await adapter.setWifiPassword(password);
-                return result.success
-                    ? `✅ WiFi password changed successfully. All devices will need to reconnect with the new password.`
-                    : `❌ Failed: ${result.message}`;
+                return formatSetterResult(result, `WiFi password changed successfully. All devices will need to reconnect with the new password.`);
             } catch (error: any) {
                 return `Error changing password: ${error.message}`;
             }
@@ -308,9 +589,7 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
             }
             try {
                 const result = await adapter.setWifiEnabled(enabled);
-                return result.success
-                    ? `✅ WiFi has been ${enabled ? 'enabled' : 'disabled'}.`
-                    : `❌ Failed: ${result.message}`;
+                return formatSetterResult(result, `WiFi has been ${enabled ? 'enabled' : 'disabled'}.`);
             } catch (error: any) {
                 return `Error: ${error.message}`;
             }
@@ -332,9 +611,7 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
             }
             try {
                 const result = await adapter.setWifiChannel(channel);
-                return result.success
-                    ? `✅ WiFi channel changed to ${channel === 0 ? 'Auto' : channel}.`
-                    : `❌ Failed: ${result.message}`;
+                return formatSetterResult(result, `WiFi channel changed to ${channel === 0 ? 'Auto' : channel}.`);
             } catch (error: any) {
                 return `Error changing channel: ${error.message}`;
             }
@@ -349,247 +626,412 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
         }
     );
 
-    // ========== NETWORK DIAGNOSTIC TOOLS ==========
+    return [setWifiSsid, setWifiPassword, setWifiEnabled, setWifiChannel];
+}
 
-    const pingWebsite = tool(
-        async ({ host }) => {
+// WiFi channel survey: neighbouring networks from the router (or this machine), scored per channel
+function createChannelSurveyTools(adapter: RouterAdapter) {
+    const analyzeWifiChannels = tool(
+        async ({ apply, channel, confirm }) => {
             try {
-                const { pingHost } = await import('@/lib/network/diagnostics');
-                const result = await pingHost(host, 4);
-                if (result.alive) {
-                    return `✅ ${host} is reachable\n• Latency: ${result.time}\n• Packet Loss: ${result.packetLoss}\n• Min/Avg/Max: ${result.min}/${result.avg}/${result.max}`;
-                } else {
-                    return `❌ ${host} is not reachable\n• Error: ${result.error || 'Host unreachable'}`;
+                // Applying takes the channel from the report the user saw, so a rescan can't change it
+                if (apply) {
+                    if (channel === undefined) return 'Run the survey without apply first, show the user its recommendation, then apply the channel they approved.';
+                    if (!hasCapability(adapter, 'wifiConfig')) return 'This router does not support changing the channel.';
+
+                    // The survey only scored channels of the radio's band
+                    const { bandOf, currentWifiBand } = await import('@/lib/network/wifi-survey');
+                    const band = await currentWifiBand(adapter);
+                    if (bandOf(channel) !== band) {
+                        return `Channel ${channel} is not a ${band} channel, the band the survey covered. Apply one of the channels from the report.`;
+                    }
+                    if (channel > 14) return `Channel ${channel} is a 5 GHz channel, which can't be set from here; change it in the router's web interface.`;
+                    if (!confirm) return `Please confirm you want to switch the WiFi channel to ${channel}. This may briefly disconnect devices.`;
+
+                    const result = await adapter.setWifiChannel(channel);
+                    return formatSetterResult(result, `WiFi channel changed to ${channel}.`);
                 }
-            } catch (error: any) {
-                return `Error pinging ${host}: ${error.message}`;
+
+                const { surveyWifiChannels } = await import('@/lib/network/wifi-survey');
+                const survey = await surveyWifiChannels(adapter);
+
+                const source = survey.source === 'router'
+                    ? 'the router\'s own scan'
+                    : `a scan from the machine running this assistant (${survey.source}); it may hear different networks than the router`;
+                const current = survey.currentChannel !== null
+                    ? `${survey.currentChannel}${survey.autoChannel ? ' (picked automatically)' : ''}`
+                    : 'unknown';
+                const scores = survey.scores.map(s => {
+                    const penalty = s.channel === survey.currentChannel && survey.errorPenalty > 0 ? `, includes +${survey.errorPenalty} for radio errors` : '';
+                    return `• Channel ${s.channel}: ${s.level} congestion (score ${s.score}, ${s.networks} overlapping network${s.networks === 1 ? '' : 's'}${s.strongest !== null ? `, strongest ${s.strongest} dBm` : ''}${penalty})`;
+                });
+                const neighbors = survey.neighbors.slice(0, 10).map(n =>
+                    `• ${n.ssid || '(hidden)'}: channel ${n.channel}, ${n.signal} dBm${n.security ? `, ${n.security}` : ''}`);
+                const errors = survey.errorRate !== null
+                    ? `\nRadio errors/drops: ${(survey.errorRate * 100).toFixed(2)}% of packets`
+                    : '';
+
+                return [
+                    `WiFi channel survey (${survey.band}, from ${source}):`,
+                    `Current channel: ${current}${errors}`,
+                    `\nChannel congestion (lower is better):\n${scores.join('\n')}`,
+                    `\nStrongest neighbouring networks (${survey.neighbors.length} heard):\n${neighbors.join('\n') || '• none'}`,
+                    `\nRecommendation: ${survey.recommended !== null ? `switch to channel ${survey.recommended}. ` : 'stay on the current channel. '}${survey.reason}`,
+                ].join('\n');
+            } catch (error: unknown) {
+                return formatToolError(error, apply ? 'changing the WiFi channel' : 'surveying WiFi channels');
             }
         },
         {
-            name: 'pingWebsite',
-            description: 'Ping a website or IP address to check if it is reachable and measure latency. Use this to test connectivity to specific hosts.',
+            name: 'analyzeWifiChannels',
+            description: 'Scan neighbouring WiFi networks and score each channel by congestion (overlapping networks weighted by signal strength, plus packet errors/drops on the router\'s radio), then recommend the best channel. Use for "which WiFi channel should I use?", "my WiFi is slow / keeps dropping", or before changing the channel. To switch, show the user the report first, then call again with apply true and the channel the user approved.',
             schema: z.object({
-                host: z.string().describe('Website domain or IP address to ping (e.g., "google.com" or "8.8.8.8")')
+                apply: z.boolean().optional().describe('Switch to `channel` instead of surveying (only when the user asked to change it)'),
+                channel: z.number().min(1).max(177).optional().describe('Channel the user approved from the survey report; required with apply'),
+                confirm: z.boolean().optional().describe('Must be true to apply. Ask user for confirmation before setting this to true.'),
             }),
         }
     );
 
-    const lookupDns = tool(
-        async ({ hostname }) => {
+    return [analyzeWifiChannels];
+}
+
+// Port forwarding
+function createPortForwardingTools(adapter: RouterCapabilityMap['portForwarding'] & RouterAdapter) {
+    const getPortForwardingRules = tool(
+        async ({ internalIp, port, limit, offset }) => {
             try {
-                const { resolveDns } = await import('@/lib/network/diagnostics');
-                const result = await resolveDns(hostname);
-                if (result.addresses.length > 0) {
-                    return `DNS lookup for ${hostname}:\n${result.addresses.map(ip => `• ${ip}`).join('\n')}`;
-                } else {
-                    return `❌ Could not resolve ${hostname}: ${result.error || 'No addresses found'}`;
-                }
-            } catch (error: any) {
-                return `Error looking up ${hostname}: ${error.message}`;
+                const rules = await adapter.getNatRules();
+                const matching = rules.filter(rule =>
+                    matchesFilter(rule.internalIp, internalIp) &&
+                    (port === undefined || rule.externalPort.split(/[-:]/).includes(String(port)) || rule.internalPort.split(/[-:]/).includes(String(port)))
+                );
+                return formatPage(matching.map((rule, index) => ({ index, ...rule })), { limit, offset });
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching port forwarding rules');
             }
         },
         {
-            name: 'lookupDns',
-            description: 'Perform DNS lookup to resolve a hostname to IP addresses. Use this to check if DNS is working properly.',
+            name: 'getPortForwardingRules',
+            description: 'List port forwarding (virtual server / NAT) rules: name, protocol, external port, internal IP and port, and whether each is enabled. Use for "what ports are forwarded?".',
             schema: z.object({
-                hostname: z.string().describe('Domain name to lookup (e.g., "google.com")')
+                internalIp: z.string().optional().describe('Only rules forwarding to this device IP'),
+                port: z.number().optional().describe('Only rules using this external or internal port'),
+                ...pagingFields,
             }),
         }
     );
 
-    const checkInternetConnectivity = tool(
-        async () => {
+    // Rules, LAN settings and leases to validate a rule against
+    const readContext = async (ignoreIndex?: number): Promise<PortForwardingContext> => {
+        const [rules, lan, leases, reservations] = await Promise.all([
+            adapter.getNatRules(),
+            hasCapability(adapter, 'lanConfig') ? adapter.getLanSettings().catch(() => undefined) : undefined,
+            adapter.getDhcpLeases().catch(() => undefined),
+            hasCapability(adapter, 'dhcpReservations') ? adapter.getDhcpReservations().catch(() => undefined) : undefined,
+        ]);
+        return { rules, lan, leases, reservations, ignoreIndex };
+    };
+
+    // Write the rule unless the check found a problem; report warnings and the reservation offer
+    const writeChecked = async (options: PortForwardingOptions, context: PortForwardingContext, write: () => Promise<SetterResult>, appliedMessage: string) => {
+        const check = checkPortForwarding(options, context);
+        if (check.errors.length > 0) {
+            return formatRefusal(check);
+        }
+
+        const result = await write();
+        const lines = [formatSetterResult(result, result.success ? appliedMessage : result.message)];
+        if (result.success) {
+            lines.push(...check.warnings.map(warning => `- Note: ${warning}`));
+            if (check.dynamicTarget) {
+                const device = check.targetLease ? `${check.targetLease.hostname || 'the device'} (${check.targetLease.mac})` : 'the device';
+                lines.push(hasCapability(adapter, 'dhcpReservations')
+                    ? `💡 Offer to reserve ${options.internalIp} for ${device} with a DHCP reservation so this rule keeps working.`
+                    : `💡 This router cannot reserve addresses: suggest giving ${device} a static IP outside the DHCP pool so this rule keeps working.`);
+            }
+        }
+        return lines.join('\n');
+    };
+
+    // Resolve a rule name to exactly one rule, or explain why not
+    const resolveRule = (rules: NatRule[], name: string): IndexedRule | string => {
+        const matches = findRulesByName(rules, name);
+        if (matches.length === 1) return matches[0];
+        if (matches.length === 0) {
+            return `No port forwarding rule named "${name}". Existing rules: ${rules.map(rule => rule.name).join(', ') || 'none'}`;
+        }
+        return `Several rules match "${name}": ${matches.map(({ rule }) => describeRule(rule)).join('; ')}. Ask which one is meant.`;
+    };
+
+    const addPortForwarding = tool(
+        async ({ name, protocol, externalPort, internalIp, internalPort, confirm }) => {
+            const options: PortForwardingOptions = { name, protocol, externalPort, internalIp, internalPort };
+            if (!confirm) {
+                return `Please confirm you want to add port forwarding: ${name} - ${protocol} port ${externalPort} → ${internalIp}:${internalPort || externalPort}`;
+            }
             try {
-                const { checkConnectivity } = await import('@/lib/network/diagnostics');
-                const result = await checkConnectivity();
-                const status = [];
-                status.push(`• Internet: ${result.internet ? '✅ Connected' : '❌ Not connected'}`);
-                status.push(`• DNS: ${result.dns ? '✅ Working' : '❌ Not working'}`);
-                status.push(`• Latency: ${result.latency}`);
-                return `Internet Connectivity Status:\n${status.join('\n')}`;
+                return await writeChecked(options, await readContext(), () => adapter.addPortForwardingRule(options),
+                    `Port forwarding "${name}" added: ${protocol} ${externalPort} → ${internalIp}:${internalPort || externalPort}.`);
             } catch (error: any) {
-                return `Error checking connectivity: ${error.message}`;
+                return formatToolError(error, 'adding port forwarding rule');
             }
         },
         {
-            name: 'checkInternetConnectivity',
-            description: 'Check overall internet connectivity status including DNS resolution and latency to public servers.',
-            schema: z.object({}),
+            name: 'addPortForwarding',
+            description: 'Add a port forwarding rule to allow external access to internal services. The rule is checked first: a port that is already forwarded or an address outside the LAN is refused. Always ask for user confirmation.',
+            schema: z.object({
+                name: z.string().describe('Name/description for the rule'),
+                protocol: z.enum(['TCP', 'UDP', 'ALL']).describe('Protocol (TCP, UDP, or ALL)'),
+                externalPort: z.number().min(1).max(65535).describe('External port number'),
+                internalIp: z.string().describe('Internal IP address to forward to'),
+                internalPort: z.number().optional().describe('Internal port (defaults to external port)'),
+                confirm: z.boolean().describe('Must be true to confirm.')
+            }),
         }
     );
 
-    const checkPortOpen = tool(
-        async ({ host, port }) => {
+    const editPortForwarding = tool(
+        async ({ name, newName, protocol, externalPort, internalIp, internalPort, enabled, confirm }) => {
             try {
-                const { checkPort } = await import('@/lib/network/diagnostics');
-                const result = await checkPort(host, port);
-                if (result.open) {
-                    return `✅ Port ${port} on ${host} is OPEN (latency: ${result.latency})`;
-                } else {
-                    return `❌ Port ${port} on ${host} is CLOSED or filtered\n• Reason: ${result.error || 'Connection refused'}`;
+                const context = await readContext();
+                const match = resolveRule(context.rules, name);
+                if (typeof match === 'string') return match;
+
+                const { index, rule } = match;
+                const options: PortForwardingOptions = {
+                    name: newName ?? rule.name,
+                    protocol: protocol ?? (['TCP', 'UDP'].includes(rule.protocol.toUpperCase()) ? rule.protocol.toUpperCase() as 'TCP' | 'UDP' : 'ALL'),
+                    externalPort: externalPort ?? rule.externalPort,
+                    internalIp: internalIp ?? rule.internalIp,
+                    internalPort: internalPort ?? rule.internalPort,
+                    enabled: enabled ?? rule.enabled,
+                };
+                const updated = describeRule({ ...options, externalPort: String(options.externalPort), internalPort: String(options.internalPort ?? ''), enabled: options.enabled !== false });
+
+                if (!confirm) {
+                    return `Please confirm you want to change port forwarding ${describeRule(rule)} to ${updated}`;
                 }
-            } catch (error: any) {
-                return `Error checking port: ${error.message}`;
+                return await writeChecked(options, { ...context, ignoreIndex: index },
+                    () => adapter.updatePortForwardingRule(index, options), `Port forwarding updated: ${updated}.`);
+            } catch (error: unknown) {
+                return formatToolError(error, 'editing port forwarding rule');
             }
         },
         {
-            name: 'checkPortOpen',
-            description: 'Check if a specific TCP port is open on a host. Useful for testing if services are accessible.',
+            name: 'editPortForwarding',
+            description: 'Change an existing port forwarding rule, found by its name. Only the given fields change. Can also enable or disable the rule. Always ask for user confirmation.',
             schema: z.object({
-                host: z.string().describe('Host to check (domain or IP)'),
-                port: z.number().min(1).max(65535).describe('Port number to check (1-65535)')
+                name: z.string().describe('Name of the rule to change (as listed by getPortForwardingRules)'),
+                newName: z.string().optional().describe('New name for the rule'),
+                protocol: z.enum(['TCP', 'UDP', 'ALL']).optional().describe('New protocol'),
+                externalPort: z.number().min(1).max(65535).optional().describe('New external port'),
+                internalIp: z.string().optional().describe('New internal IP address'),
+                internalPort: z.number().min(1).max(65535).optional().describe('New internal port'),
+                enabled: z.boolean().optional().describe('Enable or disable the rule'),
+                confirm: z.boolean().describe('Must be true to confirm.')
             }),
         }
     );
 
-    // ========== QOS SETTINGS TOOLS ==========
-
-    const setQosEnabled = tool(
-        async ({ enabled, confirm }) => {
-            if (!confirm) {
-                return `Please confirm you want to ${enabled ? 'enable' : 'disable'} QoS (Quality of Service). This controls traffic prioritization on your network.`;
-            }
+    const deletePortForwarding = tool(
+        async ({ name, confirm }) => {
             try {
-                const result = await adapter.setQosEnabled(enabled);
-                return result.success
-                    ? `✅ QoS has been ${enabled ? 'enabled' : 'disabled'}.`
-                    : `❌ Failed: ${result.message}`;
-            } catch (error: any) {
-                return formatToolError(error, 'toggling QoS');
+                const match = resolveRule(await adapter.getNatRules(), name);
+                if (typeof match === 'string') return match;
+
+                if (!confirm) {
+                    return `Please confirm you want to delete port forwarding ${describeRule(match.rule)}`;
+                }
+                const result = await adapter.deletePortForwardingRule(match.index);
+                return formatSetterResult(result, `Port forwarding ${describeRule(match.rule)} deleted.`);
+            } catch (error: unknown) {
+                return formatToolError(error, 'deleting port forwarding rule');
             }
         },
         {
-            name: 'setQosEnabled',
-            description: 'Enable or disable Quality of Service (QoS) for traffic prioritization. Always ask for user confirmation first.',
+            name: 'deletePortForwarding',
+            description: 'Delete a port forwarding rule, found by its name. Always ask for user confirmation.',
             schema: z.object({
-                enabled: z.boolean().describe('True to enable QoS, false to disable'),
-                confirm: z.boolean().describe('Must be true to confirm. Ask user first.')
+                name: z.string().describe('Name of the rule to delete (as listed by getPortForwardingRules)'),
+                confirm: z.boolean().describe('Must be true to confirm.')
             }),
         }
     );
 
-    const addQosRule = tool(
-        async ({ protocol, sourceIp, destIp, destPort, priority, confirm }) => {
-            if (!confirm) {
-                return `Please confirm you want to add a QoS rule for ${protocol || 'all'} traffic${destPort ? ` on port ${destPort}` : ''} with priority ${priority}.`;
-            }
+    return [getPortForwardingRules, addPortForwarding, editPortForwarding, deletePortForwarding];
+}
+
+// Device blocking (setters)
+function createMacFilterTools(adapter: RouterCapabilityMap['macFilter'] & RouterAdapter, routerIp: string) {
+    // A MAC is used as-is; a nickname, hostname or IP is looked up in the device inventory
+    const resolveMac = async (device: string): Promise<{ mac: string; label: string } | string> => {
+        if (isMacAddress(device)) return { mac: normalizeMac(device), label: normalizeMac(device) };
+        const match = resolveDevice(await syncInventory(routerIp, adapter), device);
+        if ('error' in match) return match.error;
+        return { mac: match.device.mac, label: `${displayName(match.device)} (${match.device.mac})` };
+    };
+
+    const blockDevice = tool(
+        async ({ device, confirm }) => {
             try {
-                const result = await adapter.addQosRule({
-                    protocol: protocol as any,
-                    sourceIp,
-                    destIp,
-                    destPort,
-                    priority: priority as any
-                });
-                return result.success
-                    ? `✅ QoS rule added successfully.`
-                    : `❌ Failed: ${result.message}`;
+                const target = await resolveMac(device);
+                if (typeof target === 'string') return target;
+
+                if (!confirm) {
+                    return `Please confirm you want to BLOCK ${target.label}. This will prevent the device from accessing the network.`;
+                }
+                const result = await adapter.blockDevice(target.mac);
+                return formatSetterResult(result, `${target.label} has been blocked.`);
             } catch (error: any) {
-                return formatToolError(error, 'adding QoS rule');
+                return formatToolError(error, 'blocking device');
             }
         },
         {
-            name: 'addQosRule',
-            description: 'Add a QoS traffic prioritization rule. Priority 0-7 (higher = more priority).',
+            name: 'blockDevice',
+            description: 'Block a device from the network, by its nickname (e.g. "Dad\'s phone"), hostname, IP or MAC address. Always ask for user confirmation first.',
             schema: z.object({
-                protocol: z.enum(['TCP/UDP', 'TCP', 'UDP', 'ICMP', 'IGMP']).optional().describe('Protocol to prioritize'),
-                sourceIp: z.string().optional().describe('Source IP address to match'),
-                destIp: z.string().optional().describe('Destination IP address to match'),
-                destPort: z.number().optional().describe('Destination port to prioritize'),
-                priority: z.number().min(0).max(7).describe('Priority level (0-7, higher = more priority)'),
+                device: z.string().describe('Device nickname, hostname, IP or MAC address (XX:XX:XX:XX:XX:XX)'),
                 confirm: z.boolean().describe('Must be true to confirm.')
             }),
         }
     );
 
-    // ========== PORT FORWARDING TOOLS ==========
-
-    const addPortForwarding = tool(
-        async ({ name, protocol, externalPort, internalIp, internalPort, confirm }) => {
-            if (!confirm) {
-                return `Please confirm you want to add port forwarding: ${name} - ${protocol} port ${externalPort} → ${internalIp}:${internalPort || externalPort}`;
-            }
+    const allowDevice = tool(
+        async ({ device, confirm }) => {
             try {
-                const result = await adapter.addPortForwardingRule({
-                    name,
-                    protocol: protocol as any,
-                    externalPort,
-                    internalIp,
-                    internalPort
-                });
-                return result.success
-                    ? `✅ ${result.message}`
-                    : `❌ Failed: ${result.message}`;
+                const target = await resolveMac(device);
+                if (typeof target === 'string') return target;
+
+                if (!confirm) {
+                    return `Please confirm you want to ALLOW/unblock ${target.label}.`;
+                }
+                const result = await adapter.allowDevice(target.mac);
+                return formatSetterResult(result, `${target.label} has been allowed.`);
             } catch (error: any) {
-                return formatToolError(error, 'adding port forwarding rule');
+                return formatToolError(error, 'allowing device');
             }
         },
         {
-            name: 'addPortForwarding',
-            description: 'Add a port forwarding rule to allow external access to internal services. Always ask for user confirmation.',
+            name: 'allowDevice',
+            description: 'Unblock/allow a previously blocked device, by its nickname, hostname, IP or MAC address.',
             schema: z.object({
-                name: z.string().describe('Name/description for the rule'),
-                protocol: z.enum(['TCP', 'UDP', 'ALL']).describe('Protocol (TCP, UDP, or ALL)'),
-                externalPort: z.number().min(1).max(65535).describe('External port number'),
-                internalIp: z.string().describe('Internal IP address to forward to'),
-                internalPort: z.number().optional().describe('Internal port (defaults to external port)'),
+                device: z.string().describe('Device nickname, hostname, IP or MAC address (XX:XX:XX:XX:XX:XX)'),
                 confirm: z.boolean().describe('Must be true to confirm.')
             }),
         }
     );
 
-    // ========== MAC FILTER / DEVICE BLOCKING TOOLS ==========
+    return [blockDevice, allowDevice];
+}
 
-    const blockDevice = tool(
-        async ({ macAddress, confirm }) => {
-            if (!confirm) {
-                return `Please confirm you want to BLOCK device with MAC address: ${macAddress}. This will prevent the device from accessing the network.`;
-            }
+// Device inventory (every device seen, with nicknames and owners)
+function createInventoryTools(adapter: RouterAdapter, routerIp: string) {
+    const getDeviceInventory = tool(
+        async ({ search, onlineOnly, limit, offset }) => {
             try {
-                const result = await adapter.blockDevice(macAddress);
-                return result.success
-                    ? `✅ Device ${macAddress} has been blocked.`
-                    : `❌ Failed: ${result.message}`;
-            } catch (error: any) {
-                return formatToolError(error, 'blocking device');
+                const devices = await syncInventory(routerIp, adapter);
+                const matching = (search ? findDevices(devices, search) : devices)
+                    .filter(device => !onlineOnly || device.online);
+                return formatPage(matching.map(device => ({
+                    name: displayName(device),
+                    nickname: device.nickname,
+                    owner: device.owner,
+                    hostname: device.hostname,
+                    ip: device.ip,
+                    mac: device.mac,
+                    vendor: device.vendor,
+                    connection: device.connection,
+                    online: device.online,
+                    firstSeen: device.firstSeen.toISOString(),
+                    lastSeen: device.lastSeen.toISOString(),
+                })), { limit, offset });
+            } catch (error: unknown) {
+                return formatToolError(error, 'reading device inventory');
             }
         },
         {
-            name: 'blockDevice',
-            description: 'Block a device from the network by its MAC address. Always ask for user confirmation first.',
+            name: 'getDeviceInventory',
+            description: 'List every device ever seen on this network (not only connected ones): nickname, owner, hostname, IP, MAC, manufacturer, WiFi or wired, online now, and first/last seen. Use for "what is this device?", "who owns ...", "when was ... last online?".',
             schema: z.object({
-                macAddress: z.string().describe('MAC address to block (format: XX:XX:XX:XX:XX:XX)'),
-                confirm: z.boolean().describe('Must be true to confirm.')
+                search: z.string().optional().describe('Nickname, owner, hostname, manufacturer, IP or MAC to look for'),
+                onlineOnly: z.boolean().optional().describe('Only devices connected right now'),
+                ...pagingFields,
             }),
         }
     );
 
-    const allowDevice = tool(
-        async ({ macAddress, confirm }) => {
-            if (!confirm) {
-                return `Please confirm you want to ALLOW/unblock device with MAC address: ${macAddress}.`;
+    const setDeviceNickname = tool(
+        async ({ device, nickname, owner }) => {
+            try {
+                const match = resolveDevice(await syncInventory(routerIp, adapter), device);
+                if ('error' in match) return match.error;
+
+                const labels: DeviceLabels = {};
+                if (nickname !== undefined) labels.nickname = nickname.trim() || null;
+                if (owner !== undefined) labels.owner = owner.trim() || null;
+                const updated = await getDeviceStore().label(routerIp, match.device.mac, labels);
+                if (!updated) return `Device ${match.device.mac} is no longer in the inventory.`;
+
+                return `✅ ${updated.mac} (${updated.hostname || updated.vendor || 'unknown device'}) is now "${displayName(updated)}"${updated.owner ? `, owned by ${updated.owner}` : ''}.`;
+            } catch (error: unknown) {
+                return formatToolError(error, 'naming device');
             }
+        },
+        {
+            name: 'setDeviceNickname',
+            description: 'Give a device a friendly nickname and/or owner (e.g. nickname "Dad\'s phone", owner "Dad"), so it can be referred to by that name later. Pass an empty string to clear one. Only stored in this app; the router is not changed.',
+            schema: z.object({
+                device: z.string().describe('Current nickname, hostname, IP or MAC address of the device'),
+                nickname: z.string().optional().describe('New nickname'),
+                owner: z.string().optional().describe('Who the device belongs to'),
+            }),
+        }
+    );
+
+    const getDeviceEvents = tool(
+        async ({ hours, type, newOnly, device, limit, offset }) => {
             try {
-                const result = await adapter.allowDevice(macAddress);
-                return result.success
-                    ? `✅ Device ${macAddress} has been allowed.`
-                    : `❌ Failed: ${result.message}`;
-            } catch (error: any) {
-                return formatToolError(error, 'allowing device');
+                const since = new Date(Date.now() - (hours ?? 24) * 60 * 60 * 1000);
+                const events = await getDeviceEventStore().list({
+                    routerIps: [routerIp],
+                    type: type === 'any' ? undefined : type,
+                    newOnly,
+                    since,
+                    limit: 500,
+                });
+                const matching = events.filter(event => matchesFilter(`${event.name} ${event.mac} ${event.ip} ${event.vendor}`, device));
+                return formatPage(matching.map(event => ({
+                    time: event.createdAt.toISOString(),
+                    event: event.type,
+                    newDevice: event.isNew,
+                    name: event.name,
+                    ip: event.ip,
+                    mac: event.mac,
+                    vendor: event.vendor,
+                })), { limit, offset }, { since: since.toISOString() });
+            } catch (error: unknown) {
+                return formatToolError(error, 'reading device events');
             }
         },
         {
-            name: 'allowDevice',
-            description: 'Unblock/allow a previously blocked device by its MAC address.',
+            name: 'getDeviceEvents',
+            description: 'Devices that joined or left the network, newest first, as recorded by the background presence monitor (checks every couple of minutes). newDevice is true the first time a device was ever seen. Use for "who joined in the last hour?", "any new devices today?", "when did ... leave?".',
             schema: z.object({
-                macAddress: z.string().describe('MAC address to allow (format: XX:XX:XX:XX:XX:XX)'),
-                confirm: z.boolean().describe('Must be true to confirm.')
+                hours: z.number().min(0.1).max(24 * 90).optional().describe('How far back to look, in hours (default 24)'),
+                type: z.enum(['joined', 'left', 'any']).optional().describe('Only joins or only leaves (default any)'),
+                newOnly: z.boolean().optional().describe('Only devices never seen before'),
+                device: z.string().optional().describe('Only events whose device name, IP, MAC or manufacturer contains this text'),
+                ...pagingFields,
             }),
         }
     );
 
-    // ========== LAN/DHCP SETTINGS TOOLS ==========
+    return [getDeviceInventory, setDeviceNickname, getDeviceEvents];
+}
 
+// LAN/DHCP settings (setters)
+function createLanConfigTools(adapter: RouterCapabilityMap['lanConfig']) {
     const setDhcpEnabled = tool(
         async ({ enabled, confirm }) => {
             if (!confirm) {
@@ -597,9 +1039,7 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
             }
             try {
                 const result = await adapter.setDhcpEnabled(enabled);
-                return result.success
-                    ? `✅ DHCP server ${enabled ? 'enabled' : 'disabled'}.`
-                    : `❌ Failed: ${result.message}`;
+                return formatSetterResult(result, `DHCP server ${enabled ? 'enabled' : 'disabled'}.`);
             } catch (error: any) {
                 return formatToolError(error, 'toggling DHCP');
             }
@@ -614,8 +1054,125 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
         }
     );
 
-    // ========== ADMIN SETTINGS TOOLS ==========
+    return [setDhcpEnabled];
+}
 
+// DHCP reservations
+function createDhcpReservationTools(adapter: RouterCapabilityMap['dhcpReservations'] & RouterAdapter) {
+    const getDhcpReservations = tool(
+        async ({ search, limit, offset }) => {
+            try {
+                const reservations = await adapter.getDhcpReservations();
+                const matching = reservations.filter(r => matchesFilter(`${r.name} ${r.mac} ${r.ip}`, search));
+                return formatPage(matching, { limit, offset });
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching DHCP reservations');
+            }
+        },
+        {
+            name: 'getDhcpReservations',
+            description: 'List DHCP reservations (static leases): devices that always get the same IP address.',
+            schema: z.object({
+                search: z.string().optional().describe('Only reservations whose name, MAC or IP contains this text'),
+                ...pagingFields,
+            }),
+        }
+    );
+
+    const addDhcpReservation = tool(
+        async ({ device, ip, name, confirm }) => {
+            try {
+                const [reservations, lan, leases] = await Promise.all([
+                    adapter.getDhcpReservations(),
+                    hasCapability(adapter, 'lanConfig') ? adapter.getLanSettings().catch(() => undefined) : undefined,
+                    adapter.getDhcpLeases().catch(() => [] as DhcpLease[]),
+                ]);
+
+                // A MAC can be reserved directly; anything else must match one current lease
+                const matches = isMacAddress(device) ? [] : findLeases(leases, device);
+                if (!isMacAddress(device) && matches.length !== 1) {
+                    return matches.length === 0
+                        ? `No connected device matches "${device}". Give its MAC address, or check the DHCP leases for its name.`
+                        : `Several devices match "${device}": ${matches.map(l => `${l.hostname} (${l.mac}, ${l.ip})`).join('; ')}. Ask which one is meant.`;
+                }
+                const lease = matches[0] ?? leases.find(l => normalizeMac(l.mac) === normalizeMac(device));
+                const reservation: DhcpReservation = {
+                    name: name ?? lease?.hostname ?? '',
+                    mac: normalizeMac(lease?.mac ?? device),
+                    ip: ip ?? lease?.ip ?? '',
+                };
+                if (!reservation.ip) {
+                    return `${reservation.mac} is not connected, so there is no current address to keep. Ask which IP address to reserve.`;
+                }
+
+                if (!confirm) {
+                    return `Please confirm you want to reserve ${reservation.ip} for ${describeReservation(reservation)}`;
+                }
+                const check = checkDhcpReservation(reservation, { reservations, lan, leases });
+                if (check.errors.length > 0) {
+                    return formatRefusal(check);
+                }
+
+                const result = await adapter.addDhcpReservation(reservation);
+                const lines = [formatSetterResult(result, result.success ? `${reservation.ip} reserved for ${reservation.name || reservation.mac} (${reservation.mac}).` : result.message)];
+                if (result.success) {
+                    lines.push(...check.warnings.map(warning => `- Note: ${warning}`));
+                    if (lease && lease.ip !== reservation.ip) {
+                        lines.push(`- The device keeps ${lease.ip} until it renews its lease (reconnecting it applies the new address).`);
+                    }
+                }
+                return lines.join('\n');
+            } catch (error: unknown) {
+                return formatToolError(error, 'adding DHCP reservation');
+            }
+        },
+        {
+            name: 'addDhcpReservation',
+            description: 'Give a device a fixed IP address with a DHCP reservation (e.g. "give my NAS a fixed address"). The device is found by name, current IP or MAC in the DHCP leases; without an IP it keeps the address it has now. Always ask for user confirmation.',
+            schema: z.object({
+                device: z.string().describe('Device hostname, current IP or MAC address'),
+                ip: z.string().optional().describe('Address to reserve (defaults to the device\'s current IP)'),
+                name: z.string().optional().describe('Name for the reservation (defaults to the hostname)'),
+                confirm: z.boolean().describe('Must be true to confirm.')
+            }),
+        }
+    );
+
+    const removeDhcpReservation = tool(
+        async ({ device, confirm }) => {
+            try {
+                const matches = findReservations(await adapter.getDhcpReservations(), device);
+                if (matches.length !== 1) {
+                    return matches.length === 0
+                        ? `No DHCP reservation matches "${device}".`
+                        : `Several reservations match "${device}": ${matches.map(describeReservation).join('; ')}. Ask which one is meant.`;
+                }
+
+                const [reservation] = matches;
+                if (!confirm) {
+                    return `Please confirm you want to remove the DHCP reservation ${describeReservation(reservation)}`;
+                }
+                const result = await adapter.removeDhcpReservation(reservation.mac);
+                return formatSetterResult(result, `DHCP reservation ${describeReservation(reservation)} removed.`);
+            } catch (error: unknown) {
+                return formatToolError(error, 'removing DHCP reservation');
+            }
+        },
+        {
+            name: 'removeDhcpReservation',
+            description: 'Remove a DHCP reservation, found by its name, reserved IP or MAC address. The device will get an address from the pool again. Always ask for user confirmation.',
+            schema: z.object({
+                device: z.string().describe('Reservation name, reserved IP or MAC address'),
+                confirm: z.boolean().describe('Must be true to confirm.')
+            }),
+        }
+    );
+
+    return [getDhcpReservations, addDhcpReservation, removeDhcpReservation];
+}
+
+// Admin settings (setters)
+function createAdminPasswordTools(adapter: RouterCapabilityMap['adminPassword']) {
     const setAdminPassword = tool(
         async ({ newPassword, confirm }) => {
             if (!confirm) {
@@ -623,9 +1180,7 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
             }
             try {
                 const result = await adapter.setAdminPassword(newPassword);
-                return result.success
-                    ? `✅ ${result.message}`
-                    : `❌ Failed: ${result.message}`;
+                return formatSetterResult(result, result.message);
             } catch (error: any) {
                 return formatToolError(error, 'changing admin password');
             }
@@ -640,43 +1195,786 @@ export function createRouterTools(adapter: ZTERouterAdapter) {
         }
     );
 
-    return [
-        getDeviceInfo,
-        getWanInfo,
-        getConnectedDevices,
-        getDslStats,
-        getWlanStats,
-        getLanStats,
-        getDhcpLeases,
-        getWifiClients,
-        getWifiSettings,
-        restartRouter,
-        // Advanced settings (getters)
-        getParentalControl,
-        getQosSettings,
-        getFirewallSettings,
-        getDdnsSettings,
-        // WiFi settings (setters)
-        setWifiSsid,
-        setWifiPassword,
-        setWifiEnabled,
-        setWifiChannel,
-        // QoS settings (setters)
-        setQosEnabled,
-        addQosRule,
-        // Port forwarding (setters)
-        addPortForwarding,
-        // Device blocking (setters)
-        blockDevice,
-        allowDevice,
-        // LAN/DHCP settings (setters)
-        setDhcpEnabled,
-        // Admin settings (setters)
-        setAdminPassword,
-        // Network diagnostics
-        pingWebsite,
-        lookupDns,
-        checkInternetConnectivity,
-        checkPortOpen,
+    return [setAdminPassword];
+}
+
+// Router system and security logs
+function createLogTools(adapter: RouterCapabilityMap['logs']) {
+    const getSystemLog = tool(
+        async (filter: LogFilter) => {
+            try {
+                return formatLog(await adapter.getSystemLog(), filter);
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching system log');
+            }
+        },
+        {
+            name: 'getSystemLog',
+            description: 'Read the router system log (timestamp, level, message), newest first. Filter by level, text or time range and page through long logs. Use for "show me the router log" or to find when the connection dropped.',
+            schema: z.object(logFilterFields),
+        }
+    );
+
+    const getSecurityLog = tool(
+        async (filter: LogFilter) => {
+            try {
+                return formatLog(await adapter.getSecurityLog(), filter);
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching security log');
+            }
+        },
+        {
+            name: 'getSecurityLog',
+            description: 'Read the router security log (blocked connections, login attempts, firewall events), newest first. Filter by level, text or time range and page through long logs.',
+            schema: z.object(logFilterFields),
+        }
+    );
+
+    return [getSystemLog, getSecurityLog];
+}
+
+// ARP, routing and interface groups
+function createRoutingTools(adapter: RouterCapabilityMap['routing']) {
+    const getArpTable = tool(
+        async ({ search, limit, offset }) => {
+            try {
+                const entries = await adapter.getArpTable();
+                const matching = entries.filter(entry =>
+                    matchesFilter(entry.ip, search) || matchesFilter(entry.mac, search) || matchesFilter(entry.interface, search)
+                );
+                return formatPage(matching, { limit, offset });
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching ARP table');
+            }
+        },
+        {
+            name: 'getArpTable',
+            description: 'Get the router ARP table (IP address to MAC address, per interface): every device the router has recently talked to, including ones with static IPs that have no DHCP lease.',
+            schema: z.object({
+                search: z.string().optional().describe('Only entries whose IP, MAC or interface contains this text'),
+                ...pagingFields,
+            }),
+        }
+    );
+
+    const getRoutingTable = tool(
+        async ({ search, limit, offset }) => {
+            try {
+                const routes = await adapter.getRoutingTable();
+                const matching = routes.filter(route =>
+                    matchesFilter(route.destination, search) || matchesFilter(route.gateway, search) || matchesFilter(route.interface, search)
+                );
+                return formatPage(matching, { limit, offset });
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching routing table');
+            }
+        },
+        {
+            name: 'getRoutingTable',
+            description: 'Get the router routing table: destination, gateway, subnet mask, interface and metric for each route.',
+            schema: z.object({
+                search: z.string().optional().describe('Only routes whose destination, gateway or interface contains this text'),
+                ...pagingFields,
+            }),
+        }
+    );
+
+    const getInterfaceGroups = tool(
+        async () => {
+            try {
+                const groups = await adapter.getInterfaceGroups();
+                return JSON.stringify(groups, null, 2);
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching interface groups');
+            }
+        },
+        {
+            name: 'getInterfaceGroups',
+            description: 'Get interface groups (port binding): which LAN ports and WiFi are tied to which WAN connection, e.g. an IPTV port bound to its own WAN service.',
+            schema: z.object({}),
+        }
+    );
+
+    return [getArpTable, getRoutingTable, getInterfaceGroups];
+}
+
+// WAN services
+function createWanServicesTools(adapter: RouterCapabilityMap['wanServices']) {
+    const getWanServices = tool(
+        async ({ status }) => {
+            try {
+                const services = await adapter.getWanServices();
+                return JSON.stringify(services.filter(service => matchesFilter(service.status, status)), null, 2);
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching WAN services');
+            }
+        },
+        {
+            name: 'getWanServices',
+            description: 'List the WAN services (connections) configured on the router: name, protocol (PPPoE, IPoE, bridge), status, IP address and VPI/VCI.',
+            schema: z.object({
+                status: z.string().optional().describe('Only services whose status contains this text, e.g. "up" or "connected"'),
+            }),
+        }
+    );
+
+    return [getWanServices];
+}
+
+// VPN settings
+function createVpnTools(adapter: RouterCapabilityMap['vpn']) {
+    const getVpnSettings = tool(
+        async () => {
+            try {
+                const settings = await adapter.getVpnSettings();
+                return JSON.stringify(settings, null, 2);
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching VPN settings');
+            }
+        },
+        {
+            name: 'getVpnSettings',
+            description: 'Get the router VPN settings: whether VPN is enabled, VPN type, server address, username and connection status.',
+            schema: z.object({}),
+        }
+    );
+
+    return [getVpnSettings];
+}
+
+// UPnP status
+function createUpnpTools(adapter: RouterCapabilityMap['upnp']) {
+    const getUpnpStatus = tool(
+        async ({ internalClient, protocol, limit, offset }) => {
+            try {
+                const status = await adapter.getUpnpStatus();
+                const mappings = status.mappings.filter(mapping =>
+                    matchesFilter(mapping.internalClient, internalClient) && matchesFilter(mapping.protocol, protocol)
+                );
+                return formatPage(mappings, { limit, offset }, { upnpEnabled: status.enabled });
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching UPnP status');
+            }
+        },
+        {
+            name: 'getUpnpStatus',
+            description: 'Get UPnP status and the port mappings that devices (game consoles, apps) opened automatically: description, protocol, external/internal port and device IP.',
+            schema: z.object({
+                internalClient: z.string().optional().describe('Only mappings for this device IP'),
+                protocol: z.enum(['TCP', 'UDP']).optional().describe('Only mappings for this protocol'),
+                ...pagingFields,
+            }),
+        }
+    );
+
+    return [getUpnpStatus];
+}
+
+// IP filter rules
+function createIpFilterTools(adapter: RouterCapabilityMap['ipFilter']) {
+    const getIpFilterRules = tool(
+        async ({ action, search, limit, offset }) => {
+            try {
+                const rules = await adapter.getIpFilterRules();
+                const matching = rules.filter(rule =>
+                    (!action || rule.action === action) &&
+                    (matchesFilter(rule.name, search) || matchesFilter(rule.sourceIp, search) || matchesFilter(rule.destIp, search))
+                );
+                return formatPage(matching, { limit, offset });
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching IP filter rules');
+            }
+        },
+        {
+            name: 'getIpFilterRules',
+            description: 'List the IP/MAC filter rules: name, allow or deny, source and destination IP, protocol and port. Use to see which devices or addresses are blocked.',
+            schema: z.object({
+                action: z.enum(['allow', 'deny']).optional().describe('Only allow or only deny rules'),
+                search: z.string().optional().describe('Only rules whose name, source or destination contains this text'),
+                ...pagingFields,
+            }),
+        }
+    );
+
+    return [getIpFilterRules];
+}
+
+// System time
+function createSystemTimeTools(adapter: RouterCapabilityMap['systemTime']) {
+    const getSystemTime = tool(
+        async () => {
+            try {
+                const time = await adapter.getSystemTime();
+                return JSON.stringify(time, null, 2);
+            } catch (error: unknown) {
+                return formatToolError(error, 'fetching system time');
+            }
+        },
+        {
+            name: 'getSystemTime',
+            description: 'Get the router clock: current time, time zone, and NTP (network time) settings. A wrong clock makes log timestamps and parental control schedules unreliable.',
+            schema: z.object({}),
+        }
+    );
+
+    return [getSystemTime];
+}
+
+// Change history and rollback
+function createRollbackTools(adapter: RouterCapabilityMap['rollback'] & RouterAdapter, routerIp: string) {
+    const listRecentChanges = tool(
+        async ({ limit }) => {
+            try {
+                const snapshots = await getSnapshotStore().list({ routerIps: [routerIp], limit: limit ?? 10 });
+                if (snapshots.length === 0) {
+                    return 'No configuration changes have been recorded for this router.';
+                }
+                return JSON.stringify(snapshots.map(snapshot => ({
+                    changeId: snapshot.id,
+                    when: snapshot.createdAt.toLocaleString(),
+                    change: describeSnapshot(snapshot),
+                    by: snapshot.user ?? 'unknown',
+                    requestedIn: snapshot.chatMessage ?? undefined,
+                    reverted: snapshot.revertedAt !== null,
+                })), null, 2);
+            } catch (error: unknown) {
+                return formatToolError(error, 'reading change history');
+            }
+        },
+        {
+            name: 'listRecentChanges',
+            description: 'List recent configuration changes made to the router (newest first), with the settings that were changed and the chat message that asked for them. Use this to find the changeId to revert.',
+            schema: z.object({
+                limit: z.number().min(1).max(50).optional().describe('How many changes to list (default 10)')
+            }),
+        }
+    );
+
+    const revertChange = tool(
+        async ({ changeId, confirm }) => {
+            if (!confirm) {
+                return 'Please confirm you want to revert this change. The settings will be put back to what they were before it.';
+            }
+            try {
+                let id = changeId;
+                if (!id) {
+                    const snapshots = await getSnapshotStore().list({ routerIps: [routerIp], limit: 50 });
+                    id = snapshots.find(snapshot => !snapshot.revertedAt)?.id;
+                    if (!id) return 'There are no changes left to revert on this router.';
+                }
+
+                const result = await revertSnapshot(id, adapter, routerIp);
+                return formatSetterResult(result, `Change reverted: ${result.message}`);
+            } catch (error: unknown) {
+                return formatToolError(error, 'reverting change');
+            }
+        },
+        {
+            name: 'revertChange',
+            description: 'Undo a configuration change (e.g. a wrong WiFi channel or a blocked device) by restoring the settings saved before it. Omit changeId to undo the most recent change. Always ask for user confirmation first.',
+            schema: z.object({
+                changeId: z.string().optional().describe('changeId from listRecentChanges; defaults to the most recent change that was not reverted'),
+                confirm: z.boolean().describe('Must be true to confirm.')
+            }),
+        }
+    );
+
+    return [listRecentChanges, revertChange];
+}
+
+// ========== NETWORK DIAGNOSTIC TOOLS ==========
+
+// Diagnostics run from the server and don't need router access
+function createDiagnosticTools() {
+    const pingWebsite = tool(
+        async ({ host }) => {
+            try {
+                const { pingHost } = await import('@/lib/network/diagnostics');
+                const result = await pingHost(host, 4);
+                if (result.alive) {
+                    return `✅ ${host} is reachable\n• Latency: ${result.time}\n• Packet Loss: ${result.packetLoss}\n• Min/Avg/Max: ${result.min}/${result.avg}/${result.max}`;
+                } else {
+                    return `❌ ${host} is not reachable\n• Error: ${result.error || 'Host unreachable'}`;
+                }
+            } catch (error: unknown) {
+                return `Error pinging ${host}: ${error instanceof Error ? error.message : error}`;
+            }
+        },
+        {
+            name: 'pingWebsite',
+            description: 'Ping a website or IP address to check if it is reachable and measure latency. Use this to test connectivity to specific hosts.',
+            schema: z.object({
+                host: z.string().describe('Website domain or IP address to ping (e.g., "google.com" or "8.8.8.8")')
+            }),
+        }
+    );
+
+    const lookupDns = tool(
+        async ({ hostname, recordType, server }) => {
+            try {
+                if (recordType || server) {
+                    const { queryDns } = await import('@/lib/network/dns-diagnostics');
+                    const result = await queryDns(hostname, recordType, server);
+                    const via = server ? ` via ${server}` : '';
+                    if (result.records.length > 0) {
+                        return `${result.type} records for ${hostname}${via} (${result.timeMs} ms):\n${result.records.map(record => `• ${record}`).join('\n')}`;
+                    }
+                    const reason = result.error === 'ENOTFOUND' ? 'the name does not exist (NXDOMAIN)'
+                        : result.error === 'ENODATA' ? `the name exists but has no ${result.type} records`
+                            : result.error === 'ETIMEOUT' ? 'the server did not answer'
+                                : result.error || 'no records found';
+                    return `❌ No ${result.type} records for ${hostname}${via}: ${reason}`;
+                }
+
+                const { resolveDns } = await import('@/lib/network/diagnostics');
+                const result = await resolveDns(hostname);
+                if (result.addresses.length > 0) {
+                    return `DNS lookup for ${hostname}:\n${result.addresses.map(ip => `• ${ip}`).join('\n')}`;
+                } else {
+                    return `❌ Could not resolve ${hostname}: ${result.error || 'No addresses found'}`;
+                }
+            } catch (error: unknown) {
+                return `Error looking up ${hostname}: ${error instanceof Error ? error.message : error}`;
+            }
+        },
+        {
+            name: 'lookupDns',
+            description: 'Perform DNS lookup to resolve a hostname to IP addresses. Use this to check if DNS is working properly. Can also fetch other record types (AAAA, MX, TXT, CNAME, NS) and ask one specific DNS server instead of this machine\'s resolvers.',
+            schema: z.object({
+                hostname: z.string().describe('Domain name to lookup (e.g., "google.com")'),
+                recordType: z.enum(['A', 'AAAA', 'MX', 'TXT', 'CNAME', 'NS']).optional().describe('Record type (default A)'),
+                server: z.string().optional().describe('DNS server to ask, optionally with a port (e.g., "1.1.1.1" or "127.0.0.1:5353")'),
+            }),
+        }
+    );
+
+    const checkInternetConnectivity = tool(
+        async () => {
+            try {
+                const { checkConnectivity } = await import('@/lib/network/diagnostics');
+                const { discoverGateways } = await import('@/lib/network/gateway');
+                const gateway = (await discoverGateways()).find(g => g.primary);
+                const result = await checkConnectivity(gateway?.ip);
+                const status = [];
+                if (gateway) status.push(`• Gateway ${gateway.ip}: ${result.gateway ? '✅ Reachable' : '❌ Not answering ping'}`);
+                status.push(`• Internet: ${result.internet ? '✅ Connected' : '❌ Not connected'}`);
+                status.push(`• DNS: ${result.dns ? '✅ Working' : '❌ Not working'}`);
+                status.push(`• Latency: ${result.latency}`);
+                return `Internet Connectivity Status:\n${status.join('\n')}`;
+            } catch (error: unknown) {
+                return `Error checking connectivity: ${error instanceof Error ? error.message : error}`;
+            }
+        },
+        {
+            name: 'checkInternetConnectivity',
+            description: 'Check overall internet connectivity status including reachability of this machine\'s default gateway, DNS resolution and latency to public servers.',
+            schema: z.object({}),
+        }
+    );
+
+    const checkPortOpen = tool(
+        async ({ host, port }) => {
+            try {
+                const { checkPort } = await import('@/lib/network/diagnostics');
+                const result = await checkPort(host, port);
+                if (result.open) {
+                    return `✅ Port ${port} on ${host} is OPEN (latency: ${result.latency})`;
+                } else {
+                    return `❌ Port ${port} on ${host} is CLOSED or filtered\n• Reason: ${result.error || 'Connection refused'}`;
+                }
+            } catch (error: unknown) {
+                return `Error checking port: ${error instanceof Error ? error.message : error}`;
+            }
+        },
+        {
+            name: 'checkPortOpen',
+            description: 'Check if a specific TCP port is open on a host. Useful for testing if services are accessible.',
+            schema: z.object({
+                host: z.string().describe('Host to check (domain or IP)'),
+                port: z.number().min(1).max(65535).describe('Port number to check (1-65535)')
+            }),
+        }
+    );
+
+    const traceRoute = tool(
+        async ({ host, maxHops }) => {
+            try {
+                const { traceRoute: trace } = await import('@/lib/network/diagnostics');
+                const result = await trace(host, maxHops ?? 20);
+                if (result.hops.length === 0) {
+                    return `❌ Could not trace the route to ${host}: ${result.error || 'no hop answered'}`;
+                }
+
+                const lines = result.hops.map(hop => {
+                    if (!hop.ip) return `${hop.hop}. * no reply`;
+                    const name = hop.hostname ? `${hop.hostname} (${hop.ip})` : hop.ip;
+                    const times = hop.avg !== null ? `${hop.min}/${hop.avg}/${hop.max} ms` : 'no timing';
+                    return `${hop.hop}. ${name}: ${times}, ${hop.loss}% loss`;
+                });
+
+                // Where the delay comes from: the biggest rise in average RTT between answering hops
+                const answered = result.hops.filter(hop => hop.avg !== null);
+                let jump: { hop: number; ip: string | null; increase: number } | null = null;
+                for (let i = 1; i < answered.length; i++) {
+                    const increase = answered[i].avg! - answered[i - 1].avg!;
+                    if (!jump || increase > jump.increase) jump = { hop: answered[i].hop, ip: answered[i].ip, increase };
+                }
+
+                const summary = result.reached
+                    ? `✅ Reached ${host} (${result.destination}) in ${result.hops.length} hops`
+                    : `⚠️ Did not reach ${host} (${result.destination}) within ${result.hops.length} hops`;
+                const jumpLine = jump && jump.increase >= 10
+                    ? `\nLargest delay increase: +${Math.round(jump.increase)} ms at hop ${jump.hop} (${jump.ip})`
+                    : '';
+                return `${summary} (via ${result.method}):\n${lines.join('\n')}${jumpLine}`;
+            } catch (error: unknown) {
+                return `Error tracing route to ${host}: ${error instanceof Error ? error.message : error}`;
+            }
+        },
+        {
+            name: 'traceRoute',
+            description: 'Trace the network path from this server to a host: every router (hop) on the way with its IP, reverse DNS name, min/avg/max round-trip time and packet loss. Use for "where is my connection slow?", "where does my connection to X break?". Hops that never reply (*) are normal when followed by answering hops. Takes up to a minute.',
+            schema: z.object({
+                host: z.string().describe('Website domain or IP address to trace (e.g., "google.com" or "8.8.8.8")'),
+                maxHops: z.number().min(1).max(64).optional().describe('Maximum number of hops (default 20)'),
+            }),
+        }
+    );
+
+    const runSpeedTest = tool(
+        async ({ url, downloadMb, uploadMb }) => {
+            try {
+                const { runSpeedTest: measure, getSpeedTestStore } = await import('@/lib/network/speed-test');
+                const result = await measure({
+                    url,
+                    downloadBytes: downloadMb ? downloadMb * 1_000_000 : undefined,
+                    uploadBytes: uploadMb ? uploadMb * 1_000_000 : undefined,
+                });
+                if (!result.server) return `❌ ${result.error}`;
+
+                const store = getSpeedTestStore();
+                const [previous] = await store.list(1, result.server);
+                await store.record(result);
+
+                const latency = (label: string, stats: typeof result.idleLatency) => stats
+                    ? `• ${label}: ${stats.avg} ms avg (${stats.min}–${stats.max} ms), jitter ${stats.jitter} ms`
+                    : null;
+                const lines = [
+                    `• Download: ${result.downloadMbps !== null ? `${result.downloadMbps} Mbit/s` : 'not measured'}`,
+                    `• Upload: ${result.uploadMbps !== null ? `${result.uploadMbps} Mbit/s` : 'not measured'}`,
+                    latency('Idle latency', result.idleLatency),
+                    latency('Latency while downloading', result.downloadLatency),
+                    latency('Latency while uploading', result.uploadLatency),
+                    result.grade ? `• Bufferbloat: +${result.bufferbloatMs} ms under load (grade ${result.grade})` : null,
+                ].filter(Boolean);
+
+                const header = result.error
+                    ? `⚠️ Speed test against ${result.server} did not finish: ${result.error}`
+                    : `Speed test against ${result.server}:`;
+                const comparison = previous?.downloadMbps != null && previous.uploadMbps != null
+                    ? `\nPrevious test (${previous.createdAt.toLocaleString()}): ${previous.downloadMbps} ↓ / ${previous.uploadMbps} ↑ Mbit/s${previous.grade ? `, bufferbloat grade ${previous.grade}` : ''}`
+                    : '';
+                return `${header}\n${lines.join('\n')}${comparison}`;
+            } catch (error: unknown) {
+                return `Error running speed test: ${error instanceof Error ? error.message : error}`;
+            }
+        },
+        {
+            name: 'runSpeedTest',
+            description: 'Measure download/upload throughput, latency, jitter and bufferbloat (latency increase while the line is busy) against the configured self-hosted speed test endpoint (SPEED_TEST_URL, usually a machine on the LAN). Results are saved and compared with the previous test. Use for "how fast is my connection/WiFi?", "why do calls lag when someone downloads?". Takes up to half a minute and briefly saturates the connection.',
+            schema: z.object({
+                url: z.string().optional().describe('Endpoint base URL, only when the user names one (e.g., "http://192.168.1.20:8090")'),
+                downloadMb: z.number().min(1).max(1000).optional().describe('Download payload in MB (default 25)'),
+                uploadMb: z.number().min(1).max(1000).optional().describe('Upload payload in MB (default 10)'),
+            }),
+        }
+    );
+
+    return [pingWebsite, lookupDns, checkInternetConnectivity, checkPortOpen, traceRoute, runSpeedTest];
+}
+
+const PLAYBOOK_ICONS = { pass: '✅', warn: '⚠️', fail: '❌', skip: '⏭️' };
+
+// "Internet is down" playbook: fixed layered checks, each one reported to the reasoning trace as it finishes
+function createTroubleshootingTools(adapter: RouterAdapter, routerIp: string) {
+    const troubleshootInternet = tool(
+        async (_args, config?: LangGraphRunnableConfig) => {
+            try {
+                const { runInternetPlaybook } = await import('@/lib/network/troubleshoot');
+                const { steps, verdict } = await runInternetPlaybook({
+                    adapter,
+                    routerIp,
+                    onStep: step => config?.writer?.({ step: `${PLAYBOOK_ICONS[step.status]} ${step.title}: ${step.detail}` }),
+                });
+
+                const lines = steps.map((step, i) => `${i + 1}. ${PLAYBOOK_ICONS[step.status]} ${step.title}: ${step.detail}`);
+                return `Internet troubleshooting:\n${lines.join('\n')}\n\nVerdict (${verdict.cause}): ${verdict.summary}\nRecommended: ${verdict.advice}`;
+            } catch (error: unknown) {
+                return formatToolError(error, 'running the internet checks');
+            }
+        },
+        {
+            name: 'troubleshootInternet',
+            description: 'Run the full "internet is down" playbook in a fixed order: this machine\'s network interface, gateway ping, router WAN/PPPoE status, DSL line, DNS resolution and an external ping. Returns each finding and a root-cause verdict with a recommendation. Use this FIRST whenever the user says the internet is not working, is down or keeps dropping, instead of calling the individual checks.',
+            schema: z.object({}),
+        }
+    );
+
+    return [troubleshootInternet];
+}
+
+// DNS comparison: the router's resolvers against public ones and this machine's
+function createDnsTools(adapter: RouterAdapter, routerIp: string) {
+    const compareDnsServers = tool(
+        async ({ servers }) => {
+            try {
+                const { PUBLIC_RESOLVERS, compareResolvers, isDnsServer, recommendDns } = await import('@/lib/network/dns-diagnostics');
+
+                const wan = await adapter.getWanInfo().catch(() => undefined);
+                const current = [
+                    { label: 'WAN DNS (primary)', server: wan?.primaryDns ?? '' },
+                    { label: 'WAN DNS (secondary)', server: wan?.secondaryDns ?? '' },
+                ].filter((target, i, all) => isDnsServer(target.server) && all.findIndex(t => t.server === target.server) === i);
+                // Most routers also answer DNS themselves, forwarding to the servers above
+                const routerProxy = isDnsServer(routerIp) ? [{ label: 'Router (DNS proxy)', server: routerIp }] : [];
+                const extra = (servers ?? []).filter(isDnsServer).map(server => ({ label: server, server }));
+                const alternatives = [...PUBLIC_RESOLVERS, ...extra]
+                    .filter(target => !current.some(c => c.server === target.server));
+
+                const reports = await compareResolvers([
+                    ...current, ...routerProxy, ...alternatives, { label: 'This machine\'s resolver', server: 'system' },
+                ]);
+                const currentReports = reports.slice(0, current.length);
+                const proxyReport = routerProxy.length > 0 ? reports[current.length] : undefined;
+                const alternativeReports = reports.slice(current.length + routerProxy.length, -1);
+                const systemReport = reports[reports.length - 1];
+
+                const describe = (r: typeof reports[number]) => {
+                    if (!r.reachable) return `• ${r.label}${r.server !== 'system' ? ` (${r.server})` : ''}: ❌ no answer`;
+                    const details = [
+                        `${r.medianMs} ms median`,
+                        r.answered < r.tested ? `⚠️ resolved only ${r.answered}/${r.tested} test names` : null,
+                        r.hijacked === null ? null : r.hijacked.length > 0 ? `⚠️ hijacks NXDOMAIN → ${r.hijacked.join(', ')}` : 'no NXDOMAIN hijacking',
+                        r.dnssec === null ? null : r.dnssec ? 'validates DNSSEC' : 'no DNSSEC validation',
+                        r.egressIp ? `queries leave from ${r.egressIp}` : null,
+                    ].filter(Boolean);
+                    return `• ${r.label}${r.server !== 'system' ? ` (${r.server})` : ''}: ${details.join(', ')}`;
+                };
+
+                const lines = [
+                    'DNS server comparison (lower is faster):',
+                    ...[...currentReports, ...(proxyReport ? [proxyReport] : []), ...alternativeReports, systemReport].map(describe),
+                ];
+
+                // Queries from this machine should leave through the resolvers the router hands out
+                const routerEgress = [...currentReports, ...(proxyReport ? [proxyReport] : [])].map(r => r.egressIp).filter(Boolean);
+                if (systemReport.egressIp && routerEgress.length > 0 && !routerEgress.includes(systemReport.egressIp)) {
+                    lines.push(`\n⚠️ Possible DNS leak: this machine's DNS queries leave from ${systemReport.egressIp}, not through the router's DNS servers (${[...new Set(routerEgress)].join(', ')}). A VPN, browser "secure DNS" setting or manually set DNS may be bypassing the router.`);
+                }
+
+                const recommendation = recommendDns(currentReports, alternativeReports);
+                lines.push(recommendation.change && recommendation.suggested
+                    ? `\nRecommendation: switch to ${recommendation.suggested.label} (${recommendation.suggested.server}).`
+                    : '\nRecommendation: keep the current DNS servers.');
+                lines.push(...recommendation.reasons.map(reason => `• ${reason}`));
+                return lines.join('\n');
+            } catch (error: unknown) {
+                return formatToolError(error, 'comparing DNS servers');
+            }
+        },
+        {
+            name: 'compareDnsServers',
+            description: 'Compare the router\'s DNS servers (from its WAN settings) with public resolvers (Cloudflare, Google, Quad9) and this machine\'s resolver: response time, NXDOMAIN hijacking (nonexistent names redirected to ad pages), DNSSEC validation and DNS leaks, then recommend whether to change DNS servers. Use for "is my DNS slow?", "should I change DNS?", "am I leaking DNS?".',
+            schema: z.object({
+                servers: z.array(z.string()).optional().describe('Extra DNS servers to include, only when the user names them (e.g., ["192.168.1.5", "127.0.0.1:5353"])'),
+            }),
+        }
+    );
+
+    return [compareDnsServers];
+}
+
+// Tools for a single router.
+// Only tools for the capabilities its adapter declares are registered.
+function createAdapterTools({ adapter, ip }: RouterTarget) {
+    const tools: StructuredToolInterface[] = [
+        ...createCoreTools(adapter),
+        ...createInventoryTools(adapter, ip),
+        ...createTroubleshootingTools(adapter, ip),
+        ...createChannelSurveyTools(adapter),
+        ...createDnsTools(adapter, ip),
     ];
+
+    if (hasCapability(adapter, 'restart')) tools.push(...createRestartTools(adapter));
+    if (hasCapability(adapter, 'dsl')) tools.push(...createDslTools(adapter));
+    if (hasCapability(adapter, 'trafficStats')) tools.push(...createTrafficStatsTools(adapter));
+    if (availableMetrics(adapter).length > 0) tools.push(...createMetricsTools(adapter, ip));
+    if (hasCapability(adapter, 'parentalControl')) tools.push(...createParentalControlTools(adapter));
+    if (hasCapability(adapter, 'qos')) tools.push(...createQosTools(adapter));
+    if (hasCapability(adapter, 'firewall')) tools.push(...createFirewallTools(adapter));
+    if (hasCapability(adapter, 'ddns')) tools.push(...createDdnsTools(adapter));
+    if (hasCapability(adapter, 'wifiConfig')) tools.push(...createWifiConfigTools(adapter));
+    if (hasCapability(adapter, 'portForwarding')) tools.push(...createPortForwardingTools(adapter));
+    if (hasCapability(adapter, 'macFilter')) tools.push(...createMacFilterTools(adapter, ip));
+    if (hasCapability(adapter, 'lanConfig')) tools.push(...createLanConfigTools(adapter));
+    if (hasCapability(adapter, 'dhcpReservations')) tools.push(...createDhcpReservationTools(adapter));
+    if (hasCapability(adapter, 'adminPassword')) tools.push(...createAdminPasswordTools(adapter));
+    if (hasCapability(adapter, 'rollback')) tools.push(...createRollbackTools(adapter, ip));
+    if (hasCapability(adapter, 'logs')) tools.push(...createLogTools(adapter));
+    if (hasCapability(adapter, 'routing')) tools.push(...createRoutingTools(adapter));
+    if (hasCapability(adapter, 'wanServices')) tools.push(...createWanServicesTools(adapter));
+    if (hasCapability(adapter, 'vpn')) tools.push(...createVpnTools(adapter));
+    if (hasCapability(adapter, 'upnp')) tools.push(...createUpnpTools(adapter));
+    if (hasCapability(adapter, 'ipFilter')) tools.push(...createIpFilterTools(adapter));
+    if (hasCapability(adapter, 'systemTime')) tools.push(...createSystemTimeTools(adapter));
+
+    return tools;
+}
+
+// ========== MULTI-ROUTER TARGETING ==========
+
+// A logged-in router the agent can act on
+export interface RouterTarget {
+    /** Session id of the router (e.g. "upstairs-ap") */
+    id: string;
+    name: string;
+    ip: string;
+    adapter: RouterAdapter;
+    /** When set, confirmed changes on this router are written to the audit log */
+    audit?: AuditContext;
+}
+
+// Mutating tools are the ones that take `confirm`
+export function isMutatingTool(routerTool: StructuredToolInterface): boolean {
+    return 'confirm' in (routerTool.schema as z.ZodObject<z.ZodRawShape>).shape;
+}
+
+// A confirmed call that changes settings; analysis tools with `apply` only write when it is set
+function isConfirmedWrite(routerTool: StructuredToolInterface, args: Record<string, unknown>): boolean {
+    if (!isMutatingTool(routerTool) || args.confirm !== true) return false;
+    return !('apply' in (routerTool.schema as z.ZodObject<z.ZodRawShape>).shape) || args.apply === true;
+}
+
+// Settings a mutating tool touches, read before and after it runs (best-effort)
+async function readAuditState(toolName: string, adapter: RouterAdapter): Promise<unknown> {
+    try {
+        if (toolName.startsWith('setWifi') || toolName === 'analyzeWifiChannels') return await adapter.getWirelessSettings();
+        if (toolName === 'setDhcpEnabled' && hasCapability(adapter, 'lanConfig')) return await adapter.getLanSettings();
+        if (toolName.includes('PortForwarding') && hasCapability(adapter, 'portForwarding')) return await adapter.getNatRules();
+        if (toolName.includes('Qos') && hasCapability(adapter, 'qos')) return await adapter.getQosSettings();
+        if (toolName.includes('DhcpReservation') && hasCapability(adapter, 'dhcpReservations')) return await adapter.getDhcpReservations();
+    } catch {
+        // The audit entry is still written, without the settings
+    }
+    return undefined;
+}
+
+// Outcome of a call that made no setter write (restart, refused by a check), read from its reply
+function outputOutcome(output: string): AuditOutcome {
+    if (output.startsWith('✅')) return 'success';
+    if (output.startsWith('⚠️')) return 'unconfirmed';
+    return 'failed';
+}
+
+// Run a confirmed mutating tool and append it to the audit log, whether or not it succeeded.
+// The outcome is the worst of the setter results, or read from the reply when no setter ran.
+async function invokeAudited(
+    routerTool: StructuredToolInterface,
+    args: Record<string, unknown>,
+    target: RouterTarget,
+    audit: AuditContext,
+    config?: LangGraphRunnableConfig
+) {
+    const before = await readAuditState(routerTool.name, target.adapter);
+    const writes: SetterResult[] = [];
+    let output: string;
+    let failure: unknown;
+    try {
+        output = String(await auditedWrites.run(writes, () =>
+            routerTool.invoke(args, { writer: config?.writer } as LangGraphRunnableConfig)
+        ));
+    } catch (error: unknown) {
+        failure = error;
+        output = `Error running ${routerTool.name}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    const after = before === undefined ? undefined : await readAuditState(routerTool.name, target.adapter);
+
+    const outcomes = writes.length > 0 ? writes.map(setterOutcome) : [outputOutcome(output)];
+    await recordAudit(audit, {
+        toolName: routerTool.name,
+        args: Object.fromEntries(Object.entries(args).filter(([key]) => key !== 'confirm')),
+        before,
+        after,
+        outcome: outcomes.find(outcome => outcome === 'failed') ?? outcomes.find(outcome => outcome === 'unconfirmed') ?? 'success',
+        result: output,
+    });
+    if (failure !== undefined) throw failure;
+    return output;
+}
+
+// Wrap the per-router variants of one tool into a single tool with a `routerId` argument
+function createTargetedTool(name: string, routers: RouterTarget[], variants: Map<string, StructuredToolInterface>) {
+    const template = variants.values().next().value as StructuredToolInterface;
+    const ids = routers.map(r => r.id);
+    const schema = (template.schema as z.ZodObject<z.ZodRawShape>).extend({
+        routerId: z.string().optional().describe(`Router to use: one of ${ids.map(id => `"${id}"`).join(', ')}. Defaults to "${ids[0]}". Call once per router to compare several.`),
+    });
+
+    return tool(
+        async ({ routerId, ...args }: { routerId?: string } & Record<string, unknown>, config?: LangGraphRunnableConfig) => {
+            const target = routers.find(r => r.id === (routerId || ids[0]));
+            if (!target) {
+                return `Unknown router "${routerId}". Available routers: ${ids.join(', ')}`;
+            }
+
+            const variant = variants.get(target.id);
+            if (!variant) {
+                return `${target.name} (${target.ip}) does not support this action.`;
+            }
+
+            const result = target.audit && isConfirmedWrite(variant, args)
+                ? await invokeAudited(variant, args, target, target.audit, config)
+                : await variant.invoke(args, { writer: config?.writer } as LangGraphRunnableConfig);
+            return routers.length > 1 ? `[${target.name} - ${target.ip}]\n${result}` : result;
+        },
+        { name, description: template.description, schema }
+    );
+}
+
+// Lists the routers the current conversation can target
+function createRouterListTool(routers: RouterTarget[]) {
+    return tool(
+        async () => JSON.stringify(routers.map(r => ({
+            routerId: r.id,
+            name: r.name,
+            ip: r.ip,
+            type: r.adapter.id,
+        })), null, 2),
+        {
+            name: 'listRouters',
+            description: 'List the routers the user is logged in to (id, name, IP, type). Use the id as routerId for other tools, e.g. to check every router when finding which one a device is connected to.',
+            schema: z.object({}),
+        }
+    );
+}
+
+// Factory to create the agent's router tools for one or more routers.
+// Each router tool takes an optional `routerId`; the first router is the default.
+export function createRouterTools(routers: RouterTarget[]) {
+    const variantsByTool = new Map<string, Map<string, StructuredToolInterface>>();
+    for (const router of routers) {
+        for (const routerTool of createAdapterTools(router)) {
+            if (!variantsByTool.has(routerTool.name)) variantsByTool.set(routerTool.name, new Map());
+            variantsByTool.get(routerTool.name)!.set(router.id, routerTool);
+        }
+    }
+
+    const tools: StructuredToolInterface[] = [];
+    for (const [name, variants] of variantsByTool) {
+        tools.push(createTargetedTool(name, routers, variants));
+    }
+
+    if (routers.length > 0) tools.push(createRouterListTool(routers));
+    tools.push(...createDiagnosticTools());
+    return tools;
 }
@@ -1,14 +1,19 @@
 /**
  * Network Diagnostic Utilities
- * Provides ping, DNS lookup, and connectivity checks
+ * Provides ping, DNS lookup, connectivity checks and traceroute
  */
 
 import ping from 'ping';
 import dns from 'dns';
+import { execFile, type ExecFileException } from 'child_process';
 import { promisify } from 'util';
 
 const dnsLookup = promisify(dns.lookup);
 const dnsResolve = promisify(dns.resolve);
+const execFileAsync = promisify(execFile);
+
+// What execFileAsync rejects with: the exit details plus any output printed before it failed
+type ExecFileError = ExecFileException & { stdout?: string };
 
 // ============ PING ============
 
@@ -137,40 +142,269 @@ export async function checkConnectivity(gatewayIp?: string): Promise<Connectivit
     return result;
 }
 
-// ============ TRACEROUTE (simplified) ============
+// ============ TRACEROUTE ============
 
 export interface TracerouteHop {
     hop: number;
-    ip: string;
-    time: string;
+    /** Null when no probe was answered ("* * *") */
+    ip: string | null;
+    /** Reverse DNS name of the hop, if it has one */
+    hostname: string | null;
+    /** Round-trip times of the answered probes, in ms */
+    rtts: number[];
+    min: number | null;
+    avg: number | null;
+    max: number | null;
+    /** Percentage of probes that got no answer */
+    loss: number;
+}
+
+export interface TracerouteResult {
+    host: string;
+    /** Address the trace was sent to */
+    destination: string | null;
+    reached: boolean;
+    hops: TracerouteHop[];
+    /** What produced the hops */
+    method: 'traceroute' | 'tracepath' | 'tracert' | 'ttl-probe';
+    error?: string;
+}
+
+// One probe: who answered (null for a timeout) and how long it took
+interface TraceProbe {
+    ip: string | null;
+    rtt: number | null;
+}
+
+const TRACE_TIMEOUT = 90_000;
+const PROBE_TIMEOUT = 3000;
+const IPV4_REGEX = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+function summarizeHop(hop: number, probes: TraceProbe[]): TracerouteHop {
+    const ip = probes.find(p => p.ip)?.ip ?? null;
+    const rtts = probes.filter(p => p.rtt !== null).map(p => p.rtt as number);
+    const answered = probes.filter(p => p.ip || p.rtt !== null).length;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+        hop,
+        ip,
+        hostname: null,
+        rtts,
+        min: rtts.length ? round(Math.min(...rtts)) : null,
+        avg: rtts.length ? round(rtts.reduce((sum, rtt) => sum + rtt, 0) / rtts.length) : null,
+        max: rtts.length ? round(Math.max(...rtts)) : null,
+        loss: probes.length ? Math.round(((probes.length - answered) / probes.length) * 100) : 100,
+    };
+}
+
+/**
+ * Parse `traceroute` output (Linux and macOS, with or without -n):
+ *   " 3  10.0.0.1  5.123 ms 10.0.0.2  6.0 ms *"
+ *   " 1  router.lan (192.168.1.1)  0.512 ms  0.480 ms  0.470 ms"
+ */
+export function parseTracerouteOutput(output: string): TracerouteHop[] {
+    const hops: TracerouteHop[] = [];
+
+    for (const line of output.split('\n')) {
+        const match = line.match(/^\s*(\d+)\s+(.*)$/);
+        if (!match) continue;
+
+        const probes: TraceProbe[] = [];
+        let ip: string | null = null;
+        const tokens = match[2].trim().split(/\s+/);
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i].replace(/^\((.*)\)$/, '$1');
+            if (token === '*') {
+                probes.push({ ip: null, rtt: null });
+            } else if (IPV4_REGEX.test(token)) {
+                ip = token;
+            } else if (/^[\d.]+$/.test(token) && tokens[i + 1] === 'ms') {
+                probes.push({ ip, rtt: parseFloat(token) });
+                i++;
+            } else if (/^[\d.]+ms$/.test(token)) {
+                probes.push({ ip, rtt: parseFloat(token) });
+            }
+            // Anything else is a hostname or an annotation such as !H, !N, !X
+        }
+        hops.push(summarizeHop(parseInt(match[1], 10), probes));
+    }
+    return hops;
+}
+
+/**
+ * Parse `tracepath -n` output, one line per probe:
+ *   " 1:  192.168.1.1     0.472ms"
+ *   " 2:  no reply"
+ */
+export function parseTracepathOutput(output: string): TracerouteHop[] {
+    const byHop = new Map<number, TraceProbe[]>();
+
+    for (const line of output.split('\n')) {
+        const match = line.match(/^\s*(\d+)\??:\s+(.*)$/);
+        if (!match || match[2].includes('[LOCALHOST]')) continue;
+
+        const hop = parseInt(match[1], 10);
+        const probes = byHop.get(hop) ?? [];
+        const ip = match[2].match(/(\d{1,3}(?:\.\d{1,3}){3})/);
+        const rtt = match[2].match(/([\d.]+)\s*ms/);
+        probes.push(match[2].includes('no reply') || !ip
+            ? { ip: null, rtt: null }
+            : { ip: ip[1], rtt: rtt ? parseFloat(rtt[1]) : null });
+        byHop.set(hop, probes);
+    }
+
+    return Array.from(byHop.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([hop, probes]) => summarizeHop(hop, probes));
 }
 
 /**
- * Simple traceroute to a host (limited hops)
+ * Parse Windows `tracert -d` output:
+ *   "  1    <1 ms    <1 ms    <1 ms  192.168.1.1"
+ *   "  2     *        *        *     Request timed out."
  */
-export async function traceRoute(host: string, maxHops: number = 10): Promise<TracerouteHop[]> {
-    // Note: Full traceroute requires raw sockets which Node.js doesn't support natively
-    // This is a simplified version that just pings the target
+export function parseTracertOutput(output: string): TracerouteHop[] {
     const hops: TracerouteHop[] = [];
 
+    for (const line of output.split('\n')) {
+        const match = line.match(/^\s*(\d+)\s+((?:(?:<?\d+\s*ms|\*)\s+){1,3})(.*)$/);
+        if (!match) continue;
+
+        const ip = match[3].trim().match(/(\d{1,3}(?:\.\d{1,3}){3})/)?.[1] ?? null;
+        const probes = (match[2].match(/<?\d+\s*ms|\*/g) ?? []).map(probe => probe === '*'
+            ? { ip: null, rtt: null }
+            // "<1 ms" is reported as 1 ms
+            : { ip, rtt: parseFloat(probe.replace('<', '')) });
+        hops.push(summarizeHop(parseInt(match[1], 10), probes));
+    }
+    return hops;
+}
+
+/**
+ * Run a trace command; output is kept even when it times out part way
+ * (a partial route is still useful). Null if the command is not installed.
+ */
+async function runTraceCommand(command: string, args: string[]): Promise<string | null> {
     try {
-        const result = await pingHost(host, 1);
-        hops.push({
-            hop: 1,
-            ip: host,
-            time: result.time
-        });
-    } catch {
+        const { stdout } = await execFileAsync(command, args, { timeout: TRACE_TIMEOUT, windowsHide: true });
+        return stdout;
+    } catch (error: unknown) {
+        const { code, stdout } = error as ExecFileError;
+        if (code === 'ENOENT') return null;
+        return typeof stdout === 'string' && stdout.trim() ? stdout : null;
+    }
+}
+
+/**
+ * Who answered a ping sent with a limited TTL: a router on the way
+ * ("Time to live exceeded") or the destination itself
+ */
+async function probeWithTtl(destination: string, ttl: number): Promise<string | null> {
+    const args = process.platform === 'win32'
+        ? ['-n', '1', '-w', String(PROBE_TIMEOUT), '-i', String(ttl), destination]
+        : process.platform === 'darwin'
+            ? ['-n', '-c', '1', '-t', String(PROBE_TIMEOUT / 1000), '-m', String(ttl), destination]
+            : ['-n', '-c', '1', '-W', String(PROBE_TIMEOUT / 1000), '-t', String(ttl), destination];
+    try {
+        const { stdout } = await execFileAsync('ping', args, { timeout: PROBE_TIMEOUT + 2000, windowsHide: true });
+        return stdout.match(/from\s+(\d{1,3}(?:\.\d{1,3}){3})/i)?.[1] ?? null;
+    } catch (error: unknown) {
+        // ping exits non-zero for "Time to live exceeded" on most systems
+        return String((error as ExecFileError).stdout ?? '').match(/from\s+(\d{1,3}(?:\.\d{1,3}){3})/i)?.[1] ?? null;
+    }
+}
+
+/**
+ * Fallback when no trace command is installed. Node cannot read the ICMP
+ * "time exceeded" replies without raw sockets, so hops are found with
+ * TTL-limited echo requests through the system ping, then each hop is
+ * pinged directly for its RTT and loss.
+ */
+async function probeRoute(destination: string, maxHops: number): Promise<TracerouteHop[]> {
+    const hops: TracerouteHop[] = [];
+
+    for (let ttl = 1; ttl <= maxHops; ttl++) {
+        const ip = await probeWithTtl(destination, ttl);
+        if (!ip) {
+            hops.push(summarizeHop(ttl, [{ ip: null, rtt: null }]));
+            continue;
+        }
+
+        const result = await pingHost(ip, 3);
+        const loss = parseFloat(String(result.packetLoss)) || 0;
+        const rtts = [result.min, result.avg, result.max].map(parseFloat).filter(rtt => !isNaN(rtt));
         hops.push({
-            hop: 1,
-            ip: host,
-            time: 'timeout'
+            ...summarizeHop(ttl, [{ ip, rtt: null }]),
+            rtts,
+            min: rtts.length ? Math.min(...rtts) : null,
+            avg: isNaN(parseFloat(result.avg)) ? null : parseFloat(result.avg),
+            max: rtts.length ? Math.max(...rtts) : null,
+            loss: result.alive ? loss : 100,
         });
+        if (ip === destination) break;
     }
-
     return hops;
 }
 
+async function reverseLookup(ip: string): Promise<string | null> {
+    const timeout = new Promise<null>(resolve => setTimeout(() => resolve(null), PROBE_TIMEOUT));
+    const lookup = dns.promises.reverse(ip).then(names => names[0] ?? null).catch(() => null);
+    return Promise.race([lookup, timeout]);
+}
+
+/**
+ * Trace the route to a host: per hop, the router that answered, its reverse
+ * DNS name, min/avg/max RTT and loss. Uses the system traceroute, tracepath
+ * or tracert, falling back to TTL-limited pings.
+ */
+export async function traceRoute(host: string, maxHops: number = 20): Promise<TracerouteResult> {
+    let destination: string | null = null;
+    try {
+        destination = IPV4_REGEX.test(host) ? host : (await dnsLookup(host, { family: 4 })).address;
+    } catch (error: unknown) {
+        return { host, destination: null, reached: false, hops: [], method: 'traceroute', error: `Could not resolve ${host}: ${error instanceof Error ? error.message : error}` };
+    }
+    const hopLimit = String(maxHops);
+
+    // Installed trace commands first, in order of preference
+    const commands: Array<{ method: TracerouteResult['method']; command: string; args: string[]; parse: (output: string) => TracerouteHop[] }> = process.platform === 'win32'
+        ? [{ method: 'tracert', command: 'tracert', args: ['-d', '-h', hopLimit, '-w', '2000', destination], parse: parseTracertOutput }]
+        : [
+            { method: 'traceroute', command: 'traceroute', args: ['-n', '-q', '3', '-w', '2', '-m', hopLimit, destination], parse: parseTracerouteOutput },
+            { method: 'tracepath', command: 'tracepath', args: ['-n', '-m', hopLimit, destination], parse: parseTracepathOutput },
+        ];
+    const attempts = [
+        ...commands.map(({ method, command, args, parse }) => ({
+            method,
+            run: async () => {
+                const output = await runTraceCommand(command, args);
+                return output ? parse(output) : null;
+            },
+        })),
+        { method: 'ttl-probe' as const, run: () => probeRoute(destination!, maxHops) },
+    ];
+
+    for (const attempt of attempts) {
+        try {
+            const hops = await attempt.run();
+            if (!hops || hops.every(hop => !hop.ip)) continue;
+
+            await Promise.all(hops.filter(hop => hop.ip).map(async hop => {
+                hop.hostname = await reverseLookup(hop.ip!);
+            }));
+            return { host, destination, reached: hops.some(hop => hop.ip === destination), hops, method: attempt.method };
+        } catch (error: unknown) {
+            console.error(`[Diagnostics] ${attempt.method} failed:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    return {
+        host, destination, reached: false, hops: [], method: 'ttl-probe',
+        error: 'No hop answered. traceroute/tracepath and ping may be missing, or ICMP is blocked on this network.',
+    };
+}
+
 // ============ PORT CHECK ============
 
 import net from 'net';
@@ -229,39 +463,3 @@ export async function checkPort(host: string, port: number, timeout: number = 30
         socket.connect(port, host);
     });
 }
-
-// ============ SPEED TEST (simplified) ============
-
-export interface SpeedTestResult {
-    downloadSpeed: string;
-    uploadSpeed: string;
-    latency: string;
-    error?: string;
-}
-
-/**
- * Simple speed estimation based on latency to known servers
- * Note: For accurate speed tests, use dedicated APIs or speedtest-net package
- */
-export async function estimateSpeed(): Promise<SpeedTestResult> {
-    try {
-        const pingResult = await pingHost('8.8.8.8', 3);
-
-        // Very rough estimation based on latency
-        // This is NOT an accurate speed test
-        const latencyMs = parseFloat(pingResult.avg) || 50;
-
-        return {
-            downloadSpeed: 'Use speedtest.net for accurate results',
-            uploadSpeed: 'Use speedtest.net for accurate results',
-            latency: `${latencyMs}ms to Google DNS`
-        };
-    } catch (error: any) {
-        return {
-            downloadSpeed: 'N/A',
-            uploadSpeed: 'N/A',
-            latency: 'N/A',
-            error: error.message
-        };
-    }
-}
@@ -0,0 +1,287 @@
+/**
+ * DNS Diagnostics
+ *
+ * Record lookups against a chosen resolver, and a side-by-side comparison
+ * of resolvers (the router's, public ones, this machine's): response time,
+ * whether they answer nonexistent names with an address (NXDOMAIN
+ * hijacking, used by some ISPs to show ad pages), whether they validate
+ * DNSSEC, and which public address their queries leave from (a DNS leak
+ * when it is not the resolver you configured). Servers may carry a port
+ * ("127.0.0.1:5353"), so everything runs against scripts/stub-dns-server.ts.
+ */
+
+import dns from 'dns';
+import dgram from 'dgram';
+import net from 'net';
+import { randomBytes } from 'crypto';
+
+// ============ TYPES ============
+
+export const DNS_RECORD_TYPES = ['A', 'AAAA', 'MX', 'TXT', 'CNAME', 'NS'] as const;
+export type DnsRecordType = typeof DNS_RECORD_TYPES[number];
+
+export interface DnsQueryResult {
+    hostname: string;
+    type: DnsRecordType;
+    /** Resolver address, or "system" for this machine's configured resolvers */
+    server: string;
+    records: string[];
+    /** Null when the query timed out or could not be sent */
+    timeMs: number | null;
+    /** Resolver error code, e.g. ENOTFOUND (NXDOMAIN), ENODATA, ETIMEOUT */
+    error?: string;
+}
+
+export interface ResolverTarget {
+    label: string;
+    /** Address, optionally with a port; "system" for this machine's resolvers */
+    server: string;
+}
+
+export interface ResolverReport extends ResolverTarget {
+    reachable: boolean;
+    /** Test names that resolved */
+    answered: number;
+    tested: number;
+    medianMs: number | null;
+    /** Addresses returned for a name that does not exist (null when not tested) */
+    hijacked: string[] | null;
+    /** Whether the resolver validates DNSSEC (null when unknown) */
+    dnssec: boolean | null;
+    /** Public address the resolver's queries come from */
+    egressIp: string | null;
+}
+
+export interface DnsRecommendation {
+    change: boolean;
+    /** Resolver to switch to, when changing */
+    suggested: ResolverReport | null;
+    reasons: string[];
+}
+
+// ============ LOOKUPS ============
+
+const QUERY_TIMEOUT = 2500;
+// Popular names, likely cached by any busy resolver, so timings reflect the resolver itself
+const TIMING_NAMES = ['google.com', 'wikipedia.org', 'github.com', 'cloudflare.com', 'microsoft.com'];
+// Answers with the public address of the resolver that asked (TXT)
+const EGRESS_NAME = 'o-o.myaddr.l.google.com';
+// Signed zone, and a zone with deliberately broken signatures
+const DNSSEC_SIGNED = 'isc.org';
+const DNSSEC_BROKEN = 'dnssec-failed.org';
+
+export const PUBLIC_RESOLVERS: ResolverTarget[] = [
+    { label: 'Cloudflare', server: '1.1.1.1' },
+    { label: 'Google', server: '8.8.8.8' },
+    { label: 'Quad9', server: '9.9.9.9' },
+];
+
+function createResolver(server: string): dns.promises.Resolver {
+    const resolver = new dns.promises.Resolver({ timeout: QUERY_TIMEOUT, tries: 1 });
+    if (server !== 'system') resolver.setServers([server]);
+    return resolver;
+}
+
+async function resolveRecords(resolver: dns.promises.Resolver, hostname: string, type: DnsRecordType): Promise<string[]> {
+    switch (type) {
+        case 'A': return resolver.resolve4(hostname);
+        case 'AAAA': return resolver.resolve6(hostname);
+        case 'MX': return (await resolver.resolveMx(hostname))
+            .sort((a, b) => a.priority - b.priority)
+            .map(mx => `${mx.priority} ${mx.exchange}`);
+        case 'TXT': return (await resolver.resolveTxt(hostname)).map(chunks => chunks.join(''));
+        case 'CNAME': return resolver.resolveCname(hostname);
+        case 'NS': return resolver.resolveNs(hostname);
+    }
+}
+
+/**
+ * Look up one record type, with the system resolvers or a specific server
+ */
+export async function queryDns(hostname: string, type: DnsRecordType = 'A', server: string = 'system'): Promise<DnsQueryResult> {
+    const result: DnsQueryResult = { hostname, type, server, records: [], timeMs: null };
+    const start = performance.now();
+    try {
+        result.records = await resolveRecords(createResolver(server), hostname, type);
+        result.timeMs = Math.round(performance.now() - start);
+    } catch (error: unknown) {
+        const { code, message } = error as NodeJS.ErrnoException;
+        result.error = code || message;
+        // A negative answer still arrived in time; only a timeout has no timing
+        if (!['ETIMEOUT', 'ECONNREFUSED', 'EINVAL'].includes(result.error!)) {
+            result.timeMs = Math.round(performance.now() - start);
+        }
+    }
+    return result;
+}
+
+// ============ RAW QUERIES ============
+
+// Node's resolver hides the header flags, so DNSSEC checks build the query themselves
+
+/** Split "1.1.1.1", "1.1.1.1:53", "[2606:4700::1111]:53" or a bare IPv6 address */
+export function parseServer(server: string): { host: string; port: number } {
+    const bracketed = server.match(/^\[([^\]]+)\](?::(\d+))?$/);
+    if (bracketed) return { host: bracketed[1], port: parseInt(bracketed[2] || '53', 10) };
+    if (net.isIPv6(server)) return { host: server, port: 53 };
+    const [host, port] = server.split(':');
+    return { host, port: parseInt(port || '53', 10) };
+}
+
+/** Whether a value is a usable server address (routers report "N/A" or "" when unset) */
+export function isDnsServer(value: string): boolean {
+    const { host, port } = parseServer(value);
+    return net.isIP(host) !== 0 && port > 0 && port < 65536;
+}
+
+function buildQuery(id: number, hostname: string, qtype: number): Buffer {
+    const header = Buffer.alloc(12);
+    header.writeUInt16BE(id, 0);
+    header.writeUInt16BE(0x0100, 2);    // recursion desired
+    header.writeUInt16BE(1, 4);         // one question
+    header.writeUInt16BE(1, 10);        // one additional record (OPT)
+
+    const labels = hostname.replace(/\.$/, '').split('.').map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)]));
+    const question = Buffer.alloc(4);
+    question.writeUInt16BE(qtype, 0);
+    question.writeUInt16BE(1, 2);       // class IN
+
+    // EDNS0 OPT record with the DO bit: "send DNSSEC data"
+    const opt = Buffer.from([0, 0, 41, 0x04, 0xd0, 0, 0, 0x80, 0, 0, 0]);
+    return Buffer.concat([header, ...labels, Buffer.from([0]), question, opt]);
+}
+
+/**
+ * Send one A query and read the response code and the AD (authenticated data) flag
+ */
+export async function rawQuery(server: string, hostname: string): Promise<{ rcode: number; authenticated: boolean } | null> {
+    const { host, port } = parseServer(server);
+    const socket = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4');
+    const id = randomBytes(2).readUInt16BE(0);
+
+    return new Promise(resolve => {
+        const finish = (value: { rcode: number; authenticated: boolean } | null) => {
+            clearTimeout(timer);
+            socket.close();
+            resolve(value);
+        };
+        const timer = setTimeout(() => finish(null), QUERY_TIMEOUT);
+
+        socket.on('message', message => {
+            if (message.length < 12 || message.readUInt16BE(0) !== id) return;
+            const flags = message.readUInt16BE(2);
+            finish({ rcode: flags & 0x000f, authenticated: (flags & 0x0020) !== 0 });
+        });
+        socket.on('error', () => finish(null));
+        socket.send(buildQuery(id, hostname, 1), port, host);
+    });
+}
+
+/**
+ * A validating resolver marks signed answers as authenticated and refuses
+ * (SERVFAIL) answers whose signatures don't check out
+ */
+export async function checkDnssec(server: string): Promise<boolean | null> {
+    const [signed, broken] = await Promise.all([rawQuery(server, DNSSEC_SIGNED), rawQuery(server, DNSSEC_BROKEN)]);
+    if (!signed || !broken) return null;
+    return signed.authenticated && broken.rcode === 2;
+}
+
+// ============ COMPARISON ============
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/**
+ * Time, hijack-test, DNSSEC-test and locate one resolver.
+ * A resolver that times out on the first two names is reported unreachable without further tests.
+ */
+export async function testResolver(target: ResolverTarget, testNames: string[] = TIMING_NAMES): Promise<ResolverReport> {
+    const report: ResolverReport = {
+        ...target, reachable: false, answered: 0, tested: testNames.length,
+        medianMs: null, hijacked: null, dnssec: null, egressIp: null,
+    };
+
+    const timings: number[] = [];
+    for (const [i, name] of testNames.entries()) {
+        const result = await queryDns(name, 'A', target.server);
+        if (result.timeMs !== null) timings.push(result.timeMs);
+        if (result.records.length > 0) report.answered++;
+        if (i === 1 && timings.length === 0) return report;
+    }
+    report.reachable = timings.length > 0;
+    report.medianMs = median(timings);
+    if (!report.reachable) return report;
+
+    // A random name under a real TLD cannot exist; any address back is a redirect
+    const nonexistent = `nx-${randomBytes(8).toString('hex')}.com`;
+    const [nx, egress, dnssec] = await Promise.all([
+        queryDns(nonexistent, 'A', target.server),
+        queryDns(EGRESS_NAME, 'TXT', target.server),
+        target.server === 'system' ? Promise.resolve(null) : checkDnssec(target.server),
+    ]);
+    report.hijacked = nx.timeMs === null ? null : nx.records;
+    report.egressIp = egress.records.find(record => net.isIP(record.split(/[\s/]/)[0]))?.split(/[\s/]/)[0] ?? null;
+    report.dnssec = dnssec;
+    return report;
+}
+
+/**
+ * Test several resolvers in parallel
+ */
+export async function compareResolvers(targets: ResolverTarget[], testNames?: string[]): Promise<ResolverReport[]> {
+    return Promise.all(targets.map(target => testResolver(target, testNames)));
+}
+
+// ============ RECOMMENDATION ============
+
+/** Switch for speed only when the other resolver is at least this much faster */
+const SPEED_MARGIN_MS = 20;
+
+/**
+ * Whether the router's resolvers should be replaced, and by which one
+ */
+export function recommendDns(current: ResolverReport[], alternatives: ResolverReport[]): DnsRecommendation {
+    const healthy = (r: ResolverReport) => r.reachable && r.answered === r.tested && !r.hijacked?.length;
+    const best = alternatives
+        .filter(healthy)
+        .sort((a, b) => (a.medianMs ?? Infinity) - (b.medianMs ?? Infinity))[0] ?? null;
+
+    const reasons: string[] = [];
+    if (current.length === 0) {
+        reasons.push('The router did not report its DNS servers.');
+        return { change: false, suggested: best, reasons };
+    }
+
+    const working = current.filter(r => r.reachable);
+    if (working.length === 0) reasons.push('None of the current DNS servers answer.');
+    else if (working.length < current.length) reasons.push(`${current.filter(r => !r.reachable).map(r => r.label).join(', ')} does not answer.`);
+
+    const failing = working.filter(r => r.answered < r.tested);
+    if (failing.length > 0) reasons.push(`${failing.map(r => r.label).join(', ')} failed to resolve some well-known names.`);
+
+    const hijacking = current.filter(r => r.hijacked?.length);
+    if (hijacking.length > 0) {
+        reasons.push(`${hijacking.map(r => r.label).join(', ')} redirects nonexistent names to ${hijacking[0].hijacked!.join(', ')} (NXDOMAIN hijacking): mistyped addresses land on the provider's page and some apps misbehave.`);
+    }
+
+    const fastestCurrent = Math.min(...working.map(r => r.medianMs ?? Infinity));
+    if (best?.medianMs != null && fastestCurrent !== Infinity && fastestCurrent - best.medianMs >= SPEED_MARGIN_MS) {
+        reasons.push(`${best.label} answers in ${best.medianMs} ms, ${fastestCurrent - best.medianMs} ms faster than the current servers (${fastestCurrent} ms).`);
+    }
+
+    if (reasons.length > 0) {
+        if (best?.dnssec && !working.some(r => r.dnssec)) reasons.push(`${best.label} also validates DNSSEC, which protects against forged answers.`);
+        return { change: best !== null, suggested: best, reasons };
+    }
+
+    reasons.push(`The current DNS servers answer correctly${Number.isFinite(fastestCurrent) ? ` in ${fastestCurrent} ms` : ''} and do not hijack unknown names.`);
+    if (best?.dnssec && !working.some(r => r.dnssec)) {
+        reasons.push(`Optional: ${best.label} validates DNSSEC, which the current servers do not.`);
+    }
+    return { change: false, suggested: null, reasons };
+}
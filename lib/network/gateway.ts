@@ -0,0 +1,254 @@
+/**
+ * Default Gateway Discovery
+ *
+ * Reads the real default routes from the OS routing table instead of
+ * guessing "x.x.x.1", and cross-checks each gateway against the ARP cache.
+ */
+
+import { execFile } from 'child_process';
+import { readFile } from 'fs/promises';
+import * as os from 'os';
+import { promisify } from 'util';
+import si from 'systeminformation';
+
+const execFileAsync = promisify(execFile);
+
+const COMMAND_TIMEOUT = 5000;
+
+// ============ TYPES ============
+
+export interface GatewayCandidate {
+    /** Gateway (next hop) IPv4 address */
+    ip: string;
+    /** Interface the default route goes out of (e.g. "eth0", "en0", "Wi-Fi") */
+    iface: string;
+    /** Local IPv4 address on that interface, if known */
+    localIp: string | null;
+    /** Route metric; lower wins. null when the OS does not report one */
+    metric: number | null;
+    /** Whether this is the route the OS currently prefers */
+    primary: boolean;
+    /** MAC address from the ARP cache, if the gateway has been seen */
+    mac: string | null;
+    inArpCache: boolean;
+    /** Where the route was read from */
+    source: 'proc' | 'ip-route' | 'netstat' | 'route-print' | 'systeminformation';
+}
+
+interface DefaultRoute {
+    ip: string;
+    iface: string;
+    metric: number | null;
+    source: GatewayCandidate['source'];
+}
+
+// ============ HELPERS ============
+
+async function run(command: string, args: string[]): Promise<string | null> {
+    try {
+        const { stdout } = await execFileAsync(command, args, { timeout: COMMAND_TIMEOUT, windowsHide: true });
+        return stdout;
+    } catch {
+        return null;
+    }
+}
+
+// /proc/net/route stores addresses as little-endian hex, e.g. "0101A8C0" = 192.168.1.1
+function hexToIp(hex: string): string {
+    const bytes = hex.match(/../g) || [];
+    return bytes.reverse().map(byte => parseInt(byte, 16)).join('.');
+}
+
+function normalizeMac(mac: string): string {
+    return mac.toLowerCase().replace(/-/g, ':');
+}
+
+function isIPv4(value: string): boolean {
+    return /^\d{1,3}(\.\d{1,3}){3}$/.test(value);
+}
+
+function localIpForInterface(iface: string): string | null {
+    const addresses = os.networkInterfaces()[iface] || [];
+    return addresses.find(addr => addr.family === 'IPv4')?.address ?? null;
+}
+
+function interfaceForLocalIp(localIp: string): string {
+    for (const [name, addresses] of Object.entries(os.networkInterfaces())) {
+        if (addresses?.some(addr => addr.address === localIp)) return name;
+    }
+    return localIp;
+}
+
+// ============ ROUTING TABLE READERS ============
+
+/**
+ * Linux: parse /proc/net/route (no external commands needed)
+ */
+async function readProcRoutes(): Promise<DefaultRoute[]> {
+    let content: string;
+    try {
+        content = await readFile('/proc/net/route', 'utf8');
+    } catch {
+        return [];
+    }
+
+    const routes: DefaultRoute[] = [];
+    for (const line of content.trim().split('\n').slice(1)) {
+        const [iface, destination, gateway, flags, , , metric, mask] = line.trim().split(/\s+/);
+        // RTF_UP (0x1) | RTF_GATEWAY (0x2)
+        if (destination !== '00000000' || mask !== '00000000') continue;
+        if ((parseInt(flags, 16) & 0x3) !== 0x3) continue;
+
+        routes.push({ ip: hexToIp(gateway), iface, metric: parseInt(metric, 10), source: 'proc' });
+    }
+    return routes;
+}
+
+/**
+ * Linux without procfs access: `ip -4 route show default`
+ */
+async function readIpRoutes(): Promise<DefaultRoute[]> {
+    const output = await run('ip', ['-4', 'route', 'show', 'default']);
+    if (!output) return [];
+
+    const routes: DefaultRoute[] = [];
+    for (const line of output.split('\n')) {
+        const via = line.match(/\bvia\s+(\S+)/);
+        const dev = line.match(/\bdev\s+(\S+)/);
+        if (!via || !dev || !isIPv4(via[1])) continue;
+
+        const metric = line.match(/\bmetric\s+(\d+)/);
+        routes.push({ ip: via[1], iface: dev[1], metric: metric ? parseInt(metric[1], 10) : 0, source: 'ip-route' });
+    }
+    return routes;
+}
+
+/**
+ * macOS / BSD: `netstat -rn -f inet` (no metrics; the table order is the preference order)
+ */
+async function readNetstatRoutes(): Promise<DefaultRoute[]> {
+    const output = await run('netstat', ['-rn', '-f', 'inet']);
+    if (!output) return [];
+
+    const routes: DefaultRoute[] = [];
+    for (const line of output.split('\n')) {
+        const [destination, gateway, , iface] = line.trim().split(/\s+/);
+        if (destination !== 'default' || !gateway || !isIPv4(gateway)) continue;
+
+        routes.push({ ip: gateway, iface, metric: null, source: 'netstat' });
+    }
+    return routes;
+}
+
+/**
+ * Windows: `route print -4`, which lists the local interface IP rather than its name
+ */
+async function readWindowsRoutes(): Promise<DefaultRoute[]> {
+    const output = await run('route', ['print', '-4']);
+    if (!output) return [];
+
+    const routes: DefaultRoute[] = [];
+    for (const line of output.split('\n')) {
+        const [destination, mask, gateway, localIp, metric] = line.trim().split(/\s+/);
+        // "Persistent Routes" repeat active ones with "Default" as the metric
+        if (destination !== '0.0.0.0' || mask !== '0.0.0.0' || !isIPv4(gateway || '') || !/^\d+$/.test(metric || '')) continue;
+
+        routes.push({ ip: gateway, iface: interfaceForLocalIp(localIp), metric: parseInt(metric, 10), source: 'route-print' });
+    }
+    return routes;
+}
+
+/**
+ * Last resort: systeminformation only knows the single preferred gateway
+ */
+async function readSystemInformationRoute(): Promise<DefaultRoute[]> {
+    try {
+        const [gateway, iface] = await Promise.all([si.networkGatewayDefault(), si.networkInterfaceDefault()]);
+        return gateway && isIPv4(gateway)
+            ? [{ ip: gateway, iface: iface || 'unknown', metric: null, source: 'systeminformation' }]
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+async function readDefaultRoutes(): Promise<DefaultRoute[]> {
+    const readers = process.platform === 'win32'
+        ? [readWindowsRoutes]
+        : process.platform === 'linux'
+            ? [readProcRoutes, readIpRoutes]
+            : [readNetstatRoutes];
+
+    for (const reader of [...readers, readSystemInformationRoute]) {
+        const routes = await reader();
+        if (routes.length > 0) return routes;
+    }
+    return [];
+}
+
+// ============ ARP CACHE ============
+
+/**
+ * Read the ARP cache as a map of IPv4 address -> MAC
+ */
+export async function readArpCache(): Promise<Map<string, string>> {
+    const entries = new Map<string, string>();
+
+    // Linux: /proc/net/arp (flags 0x0 means the entry is incomplete)
+    try {
+        const content = await readFile('/proc/net/arp', 'utf8');
+        for (const line of content.trim().split('\n').slice(1)) {
+            const [ip, , flags, mac] = line.trim().split(/\s+/);
+            if (flags !== '0x0' && mac && mac !== '00:00:00:00:00:00') {
+                entries.set(ip, normalizeMac(mac));
+            }
+        }
+        return entries;
+    } catch {
+        // not Linux, fall through to `arp -a`
+    }
+
+    // macOS: "? (192.168.1.1) at 0:11:22:33:44:55 on en0"  Windows: "192.168.1.1  00-11-22-33-44-55  dynamic"
+    const output = await run('arp', ['-a']);
+    for (const line of (output || '').split('\n')) {
+        const ip = line.match(/\(?(\d{1,3}(?:\.\d{1,3}){3})\)?/);
+        const mac = line.match(/([0-9a-f]{1,2}(?:[:-][0-9a-f]{1,2}){5})/i);
+        if (ip && mac) entries.set(ip[1], normalizeMac(mac[1]));
+    }
+    return entries;
+}
+
+// ============ MAIN ============
+
+/**
+ * List every default gateway on every interface, preferred route first
+ */
+export async function discoverGateways(): Promise<GatewayCandidate[]> {
+    const [routes, arp] = await Promise.all([readDefaultRoutes(), readArpCache()]);
+
+    const seen = new Set<string>();
+    const candidates: GatewayCandidate[] = [];
+    for (const route of routes) {
+        const key = `${route.iface}|${route.ip}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const mac = arp.get(route.ip) ?? null;
+        candidates.push({
+            ip: route.ip,
+            iface: route.iface,
+            localIp: localIpForInterface(route.iface),
+            metric: route.metric,
+            primary: false,
+            mac,
+            inArpCache: !!mac,
+            source: route.source,
+        });
+    }
+
+    // Stable sort keeps table order for routes without a metric (netstat)
+    candidates.sort((a, b) => (a.metric ?? Number.MAX_SAFE_INTEGER) - (b.metric ?? Number.MAX_SAFE_INTEGER));
+    if (candidates.length > 0) candidates[0].primary = true;
+
+    return candidates;
+}
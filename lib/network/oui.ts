@@ -0,0 +1,54 @@
+/**
+ * OUI Vendor Lookup
+ *
+ * Maps a MAC address to its manufacturer using the IEEE OUI registry
+ * shipped with the `oui-data` package, so lookups work offline.
+ * The registry (~5 MB) is loaded on first use and kept in memory.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+// Longest assignments first: MA-S (36-bit), MA-M (28-bit), MA-L (24-bit)
+const PREFIX_LENGTHS = [9, 7, 6];
+
+let registry: Promise<Record<string, string>> | null = null;
+
+function loadRegistry(): Promise<Record<string, string>> {
+    if (!registry) {
+        const file = path.join(process.cwd(), 'node_modules', 'oui-data', 'index.json');
+        registry = readFile(file, 'utf8')
+            .then(content => JSON.parse(content) as Record<string, string>)
+            .catch((error: unknown) => {
+                console.error('[OUI] Failed to load vendor database:', error instanceof Error ? error.message : error);
+                registry = null;
+                return {};
+            });
+    }
+    return registry;
+}
+
+/**
+ * Randomized ("private") MACs set the locally administered bit; they have no vendor
+ */
+export function isRandomizedMac(mac: string): boolean {
+    const firstOctet = parseInt(mac.replace(/[^0-9a-f]/gi, '').slice(0, 2), 16);
+    return !isNaN(firstOctet) && (firstOctet & 0x02) !== 0;
+}
+
+/**
+ * Manufacturer name for a MAC address, e.g. "Apple, Inc.", or null if unknown
+ */
+export async function lookupVendor(mac: string): Promise<string | null> {
+    const hex = mac.replace(/[^0-9a-f]/gi, '').toUpperCase();
+    if (hex.length !== 12) return null;
+    if (isRandomizedMac(hex)) return 'Private (randomized MAC)';
+
+    const vendors = await loadRegistry();
+    for (const length of PREFIX_LENGTHS) {
+        const entry = vendors[hex.slice(0, length)];
+        // Entries are "Name\nAddress lines..."
+        if (entry) return entry.split('\n')[0].trim();
+    }
+    return null;
+}
@@ -0,0 +1,354 @@
+/**
+ * Throughput Test
+ *
+ * Downloads and uploads a configurable payload against an HTTP endpoint
+ * (SPEED_TEST_URL, e.g. scripts/speed-test-server.ts on a LAN machine) and
+ * probes latency before and during each transfer. Latency that climbs while
+ * the line is saturated is bufferbloat, the usual cause of laggy calls and
+ * games on an otherwise fast connection. Results are stored for comparison.
+ *
+ * Endpoint protocol: GET /ping, GET /download?bytes=N, POST /upload.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import http from 'http';
+import https from 'https';
+import { randomBytes, randomUUID } from 'crypto';
+import { prisma } from '@/prisma/prisma';
+import { resolveStoreKind } from '@/lib/router/session-store';
+
+// ============ TYPES ============
+
+export interface LatencyStats {
+    samples: number;
+    /** Milliseconds */
+    min: number;
+    avg: number;
+    max: number;
+    /** Mean difference between consecutive samples */
+    jitter: number;
+}
+
+export interface SpeedTestOptions {
+    /** Endpoint base URL (defaults to SPEED_TEST_URL) */
+    url?: string;
+    downloadBytes?: number;
+    uploadBytes?: number;
+    /** Parallel connections per direction */
+    streams?: number;
+    /** Time limit per direction; a cut-short transfer is measured on what arrived */
+    maxSeconds?: number;
+}
+
+export interface SpeedTestResult {
+    server: string;
+    downloadMbps: number | null;
+    uploadMbps: number | null;
+    downloadBytes: number;
+    uploadBytes: number;
+    idleLatency: LatencyStats | null;
+    /** Latency while the download / upload was running */
+    downloadLatency: LatencyStats | null;
+    uploadLatency: LatencyStats | null;
+    /** Worst increase of loaded over idle latency, in ms */
+    bufferbloatMs: number | null;
+    grade: string | null;
+    error?: string;
+    testedAt: Date;
+}
+
+export interface SpeedTestRecord {
+    id: string;
+    server: string;
+    downloadMbps: number | null;
+    uploadMbps: number | null;
+    latencyMs: number | null;
+    jitterMs: number | null;
+    downloadLatencyMs: number | null;
+    uploadLatencyMs: number | null;
+    bufferbloatMs: number | null;
+    grade: string | null;
+    error: string | null;
+    createdAt: Date;
+}
+
+export interface SpeedTestStore {
+    record(result: SpeedTestResult): Promise<SpeedTestRecord>;
+    /** Newest first, optionally only tests against one endpoint */
+    list(limit: number, server?: string): Promise<SpeedTestRecord[]>;
+}
+
+// ============ MEASUREMENT ============
+
+const IDLE_PROBES = 10;
+const LOADED_PROBE_INTERVAL_MS = 200;
+const PROBE_TIMEOUT_MS = 3000;
+const UPLOAD_CHUNK_BYTES = 256 * 1024;
+
+function envNumber(name: string, fallback: number): number {
+    const value = parseFloat(process.env[name] || '');
+    return value > 0 ? value : fallback;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createClient(baseURL: string, maxSockets?: number): AxiosInstance {
+    return axios.create({
+        baseURL,
+        httpAgent: new http.Agent({ keepAlive: true, maxSockets }),
+        httpsAgent: new https.Agent({ keepAlive: true, maxSockets }),
+        headers: { 'Cache-Control': 'no-store' },
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+    });
+}
+
+/**
+ * Min/avg/max and jitter of a list of round-trip times (null when empty)
+ */
+export function latencyStats(samples: number[]): LatencyStats | null {
+    if (samples.length === 0) return null;
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const jitter = samples.length > 1
+        ? samples.slice(1).reduce((sum, rtt, i) => sum + Math.abs(rtt - samples[i]), 0) / (samples.length - 1)
+        : 0;
+    return {
+        samples: samples.length,
+        min: round(Math.min(...samples)),
+        avg: round(samples.reduce((sum, rtt) => sum + rtt, 0) / samples.length),
+        max: round(Math.max(...samples)),
+        jitter: round(jitter),
+    };
+}
+
+/**
+ * Bufferbloat grade, on the scale most online bufferbloat tests use
+ */
+export function bufferbloatGrade(increaseMs: number): string {
+    if (increaseMs < 5) return 'A+';
+    if (increaseMs < 30) return 'A';
+    if (increaseMs < 60) return 'B';
+    if (increaseMs < 200) return 'C';
+    if (increaseMs < 400) return 'D';
+    return 'F';
+}
+
+/**
+ * Round trip of one small request over an already-open connection (null when it failed)
+ */
+async function probe(client: AxiosInstance): Promise<number | null> {
+    const start = performance.now();
+    try {
+        await client.get('/ping', { params: { t: Date.now() }, timeout: PROBE_TIMEOUT_MS });
+        return performance.now() - start;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Probe repeatedly until `done` resolves, collecting round-trip times
+ */
+async function probeUntil(client: AxiosInstance, done: Promise<unknown>): Promise<number[]> {
+    let finished = false;
+    void done.finally(() => { finished = true; });
+
+    const samples: number[] = [];
+    while (!finished) {
+        const rtt = await probe(client);
+        if (rtt !== null && !finished) samples.push(rtt);
+        await sleep(LOADED_PROBE_INTERVAL_MS);
+    }
+    return samples;
+}
+
+/**
+ * Run transfer workers in parallel under a time limit, returning bytes moved
+ * and elapsed seconds. Workers report progress through `count`.
+ */
+async function timedTransfer(
+    streams: number,
+    maxSeconds: number,
+    worker: (signal: AbortSignal, count: (bytes: number) => void) => Promise<void>
+): Promise<{ bytes: number; seconds: number }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), maxSeconds * 1000);
+    let bytes = 0;
+    const start = performance.now();
+
+    try {
+        await Promise.all(Array.from({ length: streams }, () =>
+            worker(controller.signal, n => { bytes += n; }).catch(error => {
+                if (controller.signal.aborted) return;
+                // One failed connection stops the others
+                controller.abort();
+                throw error;
+            })
+        ));
+    } finally {
+        clearTimeout(timer);
+    }
+
+    return { bytes, seconds: (performance.now() - start) / 1000 };
+}
+
+function download(client: AxiosInstance, totalBytes: number, streams: number, maxSeconds: number) {
+    const perStream = Math.ceil(totalBytes / streams);
+    return timedTransfer(streams, maxSeconds, async (signal, count) => {
+        const response = await client.get('/download', {
+            params: { bytes: perStream, t: Date.now() },
+            responseType: 'stream',
+            signal,
+        });
+        await new Promise<void>((resolve, reject) => {
+            response.data.on('data', (chunk: Buffer) => count(chunk.length));
+            response.data.on('end', resolve);
+            response.data.on('close', resolve);
+            response.data.on('error', (error: Error) => (signal.aborted ? resolve() : reject(error)));
+        });
+    });
+}
+
+function upload(client: AxiosInstance, totalBytes: number, streams: number, maxSeconds: number) {
+    const chunk = randomBytes(Math.min(UPLOAD_CHUNK_BYTES, totalBytes));
+    let remaining = totalBytes;
+    return timedTransfer(streams, maxSeconds, async (signal, count) => {
+        while (remaining > 0 && !signal.aborted) {
+            const body = chunk.subarray(0, Math.min(chunk.length, remaining));
+            remaining -= body.length;
+            await client.post('/upload', body, {
+                headers: { 'Content-Type': 'application/octet-stream' },
+                signal,
+            });
+            count(body.length);
+        }
+    });
+}
+
+const toMbps = (bytes: number, seconds: number) =>
+    seconds > 0 ? Math.round((bytes * 8) / seconds / 10_000) / 100 : 0;
+
+/**
+ * Measure idle latency, then download and upload throughput with latency under load.
+ * Never throws: whatever was measured before a failure is returned with `error` set.
+ */
+export async function runSpeedTest(options: SpeedTestOptions = {}): Promise<SpeedTestResult> {
+    const server = (options.url || process.env.SPEED_TEST_URL || '').trim().replace(/\/+$/, '');
+    const downloadBytes = Math.round(options.downloadBytes ?? envNumber('SPEED_TEST_DOWNLOAD_MB', 25) * 1_000_000);
+    const uploadBytes = Math.round(options.uploadBytes ?? envNumber('SPEED_TEST_UPLOAD_MB', 10) * 1_000_000);
+    const streams = Math.max(1, Math.round(options.streams ?? 4));
+    const maxSeconds = options.maxSeconds ?? envNumber('SPEED_TEST_MAX_SECONDS', 15);
+
+    const result: SpeedTestResult = {
+        server,
+        downloadMbps: null,
+        uploadMbps: null,
+        downloadBytes: 0,
+        uploadBytes: 0,
+        idleLatency: null,
+        downloadLatency: null,
+        uploadLatency: null,
+        bufferbloatMs: null,
+        grade: null,
+        testedAt: new Date(),
+    };
+
+    if (!server) {
+        result.error = 'No speed test endpoint configured. Run scripts/speed-test-server.ts on a LAN machine and set SPEED_TEST_URL.';
+        return result;
+    }
+
+    // Probes get their own connection so they never queue behind the transfers
+    const probes = createClient(server, 1);
+    const transfers = createClient(server);
+
+    try {
+        const idle: number[] = [];
+        for (let i = 0; i < IDLE_PROBES; i++) {
+            const rtt = await probe(probes);
+            if (rtt !== null) idle.push(rtt);
+        }
+        // The first request also opens the connection, so it is not a fair sample
+        result.idleLatency = latencyStats(idle.length > 1 ? idle.slice(1) : idle);
+        if (!result.idleLatency) {
+            throw new Error(`Speed test endpoint ${server} is not reachable`);
+        }
+
+        const downloading = download(transfers, downloadBytes, streams, maxSeconds);
+        const [downloaded, downloadRtts] = await Promise.all([downloading, probeUntil(probes, downloading)]);
+        result.downloadBytes = downloaded.bytes;
+        result.downloadMbps = toMbps(downloaded.bytes, downloaded.seconds);
+        result.downloadLatency = latencyStats(downloadRtts);
+
+        const uploading = upload(transfers, uploadBytes, streams, maxSeconds);
+        const [uploaded, uploadRtts] = await Promise.all([uploading, probeUntil(probes, uploading)]);
+        result.uploadBytes = uploaded.bytes;
+        result.uploadMbps = toMbps(uploaded.bytes, uploaded.seconds);
+        result.uploadLatency = latencyStats(uploadRtts);
+    } catch (error: unknown) {
+        result.error = axios.isAxiosError(error) && error.response
+            ? `${error.message} (${error.config?.url})`
+            : error instanceof Error ? error.message : String(error);
+    }
+
+    const loaded = [result.downloadLatency, result.uploadLatency].filter(l => l !== null).map(l => l.avg);
+    if (result.idleLatency && loaded.length > 0) {
+        result.bufferbloatMs = Math.max(0, Math.round((Math.max(...loaded) - result.idleLatency.avg) * 10) / 10);
+        result.grade = bufferbloatGrade(result.bufferbloatMs);
+    }
+    return result;
+}
+
+// ============ STORES ============
+
+function toRecord(result: SpeedTestResult): Omit<SpeedTestRecord, 'id' | 'createdAt'> {
+    return {
+        server: result.server,
+        downloadMbps: result.downloadMbps,
+        uploadMbps: result.uploadMbps,
+        latencyMs: result.idleLatency?.avg ?? null,
+        jitterMs: result.idleLatency?.jitter ?? null,
+        downloadLatencyMs: result.downloadLatency?.avg ?? null,
+        uploadLatencyMs: result.uploadLatency?.avg ?? null,
+        bufferbloatMs: result.bufferbloatMs,
+        grade: result.grade,
+        error: result.error ?? null,
+    };
+}
+
+class PrismaSpeedTestStore implements SpeedTestStore {
+    async record(result: SpeedTestResult): Promise<SpeedTestRecord> {
+        return prisma.speedTest.create({ data: { ...toRecord(result), createdAt: result.testedAt } });
+    }
+
+    async list(limit: number, server?: string): Promise<SpeedTestRecord[]> {
+        return prisma.speedTest.findMany({
+            where: server ? { server } : {},
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+        });
+    }
+}
+
+class MemorySpeedTestStore implements SpeedTestStore {
+    private records: SpeedTestRecord[] = [];
+
+    async record(result: SpeedTestResult): Promise<SpeedTestRecord> {
+        const record = { id: randomUUID(), ...toRecord(result), createdAt: result.testedAt };
+        this.records.unshift(record);
+        return record;
+    }
+
+    async list(limit: number, server?: string): Promise<SpeedTestRecord[]> {
+        return this.records.filter(r => !server || r.server === server).slice(0, limit);
+    }
+}
+
+const globalForSpeedTests = globalThis as unknown as { speedTestStore?: SpeedTestStore };
+
+export function getSpeedTestStore(): SpeedTestStore {
+    if (!globalForSpeedTests.speedTestStore) {
+        globalForSpeedTests.speedTestStore = resolveStoreKind() === 'memory' ? new MemorySpeedTestStore() : new PrismaSpeedTestStore();
+    }
+    return globalForSpeedTests.speedTestStore;
+}
@@ -0,0 +1,264 @@
+/**
+ * "Internet Is Down" Playbook
+ *
+ * Runs the same layered checks a technician would, bottom layer first:
+ * this machine's interface, the gateway, the router's WAN/PPPoE session,
+ * the DSL line, DNS and finally an external host. The first layer that
+ * fails is the root cause; everything above it fails as a consequence.
+ * The order is fixed so the verdict never depends on what the model
+ * decides to call.
+ */
+
+import * as os from 'os';
+import { hasCapability } from '@/lib/adapters/registry';
+import type { RouterAdapter } from '@/lib/adapters/types';
+import { checkPort, pingHost, resolveDns } from './diagnostics';
+import { discoverGateways } from './gateway';
+
+// ============ TYPES ============
+
+export type PlaybookStepId = 'local' | 'gateway' | 'wan' | 'dsl' | 'dns' | 'external';
+export type PlaybookStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface PlaybookStep {
+    id: PlaybookStepId;
+    title: string;
+    status: PlaybookStatus;
+    /** What was found, in one sentence */
+    detail: string;
+}
+
+export interface PlaybookVerdict {
+    /** The failing layer, 'degraded' when only warnings were found, or 'ok' */
+    cause: PlaybookStepId | 'degraded' | 'ok';
+    summary: string;
+    advice: string;
+}
+
+export interface PlaybookResult {
+    steps: PlaybookStep[];
+    verdict: PlaybookVerdict;
+}
+
+export interface PlaybookOptions {
+    /** Router to read WAN and DSL status from; those steps are skipped without one */
+    adapter?: RouterAdapter;
+    routerIp?: string;
+    /** Called as each step finishes, for live progress */
+    onStep?: (step: PlaybookStep) => void;
+}
+
+// ============ CHECKS ============
+
+const DNS_TEST_HOST = 'google.com';
+const EXTERNAL_HOSTS = ['1.1.1.1', '8.8.8.8'];
+const LOW_SNR_DB = 6;
+
+// Router status strings vary by vendor ("Connected", "Up", "Showtime", ...)
+function isUp(status: string | undefined): boolean {
+    return /^(up|connected|showtime|active|online)/i.test(status?.trim() ?? '');
+}
+
+function hasAddress(ip: string | undefined): boolean {
+    return !!ip && ip !== '0.0.0.0' && /^\d{1,3}(\.\d{1,3}){3}$/.test(ip.trim());
+}
+
+async function checkLocalInterface(): Promise<{ step: PlaybookStep; gatewayIp: string | null }> {
+    const title = 'Local network interface';
+    const addresses = Object.entries(os.networkInterfaces()).flatMap(([iface, entries]) =>
+        (entries ?? []).filter(a => a.family === 'IPv4' && !a.internal).map(a => ({ iface, address: a.address }))
+    );
+    const gateways = await discoverGateways().catch(() => []);
+    const primary = gateways.find(g => g.primary) ?? null;
+
+    if (addresses.length === 0) {
+        return { step: { id: 'local', title, status: 'fail', detail: 'This machine has no IPv4 address on any network interface (cable unplugged or WiFi disconnected).' }, gatewayIp: null };
+    }
+    const usable = addresses.filter(a => !a.address.startsWith('169.254.'));
+    if (usable.length === 0) {
+        return { step: { id: 'local', title, status: 'fail', detail: `Only a self-assigned address (${addresses[0].address} on ${addresses[0].iface}): no DHCP server answered.` }, gatewayIp: null };
+    }
+    if (!primary) {
+        return { step: { id: 'local', title, status: 'fail', detail: `${usable[0].iface} has ${usable[0].address} but there is no default route (no gateway).` }, gatewayIp: null };
+    }
+
+    const local = primary.localIp ?? usable[0].address;
+    return {
+        step: { id: 'local', title, status: 'pass', detail: `${primary.iface} is up with ${local}, default gateway ${primary.ip}.` },
+        gatewayIp: primary.ip,
+    };
+}
+
+async function checkGateway(gatewayIp: string): Promise<PlaybookStep> {
+    const title = 'Gateway ping';
+    const result = await pingHost(gatewayIp, 3);
+    if (result.alive) {
+        const loss = parseFloat(String(result.packetLoss)) || 0;
+        return loss > 0
+            ? { id: 'gateway', title, status: 'warn', detail: `${gatewayIp} replied in ${result.avg} ms but ${loss}% of pings were lost (weak WiFi or a bad cable).` }
+            : { id: 'gateway', title, status: 'pass', detail: `${gatewayIp} replied in ${result.avg} ms with no loss.` };
+    }
+
+    // Some routers drop pings; their web interface answering still proves the link
+    const web = await checkPort(gatewayIp, 80);
+    return web.open
+        ? { id: 'gateway', title, status: 'pass', detail: `${gatewayIp} does not answer ping, but its web interface responds (${web.latency}).` }
+        : { id: 'gateway', title, status: 'fail', detail: `${gatewayIp} does not answer ping or HTTP${result.error ? ` (${result.error})` : ''}.` };
+}
+
+async function checkWan(adapter: RouterAdapter): Promise<PlaybookStep> {
+    const title = 'Router WAN / PPPoE';
+    try {
+        const wan = await adapter.getWanInfo();
+        const pppoe = wan.pppoeStatus?.trim();
+        if (pppoe && !isUp(pppoe)) {
+            return { id: 'wan', title, status: 'fail', detail: `The router's PPPoE session is "${pppoe}"${hasAddress(wan.wanIp) ? '' : ' and it has no WAN IP'}.` };
+        }
+        if (!hasAddress(wan.wanIp)) {
+            return { id: 'wan', title, status: 'fail', detail: 'The router has no WAN IP address from the provider.' };
+        }
+        return { id: 'wan', title, status: 'pass', detail: `WAN IP ${wan.wanIp}${pppoe ? `, PPPoE ${pppoe}` : ''}${wan.gateway ? `, upstream gateway ${wan.gateway}` : ''}.` };
+    } catch (error: unknown) {
+        return { id: 'wan', title, status: 'skip', detail: `Could not read the router's WAN status: ${error instanceof Error ? error.message : error}` };
+    }
+}
+
+async function checkDsl(adapter: RouterAdapter): Promise<PlaybookStep> {
+    const title = 'DSL line';
+    if (!hasCapability(adapter, 'dsl')) {
+        return { id: 'dsl', title, status: 'skip', detail: 'This router has no DSL line.' };
+    }
+    try {
+        const dsl = await adapter.getDslStats();
+        if (!isUp(dsl.linkStatus)) {
+            return { id: 'dsl', title, status: 'fail', detail: `The DSL line is not synchronised (status "${dsl.linkStatus || 'unknown'}").` };
+        }
+        const snr = parseFloat(dsl.snrMarginDown);
+        const rates = `${dsl.lineRateDown} down / ${dsl.lineRateUp} up`;
+        return snr < LOW_SNR_DB
+            ? { id: 'dsl', title, status: 'warn', detail: `Line is up at ${rates}, but the SNR margin is low (${dsl.snrMarginDown}), so it may drop out.` }
+            : { id: 'dsl', title, status: 'pass', detail: `Line is up at ${rates}, SNR margin ${dsl.snrMarginDown}.` };
+    } catch (error: unknown) {
+        return { id: 'dsl', title, status: 'skip', detail: `Could not read the DSL line: ${error instanceof Error ? error.message : error}` };
+    }
+}
+
+async function checkDns(): Promise<PlaybookStep> {
+    const title = 'DNS resolution';
+    const result = await resolveDns(DNS_TEST_HOST);
+    return result.addresses.length > 0
+        ? { id: 'dns', title, status: 'pass', detail: `${DNS_TEST_HOST} resolves to ${result.addresses[0]}.` }
+        : { id: 'dns', title, status: 'fail', detail: `${DNS_TEST_HOST} does not resolve (${result.error || 'no addresses'}).` };
+}
+
+async function checkExternal(): Promise<PlaybookStep> {
+    const title = 'External ping';
+    for (const host of EXTERNAL_HOSTS) {
+        const result = await pingHost(host, 3);
+        if (result.alive) {
+            return { id: 'external', title, status: 'pass', detail: `${host} replied in ${result.avg} ms (${parseFloat(String(result.packetLoss)) || 0}% loss).` };
+        }
+    }
+    return { id: 'external', title, status: 'fail', detail: `No reply from ${EXTERNAL_HOSTS.join(' or ')}.` };
+}
+
+// ============ VERDICT ============
+
+// Bottom layer first: a failure there explains every failure above it.
+// DNS comes after the external ping: names not resolving while pings get
+// through is a DNS problem, both failing is a connection problem.
+const VERDICTS: Array<{ id: PlaybookStepId; summary: string; advice: string }> = [
+    {
+        id: 'local',
+        summary: 'This machine is not connected to the network.',
+        advice: 'Check the cable or WiFi connection of this computer, then run the checks again.',
+    },
+    {
+        id: 'gateway',
+        summary: 'The router cannot be reached from this machine.',
+        advice: 'Check that the router is powered on and that this device is connected to it (cable or WiFi). Restart the router if its lights look wrong.',
+    },
+    {
+        id: 'dsl',
+        summary: 'The DSL line is down: the router has no signal from the provider.',
+        advice: 'Check the phone cable and any splitter/filter between the wall socket and the router. If it still does not sync, the fault is on the line; contact the provider.',
+    },
+    {
+        id: 'wan',
+        summary: 'The router is not connected to the internet provider.',
+        advice: 'Restart the router. If the WAN/PPPoE session still does not come up, check the PPPoE username and password or contact the provider.',
+    },
+    {
+        id: 'external',
+        summary: 'The router is online but traffic is not getting through to the internet.',
+        advice: 'This usually points to an outage at the provider. Restart the router once; if nothing changes, contact the provider.',
+    },
+    {
+        id: 'dns',
+        summary: 'The internet connection works, but domain names do not resolve.',
+        advice: 'Set the DNS servers on the router (or this device) to a public resolver such as 1.1.1.1 or 8.8.8.8.',
+    },
+];
+
+/**
+ * Root cause from the finished steps
+ */
+export function playbookVerdict(steps: PlaybookStep[]): PlaybookVerdict {
+    for (const verdict of VERDICTS) {
+        if (steps.some(step => step.id === verdict.id && step.status === 'fail')) {
+            return { cause: verdict.id, summary: verdict.summary, advice: verdict.advice };
+        }
+    }
+
+    const warning = steps.find(step => step.status === 'warn');
+    if (warning) {
+        return {
+            cause: 'degraded',
+            summary: `The connection works but is degraded: ${warning.detail}`,
+            advice: 'Intermittent drops are likely. Check the reported problem before anything else.',
+        };
+    }
+    return {
+        cause: 'ok',
+        summary: 'Every check passed: the internet connection is working from this network.',
+        advice: 'If one device still has no internet, the problem is on that device (its WiFi connection, DNS or proxy settings).',
+    };
+}
+
+// ============ PLAYBOOK ============
+
+/**
+ * Run every check in order. Router steps are skipped when the router is unreachable.
+ */
+export async function runInternetPlaybook(options: PlaybookOptions = {}): Promise<PlaybookResult> {
+    const { adapter, routerIp, onStep } = options;
+    const steps: PlaybookStep[] = [];
+    const record = (step: PlaybookStep) => {
+        steps.push(step);
+        onStep?.(step);
+        return step;
+    };
+
+    const local = await checkLocalInterface();
+    record(local.step);
+
+    const gatewayIp = local.gatewayIp ?? routerIp;
+    const gateway = local.step.status === 'fail' || !gatewayIp
+        ? record({ id: 'gateway', title: 'Gateway ping', status: 'skip', detail: 'No gateway to test.' })
+        : record(await checkGateway(gatewayIp));
+
+    const routerUnreachable = gateway.status === 'fail' && gatewayIp === routerIp;
+    if (!adapter || routerUnreachable) {
+        const reason = adapter ? 'The router is unreachable.' : 'No router is logged in.';
+        record({ id: 'wan', title: 'Router WAN / PPPoE', status: 'skip', detail: reason });
+        record({ id: 'dsl', title: 'DSL line', status: 'skip', detail: reason });
+    } else {
+        record(await checkWan(adapter));
+        record(await checkDsl(adapter));
+    }
+
+    record(await checkDns());
+    record(await checkExternal());
+
+    return { steps, verdict: playbookVerdict(steps) };
+}
@@ -0,0 +1,317 @@
+/**
+ * WiFi Channel Survey
+ *
+ * Lists the neighbouring networks (from the router's own site survey when
+ * the adapter supports it, otherwise from this machine's `nmcli`/`iw`
+ * scan), scores every channel by how much it overlaps with them, weighted
+ * by signal strength, and recommends the least congested one. Errors and
+ * drops on the router's radio count against the channel it is on now:
+ * they often come from interference a scan cannot see (microwaves,
+ * baby monitors, Bluetooth).
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { hasCapability } from '@/lib/adapters/registry';
+import type { RouterAdapter, WifiNeighbor } from '@/lib/adapters/types';
+
+const execFileAsync = promisify(execFile);
+
+const SCAN_TIMEOUT = 20000;
+
+// ============ TYPES ============
+
+export type WifiBand = '2.4GHz' | '5GHz';
+
+export interface ChannelScore {
+    channel: number;
+    /** Overlapping networks weighted by signal; about 1 per strong co-channel network */
+    score: number;
+    level: 'low' | 'medium' | 'high';
+    /** Networks that overlap this channel */
+    networks: number;
+    /** Strongest overlapping signal, in dBm */
+    strongest: number | null;
+}
+
+export interface ChannelSurvey {
+    /** Where the scan came from: the router's radio, or this machine's */
+    source: 'router' | 'nmcli' | 'iw';
+    band: WifiBand;
+    currentChannel: number | null;
+    autoChannel: boolean;
+    /** Networks heard, excluding the router's own SSID */
+    neighbors: WifiNeighbor[];
+    /** Candidate channels for the band, least congested first */
+    scores: ChannelScore[];
+    /** Share of the radio's packets with errors or drops (null when unknown) */
+    errorRate: number | null;
+    /** Score added to the current channel for those errors */
+    errorPenalty: number;
+    /** Null when staying on the current channel is best */
+    recommended: number | null;
+    reason: string;
+}
+
+// ============ HOST SCAN PARSERS ============
+
+/**
+ * Channel number for a centre frequency in MHz (null outside the WiFi bands)
+ */
+export function frequencyToChannel(mhz: number): number | null {
+    if (mhz === 2484) return 14;
+    if (mhz >= 2412 && mhz <= 2472) return (mhz - 2407) / 5;
+    if (mhz >= 5160 && mhz <= 5885) return (mhz - 5000) / 5;
+    if (mhz >= 5955 && mhz <= 7115) return (mhz - 5950) / 5;
+    return null;
+}
+
+/**
+ * Parse `nmcli -t -f SSID,BSSID,CHAN,SIGNAL,SECURITY device wifi list`.
+ * Terse mode escapes colons inside values ("A4\:2B\:..."); SIGNAL is a
+ * 0-100 quality, converted back to dBm the way NetworkManager derives it.
+ */
+export function parseNmcliScan(output: string): WifiNeighbor[] {
+    const neighbors: WifiNeighbor[] = [];
+    for (const line of output.split('\n')) {
+        if (!line.trim()) continue;
+        const fields = line.split(/(?<!\\):/).map(field => field.replace(/\\(.)/g, '$1'));
+        if (fields.length < 4) continue;
+
+        const [ssid, bssid, chan, signal, security = ''] = fields;
+        const channel = parseInt(chan, 10);
+        const quality = parseInt(signal, 10);
+        if (!channel || isNaN(quality)) continue;
+
+        neighbors.push({
+            ssid,
+            bssid: bssid.toUpperCase(),
+            channel,
+            signal: Math.round(quality / 2 - 100),
+            security: security.trim() || 'Open',
+        });
+    }
+    return neighbors;
+}
+
+/**
+ * Parse `iw dev <iface> scan` (or `scan dump`) output: one "BSS <mac>" block per network
+ */
+export function parseIwScan(output: string): WifiNeighbor[] {
+    const neighbors: WifiNeighbor[] = [];
+    const blocks = output.split(/^BSS (?=[0-9a-f]{2}(?::[0-9a-f]{2}){5})/im).slice(1);
+
+    for (const block of blocks) {
+        const bssid = block.slice(0, 17).toUpperCase();
+        const freq = block.match(/^\s*freq:\s*([\d.]+)/m);
+        const signal = block.match(/^\s*signal:\s*(-?[\d.]+)\s*dBm/m);
+        const primary = block.match(/primary channel:\s*(\d+)/) ?? block.match(/DS Parameter set:\s*channel\s*(\d+)/);
+        const channel = primary ? parseInt(primary[1], 10) : freq ? frequencyToChannel(Math.round(parseFloat(freq[1]))) : null;
+        if (!channel || !signal) continue;
+
+        const ssid = block.match(/^\s*SSID:[ \t]?(.*)$/m)?.[1].trim() ?? '';
+        const rsn = /^\s*RSN:/m.test(block);
+        const security = rsn
+            ? (/Authentication suites:.*\bSAE\b/.test(block) ? 'WPA3' : 'WPA2')
+            : /^\s*WPA:/m.test(block)
+                ? 'WPA'
+                : /capability:.*\bPrivacy\b/.test(block) ? 'WEP' : 'Open';
+
+        neighbors.push({ ssid, bssid, channel, signal: Math.round(parseFloat(signal[1])), security });
+    }
+    return neighbors;
+}
+
+async function run(command: string, args: string[]): Promise<string | null> {
+    try {
+        const { stdout } = await execFileAsync(command, args, { timeout: SCAN_TIMEOUT, windowsHide: true, maxBuffer: 4 * 1024 * 1024 });
+        return stdout;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Scan from this machine's WiFi adapter: nmcli first, then iw (a live scan needs root; the cached dump does not)
+ */
+export async function scanFromHost(): Promise<{ source: 'nmcli' | 'iw'; neighbors: WifiNeighbor[] } | null> {
+    const nmcli = await run('nmcli', ['-t', '-f', 'SSID,BSSID,CHAN,SIGNAL,SECURITY', 'device', 'wifi', 'list']);
+    if (nmcli !== null) {
+        return { source: 'nmcli', neighbors: parseNmcliScan(nmcli) };
+    }
+
+    const devices = await run('iw', ['dev']);
+    const iface = devices?.match(/Interface\s+(\S+)/)?.[1];
+    if (!iface) return null;
+
+    const scan = await run('iw', ['dev', iface, 'scan']) ?? await run('iw', ['dev', iface, 'scan', 'dump']);
+    return scan === null ? null : { source: 'iw', neighbors: parseIwScan(scan) };
+}
+
+// ============ SCORING ============
+
+// Non-overlapping 2.4 GHz channels; the others straddle two of them
+const CHANNELS_24 = [1, 6, 11];
+// Non-DFS 5 GHz channels, usable without radar detection in most regions
+const CHANNELS_5 = [36, 40, 44, 48, 149, 153, 157, 161, 165];
+
+/** Switch only when the best channel is this much quieter (about one strong network) */
+const SWITCH_MARGIN = 1;
+
+export function bandOf(channel: number): WifiBand {
+    return channel <= 14 ? '2.4GHz' : '5GHz';
+}
+
+// -45 dBm or stronger counts fully, -70 dBm half, barely audible networks hardly at all
+function signalWeight(dBm: number): number {
+    return Math.min(1, Math.max(0.05, (dBm + 95) / 50));
+}
+
+// 2.4 GHz channels are 5 MHz apart but 20 MHz wide: neighbours up to 4 channels away overlap.
+// 5 GHz channels don't overlap at 20 MHz.
+function overlap(a: number, b: number): number {
+    if (bandOf(a) !== bandOf(b)) return 0;
+    if (bandOf(a) === '5GHz') return a === b ? 1 : 0;
+    return Math.max(0, 1 - Math.abs(a - b) / 5);
+}
+
+/**
+ * Congestion score of each channel from the networks heard
+ */
+export function scoreChannels(neighbors: WifiNeighbor[], channels: number[]): ChannelScore[] {
+    return channels.map(channel => {
+        let score = 0;
+        let networks = 0;
+        let strongest: number | null = null;
+        for (const network of neighbors) {
+            const factor = overlap(channel, network.channel);
+            if (factor === 0) continue;
+            score += factor * signalWeight(network.signal);
+            networks++;
+            strongest = strongest === null ? network.signal : Math.max(strongest, network.signal);
+        }
+        score = Math.round(score * 10) / 10;
+        return { channel, score, level: score < 1 ? 'low' : score < 2.5 ? 'medium' : 'high', networks, strongest };
+    });
+}
+
+/**
+ * Extra score for the current channel from radio errors and drops: each 2% of packets counts as one strong network, up to 3
+ */
+export function errorPenalty(errorRate: number | null): number {
+    if (errorRate === null || errorRate < 0.01) return 0;
+    return Math.round(Math.min(3, errorRate * 50) * 10) / 10;
+}
+
+/**
+ * Score the candidate channels of a band and pick one
+ */
+export function recommendChannel(
+    neighbors: WifiNeighbor[],
+    band: WifiBand,
+    currentChannel: number | null,
+    errorRate: number | null = null
+): Pick<ChannelSurvey, 'scores' | 'errorPenalty' | 'recommended' | 'reason'> {
+    const candidates = band === '2.4GHz' ? CHANNELS_24 : CHANNELS_5;
+    const channels = currentChannel !== null && !candidates.includes(currentChannel)
+        ? [...candidates, currentChannel]
+        : candidates;
+
+    const penalty = errorPenalty(errorRate);
+    const scores = scoreChannels(neighbors, channels).map(score => score.channel === currentChannel && penalty > 0
+        ? { ...score, score: Math.round((score.score + penalty) * 10) / 10 }
+        : score);
+    // Least congested first; ties go to the current channel, then the lower one
+    scores.sort((a, b) => a.score - b.score || Number(b.channel === currentChannel) - Number(a.channel === currentChannel) || a.channel - b.channel);
+
+    const best = scores.find(score => candidates.includes(score.channel))!;
+    const current = scores.find(score => score.channel === currentChannel);
+
+    if (!current) {
+        return { scores, errorPenalty: penalty, recommended: best.channel, reason: `Channel ${best.channel} is the least congested.` };
+    }
+    if (best.channel === current.channel) {
+        return { scores, errorPenalty: penalty, recommended: null, reason: `Channel ${current.channel} is already the least congested.` };
+    }
+    if (!candidates.includes(current.channel)) {
+        return {
+            scores, errorPenalty: penalty, recommended: best.channel,
+            reason: `Channel ${current.channel} overlaps the channels on both sides; ${best.channel} is the least congested non-overlapping channel.`,
+        };
+    }
+    if (current.score - best.score < SWITCH_MARGIN) {
+        return {
+            scores, errorPenalty: penalty, recommended: null,
+            reason: `Channel ${best.channel} is only slightly quieter than ${current.channel}; switching is not worth disconnecting devices.`,
+        };
+    }
+    return {
+        scores, errorPenalty: penalty, recommended: best.channel,
+        reason: `Channel ${best.channel} is much less congested (score ${best.score} vs ${current.score} on channel ${current.channel}).`,
+    };
+}
+
+// ============ SURVEY ============
+
+// Channel the radio is on: the live status first, then the configured one (null when unknown)
+function currentChannelOf(status: { channel: string }, settings: { channel: string }): number | null {
+    return parseInt(status.channel, 10) || parseInt(settings.channel, 10) || null;
+}
+
+/**
+ * Band of the router's radio, the one a survey covers
+ */
+export async function currentWifiBand(adapter: RouterAdapter): Promise<WifiBand> {
+    const [status, settings] = await Promise.all([adapter.getWifiStatus(), adapter.getWirelessSettings()]);
+    return bandOf(currentChannelOf(status, settings) ?? 1);
+}
+
+/**
+ * Scan, score and recommend for the router's current band
+ */
+export async function surveyWifiChannels(adapter: RouterAdapter): Promise<ChannelSurvey> {
+    const [status, settings] = await Promise.all([adapter.getWifiStatus(), adapter.getWirelessSettings()]);
+    const currentChannel = currentChannelOf(status, settings);
+    const autoChannel = !parseInt(settings.channel, 10);
+
+    // The router hears what its clients compete with; this machine's scan is the fallback
+    let scan: { source: ChannelSurvey['source']; neighbors: WifiNeighbor[] } | null = null;
+    if (hasCapability(adapter, 'siteSurvey')) {
+        try {
+            scan = { source: 'router', neighbors: await adapter.scanWifiNetworks() };
+        } catch (error: unknown) {
+            console.error('[WiFi Survey] Router scan failed, trying this machine:', error instanceof Error ? error.message : error);
+        }
+    }
+    scan ??= await scanFromHost();
+    if (!scan) {
+        throw new Error('No WiFi scan available: the router has no site survey and this machine has no nmcli or iw (or no WiFi adapter)');
+    }
+
+    let errorRate: number | null = null;
+    if (hasCapability(adapter, 'trafficStats')) {
+        try {
+            const wlan = await adapter.getWlanStats();
+            const packets = wlan.packetsSent + wlan.packetsReceived;
+            errorRate = packets > 0 ? (wlan.errors + wlan.dropped) / packets : null;
+        } catch {
+            // Scored on the scan alone
+        }
+    }
+
+    const ownSsid = (status.ssid && status.ssid !== 'N/A' ? status.ssid : settings.ssid)?.trim();
+    const neighbors = scan.neighbors
+        .filter(network => !ownSsid || network.ssid !== ownSsid)
+        .sort((a, b) => b.signal - a.signal);
+    const band = bandOf(currentChannel ?? 1);
+
+    return {
+        source: scan.source,
+        band,
+        currentChannel,
+        autoChannel,
+        neighbors,
+        errorRate,
+        ...recommendChannel(neighbors, band, currentChannel, errorRate),
+    };
+}
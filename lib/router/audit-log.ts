@@ -0,0 +1,223 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of every router change made through the assistant:
+ * which router and session, the tool and its (redacted) arguments, the
+ * settings before and after, the result, and the chat message behind it.
+ * Routers are shared across a team, so each change must be traceable.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { prisma } from '@/prisma/prisma';
+import { resolveStoreKind } from './session-store';
+import type { SetterResult } from '@/lib/adapters/types';
+
+// ============ TYPES ============
+
+export type AuditOutcome = 'success' | 'unconfirmed' | 'failed';
+
+/** Who made a change and from where; fixed for one chat request */
+export interface AuditContext {
+    routerIp: string;
+    routerName?: string;
+    /** Router session id, e.g. "upstairs-ap" */
+    routerId?: string;
+    /** Hashed client session (see `hashSessionId`) */
+    sessionId?: string | null;
+    /** Router login used for the change, if known */
+    user?: string | null;
+    conversationId?: string | null;
+    /** Stored user message that asked for the change */
+    messageId?: string | null;
+}
+
+export interface AuditRecord {
+    toolName: string;
+    args: Record<string, unknown>;
+    before?: unknown;
+    after?: unknown;
+    outcome: AuditOutcome;
+    result: string;
+}
+
+export interface AuditEntry extends AuditRecord {
+    id: string;
+    routerIp: string;
+    routerName: string | null;
+    routerId: string | null;
+    sessionId: string | null;
+    user: string | null;
+    conversationId: string | null;
+    messageId: string | null;
+    createdAt: Date;
+}
+
+export interface AuditFilter {
+    routerIps: string[];
+    toolName?: string;
+    outcome?: AuditOutcome;
+    user?: string;
+    conversationId?: string;
+    since?: Date;
+    until?: Date;
+    limit?: number;
+}
+
+/** Entries can be added and read, never changed */
+export interface AuditStore {
+    append(entry: AuditRecord & AuditContext): Promise<AuditEntry>;
+    /** Newest first */
+    list(filter: AuditFilter): Promise<AuditEntry[]>;
+}
+
+// ============ HELPERS ============
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Copy of a value with secrets (passwords, keys, tokens) replaced
+ */
+export function redactSecrets(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(redactSecrets);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+            [key, /password|secret|key|token/i.test(key) && item !== undefined ? REDACTED : redactSecrets(item)]
+        ));
+    }
+    return value;
+}
+
+/**
+ * Stable, non-reversible reference to a client session:
+ * entries from one browser can be grouped without storing its cookie
+ */
+export function hashSessionId(clientSessionId: string | null): string | null {
+    return clientSessionId ? createHash('sha256').update(clientSessionId).digest('hex').slice(0, 16) : null;
+}
+
+/**
+ * Outcome of an adapter write, from its result and read-back
+ */
+export function setterOutcome(result: SetterResult): AuditOutcome {
+    if (!result.success) return 'failed';
+    return result.verification?.some(check => check.status === 'unverified') ? 'unconfirmed' : 'success';
+}
+
+// ============ STORES ============
+
+type AuditRow = Omit<AuditEntry, 'args' | 'outcome'> & { args: unknown; outcome: string };
+
+function toEntry(row: AuditRow): AuditEntry {
+    return { ...row, args: row.args as Record<string, unknown>, outcome: row.outcome as AuditOutcome };
+}
+
+class PrismaAuditStore implements AuditStore {
+    async append(entry: AuditRecord & AuditContext): Promise<AuditEntry> {
+        const row = await prisma.auditEntry.create({
+            data: {
+                routerIp: entry.routerIp,
+                routerName: entry.routerName ?? null,
+                routerId: entry.routerId ?? null,
+                sessionId: entry.sessionId ?? null,
+                user: entry.user ?? null,
+                toolName: entry.toolName,
+                args: entry.args as object,
+                before: entry.before === undefined ? undefined : entry.before as object,
+                after: entry.after === undefined ? undefined : entry.after as object,
+                outcome: entry.outcome,
+                result: entry.result,
+                conversationId: entry.conversationId ?? null,
+                messageId: entry.messageId ?? null,
+            },
+        });
+        return toEntry(row);
+    }
+
+    async list(filter: AuditFilter): Promise<AuditEntry[]> {
+        const rows = await prisma.auditEntry.findMany({
+            where: {
+                routerIp: { in: filter.routerIps },
+                ...(filter.toolName ? { toolName: filter.toolName } : {}),
+                ...(filter.outcome ? { outcome: filter.outcome } : {}),
+                ...(filter.user ? { user: filter.user } : {}),
+                ...(filter.conversationId ? { conversationId: filter.conversationId } : {}),
+                ...(filter.since || filter.until
+                    ? { createdAt: { ...(filter.since ? { gte: filter.since } : {}), ...(filter.until ? { lte: filter.until } : {}) } }
+                    : {}),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: filter.limit ?? 100,
+        });
+        return rows.map(toEntry);
+    }
+}
+
+class MemoryAuditStore implements AuditStore {
+    private entries: AuditEntry[] = [];
+
+    async append(entry: AuditRecord & AuditContext): Promise<AuditEntry> {
+        const saved: AuditEntry = {
+            id: randomUUID(),
+            routerIp: entry.routerIp,
+            routerName: entry.routerName ?? null,
+            routerId: entry.routerId ?? null,
+            sessionId: entry.sessionId ?? null,
+            user: entry.user ?? null,
+            toolName: entry.toolName,
+            args: structuredClone(entry.args),
+            before: structuredClone(entry.before),
+            after: structuredClone(entry.after),
+            outcome: entry.outcome,
+            result: entry.result,
+            conversationId: entry.conversationId ?? null,
+            messageId: entry.messageId ?? null,
+            createdAt: new Date(),
+        };
+        this.entries.push(saved);
+        return saved;
+    }
+
+    async list(filter: AuditFilter): Promise<AuditEntry[]> {
+        return this.entries
+            .filter(e => filter.routerIps.includes(e.routerIp))
+            .filter(e => !filter.toolName || e.toolName === filter.toolName)
+            .filter(e => !filter.outcome || e.outcome === filter.outcome)
+            .filter(e => !filter.user || e.user === filter.user)
+            .filter(e => !filter.conversationId || e.conversationId === filter.conversationId)
+            .filter(e => !filter.since || e.createdAt >= filter.since)
+            .filter(e => !filter.until || e.createdAt <= filter.until)
+            .reverse()
+            .slice(0, filter.limit ?? 100);
+    }
+}
+
+const globalForAudit = globalThis as unknown as { auditStore?: AuditStore };
+
+export function getAuditStore(): AuditStore {
+    if (!globalForAudit.auditStore) {
+        globalForAudit.auditStore = resolveStoreKind() === 'memory' ? new MemoryAuditStore() : new PrismaAuditStore();
+    }
+    return globalForAudit.auditStore;
+}
+
+// ============ RECORDING ============
+
+/**
+ * Append an entry for a change. Arguments and settings are redacted here,
+ * so callers can pass them as-is. Failures are logged, never thrown:
+ * the change itself has already happened.
+ */
+export async function recordAudit(context: AuditContext, record: AuditRecord): Promise<void> {
+    try {
+        const entry = await getAuditStore().append({
+            ...context,
+            ...record,
+            args: redactSecrets(record.args) as Record<string, unknown>,
+            before: redactSecrets(record.before),
+            after: redactSecrets(record.after),
+        });
+        console.log(`[Audit] ${entry.toolName} on ${entry.routerIp}: ${entry.outcome}`);
+    } catch (error: unknown) {
+        console.error('[Audit] Failed to record entry:', error instanceof Error ? error.message : error);
+    }
+}
@@ -0,0 +1,193 @@
+/**
+ * Configuration Snapshots
+ *
+ * Adapters report the settings a write is about to change (read through the
+ * matching getter) before every configuration write. Snapshots are stored
+ * with who made the change and the chat message that asked for it, and can
+ * be reverted from the API or the chat.
+ */
+
+import { randomUUID } from 'crypto';
+import { prisma } from '@/prisma/prisma';
+import { hasCapability } from '@/lib/adapters/registry';
+import { resolveStoreKind } from './session-store';
+import type { ConfigArea, ConfigSnapshotData, RouterAdapter, SetterResult, SnapshotHandler } from '@/lib/adapters/types';
+
+// ============ TYPES ============
+
+/** Who and what triggered a write */
+export interface SnapshotContext {
+    routerIp: string;
+    routerName?: string;
+    /** Router login used for the change, if known */
+    user?: string | null;
+    /** Chat message that asked for the change */
+    chatMessage?: string | null;
+    conversationId?: string | null;
+}
+
+export interface ConfigSnapshot extends ConfigSnapshotData {
+    id: string;
+    routerIp: string;
+    routerName: string | null;
+    user: string | null;
+    chatMessage: string | null;
+    conversationId: string | null;
+    createdAt: Date;
+    revertedAt: Date | null;
+}
+
+export interface SnapshotStore {
+    save(snapshot: ConfigSnapshotData & SnapshotContext): Promise<ConfigSnapshot>;
+    get(id: string): Promise<ConfigSnapshot | null>;
+    /** Newest first */
+    list(filter: { routerIps: string[]; limit?: number }): Promise<ConfigSnapshot[]>;
+    markReverted(id: string): Promise<void>;
+}
+
+// ============ STORES ============
+
+type SnapshotRow = Omit<ConfigSnapshot, 'area' | 'args'> & { area: string; args: unknown };
+
+function toSnapshot(row: SnapshotRow): ConfigSnapshot {
+    return { ...row, area: row.area as ConfigArea, args: row.args as Record<string, unknown> };
+}
+
+class PrismaSnapshotStore implements SnapshotStore {
+    async save(snapshot: ConfigSnapshotData & SnapshotContext): Promise<ConfigSnapshot> {
+        const row = await prisma.configSnapshot.create({
+            data: {
+                routerIp: snapshot.routerIp,
+                routerName: snapshot.routerName ?? null,
+                area: snapshot.area,
+                operation: snapshot.operation,
+                args: snapshot.args as object,
+                before: snapshot.before as object,
+                user: snapshot.user ?? null,
+                chatMessage: snapshot.chatMessage ?? null,
+                conversationId: snapshot.conversationId ?? null,
+            },
+        });
+        return toSnapshot(row);
+    }
+
+    async get(id: string): Promise<ConfigSnapshot | null> {
+        const row = await prisma.configSnapshot.findUnique({ where: { id } });
+        return row ? toSnapshot(row) : null;
+    }
+
+    async list(filter: { routerIps: string[]; limit?: number }): Promise<ConfigSnapshot[]> {
+        const rows = await prisma.configSnapshot.findMany({
+            where: { routerIp: { in: filter.routerIps } },
+            orderBy: { createdAt: 'desc' },
+            take: filter.limit ?? 50,
+        });
+        return rows.map(toSnapshot);
+    }
+
+    async markReverted(id: string): Promise<void> {
+        await prisma.configSnapshot.update({ where: { id }, data: { revertedAt: new Date() } });
+    }
+}
+
+class MemorySnapshotStore implements SnapshotStore {
+    private snapshots: ConfigSnapshot[] = [];
+
+    async save(snapshot: ConfigSnapshotData & SnapshotContext): Promise<ConfigSnapshot> {
+        const saved: ConfigSnapshot = {
+            id: randomUUID(),
+            area: snapshot.area,
+            operation: snapshot.operation,
+            args: snapshot.args,
+            before: structuredClone(snapshot.before),
+            routerIp: snapshot.routerIp,
+            routerName: snapshot.routerName ?? null,
+            user: snapshot.user ?? null,
+            chatMessage: snapshot.chatMessage ?? null,
+            conversationId: snapshot.conversationId ?? null,
+            createdAt: new Date(),
+            revertedAt: null,
+        };
+        this.snapshots.push(saved);
+        return saved;
+    }
+
+    async get(id: string): Promise<ConfigSnapshot | null> {
+        return this.snapshots.find(s => s.id === id) ?? null;
+    }
+
+    async list(filter: { routerIps: string[]; limit?: number }): Promise<ConfigSnapshot[]> {
+        return this.snapshots
+            .filter(s => filter.routerIps.includes(s.routerIp))
+            .reverse()
+            .slice(0, filter.limit ?? 50);
+    }
+
+    async markReverted(id: string): Promise<void> {
+        const snapshot = this.snapshots.find(s => s.id === id);
+        if (snapshot) snapshot.revertedAt = new Date();
+    }
+}
+
+const globalForSnapshots = globalThis as unknown as { configSnapshotStore?: SnapshotStore };
+
+export function getSnapshotStore(): SnapshotStore {
+    if (!globalForSnapshots.configSnapshotStore) {
+        globalForSnapshots.configSnapshotStore = resolveStoreKind() === 'memory' ? new MemorySnapshotStore() : new PrismaSnapshotStore();
+    }
+    return globalForSnapshots.configSnapshotStore;
+}
+
+// ============ RECORDING ============
+
+/**
+ * Snapshot handler for an adapter's `onBeforeWrite` option.
+ * A failure to store the snapshot is logged but does not block the write.
+ */
+export function createSnapshotRecorder(context: SnapshotContext): SnapshotHandler {
+    return async (snapshot) => {
+        try {
+            const saved = await getSnapshotStore().save({ ...snapshot, ...context });
+            console.log(`[Snapshots] Saved ${saved.area} snapshot ${saved.id} before ${saved.operation} on ${context.routerIp}`);
+        } catch (error: unknown) {
+            console.error('[Snapshots] Failed to save snapshot:', error instanceof Error ? error.message : error);
+        }
+    };
+}
+
+/**
+ * One-line description of a change, e.g. "setWifiSettings (channel: 6)"
+ */
+export function describeSnapshot(snapshot: ConfigSnapshot): string {
+    const args = Object.entries(snapshot.args)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join(', ');
+    return args ? `${snapshot.operation} (${args})` : snapshot.operation;
+}
+
+// ============ REVERTING ============
+
+/**
+ * Put back the settings captured in a snapshot, using an adapter for the same router
+ */
+export async function revertSnapshot(snapshotId: string, adapter: RouterAdapter, routerIp: string): Promise<SetterResult> {
+    const store = getSnapshotStore();
+    const snapshot = await store.get(snapshotId);
+
+    if (!snapshot || snapshot.routerIp !== routerIp) {
+        return { success: false, message: 'Change not found for this router' };
+    }
+    if (snapshot.revertedAt) {
+        return { success: false, message: `This change was already reverted on ${snapshot.revertedAt.toLocaleString()}` };
+    }
+    if (!hasCapability(adapter, 'rollback')) {
+        return { success: false, message: 'This router does not support reverting changes' };
+    }
+
+    const result = await adapter.restoreSnapshot(snapshot);
+    if (result.success) {
+        await store.markReverted(snapshot.id);
+    }
+    return result;
+}
@@ -0,0 +1,69 @@
+/**
+ * Router Credential Vault
+ *
+ * Opt-in storage of router credentials for automatic re-login.
+ * Credentials are encrypted with AES-256-GCM using ROUTER_CREDENTIALS_KEY
+ * and are only ever decrypted server-side.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+export interface StoredCredentials {
+    username: string;
+    password: string;
+}
+
+function getKey(): Buffer | null {
+    const secret = process.env.ROUTER_CREDENTIALS_KEY;
+    if (!secret) return null;
+    // Accept any passphrase; derive a fixed-length key from it
+    return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Whether credentials can be stored (an encryption key is configured)
+ */
+export function isCredentialStorageEnabled(): boolean {
+    return getKey() !== null;
+}
+
+/**
+ * Encrypt credentials to an opaque string ("v1:iv:tag:ciphertext", base64 parts)
+ */
+export function encryptCredentials(credentials: StoredCredentials): string {
+    const key = getKey();
+    if (!key) {
+        throw new Error('ROUTER_CREDENTIALS_KEY is not set');
+    }
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [FORMAT_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt credentials. Returns null if the key is missing or has changed.
+ */
+export function decryptCredentials(encrypted: string): StoredCredentials | null {
+    const key = getKey();
+    const [version, iv, tag, ciphertext] = encrypted.split(':');
+    if (!key || version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+        return null;
+    }
+
+    try {
+        const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(tag, 'base64'));
+        const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+        return JSON.parse(plaintext.toString('utf8')) as StoredCredentials;
+    } catch (error: unknown) {
+        console.error('[Credential Vault] Failed to decrypt credentials:', error instanceof Error ? error.message : error);
+        return null;
+    }
+}
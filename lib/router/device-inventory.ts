@@ -0,0 +1,253 @@
+/**
+ * Device Inventory
+ *
+ * Every device seen on a router's network, merged from the DHCP leases, the
+ * ARP table and the WiFi client list, with its vendor (from the offline OUI
+ * registry), first/last seen times, and the nickname and owner users give it
+ * ("Dad's phone"). Devices can then be referred to by nickname instead of MAC.
+ */
+
+import { randomUUID } from 'crypto';
+import { prisma } from '@/prisma/prisma';
+import { hasCapability } from '@/lib/adapters/registry';
+import type { RouterAdapter } from '@/lib/adapters/types';
+import { lookupVendor } from '@/lib/network/oui';
+import { resolveStoreKind } from './session-store';
+import { isMacAddress, normalizeMac } from './dhcp-reservations';
+
+// ============ TYPES ============
+
+export type DeviceConnection = 'wifi' | 'wired' | 'unknown';
+
+/** One device as reported by the router right now */
+export interface DeviceSighting {
+    mac: string;
+    ip?: string;
+    hostname?: string;
+    connection: DeviceConnection;
+    /** In the ARP table or WiFi client list (a DHCP lease alone may be stale) */
+    online: boolean;
+}
+
+export interface InventoryDevice {
+    id: string;
+    routerIp: string;
+    mac: string;
+    hostname: string | null;
+    ip: string | null;
+    vendor: string | null;
+    nickname: string | null;
+    owner: string | null;
+    connection: DeviceConnection;
+    firstSeen: Date;
+    lastSeen: Date;
+}
+
+export interface DeviceLabels {
+    nickname?: string | null;
+    owner?: string | null;
+}
+
+export interface DeviceStore {
+    /** Add new devices and refresh known ones (last seen only moves for online ones) */
+    record(routerIp: string, sightings: Array<DeviceSighting & { vendor: string | null }>, seenAt: Date): Promise<InventoryDevice[]>;
+    /** Most recently seen first */
+    list(routerIp: string): Promise<InventoryDevice[]>;
+    /** Null if the device is not in the inventory */
+    label(routerIp: string, mac: string, labels: DeviceLabels): Promise<InventoryDevice | null>;
+}
+
+// ============ STORES ============
+
+type DeviceRow = Omit<InventoryDevice, 'connection'> & { connection: string };
+
+function toDevice(row: DeviceRow): InventoryDevice {
+    return { ...row, connection: row.connection as DeviceConnection };
+}
+
+// Values a sighting refreshes; hostname and IP are kept when the router no longer reports them
+function sightingFields(sighting: DeviceSighting & { vendor: string | null }) {
+    return {
+        ...(sighting.hostname ? { hostname: sighting.hostname } : {}),
+        ...(sighting.ip ? { ip: sighting.ip } : {}),
+        ...(sighting.vendor ? { vendor: sighting.vendor } : {}),
+        ...(sighting.connection !== 'unknown' ? { connection: sighting.connection } : {}),
+    };
+}
+
+class PrismaDeviceStore implements DeviceStore {
+    async record(routerIp: string, sightings: Array<DeviceSighting & { vendor: string | null }>, seenAt: Date): Promise<InventoryDevice[]> {
+        const rows = await prisma.$transaction(sightings.map(sighting => prisma.device.upsert({
+            where: { routerIp_mac: { routerIp, mac: sighting.mac } },
+            create: { routerIp, mac: sighting.mac, ...sightingFields(sighting), firstSeen: seenAt, lastSeen: seenAt },
+            update: { ...sightingFields(sighting), ...(sighting.online ? { lastSeen: seenAt } : {}) },
+        })));
+        return rows.map(toDevice);
+    }
+
+    async list(routerIp: string): Promise<InventoryDevice[]> {
+        const rows = await prisma.device.findMany({ where: { routerIp }, orderBy: { lastSeen: 'desc' } });
+        return rows.map(toDevice);
+    }
+
+    async label(routerIp: string, mac: string, labels: DeviceLabels): Promise<InventoryDevice | null> {
+        const existing = await prisma.device.findUnique({ where: { routerIp_mac: { routerIp, mac } } });
+        if (!existing) return null;
+        const row = await prisma.device.update({ where: { id: existing.id }, data: labels });
+        return toDevice(row);
+    }
+}
+
+class MemoryDeviceStore implements DeviceStore {
+    private devices: InventoryDevice[] = [];
+
+    async record(routerIp: string, sightings: Array<DeviceSighting & { vendor: string | null }>, seenAt: Date): Promise<InventoryDevice[]> {
+        return sightings.map(sighting => {
+            let device = this.devices.find(d => d.routerIp === routerIp && d.mac === sighting.mac);
+            if (!device) {
+                device = {
+                    id: randomUUID(), routerIp, mac: sighting.mac, hostname: null, ip: null, vendor: null,
+                    nickname: null, owner: null, connection: 'unknown', firstSeen: seenAt, lastSeen: seenAt,
+                };
+                this.devices.push(device);
+            }
+            Object.assign(device, sightingFields(sighting), sighting.online ? { lastSeen: seenAt } : {});
+            return { ...device };
+        });
+    }
+
+    async list(routerIp: string): Promise<InventoryDevice[]> {
+        return this.devices
+            .filter(d => d.routerIp === routerIp)
+            .sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime())
+            .map(d => ({ ...d }));
+    }
+
+    async label(routerIp: string, mac: string, labels: DeviceLabels): Promise<InventoryDevice | null> {
+        const device = this.devices.find(d => d.routerIp === routerIp && d.mac === mac);
+        if (!device) return null;
+        Object.assign(device, labels);
+        return { ...device };
+    }
+}
+
+const globalForDevices = globalThis as unknown as { deviceStore?: DeviceStore };
+
+export function getDeviceStore(): DeviceStore {
+    if (!globalForDevices.deviceStore) {
+        globalForDevices.deviceStore = resolveStoreKind() === 'memory' ? new MemoryDeviceStore() : new PrismaDeviceStore();
+    }
+    return globalForDevices.deviceStore;
+}
+
+// ============ COLLECTING ============
+
+/**
+ * Merge what the router reports about its clients into one entry per MAC.
+ * Each source is optional: a failing one only leaves its details out.
+ */
+export async function collectSightings(adapter: RouterAdapter): Promise<DeviceSighting[]> {
+    const [leases, arp, wifi] = await Promise.all([
+        adapter.getDhcpLeases().catch(() => []),
+        (hasCapability(adapter, 'routing') ? adapter.getArpTable() : adapter.getConnectedDevices()).catch(() => []),
+        adapter.getWifiStatus().then(status => status.clients).catch(() => []),
+    ]);
+
+    const sightings = new Map<string, DeviceSighting>();
+    const sighting = (mac: string) => {
+        const key = normalizeMac(mac);
+        if (!sightings.has(key)) sightings.set(key, { mac: key, connection: 'unknown', online: false });
+        return sightings.get(key)!;
+    };
+    const known = (value: string | undefined) => value && !['unknown', 'n/a', '*', ''].includes(value.toLowerCase()) ? value : undefined;
+
+    for (const lease of leases) {
+        if (!isMacAddress(lease.mac)) continue;
+        const entry = sighting(lease.mac);
+        entry.ip = known(lease.ip) ?? entry.ip;
+        entry.hostname = known(lease.hostname) ?? entry.hostname;
+    }
+    for (const neighbour of arp) {
+        if (!isMacAddress(neighbour.mac) || normalizeMac(neighbour.mac) === '00:00:00:00:00:00') continue;
+        const entry = sighting(neighbour.mac);
+        entry.ip = known(neighbour.ip) ?? entry.ip;
+        entry.online = true;
+    }
+    const wifiMacs = new Set<string>();
+    for (const client of wifi) {
+        if (!isMacAddress(client.mac)) continue;
+        const entry = sighting(client.mac);
+        entry.ip = known(client.ip) ?? entry.ip;
+        entry.hostname = entry.hostname ?? known(client.hostname);
+        entry.online = true;
+        wifiMacs.add(entry.mac);
+    }
+    // Online but not a WiFi client: plugged in (only meaningful if the WiFi list was read)
+    for (const entry of sightings.values()) {
+        if (wifiMacs.has(entry.mac)) entry.connection = 'wifi';
+        else if (entry.online && wifi.length > 0) entry.connection = 'wired';
+    }
+
+    return Array.from(sightings.values());
+}
+
+/**
+ * Read the router's clients and update the inventory. Returns every device
+ * known for the router, with `online` set for the ones it reports right now.
+ * Pass `sightings` when they were already read (e.g. to check them first).
+ */
+export async function syncInventory(
+    routerIp: string,
+    adapter: RouterAdapter,
+    sightings?: DeviceSighting[]
+): Promise<Array<InventoryDevice & { online: boolean }>> {
+    sightings ??= await collectSightings(adapter);
+    const withVendors = await Promise.all(sightings.map(async s => ({ ...s, vendor: await lookupVendor(s.mac) })));
+
+    const store = getDeviceStore();
+    await store.record(routerIp, withVendors, new Date());
+
+    const online = new Set(sightings.filter(s => s.online).map(s => s.mac));
+    return (await store.list(routerIp)).map(device => ({ ...device, online: online.has(device.mac) }));
+}
+
+// ============ LOOKUP ============
+
+/**
+ * Name to show for a device, e.g. "Dad's phone" or "dell-PC"
+ */
+export function displayName(device: InventoryDevice): string {
+    return device.nickname || device.hostname || device.vendor || device.mac;
+}
+
+/**
+ * Devices matching what a user called one: MAC or IP (exact), else nickname
+ * or hostname (exact, case-insensitive), else those whose nickname, owner,
+ * hostname or vendor contains the text
+ */
+export function findDevices<T extends InventoryDevice>(devices: T[], query: string): T[] {
+    const wanted = query.trim();
+    if (isMacAddress(wanted)) return devices.filter(d => d.mac === normalizeMac(wanted));
+
+    const byIp = devices.filter(d => d.ip === wanted);
+    if (byIp.length > 0) return byIp;
+
+    const lower = wanted.toLowerCase();
+    const exact = devices.filter(d => d.nickname?.toLowerCase() === lower || d.hostname?.toLowerCase() === lower);
+    if (exact.length > 0) return exact;
+
+    return devices.filter(d => [d.nickname, d.owner, d.hostname, d.vendor]
+        .some(value => value?.toLowerCase().includes(lower)));
+}
+
+/**
+ * Pick the one device a user meant, or explain why that is not possible
+ */
+export function resolveDevice(devices: InventoryDevice[], query: string): { device: InventoryDevice } | { error: string } {
+    const matches = findDevices(devices, query);
+    if (matches.length === 1) return { device: matches[0] };
+    if (matches.length === 0) {
+        return { error: `No known device matches "${query}". Check the device inventory, or give its MAC address.` };
+    }
+    return { error: `Several devices match "${query}": ${matches.map(d => `${displayName(d)} (${d.mac})`).join('; ')}. Ask which one is meant.` };
+}
@@ -0,0 +1,128 @@
+/**
+ * DHCP Reservations
+ *
+ * Pins a device to a fixed IP ("give my NAS a fixed address"). Devices are
+ * found by hostname, IP or MAC in the DHCP leases, and a reservation is
+ * checked against the LAN settings and the existing reservations and leases
+ * before it is written.
+ */
+
+import type { DhcpLease, DhcpReservation, LanSettings } from '@/lib/adapters/types';
+import { classifyLanAddress, ipToNumber } from './lan-address';
+
+// ============ TYPES ============
+
+export interface ReservationCheck {
+    /** Problems that block the write */
+    errors: string[];
+    /** Things worth telling the user; the write can go ahead */
+    warnings: string[];
+}
+
+export interface ReservationContext {
+    reservations: DhcpReservation[];
+    /** Omitted when the router does not expose its LAN settings */
+    lan?: LanSettings;
+    leases?: DhcpLease[];
+}
+
+// ============ HELPERS ============
+
+const MAC_REGEX = /^([0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}$/;
+
+export function normalizeMac(mac: string): string {
+    return mac.trim().replace(/-/g, ':').toUpperCase();
+}
+
+export function isMacAddress(value: string): boolean {
+    return MAC_REGEX.test(value.trim());
+}
+
+/**
+ * One-line description, e.g. "NAS: AA:BB:CC:DD:EE:FF → 192.168.1.10"
+ */
+export function describeReservation(reservation: DhcpReservation): string {
+    return `${reservation.name || 'Unnamed'}: ${reservation.mac} → ${reservation.ip}`;
+}
+
+// ============ LOOKUP ============
+
+/**
+ * Leases matching a device: by MAC or IP (exact), else by hostname
+ * (exact, case-insensitive, then containing the text)
+ */
+export function findLeases(leases: DhcpLease[], device: string): DhcpLease[] {
+    const wanted = device.trim();
+    if (isMacAddress(wanted)) return leases.filter(lease => normalizeMac(lease.mac) === normalizeMac(wanted));
+
+    const byIp = leases.filter(lease => lease.ip === wanted);
+    if (byIp.length > 0) return byIp;
+
+    const lower = wanted.toLowerCase();
+    const exact = leases.filter(lease => lease.hostname.toLowerCase() === lower);
+    if (exact.length > 0) return exact;
+    return leases.filter(lease => lease.hostname.toLowerCase().includes(lower));
+}
+
+/**
+ * Reservations matching a device: by MAC or IP, else by name
+ */
+export function findReservations(reservations: DhcpReservation[], device: string): DhcpReservation[] {
+    const wanted = device.trim();
+    if (isMacAddress(wanted)) return reservations.filter(r => normalizeMac(r.mac) === normalizeMac(wanted));
+
+    const lower = wanted.toLowerCase();
+    return reservations.filter(r => r.ip === wanted || r.name.toLowerCase() === lower);
+}
+
+// ============ VALIDATION ============
+
+/**
+ * Check a new reservation against the LAN, the existing reservations and the current leases
+ */
+export function checkDhcpReservation(reservation: DhcpReservation, context: ReservationContext): ReservationCheck {
+    const check: ReservationCheck = { errors: [], warnings: [] };
+    const mac = normalizeMac(reservation.mac);
+    const ip = reservation.ip.trim();
+
+    if (!isMacAddress(reservation.mac)) {
+        check.errors.push(`"${reservation.mac}" is not a valid MAC address`);
+    }
+
+    const existingForMac = context.reservations.find(r => normalizeMac(r.mac) === mac);
+    if (existingForMac) {
+        check.errors.push(`${mac} already has a reservation (${describeReservation(existingForMac)}); remove it first to change the address`);
+    }
+    const existingForIp = context.reservations.find(r => r.ip === ip && normalizeMac(r.mac) !== mac);
+    if (existingForIp) {
+        check.errors.push(`${ip} is already reserved for ${describeReservation(existingForIp)}`);
+    }
+
+    const lan = context.lan;
+    switch (lan ? classifyLanAddress(ip, lan) : ipToNumber(ip) === null ? 'invalid' : null) {
+        case 'invalid':
+            check.errors.push(`"${reservation.ip}" is not a valid IPv4 address`);
+            break;
+        case 'outside':
+            check.errors.push(`${ip} is outside the LAN (${lan?.ipAddress} / ${lan?.subnetMask})`);
+            break;
+        case 'reserved':
+            check.errors.push(`${ip} is the network or broadcast address`);
+            break;
+        case 'router':
+            check.errors.push(`${ip} is the router's own address`);
+            break;
+        case 'static':
+            // Outside the pool is fine (no other device can be given it), unless DHCP is off
+            if (!lan?.dhcpEnabled) check.warnings.push('The DHCP server is off, so the reservation has no effect until it is turned on');
+            break;
+    }
+
+    // Another device holding the address keeps it until its lease runs out
+    const holder = context.leases?.find(lease => lease.ip === ip && normalizeMac(lease.mac) !== mac);
+    if (holder) {
+        check.errors.push(`${ip} is currently used by ${holder.hostname || 'another device'} (${holder.mac}); pick a free address`);
+    }
+
+    return check;
+}
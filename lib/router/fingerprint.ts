@@ -0,0 +1,222 @@
+/**
+ * Router Fingerprinting
+ *
+ * Identifies the router behind a gateway IP from unauthenticated HTTP probes:
+ * server banner, WWW-Authenticate realm, login page title, known asset paths
+ * and the favicon hash. Each signal adds weighted evidence for a vendor.
+ */
+
+import axios, { AxiosResponse } from 'axios';
+import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
+import { findAdapterForRouter } from '@/lib/adapters/registry';
+
+// ============ TYPES ============
+
+export interface RouterFingerprint {
+    vendor: string | null;
+    model: string | null;
+    /** 0-1 score based on how much independent evidence points at the vendor */
+    confidence: number;
+    /** Registry id of the adapter that supports this router, if any */
+    adapterId: string | null;
+    supported: boolean;
+    /** Human-readable evidence, e.g. 'realm "ZXHN H108N"' */
+    signals: string[];
+    banner?: string;
+    realm?: string;
+    title?: string;
+    faviconHash?: string;
+}
+
+// ============ SIGNATURES ============
+
+// Weight of each kind of evidence towards a vendor
+const SIGNAL_WEIGHTS = {
+    banner: 0.25,
+    realm: 0.4,
+    title: 0.3,
+    body: 0.15,
+    asset: 0.35,
+    favicon: 0.5,
+};
+
+const VENDOR_SIGNATURES: Array<{ vendor: string; patterns: RegExp[] }> = [
+    { vendor: 'ZTE', patterns: [/\bZTE\b/i, /ZXHN/i, /ZXV10/i, /ZXDSL/i] },
+    { vendor: 'OpenWrt', patterns: [/OpenWrt/i, /\bLuCI\b/i, /uhttpd/i] },
+    { vendor: 'TP-Link', patterns: [/TP-?LINK/i, /\bArcher\s*[A-Z]\d/i, /\bTL-[A-Z]+\d/i] },
+    { vendor: 'Huawei', patterns: [/Huawei/i, /EchoLife/i, /\bHG\d{3}/i] },
+    { vendor: 'Netgear', patterns: [/NETGEAR/i] },
+    { vendor: 'ASUS', patterns: [/\bASUS/i, /\bRT-A[CX]\d+/i] },
+    { vendor: 'D-Link', patterns: [/D-?Link/i, /\bDIR-\d+/i] },
+    { vendor: 'MikroTik', patterns: [/MikroTik/i, /RouterOS/i] },
+];
+
+// Model strings commonly exposed in realms, titles and login pages
+const MODEL_PATTERNS: RegExp[] = [
+    /ZXHN\s*[A-Z]\d+[A-Z0-9]*/i,
+    /ZXV10\s*[A-Z0-9]+/i,
+    /ZXDSL\s*[A-Z0-9]+/i,
+    /DSL-?\d{3}[A-Z]*/i,
+    /Archer\s*[A-Z]\d+[A-Z0-9]*/i,
+    /TL-[A-Z]+\d+[A-Z0-9]*/i,
+    /HG\d{3}[A-Z0-9]*/i,
+    /RT-A[CX]\d+[A-Z0-9]*/i,
+    /DIR-\d+[A-Z0-9]*/i,
+];
+
+// Paths that only exist on a given vendor's firmware
+const ASSET_PROBES: Array<{ path: string; vendor: string }> = [
+    { path: '/luci-static/resources/cbi.js', vendor: 'OpenWrt' },
+    { path: '/cgi-bin/luci', vendor: 'OpenWrt' },
+    { path: '/cgi-bin/status_deviceinfo.asp', vendor: 'ZTE' },
+    { path: '/webpages/login.html', vendor: 'TP-Link' },
+    { path: '/userRpm/LoginRpm.htm', vendor: 'TP-Link' },
+    { path: '/Main_Login.asp', vendor: 'ASUS' },
+    { path: '/webfig/', vendor: 'MikroTik' },
+];
+
+// md5 of /favicon.ico -> vendor. Add entries as devices are confirmed
+// (the detect endpoint returns the hash it computed as `router.faviconHash`).
+const KNOWN_FAVICON_HASHES: Record<string, string> = {};
+
+const PROBE_TIMEOUT = 3000;
+
+// ============ HELPERS ============
+
+async function probe(ip: string, path: string): Promise<AxiosResponse<Buffer> | null> {
+    try {
+        return await axios.get<Buffer>(`http://${ip}${path}`, {
+            timeout: PROBE_TIMEOUT,
+            maxRedirects: 3,
+            responseType: 'arraybuffer',
+            validateStatus: () => true,
+        });
+    } catch {
+        return null;
+    }
+}
+
+function matchVendor(text: string): string | null {
+    for (const { vendor, patterns } of VENDOR_SIGNATURES) {
+        if (patterns.some(pattern => pattern.test(text))) return vendor;
+    }
+    return null;
+}
+
+function matchModel(text: string): string | null {
+    for (const pattern of MODEL_PATTERNS) {
+        const match = text.match(pattern);
+        if (match) return match[0].replace(/\s+/g, ' ').toUpperCase();
+    }
+    return null;
+}
+
+function extractRealm(header: unknown): string | undefined {
+    if (typeof header !== 'string') return undefined;
+    const match = header.match(/realm="([^"]*)"/i);
+    return match?.[1];
+}
+
+// ============ MAIN ============
+
+/**
+ * Fingerprint the router at `ip` (may include a port, e.g. "127.0.0.1:8080")
+ */
+export async function fingerprintRouter(ip: string): Promise<RouterFingerprint> {
+    const scores = new Map<string, number>();
+    const signals: string[] = [];
+    const modelCandidates: string[] = [];
+
+    const addEvidence = (vendor: string | null, weight: number, signal: string) => {
+        if (!vendor) return;
+        scores.set(vendor, (scores.get(vendor) || 0) + weight);
+        signals.push(`${signal} → ${vendor}`);
+    };
+
+    // A random path tells us whether the server answers everything (SPA/catch-all)
+    const [root, baseline, favicon] = await Promise.all([
+        probe(ip, '/'),
+        probe(ip, `/__probe_${Date.now()}.html`),
+        probe(ip, '/favicon.ico'),
+    ]);
+
+    const banner = typeof root?.headers['server'] === 'string' ? root.headers['server'] : undefined;
+    const realm = extractRealm(root?.headers['www-authenticate']);
+    const html = root ? Buffer.from(root.data).toString('utf8') : '';
+    const title = html ? cheerio.load(html)('title').first().text().trim() || undefined : undefined;
+
+    // 1. HTTP server banner
+    if (banner) addEvidence(matchVendor(banner), SIGNAL_WEIGHTS.banner, `server "${banner}"`);
+
+    // 2. WWW-Authenticate realm (ZTE puts the model here, e.g. "ZXHN H108N")
+    if (realm) {
+        addEvidence(matchVendor(realm), SIGNAL_WEIGHTS.realm, `realm "${realm}"`);
+        const model = matchModel(realm);
+        if (model) modelCandidates.push(model);
+    }
+
+    // 3. Login page title and body
+    if (title) {
+        addEvidence(matchVendor(title), SIGNAL_WEIGHTS.title, `title "${title}"`);
+        const model = matchModel(title);
+        if (model) modelCandidates.push(model);
+    }
+    if (html) {
+        const bodyVendor = matchVendor(html);
+        if (bodyVendor && !scores.has(bodyVendor)) addEvidence(bodyVendor, SIGNAL_WEIGHTS.body, 'login page content');
+        const model = matchModel(html);
+        if (model) modelCandidates.push(model);
+    }
+
+    // 4. Known asset paths (ignored if the server answers every path the same way)
+    const assetResults = await Promise.all(ASSET_PROBES.map(async asset => ({ asset, response: await probe(ip, asset.path) })));
+    for (const { asset, response } of assetResults) {
+        if (!response || ![200, 401, 403].includes(response.status)) continue;
+        if (baseline && baseline.status === response.status) continue;
+        addEvidence(asset.vendor, SIGNAL_WEIGHTS.asset, `asset ${asset.path} (${response.status})`);
+    }
+
+    // 5. Favicon hash
+    let faviconHash: string | undefined;
+    if (favicon?.status === 200 && favicon.data?.byteLength) {
+        faviconHash = createHash('md5').update(Buffer.from(favicon.data)).digest('hex');
+        const vendor = KNOWN_FAVICON_HASHES[faviconHash];
+        if (vendor) addEvidence(vendor, SIGNAL_WEIGHTS.favicon, `favicon ${faviconHash}`);
+    }
+
+    // Pick the vendor with the most evidence
+    let vendor: string | null = null;
+    let best = 0;
+    for (const [candidate, score] of scores) {
+        if (score > best) {
+            vendor = candidate;
+            best = score;
+        }
+    }
+
+    const model = modelCandidates[0] ?? null;
+    const adapter = findAdapterForRouter([vendor ?? '', model ?? '', realm ?? '', title ?? '']);
+
+    return {
+        vendor,
+        model,
+        confidence: Math.min(1, Math.round(best * 100) / 100),
+        adapterId: adapter?.id ?? null,
+        supported: !!adapter,
+        signals,
+        banner,
+        realm,
+        title,
+        faviconHash,
+    };
+}
+
+/**
+ * Display name for a fingerprint, e.g. "ZTE ZXHN H108N"
+ */
+export function describeFingerprint(fingerprint: RouterFingerprint): string {
+    if (!fingerprint.vendor) return fingerprint.model || 'Unknown Router';
+    if (!fingerprint.model) return `${fingerprint.vendor} Router`;
+    return `${fingerprint.vendor} ${fingerprint.model}`;
+}
@@ -0,0 +1,261 @@
+/**
+ * HTTP Router Login
+ *
+ * Logs in to a router's web UI with plain HTTP requests instead of a
+ * headless browser: HTTP Basic/Digest auth or an HTML login form
+ * (including hidden CSRF fields), collecting cookies along the way.
+ */
+
+import axios, { AxiosResponse } from 'axios';
+import * as cheerio from 'cheerio';
+import { createHash, randomBytes } from 'crypto';
+
+const REQUEST_TIMEOUT = 5000;
+const MAX_REDIRECTS = 5;
+
+export interface LoginResult {
+    sessionId: string;
+    cookies: Array<{ name: string; value: string }>;
+}
+
+// ============ COOKIE JAR ============
+
+class CookieJar {
+    private cookies = new Map<string, string>();
+
+    store(response: AxiosResponse) {
+        const header = response.headers['set-cookie'];
+        for (const cookie of header || []) {
+            const [pair] = cookie.split(';');
+            const index = pair.indexOf('=');
+            if (index > 0) {
+                this.cookies.set(pair.slice(0, index).trim(), pair.slice(index + 1).trim());
+            }
+        }
+    }
+
+    header(): string | undefined {
+        if (this.cookies.size === 0) return undefined;
+        return Array.from(this.cookies, ([name, value]) => `${name}=${value}`).join('; ');
+    }
+
+    toArray(): Array<{ name: string; value: string }> {
+        return Array.from(this.cookies, ([name, value]) => ({ name, value }));
+    }
+}
+
+/**
+ * Pick the cookie that most likely identifies the session
+ */
+export function pickSessionId(cookies: Array<{ name: string; value: string }>): string {
+    const sessionCookie = cookies.find(
+        c => c.name.toLowerCase().includes('session') ||
+            c.name.toLowerCase().includes('sid') ||
+            c.name.toLowerCase().includes('auth')
+    );
+    return sessionCookie?.value || cookies[0]?.value || 'NO_SESSION';
+}
+
+// ============ HTTP HELPERS ============
+
+interface RequestOptions {
+    method?: 'GET' | 'POST';
+    data?: string;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Request with manual redirect handling so cookies set on every hop are kept
+ */
+async function request(url: string, jar: CookieJar, options: RequestOptions = {}): Promise<{ response: AxiosResponse<string>; url: string }> {
+    let currentUrl = url;
+    let method = options.method || 'GET';
+    let data = options.data;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const response = await axios.request<string>({
+            url: currentUrl,
+            method,
+            data,
+            headers: { ...options.headers, ...(jar.header() ? { Cookie: jar.header()! } : {}) },
+            maxRedirects: 0,
+            timeout: REQUEST_TIMEOUT,
+            responseType: 'text',
+            validateStatus: () => true,
+        });
+        jar.store(response);
+
+        const location = response.headers.location;
+        if (response.status < 300 || response.status >= 400 || !location) {
+            return { response, url: currentUrl };
+        }
+
+        // Follow as GET (303/302 semantics as browsers do)
+        currentUrl = new URL(location, currentUrl).toString();
+        method = 'GET';
+        data = undefined;
+    }
+
+    throw new Error('Too many redirects during login');
+}
+
+function md5(value: string): string {
+    return createHash('md5').update(value).digest('hex');
+}
+
+/**
+ * Build a Digest Authorization header (RFC 7616, MD5 / qop=auth)
+ */
+function digestAuthorization(challenge: string, method: string, uri: string, username: string, password: string): string {
+    const params: Record<string, string> = {};
+    for (const match of challenge.matchAll(/(\w+)=(?:"([^"]*)"|([^,\s]*))/g)) {
+        params[match[1].toLowerCase()] = match[2] ?? match[3];
+    }
+
+    const realm = params.realm || '';
+    const nonce = params.nonce || '';
+    const qop = params.qop?.split(',').map(q => q.trim()).includes('auth') ? 'auth' : undefined;
+    const nc = '00000001';
+    const cnonce = randomBytes(8).toString('hex');
+
+    const ha1 = md5(`${username}:${realm}:${password}`);
+    const ha2 = md5(`${method}:${uri}`);
+    const response = qop
+        ? md5(`${ha1}:${nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+        : md5(`${ha1}:${nonce}:${ha2}`);
+
+    const parts = [
+        `username="${username}"`,
+        `realm="${realm}"`,
+        `nonce="${nonce}"`,
+        `uri="${uri}"`,
+        `response="${response}"`,
+        params.opaque !== undefined ? `opaque="${params.opaque}"` : '',
+        params.algorithm ? `algorithm=${params.algorithm}` : '',
+        qop ? `qop=${qop}, nc=${nc}, cnonce="${cnonce}"` : '',
+    ];
+    return `Digest ${parts.filter(Boolean).join(', ')}`;
+}
+
+// ============ LOGIN FORMS ============
+
+interface LoginForm {
+    action: string;
+    method: 'GET' | 'POST';
+    fields: Record<string, string>;
+    usernameField: string | null;
+    passwordField: string;
+    csrfHeader?: string;
+}
+
+/**
+ * Find a login form (a form with a password input) and its hidden fields
+ */
+function findLoginForm(html: string, pageUrl: string): LoginForm | null {
+    const $ = cheerio.load(html);
+    const passwordInput = $('input[type="password"]').first();
+    if (!passwordInput.length) return null;
+
+    const form = passwordInput.closest('form');
+    const scope = form.length ? form : $('body');
+
+    const fields: Record<string, string> = {};
+    scope.find('input[name]').each((_, input) => {
+        const type = ($(input).attr('type') || 'text').toLowerCase();
+        if (['checkbox', 'radio'].includes(type) && $(input).attr('checked') === undefined) return;
+        if (['submit', 'button', 'image', 'reset'].includes(type)) return;
+        fields[$(input).attr('name')!] = $(input).attr('value') ?? '';
+    });
+
+    // Username: a visible text field, preferring names that look like one
+    const textInputs = scope.find('input[name]').filter((_, input) =>
+        ['text', 'email', ''].includes(($(input).attr('type') || '').toLowerCase())
+    );
+    const usernameInput = textInputs.filter((_, input) => /user|login|name|account/i.test($(input).attr('name') || '')).first();
+    const usernameField = (usernameInput.length ? usernameInput : textInputs.first()).attr('name') ?? null;
+
+    const action = form.attr('action') || pageUrl;
+    const csrfHeader = $('meta[name="csrf-token"], meta[name="_csrf"]').attr('content');
+
+    return {
+        action: new URL(action, pageUrl).toString(),
+        method: (form.attr('method') || 'POST').toUpperCase() === 'GET' ? 'GET' : 'POST',
+        fields,
+        usernameField,
+        passwordField: passwordInput.attr('name') || 'password',
+        csrfHeader,
+    };
+}
+
+// ============ MAIN ============
+
+/**
+ * Log in with plain HTTP. Throws 'Invalid credentials' when the router
+ * rejects them, or another error if no supported login method was found.
+ */
+export async function httpLogin(ip: string, username: string, password: string): Promise<LoginResult> {
+    const jar = new CookieJar();
+    const baseUrl = `http://${ip}/`;
+
+    let { response, url } = await request(baseUrl, jar);
+    let loggedIn = false;
+
+    // 1. HTTP Basic / Digest authentication
+    if (response.status === 401) {
+        const challenge = String(response.headers['www-authenticate'] || '');
+        const path = new URL(url).pathname;
+        let authorization: string;
+
+        if (/^\s*digest/i.test(challenge)) {
+            authorization = digestAuthorization(challenge, 'GET', path, username, password);
+        } else if (/^\s*basic/i.test(challenge) || !challenge) {
+            authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+        } else {
+            throw new Error(`Unsupported authentication scheme: ${challenge.split(' ')[0]}`);
+        }
+
+        ({ response, url } = await request(url, jar, { headers: { Authorization: authorization } }));
+        if (response.status === 401 || response.status === 403) {
+            throw new Error('Invalid credentials');
+        }
+        loggedIn = true;
+    }
+
+    // 2. HTML login form (hidden inputs carry CSRF tokens)
+    const form = response.status === 200 ? findLoginForm(response.data, url) : null;
+    if (form) {
+        const fields = { ...form.fields, [form.passwordField]: password };
+        if (form.usernameField) fields[form.usernameField] = username;
+        const body = new URLSearchParams(fields).toString();
+
+        const headers: Record<string, string> = { Referer: url };
+        if (form.csrfHeader) headers['X-CSRF-Token'] = form.csrfHeader;
+
+        ({ response, url } = form.method === 'GET'
+            ? await request(`${form.action}${form.action.includes('?') ? '&' : '?'}${body}`, jar, { headers })
+            : await request(form.action, jar, {
+                method: 'POST',
+                data: body,
+                headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+            }));
+
+        // Still (or again) looking at a login form means the login was rejected
+        if (response.status === 401 || response.status === 403 ||
+            (response.status === 200 && findLoginForm(response.data, url))) {
+            throw new Error('Invalid credentials');
+        }
+        loggedIn = true;
+    }
+
+    if (response.status >= 400) {
+        throw new Error(`Router returned HTTP ${response.status} during login`);
+    }
+
+    // No auth challenge and no form: the login page is built by JavaScript, which needs the browser
+    if (!loggedIn) {
+        throw new Error('No HTTP login found on the page (it may need JavaScript)');
+    }
+
+    const cookies = jar.toArray();
+    return { sessionId: pickSessionId(cookies), cookies };
+}
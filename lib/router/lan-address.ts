@@ -0,0 +1,55 @@
+/**
+ * LAN Addresses
+ *
+ * Where an IPv4 address sits on the router's LAN (from `getLanSettings`):
+ * outside it, the router itself, the DHCP pool, or the rest of the subnet.
+ * Shared by the checks that run before port forwarding and DHCP reservation writes.
+ */
+
+import type { LanSettings } from '@/lib/adapters/types';
+
+export type LanAddressKind =
+    | 'invalid'
+    /** Not in the router's subnet */
+    | 'outside'
+    /** Network or broadcast address */
+    | 'reserved'
+    | 'router'
+    /** Handed out by the DHCP server */
+    | 'pool'
+    /** In the subnet, outside the DHCP pool (or DHCP is off) */
+    | 'static';
+
+const IPV4_REGEX = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+export function ipToNumber(ip: string): number | null {
+    const match = IPV4_REGEX.exec(ip.trim());
+    if (!match) return null;
+    const octets = match.slice(1).map(Number);
+    if (octets.some(octet => octet > 255)) return null;
+    return octets.reduce((value, octet) => value * 256 + octet, 0);
+}
+
+/**
+ * Classify an address against the LAN settings.
+ * Returns null when the LAN settings are unusable (e.g. "N/A" values).
+ */
+export function classifyLanAddress(ip: string, lan: LanSettings): LanAddressKind | null {
+    const address = ipToNumber(ip);
+    if (address === null) return 'invalid';
+
+    const routerIp = ipToNumber(lan.ipAddress);
+    const mask = ipToNumber(lan.subnetMask);
+    if (routerIp === null || mask === null) return null;
+
+    const network = (routerIp & mask) >>> 0;
+    const broadcast = (network | ~mask) >>> 0;
+    if (((address & mask) >>> 0) !== network) return 'outside';
+    if (address === network || address === broadcast) return 'reserved';
+    if (address === routerIp) return 'router';
+
+    const poolStart = ipToNumber(lan.dhcpStartIp);
+    const poolEnd = ipToNumber(lan.dhcpEndIp);
+    const inPool = poolStart !== null && poolEnd !== null && address >= poolStart && address <= poolEnd;
+    return lan.dhcpEnabled && inPool ? 'pool' : 'static';
+}
@@ -0,0 +1,71 @@
+/**
+ * In-memory session store for tests and single-process development
+ */
+
+import type { ClientSessionData, RouterSession, SessionStore } from './session-store';
+
+export class MemorySessionStore implements SessionStore {
+    private sessions = new Map<string, ClientSessionData & { updatedAt: number }>();
+
+    async get(clientSessionId: string): Promise<ClientSessionData | null> {
+        const entry = this.sessions.get(clientSessionId);
+        if (!entry) return null;
+
+        if (entry.expiresAt.getTime() <= Date.now()) {
+            this.sessions.delete(clientSessionId);
+            return null;
+        }
+
+        // Copies, so callers can't mutate stored state without calling set()
+        return structuredClone({ routers: entry.routers, activeRouterId: entry.activeRouterId, expiresAt: entry.expiresAt });
+    }
+
+    async set(clientSessionId: string, data: ClientSessionData): Promise<void> {
+        this.sessions.set(clientSessionId, { ...structuredClone(data), updatedAt: Date.now() });
+    }
+
+    async delete(clientSessionId: string): Promise<void> {
+        this.sessions.delete(clientSessionId);
+    }
+
+    async findRouterSession(filter: { routerIp?: string; routerId?: string } = {}): Promise<RouterSession | null> {
+        const now = Date.now();
+        const entries = Array.from(this.sessions.values())
+            .filter(entry => entry.expiresAt.getTime() > now)
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+
+        for (const entry of entries) {
+            const match = entry.routers.find(router =>
+                (!filter.routerIp || router.routerIp === filter.routerIp) &&
+                (!filter.routerId || router.id === filter.routerId)
+            );
+            if (match) return structuredClone(match);
+        }
+        return null;
+    }
+
+    async listRouterSessions(): Promise<RouterSession[]> {
+        const now = Date.now();
+        const byIp = new Map<string, RouterSession>();
+        Array.from(this.sessions.values())
+            .filter(entry => entry.expiresAt.getTime() > now)
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+            .flatMap(entry => entry.routers)
+            .forEach(router => {
+                if (!byIp.has(router.routerIp)) byIp.set(router.routerIp, structuredClone(router));
+            });
+        return Array.from(byIp.values());
+    }
+
+    async purgeExpired(): Promise<number> {
+        const now = Date.now();
+        let removed = 0;
+        for (const [id, entry] of this.sessions) {
+            if (entry.expiresAt.getTime() <= now) {
+                this.sessions.delete(id);
+                removed++;
+            }
+        }
+        return removed;
+    }
+}
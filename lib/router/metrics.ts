@@ -0,0 +1,392 @@
+/**
+ * Line & Traffic Metrics
+ *
+ * The routers only report point-in-time values: DSL figures as display
+ * strings ("12.5 dB", "8.19 Mbps") and traffic as ever-growing counters.
+ * A background collector samples them on an interval into a time series,
+ * parsing the strings into numbers and turning counters into rates, so
+ * trends ("has my SNR been dropping this week?") can be answered and graphed.
+ */
+
+import { randomUUID } from 'crypto';
+import { prisma } from '@/prisma/prisma';
+import { createAdapter, hasCapability } from '@/lib/adapters/registry';
+import type { RouterAdapter } from '@/lib/adapters/types';
+import { getSessionStore, resolveStoreKind } from './session-store';
+
+// ============ TYPES ============
+
+export interface MetricDefinition {
+    label: string;
+    unit: string;
+    /** Adapter capability the value comes from */
+    source: 'dsl' | 'trafficStats';
+}
+
+export interface MetricPoint {
+    at: Date;
+    value: number;
+}
+
+export interface MetricSummary {
+    samples: number;
+    min: number;
+    max: number;
+    avg: number;
+    first: number;
+    last: number;
+    /** Least-squares slope, in units per day (null with fewer than two samples) */
+    trendPerDay: number | null;
+}
+
+export interface MetricQuery {
+    routerIp: string;
+    metrics: string[];
+    since: Date;
+    until?: Date;
+}
+
+export interface MetricStore {
+    append(routerIp: string, samples: Array<{ metric: string; value: number }>, at: Date): Promise<void>;
+    /** Oldest first, per metric */
+    query(query: MetricQuery): Promise<Record<string, MetricPoint[]>>;
+    /** Delete samples older than `before`, returning how many */
+    purge(before: Date): Promise<number>;
+}
+
+// ============ METRICS ============
+
+export const METRICS: Record<string, MetricDefinition> = {
+    'dsl.snrDown': { label: 'SNR margin (down)', unit: 'dB', source: 'dsl' },
+    'dsl.snrUp': { label: 'SNR margin (up)', unit: 'dB', source: 'dsl' },
+    'dsl.attenuationDown': { label: 'Line attenuation (down)', unit: 'dB', source: 'dsl' },
+    'dsl.attenuationUp': { label: 'Line attenuation (up)', unit: 'dB', source: 'dsl' },
+    'dsl.rateDown': { label: 'Line rate (down)', unit: 'kbit/s', source: 'dsl' },
+    'dsl.rateUp': { label: 'Line rate (up)', unit: 'kbit/s', source: 'dsl' },
+    'dsl.crcErrors': { label: 'CRC errors', unit: 'errors/min', source: 'dsl' },
+    'dsl.headerErrors': { label: 'Header errors', unit: 'errors/min', source: 'dsl' },
+    'wlan.rxRate': { label: 'WiFi received', unit: 'kbit/s', source: 'trafficStats' },
+    'wlan.txRate': { label: 'WiFi sent', unit: 'kbit/s', source: 'trafficStats' },
+    'wlan.rxPackets': { label: 'WiFi packets received', unit: 'packets/s', source: 'trafficStats' },
+    'wlan.txPackets': { label: 'WiFi packets sent', unit: 'packets/s', source: 'trafficStats' },
+    'wlan.errors': { label: 'WiFi errors', unit: 'errors/min', source: 'trafficStats' },
+    'wlan.dropped': { label: 'WiFi dropped packets', unit: 'packets/min', source: 'trafficStats' },
+    'lan.rxRate': { label: 'Wired received', unit: 'kbit/s', source: 'trafficStats' },
+    'lan.txRate': { label: 'Wired sent', unit: 'kbit/s', source: 'trafficStats' },
+};
+
+// ============ PARSING ============
+
+/**
+ * First number in a display value ("12.5 dB" → 12.5), or null for "N/A" and the like
+ */
+export function parseMeasurement(value: string | number | undefined): number | null {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    const match = (value ?? '').replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Line rate in kbit/s; a value without a unit is taken as kbit/s ("8190", "8.19 Mbps", "512000 bps")
+ */
+export function parseLineRate(value: string | undefined): number | null {
+    const number = parseMeasurement(value);
+    if (number === null) return null;
+    const unit = (value ?? '').toLowerCase();
+    if (/g(bit|b\/?s|bps)/.test(unit)) return number * 1_000_000;
+    if (/m(bit|b\/?s|bps)/.test(unit)) return number * 1000;
+    if (/k(bit|b\/?s|bps)/.test(unit)) return number;
+    if (/\b(bit\/?s|bps)\b/.test(unit)) return number / 1000;
+    return number;
+}
+
+/**
+ * Change per second between two readings of a cumulative counter.
+ * Null when the counter went backwards (router restart or wrap-around).
+ */
+export function counterRate(previous: number, current: number, seconds: number): number | null {
+    if (seconds <= 0 || current < previous) return null;
+    return (current - previous) / seconds;
+}
+
+// ============ STORES ============
+
+class PrismaMetricStore implements MetricStore {
+    async append(routerIp: string, samples: Array<{ metric: string; value: number }>, at: Date): Promise<void> {
+        await prisma.metricSample.createMany({
+            data: samples.map(sample => ({ routerIp, ...sample, sampledAt: at })),
+        });
+    }
+
+    async query(query: MetricQuery): Promise<Record<string, MetricPoint[]>> {
+        const rows = await prisma.metricSample.findMany({
+            where: {
+                routerIp: query.routerIp,
+                metric: { in: query.metrics },
+                sampledAt: { gte: query.since, ...(query.until ? { lte: query.until } : {}) },
+            },
+            orderBy: { sampledAt: 'asc' },
+        });
+        const series: Record<string, MetricPoint[]> = Object.fromEntries(query.metrics.map(metric => [metric, []]));
+        for (const row of rows) {
+            series[row.metric].push({ at: row.sampledAt, value: row.value });
+        }
+        return series;
+    }
+
+    async purge(before: Date): Promise<number> {
+        const { count } = await prisma.metricSample.deleteMany({ where: { sampledAt: { lt: before } } });
+        return count;
+    }
+}
+
+class MemoryMetricStore implements MetricStore {
+    private samples: Array<{ id: string; routerIp: string; metric: string; value: number; sampledAt: Date }> = [];
+
+    async append(routerIp: string, samples: Array<{ metric: string; value: number }>, at: Date): Promise<void> {
+        this.samples.push(...samples.map(sample => ({ id: randomUUID(), routerIp, ...sample, sampledAt: at })));
+    }
+
+    async query(query: MetricQuery): Promise<Record<string, MetricPoint[]>> {
+        return Object.fromEntries(query.metrics.map(metric => [metric, this.samples
+            .filter(s => s.routerIp === query.routerIp && s.metric === metric)
+            .filter(s => s.sampledAt >= query.since && (!query.until || s.sampledAt <= query.until))
+            .map(s => ({ at: s.sampledAt, value: s.value }))]));
+    }
+
+    async purge(before: Date): Promise<number> {
+        const kept = this.samples.filter(s => s.sampledAt >= before);
+        const removed = this.samples.length - kept.length;
+        this.samples = kept;
+        return removed;
+    }
+}
+
+const globalForMetrics = globalThis as unknown as {
+    metricStore?: MetricStore;
+    metricsCollector?: ReturnType<typeof setInterval>;
+    metricsCollecting?: boolean;
+    /** Last counter readings per router IP, to turn the next ones into rates */
+    metricCounters?: Map<string, { at: Date; values: Record<string, number> }>;
+};
+
+export function getMetricStore(): MetricStore {
+    if (!globalForMetrics.metricStore) {
+        globalForMetrics.metricStore = resolveStoreKind() === 'memory' ? new MemoryMetricStore() : new PrismaMetricStore();
+    }
+    return globalForMetrics.metricStore;
+}
+
+function getCounters(): Map<string, { at: Date; values: Record<string, number> }> {
+    if (!globalForMetrics.metricCounters) {
+        globalForMetrics.metricCounters = new Map();
+    }
+    return globalForMetrics.metricCounters;
+}
+
+// ============ SAMPLING ============
+
+// Counter metrics: the counter they are derived from and what one unit per second is worth.
+// `zeroIfMissing`: firmware that does not track the counter reports 0 (ZTE WLAN bytes).
+const COUNTER_METRICS: Record<string, { counter: string; scale: number; zeroIfMissing?: boolean }> = {
+    'dsl.crcErrors': { counter: 'adsl.crcErrors', scale: 60 },
+    'dsl.headerErrors': { counter: 'adsl.headerErrors', scale: 60 },
+    'wlan.rxRate': { counter: 'wlan.bytesReceived', scale: 8 / 1000, zeroIfMissing: true },
+    'wlan.txRate': { counter: 'wlan.bytesSent', scale: 8 / 1000, zeroIfMissing: true },
+    'wlan.rxPackets': { counter: 'wlan.packetsReceived', scale: 1 },
+    'wlan.txPackets': { counter: 'wlan.packetsSent', scale: 1 },
+    'wlan.errors': { counter: 'wlan.errors', scale: 60 },
+    'wlan.dropped': { counter: 'wlan.dropped', scale: 60 },
+    'lan.rxRate': { counter: 'lan.bytesReceived', scale: 8 / 1000 },
+    'lan.txRate': { counter: 'lan.bytesSent', scale: 8 / 1000 },
+};
+
+/**
+ * Read the router's line and traffic figures: gauges as-is, counters as raw
+ * readings. Each source is optional: a failing one only leaves its values out.
+ */
+async function readFigures(adapter: RouterAdapter): Promise<{ gauges: Record<string, number>; counters: Record<string, number> }> {
+    const gauges: Record<string, number> = {};
+    const counters: Record<string, number> = {};
+    const set = (target: Record<string, number>, key: string, value: number | null) => {
+        if (value !== null) target[key] = value;
+    };
+
+    if (hasCapability(adapter, 'dsl')) {
+        const [dsl, adsl] = await Promise.all([
+            adapter.getDslStats().catch(() => null),
+            adapter.getAdslStats().catch(() => null),
+        ]);
+        if (dsl) {
+            set(gauges, 'dsl.snrDown', parseMeasurement(dsl.snrMarginDown));
+            set(gauges, 'dsl.snrUp', parseMeasurement(dsl.snrMarginUp));
+            set(gauges, 'dsl.attenuationDown', parseMeasurement(dsl.attenuationDown));
+            set(gauges, 'dsl.attenuationUp', parseMeasurement(dsl.attenuationUp));
+            set(gauges, 'dsl.rateDown', parseLineRate(dsl.lineRateDown));
+            set(gauges, 'dsl.rateUp', parseLineRate(dsl.lineRateUp));
+        }
+        if (adsl) {
+            set(counters, 'adsl.crcErrors', parseMeasurement(adsl.crcErrors));
+            set(counters, 'adsl.headerErrors', parseMeasurement(adsl.headerErrors));
+        }
+    }
+
+    if (hasCapability(adapter, 'trafficStats')) {
+        const [wlan, lan] = await Promise.all([
+            adapter.getWlanStats().catch(() => null),
+            adapter.getLanStats().catch(() => null),
+        ]);
+        if (wlan) {
+            for (const key of ['bytesReceived', 'bytesSent', 'packetsReceived', 'packetsSent', 'errors', 'dropped'] as const) {
+                set(counters, `wlan.${key}`, parseMeasurement(wlan[key]));
+            }
+        }
+        if (lan) {
+            set(counters, 'lan.bytesReceived', lan.ports.reduce((sum, port) => sum + (parseMeasurement(port.bytesReceived) ?? 0), 0));
+            set(counters, 'lan.bytesSent', lan.ports.reduce((sum, port) => sum + (parseMeasurement(port.bytesSent) ?? 0), 0));
+        }
+    }
+
+    return { gauges, counters };
+}
+
+/**
+ * Take one sample of a router's metrics and store it. Rates need two
+ * readings, so the first sample after startup only has the gauges.
+ */
+export async function sampleRouter(routerIp: string, adapter: RouterAdapter, at: Date = new Date()): Promise<Record<string, number>> {
+    const { gauges, counters } = await readFigures(adapter);
+    const values: Record<string, number> = { ...gauges };
+
+    const previous = getCounters().get(routerIp);
+    if (previous) {
+        const seconds = (at.getTime() - previous.at.getTime()) / 1000;
+        for (const [metric, { counter, scale, zeroIfMissing }] of Object.entries(COUNTER_METRICS)) {
+            if (!(counter in counters) || !(counter in previous.values)) continue;
+            if (zeroIfMissing && counters[counter] === 0) continue;
+            const rate = counterRate(previous.values[counter], counters[counter], seconds);
+            if (rate !== null) values[metric] = rate * scale;
+        }
+    }
+    getCounters().set(routerIp, { at, values: counters });
+
+    const samples = Object.entries(values).map(([metric, value]) => ({ metric, value }));
+    if (samples.length > 0) {
+        await getMetricStore().append(routerIp, samples, at);
+    }
+    return values;
+}
+
+// ============ QUERYING ============
+
+/**
+ * Min/max/average and trend of a series
+ */
+export function summarizeSeries(points: MetricPoint[]): MetricSummary | null {
+    if (points.length === 0) return null;
+
+    const values = points.map(p => p.value);
+    const avg = values.reduce((sum, v) => sum + v, 0) / values.length;
+
+    // Slope of the best-fit line through (days, value)
+    let trendPerDay: number | null = null;
+    if (points.length >= 2) {
+        const days = points.map(p => (p.at.getTime() - points[0].at.getTime()) / 86_400_000);
+        const meanDay = days.reduce((sum, d) => sum + d, 0) / days.length;
+        const spread = days.reduce((sum, d) => sum + (d - meanDay) ** 2, 0);
+        if (spread > 0) {
+            trendPerDay = days.reduce((sum, d, i) => sum + (d - meanDay) * (values[i] - avg), 0) / spread;
+        }
+    }
+
+    return {
+        samples: points.length,
+        min: Math.min(...values),
+        max: Math.max(...values),
+        avg,
+        first: values[0],
+        last: values[values.length - 1],
+        trendPerDay,
+    };
+}
+
+/**
+ * Average a series into at most `buckets` evenly spaced points (for graphs and the agent)
+ */
+export function downsampleSeries(points: MetricPoint[], since: Date, until: Date, buckets: number): MetricPoint[] {
+    const span = until.getTime() - since.getTime();
+    if (points.length <= buckets || span <= 0) return points;
+
+    const size = span / buckets;
+    const sums = new Map<number, { total: number; count: number }>();
+    for (const point of points) {
+        const bucket = Math.min(buckets - 1, Math.floor((point.at.getTime() - since.getTime()) / size));
+        const entry = sums.get(bucket) ?? { total: 0, count: 0 };
+        entry.total += point.value;
+        entry.count++;
+        sums.set(bucket, entry);
+    }
+    return Array.from(sums.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([bucket, { total, count }]) => ({ at: new Date(since.getTime() + (bucket + 0.5) * size), value: total / count }));
+}
+
+/**
+ * Metrics a router's adapter can provide
+ */
+export function availableMetrics(adapter: RouterAdapter): string[] {
+    return Object.entries(METRICS)
+        .filter(([, definition]) => hasCapability(adapter, definition.source))
+        .map(([metric]) => metric);
+}
+
+// ============ COLLECTOR ============
+
+/**
+ * Sample every router someone is logged in to and drop samples past
+ * METRICS_RETENTION_DAYS (default 30). Overlapping runs are skipped.
+ */
+export async function collectAllMetrics(): Promise<void> {
+    if (globalForMetrics.metricsCollecting) return;
+    globalForMetrics.metricsCollecting = true;
+    try {
+        const sessions = await getSessionStore().listRouterSessions();
+        for (const session of sessions) {
+            try {
+                const adapter = createAdapter(
+                    session.adapterId,
+                    session.routerIp,
+                    session.cookies.map(c => `${c.name}=${c.value}`).join('; ')
+                );
+                if (availableMetrics(adapter).length > 0) {
+                    await sampleRouter(session.routerIp, adapter);
+                }
+            } catch (error: unknown) {
+                console.error(`[Metrics] Failed to sample ${session.name} (${session.routerIp}):`, error instanceof Error ? error.message : error);
+            }
+        }
+
+        const retentionDays = Number(process.env.METRICS_RETENTION_DAYS ?? 30);
+        if (retentionDays > 0) {
+            await getMetricStore().purge(new Date(Date.now() - retentionDays * 86_400_000));
+        }
+    } catch (error: unknown) {
+        console.error('[Metrics] Collection failed:', error instanceof Error ? error.message : error);
+    } finally {
+        globalForMetrics.metricsCollecting = false;
+    }
+}
+
+/**
+ * Start sampling every METRICS_SAMPLE_INTERVAL seconds (default 300, 0 turns it off).
+ * Safe to call more than once.
+ */
+export function startMetricsCollector(): void {
+    const seconds = Number(process.env.METRICS_SAMPLE_INTERVAL ?? 300);
+    if (globalForMetrics.metricsCollector || !(seconds > 0)) return;
+
+    console.log(`[Metrics] Sampling line and traffic stats every ${seconds}s`);
+    globalForMetrics.metricsCollector = setInterval(() => { void collectAllMetrics(); }, seconds * 1000);
+    // Don't keep scripts alive just for the collector
+    globalForMetrics.metricsCollector.unref?.();
+}
@@ -0,0 +1,60 @@
+/**
+ * Network Status
+ *
+ * One snapshot of a router's health for the dashboard: the same summary as
+ * the ZTE adapter's getFullStatus (device, WAN, WiFi, DSL), built from the
+ * vendor-neutral adapter surface and extended with device counts and LAN
+ * port states. Each section is read on its own, so one failing page only
+ * blanks its card.
+ */
+
+import { hasCapability } from '@/lib/adapters/registry';
+import type { DeviceInfo, DslStats, PortStats, RouterAdapter, WanInfo, WifiClient, WifiStatus } from '@/lib/adapters/types';
+import { syncInventory } from './device-inventory';
+
+// ============ TYPES ============
+
+export interface FullStatus {
+    device: DeviceInfo | null;
+    wan: WanInfo | null;
+    wifi: (WifiStatus & { clients: WifiClient[] }) | null;
+    /** Null when the router has no DSL line (or it could not be read) */
+    dsl: (DslStats & { modulation?: string }) | null;
+    /** Devices online now, and every device ever seen */
+    devices: { online: number; known: number } | null;
+    lanPorts: Array<PortStats & { status?: string }> | null;
+    /** Sections that could not be read, with the reason */
+    errors: Record<string, string>;
+    fetchedAt: Date;
+}
+
+// ============ STATUS ============
+
+/**
+ * Read every dashboard section from the router in parallel
+ */
+export async function getFullStatus(routerIp: string, adapter: RouterAdapter): Promise<FullStatus> {
+    const errors: Record<string, string> = {};
+    const read = async <T>(section: string, load: () => Promise<T>): Promise<T | null> => {
+        try {
+            return await load();
+        } catch (error: unknown) {
+            errors[section] = error instanceof Error ? error.message : 'Failed to read';
+            return null;
+        }
+    };
+
+    const [device, wan, wifi, dsl, devices, lanPorts] = await Promise.all([
+        read('device', () => adapter.getDeviceInfo()),
+        read('wan', () => adapter.getWanInfo()),
+        read('wifi', () => adapter.getWifiStatus()),
+        hasCapability(adapter, 'dsl') ? read('dsl', () => adapter.getDslStats()) : null,
+        read('devices', async () => {
+            const inventory = await syncInventory(routerIp, adapter);
+            return { online: inventory.filter(d => d.online).length, known: inventory.length };
+        }),
+        hasCapability(adapter, 'trafficStats') ? read('lanPorts', async () => (await adapter.getLanStats()).ports) : null,
+    ]);
+
+    return { device, wan, wifi, dsl, devices, lanPorts, errors, fetchedAt: new Date() };
+}
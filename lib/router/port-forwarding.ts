@@ -0,0 +1,150 @@
+/**
+ * Port Forwarding
+ *
+ * Rules are managed by name (the index the router uses shifts as rules are
+ * added and removed). New or edited rules are checked against the existing
+ * rules and the LAN settings before anything is written: a duplicate
+ * external port or a target outside the LAN is refused, and a target whose
+ * address comes from the DHCP pool is flagged so it can be reserved.
+ */
+
+import type { DhcpLease, DhcpReservation, LanSettings, NatRule, PortForwardingOptions } from '@/lib/adapters/types';
+import { classifyLanAddress, ipToNumber } from './lan-address';
+
+// ============ TYPES ============
+
+export interface IndexedRule {
+    /** Position in the router's rule list (what the adapter methods take) */
+    index: number;
+    rule: NatRule;
+}
+
+export interface PortForwardingCheck {
+    /** Problems that block the write */
+    errors: string[];
+    /** Things worth telling the user; the write can go ahead */
+    warnings: string[];
+    /** The target address is handed out by DHCP and may change */
+    dynamicTarget: boolean;
+    /** DHCP lease of the target, when it is currently online */
+    targetLease?: DhcpLease;
+}
+
+export interface PortForwardingContext {
+    rules: NatRule[];
+    /** Omitted when the router does not expose its LAN settings */
+    lan?: LanSettings;
+    leases?: DhcpLease[];
+    /** Omitted when the router does not support reservations */
+    reservations?: DhcpReservation[];
+    /** Rule being edited: it does not conflict with itself */
+    ignoreIndex?: number;
+}
+
+// ============ HELPERS ============
+
+/**
+ * Parse a port or range as the routers show it ("80", "8000-8010", "8000:8010")
+ */
+export function parsePortRange(value: string | number): [number, number] | null {
+    const parts = String(value).trim().split(/\s*[-:]\s*/).map(Number);
+    if (parts.length > 2 || parts.some(port => !Number.isInteger(port) || port < 1 || port > 65535)) return null;
+    const [start, end = start] = parts;
+    return start <= end ? [start, end] : null;
+}
+
+function protocolsOverlap(a: string, b: string): boolean {
+    const normalize = (protocol: string) => protocol.toUpperCase().replace(/TCP\s*\/?\s*UDP|BOTH/, 'ALL');
+    const [x, y] = [normalize(a), normalize(b)];
+    return x === 'ALL' || y === 'ALL' || x === y;
+}
+
+/**
+ * One-line description, e.g. "Minecraft (TCP 25565 → 192.168.1.20:25565)"
+ */
+export function describeRule(rule: NatRule): string {
+    const state = rule.enabled ? '' : ', disabled';
+    return `${rule.name} (${rule.protocol} ${rule.externalPort} → ${rule.internalIp}:${rule.internalPort || rule.externalPort}${state})`;
+}
+
+// ============ LOOKUP ============
+
+/**
+ * Rules matching a name: exact (case-insensitive) matches if there are any,
+ * otherwise rules whose name contains it
+ */
+export function findRulesByName(rules: NatRule[], name: string): IndexedRule[] {
+    const wanted = name.trim().toLowerCase();
+    const indexed = rules.map((rule, index) => ({ index, rule }));
+
+    const exact = indexed.filter(({ rule }) => rule.name.toLowerCase() === wanted);
+    if (exact.length > 0) return exact;
+    return indexed.filter(({ rule }) => rule.name.toLowerCase().includes(wanted));
+}
+
+// ============ VALIDATION ============
+
+/**
+ * Check a new or edited rule against the router's other rules and its LAN
+ */
+export function checkPortForwarding(options: PortForwardingOptions, context: PortForwardingContext): PortForwardingCheck {
+    const check: PortForwardingCheck = { errors: [], warnings: [], dynamicTarget: false };
+    const others = context.rules
+        .map((rule, index) => ({ index, rule }))
+        .filter(({ index }) => index !== context.ignoreIndex);
+
+    // Ports
+    const external = parsePortRange(options.externalPort);
+    if (!external) check.errors.push(`"${options.externalPort}" is not a valid external port`);
+    if (options.internalPort !== undefined && !parsePortRange(options.internalPort)) {
+        check.errors.push(`"${options.internalPort}" is not a valid internal port`);
+    }
+
+    if (external) {
+        for (const { rule } of others) {
+            const range = parsePortRange(rule.externalPort);
+            if (!range || !protocolsOverlap(rule.protocol, options.protocol)) continue;
+            if (range[0] <= external[1] && external[0] <= range[1]) {
+                check.errors.push(`External port ${options.externalPort} is already forwarded by ${describeRule(rule)}`);
+            }
+        }
+    }
+
+    if (others.some(({ rule }) => rule.name.toLowerCase() === options.name.trim().toLowerCase())) {
+        check.errors.push(`A rule named "${options.name}" already exists`);
+    }
+
+    // Target address
+    const ip = options.internalIp.trim();
+    check.targetLease = context.leases?.find(lease => lease.ip === ip);
+    const kind = context.lan ? classifyLanAddress(ip, context.lan) : ipToNumber(ip) === null ? 'invalid' : null;
+    const lan = context.lan;
+
+    switch (kind) {
+        case 'invalid':
+            check.errors.push(`"${options.internalIp}" is not a valid IPv4 address`);
+            break;
+        case 'outside':
+            check.errors.push(`${ip} is outside the LAN (${lan?.ipAddress} / ${lan?.subnetMask})`);
+            break;
+        case 'reserved':
+            check.errors.push(`${ip} is the network or broadcast address, not a device`);
+            break;
+        case 'router':
+            check.warnings.push(`${ip} is the router itself; the port will reach the router's own services`);
+            break;
+        case 'pool':
+            // A DHCP reservation keeps the address fixed
+            if (context.reservations?.some(reservation => reservation.ip === ip)) break;
+            check.dynamicTarget = true;
+            check.warnings.push(`${ip} is handed out by DHCP (${lan?.dhcpStartIp} - ${lan?.dhcpEndIp}), so the device may get a different address later and the rule would stop working`);
+            break;
+        case 'static':
+            if (!check.targetLease && !context.reservations?.some(reservation => reservation.ip === ip)) {
+                check.warnings.push(`${ip} is outside the DHCP range, so the device must have this address set manually (no device is using it right now)`);
+            }
+            break;
+    }
+
+    return check;
+}
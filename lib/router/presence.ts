@@ -0,0 +1,285 @@
+/**
+ * Device Presence
+ *
+ * A background poller reads the clients of every logged-in router, updates
+ * the device inventory and records when devices join or leave. A MAC the
+ * router has never reported before raises a new-device alert, shown in the
+ * chat UI and posted to PRESENCE_WEBHOOK_URL when that is set.
+ */
+
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { prisma } from '@/prisma/prisma';
+import { createAdapter } from '@/lib/adapters/registry';
+import { getSessionStore, resolveStoreKind, type RouterSession } from './session-store';
+import { collectSightings, getDeviceStore, syncInventory, displayName, type InventoryDevice } from './device-inventory';
+
+// ============ TYPES ============
+
+export type DeviceEventType = 'joined' | 'left';
+
+export interface DeviceEventRecord {
+    routerIp: string;
+    mac: string;
+    type: DeviceEventType;
+    /** First time the router ever reported this MAC */
+    isNew: boolean;
+    /** Display name when the event happened (nickname, hostname or vendor) */
+    name: string | null;
+    ip: string | null;
+    vendor: string | null;
+}
+
+export interface DeviceEvent extends DeviceEventRecord {
+    id: string;
+    /** When the new-device alert was dismissed in the chat UI */
+    dismissedAt: Date | null;
+    createdAt: Date;
+}
+
+export interface DeviceEventFilter {
+    routerIps: string[];
+    type?: DeviceEventType;
+    /** Only new-device alerts */
+    newOnly?: boolean;
+    /** Only alerts nobody has dismissed yet */
+    undismissedOnly?: boolean;
+    since?: Date;
+    limit?: number;
+}
+
+export interface DeviceEventStore {
+    append(events: DeviceEventRecord[], at: Date): Promise<DeviceEvent[]>;
+    /** Newest first */
+    list(filter: DeviceEventFilter): Promise<DeviceEvent[]>;
+    /** Dismiss new-device alerts (all of them, or only `ids`), returning how many */
+    dismiss(routerIps: string[], ids?: string[]): Promise<number>;
+}
+
+// ============ STORES ============
+
+type DeviceEventRow = Omit<DeviceEvent, 'type'> & { type: string };
+
+function toEvent(row: DeviceEventRow): DeviceEvent {
+    return { ...row, type: row.type as DeviceEventType };
+}
+
+class PrismaDeviceEventStore implements DeviceEventStore {
+    async append(events: DeviceEventRecord[], at: Date): Promise<DeviceEvent[]> {
+        const rows = await prisma.$transaction(events.map(event => prisma.deviceEvent.create({
+            data: { ...event, createdAt: at },
+        })));
+        return rows.map(toEvent);
+    }
+
+    async list(filter: DeviceEventFilter): Promise<DeviceEvent[]> {
+        const rows = await prisma.deviceEvent.findMany({
+            where: {
+                routerIp: { in: filter.routerIps },
+                ...(filter.type ? { type: filter.type } : {}),
+                ...(filter.newOnly ? { isNew: true } : {}),
+                ...(filter.undismissedOnly ? { dismissedAt: null } : {}),
+                ...(filter.since ? { createdAt: { gte: filter.since } } : {}),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: filter.limit ?? 100,
+        });
+        return rows.map(toEvent);
+    }
+
+    async dismiss(routerIps: string[], ids?: string[]): Promise<number> {
+        const { count } = await prisma.deviceEvent.updateMany({
+            where: { routerIp: { in: routerIps }, isNew: true, dismissedAt: null, ...(ids ? { id: { in: ids } } : {}) },
+            data: { dismissedAt: new Date() },
+        });
+        return count;
+    }
+}
+
+class MemoryDeviceEventStore implements DeviceEventStore {
+    private events: DeviceEvent[] = [];
+
+    async append(events: DeviceEventRecord[], at: Date): Promise<DeviceEvent[]> {
+        const saved = events.map(event => ({ ...event, id: randomUUID(), dismissedAt: null, createdAt: at }));
+        this.events.push(...saved);
+        return saved.map(event => ({ ...event }));
+    }
+
+    async list(filter: DeviceEventFilter): Promise<DeviceEvent[]> {
+        return this.events
+            .filter(e => filter.routerIps.includes(e.routerIp))
+            .filter(e => !filter.type || e.type === filter.type)
+            .filter(e => !filter.newOnly || e.isNew)
+            .filter(e => !filter.undismissedOnly || !e.dismissedAt)
+            .filter(e => !filter.since || e.createdAt >= filter.since)
+            .reverse()
+            .slice(0, filter.limit ?? 100)
+            .map(e => ({ ...e }));
+    }
+
+    async dismiss(routerIps: string[], ids?: string[]): Promise<number> {
+        const now = new Date();
+        const alerts = this.events.filter(e =>
+            routerIps.includes(e.routerIp) && e.isNew && !e.dismissedAt && (!ids || ids.includes(e.id))
+        );
+        alerts.forEach(e => { e.dismissedAt = now; });
+        return alerts.length;
+    }
+}
+
+const globalForPresence = globalThis as unknown as {
+    deviceEventStore?: DeviceEventStore;
+    presencePoller?: ReturnType<typeof setInterval>;
+    presencePolling?: boolean;
+    /** Online MACs per router IP at the last poll */
+    presenceSnapshots?: Map<string, { online: Set<string>; polledAt: Date }>;
+};
+
+export function getDeviceEventStore(): DeviceEventStore {
+    if (!globalForPresence.deviceEventStore) {
+        globalForPresence.deviceEventStore = resolveStoreKind() === 'memory' ? new MemoryDeviceEventStore() : new PrismaDeviceEventStore();
+    }
+    return globalForPresence.deviceEventStore;
+}
+
+function getSnapshots(): Map<string, { online: Set<string>; polledAt: Date }> {
+    if (!globalForPresence.presenceSnapshots) {
+        globalForPresence.presenceSnapshots = new Map();
+    }
+    return globalForPresence.presenceSnapshots;
+}
+
+// ============ DIFFING ============
+
+/**
+ * Compare the router's devices with the previous poll.
+ * `known` is the inventory before this poll; without a previous poll only
+ * never-seen devices are reported (joins and leaves need a baseline), and a
+ * router whose inventory was empty is taken as the baseline itself.
+ */
+export function diffPresence(
+    routerIp: string,
+    devices: Array<InventoryDevice & { online: boolean }>,
+    known: Set<string>,
+    previous?: { online: Set<string>; polledAt: Date }
+): DeviceEventRecord[] {
+    const events: DeviceEventRecord[] = [];
+    const event = (device: InventoryDevice, type: DeviceEventType, isNew: boolean) => events.push({
+        routerIp, mac: device.mac, type, isNew, name: displayName(device), ip: device.ip, vendor: device.vendor,
+    });
+
+    for (const device of devices) {
+        // Also catches devices first added to the inventory by a chat request since the last poll
+        const isNew = previous ? device.firstSeen > previous.polledAt : known.size > 0 && !known.has(device.mac);
+        if (isNew) {
+            event(device, 'joined', true);
+        } else if (previous && device.online && !previous.online.has(device.mac)) {
+            event(device, 'joined', false);
+        } else if (previous && !device.online && previous.online.has(device.mac)) {
+            event(device, 'left', false);
+        }
+    }
+    return events;
+}
+
+// ============ NOTIFICATIONS ============
+
+/**
+ * Post new-device alerts to PRESENCE_WEBHOOK_URL (one request per device).
+ * `text` makes the payload readable by chat webhooks as-is.
+ */
+async function notifyWebhook(router: RouterSession, events: DeviceEvent[]): Promise<void> {
+    const url = process.env.PRESENCE_WEBHOOK_URL;
+    if (!url) return;
+
+    for (const event of events) {
+        const text = `New device on ${router.name}: ${event.name || event.mac} (${event.mac}${event.ip ? `, ${event.ip}` : ''}${event.vendor ? `, ${event.vendor}` : ''})`;
+        try {
+            await axios.post(url, {
+                event: 'device.new',
+                text,
+                router: { id: router.id, name: router.name, ip: router.routerIp },
+                device: { mac: event.mac, name: event.name, ip: event.ip, vendor: event.vendor },
+                seenAt: event.createdAt.toISOString(),
+            }, { timeout: 5000 });
+        } catch (error: unknown) {
+            console.error(`[Presence] Webhook failed for ${event.mac}:`, error instanceof Error ? error.message : error);
+        }
+    }
+}
+
+// ============ POLLING ============
+
+/**
+ * Read one router's clients, update the inventory and record what changed
+ */
+export async function pollRouter(session: RouterSession): Promise<DeviceEvent[]> {
+    const adapter = createAdapter(
+        session.adapterId,
+        session.routerIp,
+        session.cookies.map(c => `${c.name}=${c.value}`).join('; ')
+    );
+    const snapshots = getSnapshots();
+    const previous = snapshots.get(session.routerIp);
+
+    // Unreadable client lists come back empty (e.g. an expired session): not everyone leaving.
+    // Checked before the inventory is touched, so it doesn't mark every device offline either.
+    const sightings = await collectSightings(adapter);
+    const online = new Set(sightings.filter(s => s.online).map(s => s.mac));
+    if (online.size === 0 && (previous?.online.size ?? 0) > 0) {
+        console.warn(`[Presence] ${session.name} reported no clients; skipping (session may have expired)`);
+        return [];
+    }
+
+    const known = new Set((await getDeviceStore().list(session.routerIp)).map(d => d.mac));
+    const devices = await syncInventory(session.routerIp, adapter, sightings);
+
+    const polledAt = new Date();
+    const changes = diffPresence(session.routerIp, devices, known, previous);
+    snapshots.set(session.routerIp, { online, polledAt });
+    if (changes.length === 0) return [];
+
+    const events = await getDeviceEventStore().append(changes, polledAt);
+    const newDevices = events.filter(e => e.isNew);
+    if (newDevices.length > 0) {
+        console.log(`[Presence] ${newDevices.length} new device(s) on ${session.name}`);
+        await notifyWebhook(session, newDevices);
+    }
+    return events;
+}
+
+/**
+ * Poll every router someone is logged in to. Overlapping runs are skipped.
+ */
+export async function pollAllRouters(): Promise<void> {
+    if (globalForPresence.presencePolling) return;
+    globalForPresence.presencePolling = true;
+    try {
+        const sessions = await getSessionStore().listRouterSessions();
+        for (const session of sessions) {
+            try {
+                await pollRouter(session);
+            } catch (error: unknown) {
+                console.error(`[Presence] Failed to poll ${session.name} (${session.routerIp}):`, error instanceof Error ? error.message : error);
+            }
+        }
+    } catch (error: unknown) {
+        console.error('[Presence] Failed to list router sessions:', error instanceof Error ? error.message : error);
+    } finally {
+        globalForPresence.presencePolling = false;
+    }
+}
+
+/**
+ * Start polling every PRESENCE_POLL_INTERVAL seconds (default 120, 0 turns it off).
+ * Safe to call more than once.
+ */
+export function startPresencePoller(): void {
+    const seconds = Number(process.env.PRESENCE_POLL_INTERVAL ?? 120);
+    if (globalForPresence.presencePoller || !(seconds > 0)) return;
+
+    console.log(`[Presence] Polling connected devices every ${seconds}s`);
+    globalForPresence.presencePoller = setInterval(() => { void pollAllRouters(); }, seconds * 1000);
+    // Don't keep scripts alive just for the poller
+    globalForPresence.presencePoller.unref?.();
+}
@@ -0,0 +1,111 @@
+/**
+ * Postgres session store backed by the Prisma ClientSession/RouterSession models
+ */
+
+import { prisma } from '@/prisma/prisma';
+import type { ClientSessionData, RouterSession, SessionStore } from './session-store';
+
+type RouterSessionRow = {
+    routerId: string;
+    name: string;
+    routerIp: string;
+    sessionId: string;
+    cookies: unknown;
+    adapterId: string | null;
+    username: string | null;
+    encryptedCredentials: string | null;
+};
+
+function toRouterSession(row: RouterSessionRow): RouterSession {
+    return {
+        id: row.routerId,
+        name: row.name,
+        routerIp: row.routerIp,
+        sessionId: row.sessionId,
+        cookies: row.cookies as RouterSession['cookies'],
+        adapterId: row.adapterId ?? undefined,
+        username: row.username ?? undefined,
+        credentials: row.encryptedCredentials ?? undefined,
+    };
+}
+
+export class PrismaSessionStore implements SessionStore {
+    async get(clientSessionId: string): Promise<ClientSessionData | null> {
+        const session = await prisma.clientSession.findUnique({
+            where: { id: clientSessionId },
+            include: { routers: { orderBy: { createdAt: 'asc' } } },
+        });
+        if (!session) return null;
+
+        if (session.expiresAt.getTime() <= Date.now()) {
+            await this.delete(clientSessionId);
+            return null;
+        }
+
+        return {
+            routers: session.routers.map(toRouterSession),
+            activeRouterId: session.activeRouterId,
+            expiresAt: session.expiresAt,
+        };
+    }
+
+    async set(clientSessionId: string, data: ClientSessionData): Promise<void> {
+        // Replace the router rows wholesale; a client has only a handful of routers
+        await prisma.$transaction([
+            prisma.clientSession.upsert({
+                where: { id: clientSessionId },
+                create: { id: clientSessionId, activeRouterId: data.activeRouterId, expiresAt: data.expiresAt },
+                update: { activeRouterId: data.activeRouterId, expiresAt: data.expiresAt },
+            }),
+            prisma.routerSession.deleteMany({ where: { clientSessionId } }),
+            prisma.routerSession.createMany({
+                data: data.routers.map(router => ({
+                    clientSessionId,
+                    routerId: router.id,
+                    name: router.name,
+                    adapterId: router.adapterId ?? null,
+                    routerIp: router.routerIp,
+                    sessionId: router.sessionId,
+                    cookies: router.cookies,
+                    username: router.username ?? null,
+                    encryptedCredentials: router.credentials ?? null,
+                    expiresAt: data.expiresAt,
+                })),
+            }),
+        ]);
+    }
+
+    async delete(clientSessionId: string): Promise<void> {
+        // Router rows are removed by the cascading foreign key
+        await prisma.clientSession.deleteMany({ where: { id: clientSessionId } });
+    }
+
+    async findRouterSession(filter: { routerIp?: string; routerId?: string } = {}): Promise<RouterSession | null> {
+        const row = await prisma.routerSession.findFirst({
+            where: {
+                routerIp: filter.routerIp,
+                routerId: filter.routerId,
+                OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+            },
+            orderBy: { updatedAt: 'desc' },
+        });
+        return row ? toRouterSession(row) : null;
+    }
+
+    async listRouterSessions(): Promise<RouterSession[]> {
+        // `distinct` keeps the first row per IP in the requested order
+        const rows = await prisma.routerSession.findMany({
+            where: { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+            orderBy: { updatedAt: 'desc' },
+            distinct: ['routerIp'],
+        });
+        return rows.map(toRouterSession);
+    }
+
+    async purgeExpired(): Promise<number> {
+        const { count } = await prisma.clientSession.deleteMany({
+            where: { expiresAt: { lte: new Date() } },
+        });
+        return count;
+    }
+}
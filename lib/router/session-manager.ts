@@ -1,21 +1,33 @@
 import { cookies } from 'next/headers';
-import puppeteer, { Browser, Page } from 'puppeteer';
+import type { Browser, Page } from 'puppeteer';
 import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { DEFAULT_ADAPTER_ID, DEFAULT_LOGIN_STRATEGIES, getAdapterDefinition } from '@/lib/adapters/registry';
+import { httpLogin, pickSessionId } from './http-login';
+import { getSessionStore, ClientSessionData, RouterSession } from './session-store';
+import { decryptCredentials, encryptCredentials, isCredentialStorageEnabled } from './credential-vault';
 
-// Cookie name for storing router session
+export type { RouterSession } from './session-store';
+
+// Cookie holding the opaque client session id (router cookies stay server-side)
 const ROUTER_SESSION_COOKIE = 'router_session';
 
+// Idle time after which a client session expires (sliding)
+const SESSION_TTL_MS = parseFloat(process.env.SESSION_TTL_HOURS || '12') * 60 * 60 * 1000;
+
+// Id given to a session saved before multiple routers were supported
+const LEGACY_ROUTER_ID = 'main';
+
 // Types
 export interface RouterCredentials {
     ip: string;
     username: string;
     password: string;
-}
-
-export interface RouterSession {
-    routerIp: string;
-    sessionId: string;
-    cookies: Array<{ name: string; value: string }>;
+    adapterId?: string;
+    /** Display name, e.g. "Main gateway" or "Upstairs AP" */
+    name?: string;
+    /** Store the credentials encrypted so expired sessions can re-login automatically */
+    remember?: boolean;
 }
 
 export interface SessionResult {
@@ -23,27 +35,140 @@ export interface SessionResult {
     sessionId?: string;
     cookies?: Array<{ name: string; value: string }>;
     message?: string;
+    routerId?: string;
+    credentialsSaved?: boolean;
+}
+
+type ClientSession = Pick<ClientSessionData, 'routers' | 'activeRouterId'>;
+
+const EMPTY_SESSION: ClientSession = { routers: [], activeRouterId: null };
+
+/**
+ * Write the client session id cookie
+ */
+async function setSessionCookie(clientSessionId: string): Promise<void> {
+    const cookieStore = await cookies();
+
+    // No maxAge = session cookie (clears when browser closes);
+    // expiry is also enforced server-side by the session store
+    cookieStore.set(ROUTER_SESSION_COOKIE, clientSessionId, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        path: '/',
+    });
 }
 
 /**
- * Get the current router session from httpOnly cookie
+ * Read all router sessions for the current client from the session store
  */
-export async function getSession(): Promise<RouterSession | null> {
+async function readClientSession(): Promise<ClientSession> {
     try {
         const cookieStore = await cookies();
         const sessionCookie = cookieStore.get(ROUTER_SESSION_COOKIE);
 
         if (!sessionCookie?.value) {
-            return null;
+            return EMPTY_SESSION;
+        }
+
+        // Cookies written before the server-side store hold the session JSON itself
+        if (sessionCookie.value.startsWith('{')) {
+            const parsed = JSON.parse(sessionCookie.value);
+            const session: ClientSession = Array.isArray(parsed.routers)
+                ? parsed
+                : { routers: [{ ...parsed, id: LEGACY_ROUTER_ID, name: 'Main Router' }], activeRouterId: LEGACY_ROUTER_ID };
+            await writeClientSession(session, null);
+            return session;
+        }
+
+        const store = getSessionStore();
+        const data = await store.get(sessionCookie.value);
+        if (!data) {
+            return EMPTY_SESSION;
+        }
+
+        // Slide the expiry once half of the idle window has passed
+        if (data.expiresAt.getTime() - Date.now() < SESSION_TTL_MS / 2) {
+            await store.set(sessionCookie.value, { ...data, expiresAt: new Date(Date.now() + SESSION_TTL_MS) });
         }
 
-        // Parse the JSON stored in the cookie
-        const session = JSON.parse(sessionCookie.value) as RouterSession;
-        return session;
+        return { routers: data.routers, activeRouterId: data.activeRouterId };
     } catch (error) {
-        console.error('[Cookie Session] Error reading session:', error);
-        return null;
+        console.error('[Session] Error reading session:', error);
+        return EMPTY_SESSION;
+    }
+}
+
+/**
+ * Save all router sessions for the current client, creating a client session id if needed
+ */
+async function writeClientSession(data: ClientSession, clientSessionId?: string | null): Promise<void> {
+    const cookieStore = await cookies();
+    const store = getSessionStore();
+    const current = clientSessionId === undefined ? cookieStore.get(ROUTER_SESSION_COOKIE)?.value : clientSessionId;
+    const existingId = current && !current.startsWith('{') ? current : null;
+
+    if (data.routers.length === 0) {
+        if (existingId) await store.delete(existingId);
+        cookieStore.delete(ROUTER_SESSION_COOKIE);
+        return;
+    }
+
+    const id = existingId ?? randomBytes(32).toString('hex');
+    await store.set(id, { ...data, expiresAt: new Date(Date.now() + SESSION_TTL_MS) });
+    if (id !== existingId) {
+        await setSessionCookie(id);
+    }
+}
+
+/**
+ * Get the opaque client session id from the cookie (for work that outlives the request)
+ */
+export async function getClientSessionId(): Promise<string | null> {
+    const cookieStore = await cookies();
+    const value = cookieStore.get(ROUTER_SESSION_COOKIE)?.value;
+    return value && !value.startsWith('{') ? value : null;
+}
+
+/**
+ * Turn a display name into a router id that is unique among `taken`
+ */
+function makeRouterId(name: string, taken: string[]): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'router';
+    let id = base;
+    for (let i = 2; taken.includes(id); i++) {
+        id = `${base}-${i}`;
+    }
+    return id;
+}
+
+/**
+ * Get all logged-in routers
+ */
+export async function getSessions(): Promise<RouterSession[]> {
+    const { routers } = await readClientSession();
+    return routers;
+}
+
+/**
+ * Get the id of the router chat requests target by default
+ */
+export async function getActiveRouterId(): Promise<string | null> {
+    const { routers, activeRouterId } = await readClientSession();
+    return activeRouterId ?? routers[0]?.id ?? null;
+}
+
+/**
+ * Get a router session for the current client.
+ * Without an id, returns the active router.
+ */
+export async function getSession(routerId?: string): Promise<RouterSession | null> {
+    const { routers, activeRouterId } = await readClientSession();
+
+    if (routerId) {
+        return routers.find(r => r.id === routerId) ?? null;
     }
+    return routers.find(r => r.id === activeRouterId) ?? routers[0] ?? null;
 }
 
 /**
@@ -76,47 +201,86 @@ async function testSessionWithRouter(routerIp: string, sessionCookies: Array<{ n
 
         return response.status === 200;
     } catch (error) {
-        console.error('[Cookie Session] Error testing session:', error);
+        console.error('[Session] Error testing session:', error);
         return false;
     }
 }
 
 /**
- * Save session to httpOnly cookie
+ * Save (or replace) a router session for the current client and make it active
  */
 export async function saveSession(session: RouterSession): Promise<void> {
-    const cookieStore = await cookies();
+    const data = await readClientSession();
+    const routers = data.routers.filter(r => r.id !== session.id);
+    routers.push(session);
 
-    // Store session as JSON in httpOnly cookie
-    // No maxAge = session cookie (clears when browser closes)
-    cookieStore.set(ROUTER_SESSION_COOKIE, JSON.stringify(session), {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        path: '/',
-        // No maxAge = session cookie, clears when browser closes
-    });
+    await writeClientSession({ routers, activeRouterId: session.id });
+    console.log(`[Session] Session for ${session.id} saved`);
+}
+
+/**
+ * Choose the router that chat requests target by default
+ */
+export async function setActiveRouter(routerId: string): Promise<boolean> {
+    const data = await readClientSession();
+    if (!data.routers.some(r => r.id === routerId)) {
+        return false;
+    }
 
-    console.log('[Cookie Session] Session saved to cookie');
+    await writeClientSession({ ...data, activeRouterId: routerId });
+    return true;
 }
 
 /**
- * Clear the router session cookie
+ * Rename a logged-in router (its id stays the same)
+ */
+export async function renameRouter(routerId: string, name: string): Promise<boolean> {
+    const data = await readClientSession();
+    const session = data.routers.find(r => r.id === routerId);
+    if (!session) {
+        return false;
+    }
+
+    session.name = name;
+    await writeClientSession(data);
+    return true;
+}
+
+/**
+ * Log out of a single router
+ */
+export async function removeSession(routerId: string): Promise<void> {
+    const data = await readClientSession();
+    const routers = data.routers.filter(r => r.id !== routerId);
+    const activeRouterId = data.activeRouterId === routerId ? routers[0]?.id ?? null : data.activeRouterId;
+
+    await writeClientSession({ routers, activeRouterId });
+    console.log(`[Session] Session for ${routerId} cleared`);
+}
+
+/**
+ * Clear all router sessions
  */
 export async function clearSession(): Promise<void> {
     const cookieStore = await cookies();
+    const clientSessionId = cookieStore.get(ROUTER_SESSION_COOKIE)?.value;
+    if (clientSessionId && !clientSessionId.startsWith('{')) {
+        await getSessionStore().delete(clientSessionId);
+    }
     cookieStore.delete(ROUTER_SESSION_COOKIE);
-    console.log('[Cookie Session] Session cleared');
+    console.log('[Session] Session cleared');
 }
 
 /**
- * Perform router login using Puppeteer
+ * Perform router login using Puppeteer (fallback for UIs that need JavaScript)
  */
 async function performRouterLogin(credentials: RouterCredentials): Promise<{ sessionId: string; cookies: Array<{ name: string; value: string }> }> {
     let browser: Browser | null = null;
 
     try {
-        console.log('[Cookie Session] Launching browser for login...');
+        console.log('[Session] Launching browser for login...');
+        // Loaded on demand so the HTTP login path never pulls in Chromium
+        const { default: puppeteer } = await import('puppeteer');
         browser = await puppeteer.launch({
             headless: true,
             args: ['--no-sandbox', '--disable-setuid-sandbox']
@@ -130,7 +294,7 @@ async function performRouterLogin(credentials: RouterCredentials): Promise<{ ses
             password: credentials.password
         });
 
-        console.log(`[Cookie Session] Navigating to http://${credentials.ip}/`);
+        console.log(`[Session] Navigating to http://${credentials.ip}/`);
         const response = await page.goto(`http://${credentials.ip}/`, {
             waitUntil: 'domcontentloaded',
             timeout: 15000
@@ -146,61 +310,112 @@ async function performRouterLogin(credentials: RouterCredentials): Promise<{ ses
 
         // Extract cookies
         const browserCookies = await page.cookies();
-        console.log('[Cookie Session] Retrieved cookies:', browserCookies.map(c => c.name));
-
-        // Find session cookie
-        const sessionCookie = browserCookies.find(
-            c => c.name.toLowerCase().includes('session') ||
-                c.name.toLowerCase().includes('sid') ||
-                c.name.toLowerCase().includes('auth')
-        );
-
-        const sessionId = sessionCookie?.value || browserCookies[0]?.value || 'NO_SESSION';
+        console.log('[Session] Retrieved cookies:', browserCookies.map(c => c.name));
 
         // Convert to simple format
         const cookies = browserCookies.map(c => ({ name: c.name, value: c.value }));
+        const sessionId = pickSessionId(cookies);
 
         await browser.close();
-        console.log('[Cookie Session] Login successful');
+        console.log('[Session] Login successful');
 
         return { sessionId, cookies };
     } catch (error) {
         if (browser) {
             await browser.close();
         }
-        console.error('[Cookie Session] Login failed:', error);
+        console.error('[Session] Login failed:', error);
         throw error;
     }
 }
 
 /**
- * Main function: Login to router and save session to cookie
+ * Log in to a router without saving anything.
+ * Adapters may provide their own login (e.g. OpenWrt's ubus session login);
+ * otherwise their login strategies are tried in order.
+ */
+async function loginToRouter(credentials: RouterCredentials): Promise<{ sessionId: string; cookies: Array<{ name: string; value: string }> }> {
+    const definition = getAdapterDefinition(credentials.adapterId || DEFAULT_ADAPTER_ID);
+    if (!definition) {
+        throw new Error(`Unsupported router adapter "${credentials.adapterId}"`);
+    }
+    if (definition.login) {
+        return definition.login(credentials.ip, credentials.username, credentials.password);
+    }
+
+    const strategies = definition.loginStrategies ?? DEFAULT_LOGIN_STRATEGIES;
+    let lastError: unknown = new Error('No login strategy available');
+
+    for (const strategy of strategies) {
+        try {
+            if (strategy === 'http') {
+                const started = Date.now();
+                const result = await httpLogin(credentials.ip, credentials.username, credentials.password);
+                console.log(`[Session] HTTP login succeeded in ${Date.now() - started}ms`);
+                return result;
+            }
+            return await performRouterLogin(credentials);
+        } catch (error: unknown) {
+            // Wrong credentials won't get better with another strategy
+            if (error instanceof Error && error.message === 'Invalid credentials') throw error;
+            console.warn(`[Session] ${strategy} login failed, trying next strategy:`, error instanceof Error ? error.message : error);
+            lastError = error;
+        }
+    }
+
+    throw lastError;
+}
+
+/**
+ * Main function: Login to router and save the session
  */
 export async function loginAndSaveSession(credentials: RouterCredentials): Promise<SessionResult> {
     try {
-        console.log(`[Cookie Session] Logging in to ${credentials.ip}`);
+        console.log(`[Session] Logging in to ${credentials.ip}`);
 
         // Perform login
-        const { sessionId, cookies: routerCookies } = await performRouterLogin(credentials);
+        const { sessionId, cookies: routerCookies } = await loginToRouter(credentials);
+
+        // Logging in again to a known router replaces its session but keeps its id
+        const existing = await getSessions();
+        const previous = existing.find(r => r.routerIp === credentials.ip);
+        const name = credentials.name?.trim() || previous?.name || `Router ${credentials.ip}`;
+        const id = previous?.id ?? makeRouterId(name, existing.map(r => r.id));
 
         // Create session object
         const session: RouterSession = {
+            id,
+            name,
             routerIp: credentials.ip,
             sessionId,
-            cookies: routerCookies
+            cookies: routerCookies,
+            adapterId: credentials.adapterId || DEFAULT_ADAPTER_ID,
+            username: credentials.username
         };
 
-        // Save to httpOnly cookie
+        // Opt-in: keep the credentials (encrypted) for automatic re-login
+        const credentialsSaved = !!credentials.remember && isCredentialStorageEnabled();
+        if (credentialsSaved) {
+            session.credentials = encryptCredentials({ username: credentials.username, password: credentials.password });
+        } else if (credentials.remember) {
+            console.warn('[Session] ROUTER_CREDENTIALS_KEY is not set; credentials not stored');
+        }
+
+        // Save to the session store (the browser only gets an opaque id)
         await saveSession(session);
 
         return {
             success: true,
             sessionId,
             cookies: routerCookies,
-            message: 'Login successful'
+            message: credentials.remember && !credentialsSaved
+                ? 'Login successful, but automatic re-login is not configured on the server'
+                : 'Login successful',
+            routerId: id,
+            credentialsSaved
         };
     } catch (error: any) {
-        console.error('[Cookie Session] Login error:', error);
+        console.error('[Session] Login error:', error);
         return {
             success: false,
             message: error?.message || 'Failed to login'
@@ -208,11 +423,40 @@ export async function loginAndSaveSession(credentials: RouterCredentials): Promi
     }
 }
 
+/**
+ * Log in again with the stored credentials and update the session store.
+ * Works outside a request (no cookies needed), so streaming responses,
+ * scripts and background jobs can use it. Returns the new cookie string.
+ */
+export async function reloginRouter(clientSessionId: string, routerId: string): Promise<string> {
+    const store = getSessionStore();
+    const data = await store.get(clientSessionId);
+    const session = data?.routers.find(r => r.id === routerId);
+
+    const credentials = session?.credentials ? decryptCredentials(session.credentials) : null;
+    if (!data || !session || !credentials) {
+        throw new Error('Session expired');
+    }
+
+    console.log(`[Session] Re-logging in to ${session.routerIp}`);
+    const { sessionId, cookies: routerCookies } = await loginToRouter({
+        ip: session.routerIp,
+        adapterId: session.adapterId,
+        ...credentials
+    });
+
+    session.sessionId = sessionId;
+    session.cookies = routerCookies;
+    await store.set(clientSessionId, data);
+
+    return routerCookies.map(c => `${c.name}=${c.value}`).join('; ');
+}
+
 /**
  * Get valid session or return null if expired/invalid
  */
-export async function getValidSession(): Promise<RouterSession | null> {
-    const session = await getSession();
+export async function getValidSession(routerId?: string): Promise<RouterSession | null> {
+    const session = await getSession(routerId);
 
     if (!session) {
         return null;
@@ -222,8 +466,8 @@ export async function getValidSession(): Promise<RouterSession | null> {
     const isValid = await testSessionWithRouter(session.routerIp, session.cookies);
 
     if (!isValid) {
-        console.log('[Cookie Session] Session expired, clearing');
-        await clearSession();
+        console.log(`[Session] Session for ${session.id} expired, clearing`);
+        await removeSession(session.id);
         return null;
     }
 
@@ -0,0 +1,93 @@
+/**
+ * Router Session Store
+ *
+ * Server-side storage for router sessions. The browser cookie only holds an
+ * opaque client session id; the router cookies live here, so API routes,
+ * scripts and background jobs all see the same sessions.
+ */
+
+import { PrismaSessionStore } from './prisma-session-store';
+import { MemorySessionStore } from './memory-session-store';
+
+// ============ TYPES ============
+
+export interface RouterSession {
+    /** Short id used to target this router from chat and tools (e.g. "upstairs-ap") */
+    id: string;
+    name: string;
+    routerIp: string;
+    sessionId: string;
+    cookies: Array<{ name: string; value: string }>;
+    /** Registry id of the adapter that talks to this router */
+    adapterId?: string;
+    /** Router login used for this session (not secret; shown in change history) */
+    username?: string;
+    /** Encrypted username/password for automatic re-login (opt-in, never sent to the browser) */
+    credentials?: string;
+}
+
+// Everything stored for one client (browser or script) session
+export interface ClientSessionData {
+    routers: RouterSession[];
+    activeRouterId: string | null;
+    expiresAt: Date;
+}
+
+export interface SessionStore {
+    /** Load a client session (null if unknown or expired) */
+    get(clientSessionId: string): Promise<ClientSessionData | null>;
+    /** Create or replace a client session */
+    set(clientSessionId: string, data: ClientSessionData): Promise<void>;
+    delete(clientSessionId: string): Promise<void>;
+    /**
+     * Most recently updated, unexpired router session across all clients.
+     * Used by scripts and background jobs that have no cookie.
+     */
+    findRouterSession(filter?: { routerIp?: string; routerId?: string }): Promise<RouterSession | null>;
+    /**
+     * Most recently updated, unexpired session for each router IP across all
+     * clients. Used by background jobs that watch every logged-in router.
+     */
+    listRouterSessions(): Promise<RouterSession[]>;
+    /** Delete expired client sessions, returning how many were removed */
+    purgeExpired(): Promise<number>;
+}
+
+// ============ STORE SELECTION ============
+
+/**
+ * Which backend the stores use: SESSION_STORE=memory|prisma, defaulting to
+ * Prisma when a database is configured. Every persistent store follows it.
+ */
+export function resolveStoreKind(): 'memory' | 'prisma' {
+    const kind = process.env.SESSION_STORE || (process.env.DATABASE_URL ? 'prisma' : 'memory');
+    return kind === 'memory' ? 'memory' : 'prisma';
+}
+
+function createSessionStore(): SessionStore {
+    if (resolveStoreKind() === 'memory') {
+        console.warn('[Session Store] Using in-memory store; sessions are lost on restart');
+        return new MemorySessionStore();
+    }
+    return new PrismaSessionStore();
+}
+
+// Kept on globalThis so Next.js dev reloads don't drop in-memory sessions
+const globalForStore = globalThis as unknown as { routerSessionStore?: SessionStore };
+
+/**
+ * Get the process-wide session store
+ */
+export function getSessionStore(): SessionStore {
+    if (!globalForStore.routerSessionStore) {
+        globalForStore.routerSessionStore = createSessionStore();
+    }
+    return globalForStore.routerSessionStore;
+}
+
+/**
+ * Replace the session store (e.g. with a MemorySessionStore in tests)
+ */
+export function setSessionStore(store: SessionStore): void {
+    globalForStore.routerSessionStore = store;
+}
@@ -17,8 +17,53 @@ import * as Prisma from './internal/prismaNamespaceBrowser'
 export { Prisma }
 export * as $Enums from './enums'
 export * from './enums';
+/**
+ * Model ClientSession
+ * 
+ */
+export type ClientSession = Prisma.ClientSessionModel
 /**
  * Model RouterSession
  * 
  */
 export type RouterSession = Prisma.RouterSessionModel
+/**
+ * Model Conversation
+ * 
+ */
+export type Conversation = Prisma.ConversationModel
+/**
+ * Model Message
+ * 
+ */
+export type Message = Prisma.MessageModel
+/**
+ * Model ConfigSnapshot
+ * 
+ */
+export type ConfigSnapshot = Prisma.ConfigSnapshotModel
+/**
+ * Model AuditEntry
+ * 
+ */
+export type AuditEntry = Prisma.AuditEntryModel
+/**
+ * Model Device
+ * 
+ */
+export type Device = Prisma.DeviceModel
+/**
+ * Model DeviceEvent
+ * 
+ */
+export type DeviceEvent = Prisma.DeviceEventModel
+/**
+ * Model MetricSample
+ * 
+ */
+export type MetricSample = Prisma.MetricSampleModel
+/**
+ * Model SpeedTest
+ * 
+ */
+export type SpeedTest = Prisma.SpeedTestModel
@@ -29,8 +29,8 @@ export * from "./enums"
  * @example
  * ```
  * const prisma = new PrismaClient()
- * // Fetch zero or more RouterSessions
- * const routerSessions = await prisma.routerSession.findMany()
+ * // Fetch zero or more ClientSessions
+ * const clientSessions = await prisma.clientSession.findMany()
  * ```
  * 
  * Read more in our [docs](https://pris.ly/d/client).
@@ -39,8 +39,53 @@ export const PrismaClient = $Class.getPrismaClientClass()
 export type PrismaClient<LogOpts extends Prisma.LogLevel = never, OmitOpts extends Prisma.PrismaClientOptions["omit"] = Prisma.PrismaClientOptions["omit"], ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = $Class.PrismaClient<LogOpts, OmitOpts, ExtArgs>
 export { Prisma }
 
+/**
+ * Model ClientSession
+ * 
+ */
+export type ClientSession = Prisma.ClientSessionModel
 /**
  * Model RouterSession
  * 
  */
 export type RouterSession = Prisma.RouterSessionModel
+/**
+ * Model Conversation
+ * 
+ */
+export type Conversation = Prisma.ConversationModel
+/**
+ * Model Message
+ * 
+ */
+export type Message = Prisma.MessageModel
+/**
+ * Model ConfigSnapshot
+ * 
+ */
+export type ConfigSnapshot = Prisma.ConfigSnapshotModel
+/**
+ * Model AuditEntry
+ * 
+ */
+export type AuditEntry = Prisma.AuditEntryModel
+/**
+ * Model Device
+ * 
+ */
+export type Device = Prisma.DeviceModel
+/**
+ * Model DeviceEvent
+ * 
+ */
+export type DeviceEvent = Prisma.DeviceEventModel
+/**
+ * Model MetricSample
+ * 
+ */
+export type MetricSample = Prisma.MetricSampleModel
+/**
+ * Model SpeedTest
+ * 
+ */
+export type SpeedTest = Prisma.SpeedTestModel
@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.1.0",
   "engineVersion": "ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../prisma/generated\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel RouterSession {\n  id        String    @id @default(uuid())\n  routerIp  String    @map(\"router_ip\")\n  sessionId String    @map(\"session_id\")\n  cookies   Json\n  expiresAt DateTime? @map(\"expires_at\")\n  createdAt DateTime  @default(now()) @map(\"created_at\")\n  updatedAt DateTime  @updatedAt @map(\"updated_at\")\n\n  @@index([routerIp])\n  @@index([expiresAt])\n  @@map(\"router_sessions\")\n}\n",
+  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../prisma/generated\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// One browser (or script) session; only its id is stored in the cookie\nmodel ClientSession {\n  id             String          @id\n  activeRouterId String?         @map(\"active_router_id\")\n  expiresAt      DateTime        @map(\"expires_at\")\n  createdAt      DateTime        @default(now()) @map(\"created_at\")\n  updatedAt      DateTime        @updatedAt @map(\"updated_at\")\n  routers        RouterSession[]\n\n  @@index([expiresAt])\n  @@map(\"client_sessions\")\n}\n\nmodel RouterSession {\n  id                   String         @id @default(uuid())\n  clientSessionId      String?        @map(\"client_session_id\")\n  clientSession        ClientSession? @relation(fields: [clientSessionId], references: [id], onDelete: Cascade)\n  routerId             String         @default(\"main\") @map(\"router_id\")\n  name                 String         @default(\"Main Router\")\n  adapterId            String?        @map(\"adapter_id\")\n  routerIp             String         @map(\"router_ip\")\n  sessionId            String         @map(\"session_id\")\n  cookies              Json\n  // Router login the session was created with (recorded as the user in change history)\n  username             String?\n  // Opt-in, AES-GCM encrypted username/password used to re-login automatically\n  encryptedCredentials String?        @map(\"encrypted_credentials\")\n  expiresAt            DateTime?      @map(\"expires_at\")\n  createdAt            DateTime       @default(now()) @map(\"created_at\")\n  updatedAt            DateTime       @updatedAt @map(\"updated_at\")\n\n  @@unique([clientSessionId, routerId])\n  @@index([routerIp])\n  @@index([expiresAt])\n  @@map(\"router_sessions\")\n}\n\n// A chat thread, listed in the sidebar for the router it was started on\nmodel Conversation {\n  id         String    @id @default(uuid())\n  title      String\n  routerIp   String?   @map(\"router_ip\")\n  routerName String?   @map(\"router_name\")\n  createdAt  DateTime  @default(now()) @map(\"created_at\")\n  updatedAt  DateTime  @updatedAt @map(\"updated_at\")\n  messages   Message[]\n\n  @@index([routerIp, updatedAt])\n  @@map(\"conversations\")\n}\n\nmodel Message {\n  id             String       @id @default(uuid())\n  conversationId String       @map(\"conversation_id\")\n  conversation   Conversation @relation(fields: [conversationId], references: [id], onDelete: Cascade)\n  role           String\n  content        String\n  createdAt      DateTime     @default(now()) @map(\"created_at\")\n\n  @@index([conversationId, createdAt])\n  @@map(\"messages\")\n}\n\n// Settings read right before a configuration write, so the write can be reverted\nmodel ConfigSnapshot {\n  id             String    @id @default(uuid())\n  routerIp       String    @map(\"router_ip\")\n  routerName     String?   @map(\"router_name\")\n  area           String\n  operation      String\n  args           Json\n  before         Json\n  user           String?\n  chatMessage    String?   @map(\"chat_message\")\n  conversationId String?   @map(\"conversation_id\")\n  createdAt      DateTime  @default(now()) @map(\"created_at\")\n  revertedAt     DateTime? @map(\"reverted_at\")\n\n  @@index([routerIp, createdAt])\n  @@map(\"config_snapshots\")\n}\n\nmodel AuditEntry {\n  id             String   @id @default(uuid())\n  routerIp       String   @map(\"router_ip\")\n  routerName     String?  @map(\"router_name\")\n  routerId       String?  @map(\"router_id\")\n  sessionId      String?  @map(\"session_id\")\n  user           String?\n  toolName       String   @map(\"tool_name\")\n  args           Json\n  before         Json?\n  after          Json?\n  outcome        String\n  result         String\n  conversationId String?  @map(\"conversation_id\")\n  messageId      String?  @map(\"message_id\")\n  createdAt      DateTime @default(now()) @map(\"created_at\")\n\n  @@index([routerIp, createdAt])\n  @@index([toolName, createdAt])\n  @@map(\"audit_log\")\n}\n\n// A device seen on a router's network, with the nickname and owner users gave it\nmodel Device {\n  id         String   @id @default(uuid())\n  routerIp   String   @map(\"router_ip\")\n  mac        String\n  hostname   String?\n  ip         String?\n  vendor     String?\n  nickname   String?\n  owner      String?\n  // How it was last connected: \"wifi\", \"wired\" or \"unknown\"\n  connection String   @default(\"unknown\")\n  firstSeen  DateTime @default(now()) @map(\"first_seen\")\n  lastSeen   DateTime @default(now()) @map(\"last_seen\")\n\n  @@unique([routerIp, mac])\n  @@index([routerIp, lastSeen])\n  @@map(\"devices\")\n}\n\nmodel DeviceEvent {\n  id          String    @id @default(uuid())\n  routerIp    String    @map(\"router_ip\")\n  mac         String\n  // \"joined\" or \"left\"\n  type        String\n  // First time this MAC was ever seen on the router\n  isNew       Boolean   @default(false) @map(\"is_new\")\n  name        String?\n  ip          String?\n  vendor      String?\n  // When a new-device alert was dismissed in the chat UI\n  dismissedAt DateTime? @map(\"dismissed_at\")\n  createdAt   DateTime  @default(now()) @map(\"created_at\")\n\n  @@index([routerIp, createdAt])\n  @@map(\"device_events\")\n}\n\nmodel MetricSample {\n  id        String   @id @default(uuid())\n  routerIp  String   @map(\"router_ip\")\n  // e.g. \"dsl.snrDown\"; see METRICS in lib/router/metrics.ts\n  metric    String\n  value     Float\n  sampledAt DateTime @default(now()) @map(\"sampled_at\")\n\n  @@index([routerIp, metric, sampledAt])\n  @@index([sampledAt])\n  @@map(\"metric_samples\")\n}\n\nmodel SpeedTest {\n  id                String   @id @default(uuid())\n  // Base URL of the endpoint that was tested against\n  server            String\n  downloadMbps      Float?   @map(\"download_mbps\")\n  uploadMbps        Float?   @map(\"upload_mbps\")\n  // Idle latency and jitter, then average latency while each direction was saturated\n  latencyMs         Float?   @map(\"latency_ms\")\n  jitterMs          Float?   @map(\"jitter_ms\")\n  downloadLatencyMs Float?   @map(\"download_latency_ms\")\n  uploadLatencyMs   Float?   @map(\"upload_latency_ms\")\n  bufferbloatMs     Float?   @map(\"bufferbloat_ms\")\n  // A+ to F, from the bufferbloat\n  grade             String?\n  error             String?\n  createdAt         DateTime @default(now()) @map(\"created_at\")\n\n  @@index([createdAt])\n  @@map(\"speed_tests\")\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"RouterSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"routerIp\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_ip\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"session_id\"},{\"name\":\"cookies\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"expires_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"router_sessions\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"ClientSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"activeRouterId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"active_router_id\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"expires_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"routers\",\"kind\":\"object\",\"type\":\"RouterSession\",\"relationName\":\"ClientSessionToRouterSession\"}],\"dbName\":\"client_sessions\"},\"RouterSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"clientSessionId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"client_session_id\"},{\"name\":\"clientSession\",\"kind\":\"object\",\"type\":\"ClientSession\",\"relationName\":\"ClientSessionToRouterSession\"},{\"name\":\"routerId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_id\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"adapterId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"adapter_id\"},{\"name\":\"routerIp\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_ip\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"session_id\"},{\"name\":\"cookies\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedCredentials\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"encrypted_credentials\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"expires_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"router_sessions\"},\"Conversation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"routerIp\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_ip\"},{\"name\":\"routerName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_name\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"messages\",\"kind\":\"object\",\"type\":\"Message\",\"relationName\":\"ConversationToMessage\"}],\"dbName\":\"conversations\"},\"Message\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"conversationId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"conversation_id\"},{\"name\":\"conversation\",\"kind\":\"object\",\"type\":\"Conversation\",\"relationName\":\"ConversationToMessage\"},{\"name\":\"role\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":\"messages\"},\"ConfigSnapshot\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"routerIp\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_ip\"},{\"name\":\"routerName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_name\"},{\"name\":\"area\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"args\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"before\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"user\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chatMessage\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"chat_message\"},{\"name\":\"conversationId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"conversation_id\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"revertedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"reverted_at\"}],\"dbName\":\"config_snapshots\"},\"AuditEntry\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"routerIp\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_ip\"},{\"name\":\"routerName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_name\"},{\"name\":\"routerId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_id\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"session_id\"},{\"name\":\"user\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toolName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tool_name\"},{\"name\":\"args\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"before\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"after\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"outcome\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"result\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"conversationId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"conversation_id\"},{\"name\":\"messageId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"message_id\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":\"audit_log\"},\"Device\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"routerIp\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_ip\"},{\"name\":\"mac\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hostname\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ip\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"vendor\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nickname\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"owner\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"connection\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstSeen\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"first_seen\"},{\"name\":\"lastSeen\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_seen\"}],\"dbName\":\"devices\"},\"DeviceEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"routerIp\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_ip\"},{\"name\":\"mac\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isNew\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_new\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ip\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"vendor\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dismissedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"dismissed_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":\"device_events\"},\"MetricSample\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"routerIp\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"router_ip\"},{\"name\":\"metric\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"sampledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"sampled_at\"}],\"dbName\":\"metric_samples\"},\"SpeedTest\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"server\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"downloadMbps\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"download_mbps\"},{\"name\":\"uploadMbps\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"upload_mbps\"},{\"name\":\"latencyMs\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"latency_ms\"},{\"name\":\"jitterMs\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"jitter_ms\"},{\"name\":\"downloadLatencyMs\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"download_latency_ms\"},{\"name\":\"uploadLatencyMs\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"upload_latency_ms\"},{\"name\":\"bufferbloatMs\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"bufferbloat_ms\"},{\"name\":\"grade\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"}],\"dbName\":\"speed_tests\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -58,8 +58,8 @@ export interface PrismaClientConstructor {
    * @example
    * ```
    * const prisma = new PrismaClient()
-   * // Fetch zero or more RouterSessions
-   * const routerSessions = await prisma.routerSession.findMany()
+   * // Fetch zero or more ClientSessions
+   * const clientSessions = await prisma.clientSession.findMany()
    * ```
    * 
    * Read more in our [docs](https://pris.ly/d/client).
@@ -80,8 +80,8 @@ export interface PrismaClientConstructor {
  * @example
  * ```
  * const prisma = new PrismaClient()
- * // Fetch zero or more RouterSessions
- * const routerSessions = await prisma.routerSession.findMany()
+ * // Fetch zero or more ClientSessions
+ * const clientSessions = await prisma.clientSession.findMany()
  * ```
  * 
  * Read more in our [docs](https://pris.ly/d/client).
@@ -175,6 +175,16 @@ export interface PrismaClient<
   }>>
 
       /**
+   * `prisma.clientSession`: Exposes CRUD operations for the **ClientSession** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ClientSessions
+    * const clientSessions = await prisma.clientSession.findMany()
+    * ```
+    */
+  get clientSession(): Prisma.ClientSessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
    * `prisma.routerSession`: Exposes CRUD operations for the **RouterSession** model.
     * Example usage:
     * ```ts
@@ -183,6 +193,86 @@ export interface PrismaClient<
     * ```
     */
   get routerSession(): Prisma.RouterSessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.conversation`: Exposes CRUD operations for the **Conversation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Conversations
+    * const conversations = await prisma.conversation.findMany()
+    * ```
+    */
+  get conversation(): Prisma.ConversationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.message`: Exposes CRUD operations for the **Message** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Messages
+    * const messages = await prisma.message.findMany()
+    * ```
+    */
+  get message(): Prisma.MessageDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.configSnapshot`: Exposes CRUD operations for the **ConfigSnapshot** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ConfigSnapshots
+    * const configSnapshots = await prisma.configSnapshot.findMany()
+    * ```
+    */
+  get configSnapshot(): Prisma.ConfigSnapshotDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.auditEntry`: Exposes CRUD operations for the **AuditEntry** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more AuditEntries
+    * const auditEntries = await prisma.auditEntry.findMany()
+    * ```
+    */
+  get auditEntry(): Prisma.AuditEntryDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.device`: Exposes CRUD operations for the **Device** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Devices
+    * const devices = await prisma.device.findMany()
+    * ```
+    */
+  get device(): Prisma.DeviceDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.deviceEvent`: Exposes CRUD operations for the **DeviceEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more DeviceEvents
+    * const deviceEvents = await prisma.deviceEvent.findMany()
+    * ```
+    */
+  get deviceEvent(): Prisma.DeviceEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.metricSample`: Exposes CRUD operations for the **MetricSample** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more MetricSamples
+    * const metricSamples = await prisma.metricSample.findMany()
+    * ```
+    */
+  get metricSample(): Prisma.MetricSampleDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.speedTest`: Exposes CRUD operations for the **SpeedTest** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SpeedTests
+    * const speedTests = await prisma.speedTest.findMany()
+    * ```
+    */
+  get speedTest(): Prisma.SpeedTestDelegate<ExtArgs, { omit: OmitOpts }>;
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
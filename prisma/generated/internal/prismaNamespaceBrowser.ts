@@ -51,7 +51,16 @@ export const AnyNull = runtime.AnyNull
 
 
 export const ModelName = {
-  RouterSession: 'RouterSession'
+  ClientSession: 'ClientSession',
+  RouterSession: 'RouterSession',
+  Conversation: 'Conversation',
+  Message: 'Message',
+  ConfigSnapshot: 'ConfigSnapshot',
+  AuditEntry: 'AuditEntry',
+  Device: 'Device',
+  DeviceEvent: 'DeviceEvent',
+  MetricSample: 'MetricSample',
+  SpeedTest: 'SpeedTest'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -70,11 +79,28 @@ export const TransactionIsolationLevel = {
 export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
 
 
+export const ClientSessionScalarFieldEnum = {
+  id: 'id',
+  activeRouterId: 'activeRouterId',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ClientSessionScalarFieldEnum = (typeof ClientSessionScalarFieldEnum)[keyof typeof ClientSessionScalarFieldEnum]
+
+
 export const RouterSessionScalarFieldEnum = {
   id: 'id',
+  clientSessionId: 'clientSessionId',
+  routerId: 'routerId',
+  name: 'name',
+  adapterId: 'adapterId',
   routerIp: 'routerIp',
   sessionId: 'sessionId',
   cookies: 'cookies',
+  username: 'username',
+  encryptedCredentials: 'encryptedCredentials',
   expiresAt: 'expiresAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -83,6 +109,130 @@ export const RouterSessionScalarFieldEnum = {
 export type RouterSessionScalarFieldEnum = (typeof RouterSessionScalarFieldEnum)[keyof typeof RouterSessionScalarFieldEnum]
 
 
+export const ConversationScalarFieldEnum = {
+  id: 'id',
+  title: 'title',
+  routerIp: 'routerIp',
+  routerName: 'routerName',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ConversationScalarFieldEnum = (typeof ConversationScalarFieldEnum)[keyof typeof ConversationScalarFieldEnum]
+
+
+export const MessageScalarFieldEnum = {
+  id: 'id',
+  conversationId: 'conversationId',
+  role: 'role',
+  content: 'content',
+  createdAt: 'createdAt'
+} as const
+
+export type MessageScalarFieldEnum = (typeof MessageScalarFieldEnum)[keyof typeof MessageScalarFieldEnum]
+
+
+export const ConfigSnapshotScalarFieldEnum = {
+  id: 'id',
+  routerIp: 'routerIp',
+  routerName: 'routerName',
+  area: 'area',
+  operation: 'operation',
+  args: 'args',
+  before: 'before',
+  user: 'user',
+  chatMessage: 'chatMessage',
+  conversationId: 'conversationId',
+  createdAt: 'createdAt',
+  revertedAt: 'revertedAt'
+} as const
+
+export type ConfigSnapshotScalarFieldEnum = (typeof ConfigSnapshotScalarFieldEnum)[keyof typeof ConfigSnapshotScalarFieldEnum]
+
+
+export const AuditEntryScalarFieldEnum = {
+  id: 'id',
+  routerIp: 'routerIp',
+  routerName: 'routerName',
+  routerId: 'routerId',
+  sessionId: 'sessionId',
+  user: 'user',
+  toolName: 'toolName',
+  args: 'args',
+  before: 'before',
+  after: 'after',
+  outcome: 'outcome',
+  result: 'result',
+  conversationId: 'conversationId',
+  messageId: 'messageId',
+  createdAt: 'createdAt'
+} as const
+
+export type AuditEntryScalarFieldEnum = (typeof AuditEntryScalarFieldEnum)[keyof typeof AuditEntryScalarFieldEnum]
+
+
+export const DeviceScalarFieldEnum = {
+  id: 'id',
+  routerIp: 'routerIp',
+  mac: 'mac',
+  hostname: 'hostname',
+  ip: 'ip',
+  vendor: 'vendor',
+  nickname: 'nickname',
+  owner: 'owner',
+  connection: 'connection',
+  firstSeen: 'firstSeen',
+  lastSeen: 'lastSeen'
+} as const
+
+export type DeviceScalarFieldEnum = (typeof DeviceScalarFieldEnum)[keyof typeof DeviceScalarFieldEnum]
+
+
+export const DeviceEventScalarFieldEnum = {
+  id: 'id',
+  routerIp: 'routerIp',
+  mac: 'mac',
+  type: 'type',
+  isNew: 'isNew',
+  name: 'name',
+  ip: 'ip',
+  vendor: 'vendor',
+  dismissedAt: 'dismissedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type DeviceEventScalarFieldEnum = (typeof DeviceEventScalarFieldEnum)[keyof typeof DeviceEventScalarFieldEnum]
+
+
+export const MetricSampleScalarFieldEnum = {
+  id: 'id',
+  routerIp: 'routerIp',
+  metric: 'metric',
+  value: 'value',
+  sampledAt: 'sampledAt'
+} as const
+
+export type MetricSampleScalarFieldEnum = (typeof MetricSampleScalarFieldEnum)[keyof typeof MetricSampleScalarFieldEnum]
+
+
+export const SpeedTestScalarFieldEnum = {
+  id: 'id',
+  server: 'server',
+  downloadMbps: 'downloadMbps',
+  uploadMbps: 'uploadMbps',
+  latencyMs: 'latencyMs',
+  jitterMs: 'jitterMs',
+  downloadLatencyMs: 'downloadLatencyMs',
+  uploadLatencyMs: 'uploadLatencyMs',
+  bufferbloatMs: 'bufferbloatMs',
+  grade: 'grade',
+  error: 'error',
+  createdAt: 'createdAt'
+} as const
+
+export type SpeedTestScalarFieldEnum = (typeof SpeedTestScalarFieldEnum)[keyof typeof SpeedTestScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -98,6 +248,14 @@ export const JsonNullValueInput = {
 export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
 
 
+export const NullableJsonNullValueInput = {
+  DbNull: 'DbNull',
+  JsonNull: 'JsonNull'
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -106,6 +264,14 @@ export const QueryMode = {
 export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
 
 
+export const NullsOrder = {
+  first: 'first',
+  last: 'last'
+} as const
+
+export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+
+
 export const JsonNullValueFilter = {
   DbNull: 'DbNull',
   JsonNull: 'JsonNull',
@@ -114,11 +280,3 @@ export const JsonNullValueFilter = {
 
 export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
 
-
-export const NullsOrder = {
-  first: 'first',
-  last: 'last'
-} as const
-
-export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
-
@@ -8,5 +8,14 @@
  *
  * 🟢 You can import this file directly.
  */
+export type * from './models/ClientSession'
 export type * from './models/RouterSession'
+export type * from './models/Conversation'
+export type * from './models/Message'
+export type * from './models/ConfigSnapshot'
+export type * from './models/AuditEntry'
+export type * from './models/Device'
+export type * from './models/DeviceEvent'
+export type * from './models/MetricSample'
+export type * from './models/SpeedTest'
 export type * from './commonInputTypes'
\ No newline at end of file
@@ -0,0 +1,1336 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ClientSession` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ClientSession
+ * 
+ */
+export type ClientSessionModel = runtime.Types.Result.DefaultSelection<Prisma.$ClientSessionPayload>
+
+export type AggregateClientSession = {
+  _count: ClientSessionCountAggregateOutputType | null
+  _min: ClientSessionMinAggregateOutputType | null
+  _max: ClientSessionMaxAggregateOutputType | null
+}
+
+export type ClientSessionMinAggregateOutputType = {
+  id: string | null
+  activeRouterId: string | null
+  expiresAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ClientSessionMaxAggregateOutputType = {
+  id: string | null
+  activeRouterId: string | null
+  expiresAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ClientSessionCountAggregateOutputType = {
+  id: number
+  activeRouterId: number
+  expiresAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ClientSessionMinAggregateInputType = {
+  id?: true
+  activeRouterId?: true
+  expiresAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ClientSessionMaxAggregateInputType = {
+  id?: true
+  activeRouterId?: true
+  expiresAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ClientSessionCountAggregateInputType = {
+  id?: true
+  activeRouterId?: true
+  expiresAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ClientSessionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ClientSession to aggregate.
+   */
+  where?: Prisma.ClientSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ClientSessions to fetch.
+   */
+  orderBy?: Prisma.ClientSessionOrderByWithRelationInput | Prisma.ClientSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ClientSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ClientSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ClientSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ClientSessions
+  **/
+  _count?: true | ClientSessionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ClientSessionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ClientSessionMaxAggregateInputType
+}
+
+export type GetClientSessionAggregateType<T extends ClientSessionAggregateArgs> = {
+      [P in keyof T & keyof AggregateClientSession]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateClientSession[P]>
+    : Prisma.GetScalarType<T[P], AggregateClientSession[P]>
+}
+
+
+
+
+export type ClientSessionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ClientSessionWhereInput
+  orderBy?: Prisma.ClientSessionOrderByWithAggregationInput | Prisma.ClientSessionOrderByWithAggregationInput[]
+  by: Prisma.ClientSessionScalarFieldEnum[] | Prisma.ClientSessionScalarFieldEnum
+  having?: Prisma.ClientSessionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ClientSessionCountAggregateInputType | true
+  _min?: ClientSessionMinAggregateInputType
+  _max?: ClientSessionMaxAggregateInputType
+}
+
+export type ClientSessionGroupByOutputType = {
+  id: string
+  activeRouterId: string | null
+  expiresAt: Date
+  createdAt: Date
+  updatedAt: Date
+  _count: ClientSessionCountAggregateOutputType | null
+  _min: ClientSessionMinAggregateOutputType | null
+  _max: ClientSessionMaxAggregateOutputType | null
+}
+
+type GetClientSessionGroupByPayload<T extends ClientSessionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ClientSessionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ClientSessionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ClientSessionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ClientSessionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ClientSessionWhereInput = {
+  AND?: Prisma.ClientSessionWhereInput | Prisma.ClientSessionWhereInput[]
+  OR?: Prisma.ClientSessionWhereInput[]
+  NOT?: Prisma.ClientSessionWhereInput | Prisma.ClientSessionWhereInput[]
+  id?: Prisma.StringFilter<"ClientSession"> | string
+  activeRouterId?: Prisma.StringNullableFilter<"ClientSession"> | string | null
+  expiresAt?: Prisma.DateTimeFilter<"ClientSession"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ClientSession"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ClientSession"> | Date | string
+  routers?: Prisma.RouterSessionListRelationFilter
+}
+
+export type ClientSessionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  activeRouterId?: Prisma.SortOrderInput | Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  routers?: Prisma.RouterSessionOrderByRelationAggregateInput
+}
+
+export type ClientSessionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ClientSessionWhereInput | Prisma.ClientSessionWhereInput[]
+  OR?: Prisma.ClientSessionWhereInput[]
+  NOT?: Prisma.ClientSessionWhereInput | Prisma.ClientSessionWhereInput[]
+  activeRouterId?: Prisma.StringNullableFilter<"ClientSession"> | string | null
+  expiresAt?: Prisma.DateTimeFilter<"ClientSession"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ClientSession"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ClientSession"> | Date | string
+  routers?: Prisma.RouterSessionListRelationFilter
+}, "id">
+
+export type ClientSessionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  activeRouterId?: Prisma.SortOrderInput | Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ClientSessionCountOrderByAggregateInput
+  _max?: Prisma.ClientSessionMaxOrderByAggregateInput
+  _min?: Prisma.ClientSessionMinOrderByAggregateInput
+}
+
+export type ClientSessionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ClientSessionScalarWhereWithAggregatesInput | Prisma.ClientSessionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ClientSessionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ClientSessionScalarWhereWithAggregatesInput | Prisma.ClientSessionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ClientSession"> | string
+  activeRouterId?: Prisma.StringNullableWithAggregatesFilter<"ClientSession"> | string | null
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"ClientSession"> | Date | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ClientSession"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ClientSession"> | Date | string
+}
+
+export type ClientSessionCreateInput = {
+  id: string
+  activeRouterId?: string | null
+  expiresAt: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  routers?: Prisma.RouterSessionCreateNestedManyWithoutClientSessionInput
+}
+
+export type ClientSessionUncheckedCreateInput = {
+  id: string
+  activeRouterId?: string | null
+  expiresAt: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  routers?: Prisma.RouterSessionUncheckedCreateNestedManyWithoutClientSessionInput
+}
+
+export type ClientSessionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  activeRouterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  routers?: Prisma.RouterSessionUpdateManyWithoutClientSessionNestedInput
+}
+
+export type ClientSessionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  activeRouterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  routers?: Prisma.RouterSessionUncheckedUpdateManyWithoutClientSessionNestedInput
+}
+
+export type ClientSessionCreateManyInput = {
+  id: string
+  activeRouterId?: string | null
+  expiresAt: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ClientSessionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  activeRouterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ClientSessionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  activeRouterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ClientSessionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  activeRouterId?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ClientSessionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  activeRouterId?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ClientSessionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  activeRouterId?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ClientSessionNullableScalarRelationFilter = {
+  is?: Prisma.ClientSessionWhereInput | null
+  isNot?: Prisma.ClientSessionWhereInput | null
+}
+
+export type StringFieldUpdateOperationsInput = {
+  set?: string
+}
+
+export type NullableStringFieldUpdateOperationsInput = {
+  set?: string | null
+}
+
+export type DateTimeFieldUpdateOperationsInput = {
+  set?: Date | string
+}
+
+export type ClientSessionCreateNestedOneWithoutRoutersInput = {
+  create?: Prisma.XOR<Prisma.ClientSessionCreateWithoutRoutersInput, Prisma.ClientSessionUncheckedCreateWithoutRoutersInput>
+  connectOrCreate?: Prisma.ClientSessionCreateOrConnectWithoutRoutersInput
+  connect?: Prisma.ClientSessionWhereUniqueInput
+}
+
+export type ClientSessionUpdateOneWithoutRoutersNestedInput = {
+  create?: Prisma.XOR<Prisma.ClientSessionCreateWithoutRoutersInput, Prisma.ClientSessionUncheckedCreateWithoutRoutersInput>
+  connectOrCreate?: Prisma.ClientSessionCreateOrConnectWithoutRoutersInput
+  upsert?: Prisma.ClientSessionUpsertWithoutRoutersInput
+  disconnect?: Prisma.ClientSessionWhereInput | boolean
+  delete?: Prisma.ClientSessionWhereInput | boolean
+  connect?: Prisma.ClientSessionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ClientSessionUpdateToOneWithWhereWithoutRoutersInput, Prisma.ClientSessionUpdateWithoutRoutersInput>, Prisma.ClientSessionUncheckedUpdateWithoutRoutersInput>
+}
+
+export type ClientSessionCreateWithoutRoutersInput = {
+  id: string
+  activeRouterId?: string | null
+  expiresAt: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ClientSessionUncheckedCreateWithoutRoutersInput = {
+  id: string
+  activeRouterId?: string | null
+  expiresAt: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ClientSessionCreateOrConnectWithoutRoutersInput = {
+  where: Prisma.ClientSessionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ClientSessionCreateWithoutRoutersInput, Prisma.ClientSessionUncheckedCreateWithoutRoutersInput>
+}
+
+export type ClientSessionUpsertWithoutRoutersInput = {
+  update: Prisma.XOR<Prisma.ClientSessionUpdateWithoutRoutersInput, Prisma.ClientSessionUncheckedUpdateWithoutRoutersInput>
+  create: Prisma.XOR<Prisma.ClientSessionCreateWithoutRoutersInput, Prisma.ClientSessionUncheckedCreateWithoutRoutersInput>
+  where?: Prisma.ClientSessionWhereInput
+}
+
+export type ClientSessionUpdateToOneWithWhereWithoutRoutersInput = {
+  where?: Prisma.ClientSessionWhereInput
+  data: Prisma.XOR<Prisma.ClientSessionUpdateWithoutRoutersInput, Prisma.ClientSessionUncheckedUpdateWithoutRoutersInput>
+}
+
+export type ClientSessionUpdateWithoutRoutersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  activeRouterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ClientSessionUncheckedUpdateWithoutRoutersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  activeRouterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ClientSessionCountOutputType
+ */
+
+export type ClientSessionCountOutputType = {
+  routers: number
+}
+
+export type ClientSessionCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  routers?: boolean | ClientSessionCountOutputTypeCountRoutersArgs
+}
+
+/**
+ * ClientSessionCountOutputType without action
+ */
+export type ClientSessionCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSessionCountOutputType
+   */
+  select?: Prisma.ClientSessionCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ClientSessionCountOutputType without action
+ */
+export type ClientSessionCountOutputTypeCountRoutersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RouterSessionWhereInput
+}
+
+
+export type ClientSessionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  activeRouterId?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  routers?: boolean | Prisma.ClientSession$routersArgs<ExtArgs>
+  _count?: boolean | Prisma.ClientSessionCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["clientSession"]>
+
+export type ClientSessionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  activeRouterId?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["clientSession"]>
+
+export type ClientSessionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  activeRouterId?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["clientSession"]>
+
+export type ClientSessionSelectScalar = {
+  id?: boolean
+  activeRouterId?: boolean
+  expiresAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ClientSessionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "activeRouterId" | "expiresAt" | "createdAt" | "updatedAt", ExtArgs["result"]["clientSession"]>
+export type ClientSessionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  routers?: boolean | Prisma.ClientSession$routersArgs<ExtArgs>
+  _count?: boolean | Prisma.ClientSessionCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ClientSessionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type ClientSessionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $ClientSessionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ClientSession"
+  objects: {
+    routers: Prisma.$RouterSessionPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    activeRouterId: string | null
+    expiresAt: Date
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["clientSession"]>
+  composites: {}
+}
+
+export type ClientSessionGetPayload<S extends boolean | null | undefined | ClientSessionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload, S>
+
+export type ClientSessionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ClientSessionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ClientSessionCountAggregateInputType | true
+  }
+
+export interface ClientSessionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ClientSession'], meta: { name: 'ClientSession' } }
+  /**
+   * Find zero or one ClientSession that matches the filter.
+   * @param {ClientSessionFindUniqueArgs} args - Arguments to find a ClientSession
+   * @example
+   * // Get one ClientSession
+   * const clientSession = await prisma.clientSession.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ClientSessionFindUniqueArgs>(args: Prisma.SelectSubset<T, ClientSessionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ClientSessionClient<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ClientSession that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ClientSessionFindUniqueOrThrowArgs} args - Arguments to find a ClientSession
+   * @example
+   * // Get one ClientSession
+   * const clientSession = await prisma.clientSession.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ClientSessionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ClientSessionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ClientSessionClient<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ClientSession that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ClientSessionFindFirstArgs} args - Arguments to find a ClientSession
+   * @example
+   * // Get one ClientSession
+   * const clientSession = await prisma.clientSession.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ClientSessionFindFirstArgs>(args?: Prisma.SelectSubset<T, ClientSessionFindFirstArgs<ExtArgs>>): Prisma.Prisma__ClientSessionClient<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ClientSession that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ClientSessionFindFirstOrThrowArgs} args - Arguments to find a ClientSession
+   * @example
+   * // Get one ClientSession
+   * const clientSession = await prisma.clientSession.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ClientSessionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ClientSessionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ClientSessionClient<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ClientSessions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ClientSessionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ClientSessions
+   * const clientSessions = await prisma.clientSession.findMany()
+   * 
+   * // Get first 10 ClientSessions
+   * const clientSessions = await prisma.clientSession.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const clientSessionWithIdOnly = await prisma.clientSession.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ClientSessionFindManyArgs>(args?: Prisma.SelectSubset<T, ClientSessionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ClientSession.
+   * @param {ClientSessionCreateArgs} args - Arguments to create a ClientSession.
+   * @example
+   * // Create one ClientSession
+   * const ClientSession = await prisma.clientSession.create({
+   *   data: {
+   *     // ... data to create a ClientSession
+   *   }
+   * })
+   * 
+   */
+  create<T extends ClientSessionCreateArgs>(args: Prisma.SelectSubset<T, ClientSessionCreateArgs<ExtArgs>>): Prisma.Prisma__ClientSessionClient<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ClientSessions.
+   * @param {ClientSessionCreateManyArgs} args - Arguments to create many ClientSessions.
+   * @example
+   * // Create many ClientSessions
+   * const clientSession = await prisma.clientSession.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ClientSessionCreateManyArgs>(args?: Prisma.SelectSubset<T, ClientSessionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ClientSessions and returns the data saved in the database.
+   * @param {ClientSessionCreateManyAndReturnArgs} args - Arguments to create many ClientSessions.
+   * @example
+   * // Create many ClientSessions
+   * const clientSession = await prisma.clientSession.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ClientSessions and only return the `id`
+   * const clientSessionWithIdOnly = await prisma.clientSession.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ClientSessionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ClientSessionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ClientSession.
+   * @param {ClientSessionDeleteArgs} args - Arguments to delete one ClientSession.
+   * @example
+   * // Delete one ClientSession
+   * const ClientSession = await prisma.clientSession.delete({
+   *   where: {
+   *     // ... filter to delete one ClientSession
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ClientSessionDeleteArgs>(args: Prisma.SelectSubset<T, ClientSessionDeleteArgs<ExtArgs>>): Prisma.Prisma__ClientSessionClient<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ClientSession.
+   * @param {ClientSessionUpdateArgs} args - Arguments to update one ClientSession.
+   * @example
+   * // Update one ClientSession
+   * const clientSession = await prisma.clientSession.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ClientSessionUpdateArgs>(args: Prisma.SelectSubset<T, ClientSessionUpdateArgs<ExtArgs>>): Prisma.Prisma__ClientSessionClient<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ClientSessions.
+   * @param {ClientSessionDeleteManyArgs} args - Arguments to filter ClientSessions to delete.
+   * @example
+   * // Delete a few ClientSessions
+   * const { count } = await prisma.clientSession.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ClientSessionDeleteManyArgs>(args?: Prisma.SelectSubset<T, ClientSessionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ClientSessions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ClientSessionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ClientSessions
+   * const clientSession = await prisma.clientSession.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ClientSessionUpdateManyArgs>(args: Prisma.SelectSubset<T, ClientSessionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ClientSessions and returns the data updated in the database.
+   * @param {ClientSessionUpdateManyAndReturnArgs} args - Arguments to update many ClientSessions.
+   * @example
+   * // Update many ClientSessions
+   * const clientSession = await prisma.clientSession.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ClientSessions and only return the `id`
+   * const clientSessionWithIdOnly = await prisma.clientSession.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ClientSessionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ClientSessionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ClientSession.
+   * @param {ClientSessionUpsertArgs} args - Arguments to update or create a ClientSession.
+   * @example
+   * // Update or create a ClientSession
+   * const clientSession = await prisma.clientSession.upsert({
+   *   create: {
+   *     // ... data to create a ClientSession
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ClientSession we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ClientSessionUpsertArgs>(args: Prisma.SelectSubset<T, ClientSessionUpsertArgs<ExtArgs>>): Prisma.Prisma__ClientSessionClient<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ClientSessions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ClientSessionCountArgs} args - Arguments to filter ClientSessions to count.
+   * @example
+   * // Count the number of ClientSessions
+   * const count = await prisma.clientSession.count({
+   *   where: {
+   *     // ... the filter for the ClientSessions we want to count
+   *   }
+   * })
+  **/
+  count<T extends ClientSessionCountArgs>(
+    args?: Prisma.Subset<T, ClientSessionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ClientSessionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ClientSession.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ClientSessionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ClientSessionAggregateArgs>(args: Prisma.Subset<T, ClientSessionAggregateArgs>): Prisma.PrismaPromise<GetClientSessionAggregateType<T>>
+
+  /**
+   * Group by ClientSession.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ClientSessionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ClientSessionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ClientSessionGroupByArgs['orderBy'] }
+      : { orderBy?: ClientSessionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ClientSessionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetClientSessionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ClientSession model
+ */
+readonly fields: ClientSessionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ClientSession.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ClientSessionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  routers<T extends Prisma.ClientSession$routersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClientSession$routersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RouterSessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ClientSession model
+ */
+export interface ClientSessionFieldRefs {
+  readonly id: Prisma.FieldRef<"ClientSession", 'String'>
+  readonly activeRouterId: Prisma.FieldRef<"ClientSession", 'String'>
+  readonly expiresAt: Prisma.FieldRef<"ClientSession", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ClientSession", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ClientSession", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ClientSession findUnique
+ */
+export type ClientSessionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which ClientSession to fetch.
+   */
+  where: Prisma.ClientSessionWhereUniqueInput
+}
+
+/**
+ * ClientSession findUniqueOrThrow
+ */
+export type ClientSessionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which ClientSession to fetch.
+   */
+  where: Prisma.ClientSessionWhereUniqueInput
+}
+
+/**
+ * ClientSession findFirst
+ */
+export type ClientSessionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which ClientSession to fetch.
+   */
+  where?: Prisma.ClientSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ClientSessions to fetch.
+   */
+  orderBy?: Prisma.ClientSessionOrderByWithRelationInput | Prisma.ClientSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ClientSessions.
+   */
+  cursor?: Prisma.ClientSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ClientSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ClientSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ClientSessions.
+   */
+  distinct?: Prisma.ClientSessionScalarFieldEnum | Prisma.ClientSessionScalarFieldEnum[]
+}
+
+/**
+ * ClientSession findFirstOrThrow
+ */
+export type ClientSessionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which ClientSession to fetch.
+   */
+  where?: Prisma.ClientSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ClientSessions to fetch.
+   */
+  orderBy?: Prisma.ClientSessionOrderByWithRelationInput | Prisma.ClientSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ClientSessions.
+   */
+  cursor?: Prisma.ClientSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ClientSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ClientSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ClientSessions.
+   */
+  distinct?: Prisma.ClientSessionScalarFieldEnum | Prisma.ClientSessionScalarFieldEnum[]
+}
+
+/**
+ * ClientSession findMany
+ */
+export type ClientSessionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which ClientSessions to fetch.
+   */
+  where?: Prisma.ClientSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ClientSessions to fetch.
+   */
+  orderBy?: Prisma.ClientSessionOrderByWithRelationInput | Prisma.ClientSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ClientSessions.
+   */
+  cursor?: Prisma.ClientSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ClientSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ClientSessions.
+   */
+  skip?: number
+  distinct?: Prisma.ClientSessionScalarFieldEnum | Prisma.ClientSessionScalarFieldEnum[]
+}
+
+/**
+ * ClientSession create
+ */
+export type ClientSessionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ClientSession.
+   */
+  data: Prisma.XOR<Prisma.ClientSessionCreateInput, Prisma.ClientSessionUncheckedCreateInput>
+}
+
+/**
+ * ClientSession createMany
+ */
+export type ClientSessionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ClientSessions.
+   */
+  data: Prisma.ClientSessionCreateManyInput | Prisma.ClientSessionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ClientSession createManyAndReturn
+ */
+export type ClientSessionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * The data used to create many ClientSessions.
+   */
+  data: Prisma.ClientSessionCreateManyInput | Prisma.ClientSessionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ClientSession update
+ */
+export type ClientSessionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ClientSession.
+   */
+  data: Prisma.XOR<Prisma.ClientSessionUpdateInput, Prisma.ClientSessionUncheckedUpdateInput>
+  /**
+   * Choose, which ClientSession to update.
+   */
+  where: Prisma.ClientSessionWhereUniqueInput
+}
+
+/**
+ * ClientSession updateMany
+ */
+export type ClientSessionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ClientSessions.
+   */
+  data: Prisma.XOR<Prisma.ClientSessionUpdateManyMutationInput, Prisma.ClientSessionUncheckedUpdateManyInput>
+  /**
+   * Filter which ClientSessions to update
+   */
+  where?: Prisma.ClientSessionWhereInput
+  /**
+   * Limit how many ClientSessions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ClientSession updateManyAndReturn
+ */
+export type ClientSessionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * The data used to update ClientSessions.
+   */
+  data: Prisma.XOR<Prisma.ClientSessionUpdateManyMutationInput, Prisma.ClientSessionUncheckedUpdateManyInput>
+  /**
+   * Filter which ClientSessions to update
+   */
+  where?: Prisma.ClientSessionWhereInput
+  /**
+   * Limit how many ClientSessions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ClientSession upsert
+ */
+export type ClientSessionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ClientSession to update in case it exists.
+   */
+  where: Prisma.ClientSessionWhereUniqueInput
+  /**
+   * In case the ClientSession found by the `where` argument doesn't exist, create a new ClientSession with this data.
+   */
+  create: Prisma.XOR<Prisma.ClientSessionCreateInput, Prisma.ClientSessionUncheckedCreateInput>
+  /**
+   * In case the ClientSession was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ClientSessionUpdateInput, Prisma.ClientSessionUncheckedUpdateInput>
+}
+
+/**
+ * ClientSession delete
+ */
+export type ClientSessionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+  /**
+   * Filter which ClientSession to delete.
+   */
+  where: Prisma.ClientSessionWhereUniqueInput
+}
+
+/**
+ * ClientSession deleteMany
+ */
+export type ClientSessionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ClientSessions to delete
+   */
+  where?: Prisma.ClientSessionWhereInput
+  /**
+   * Limit how many ClientSessions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ClientSession.routers
+ */
+export type ClientSession$routersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouterSession
+   */
+  select?: Prisma.RouterSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouterSession
+   */
+  omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
+  where?: Prisma.RouterSessionWhereInput
+  orderBy?: Prisma.RouterSessionOrderByWithRelationInput | Prisma.RouterSessionOrderByWithRelationInput[]
+  cursor?: Prisma.RouterSessionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RouterSessionScalarFieldEnum | Prisma.RouterSessionScalarFieldEnum[]
+}
+
+/**
+ * ClientSession without action
+ */
+export type ClientSessionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+}
@@ -0,0 +1,1328 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ConfigSnapshot` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ConfigSnapshot
+ * 
+ */
+export type ConfigSnapshotModel = runtime.Types.Result.DefaultSelection<Prisma.$ConfigSnapshotPayload>
+
+export type AggregateConfigSnapshot = {
+  _count: ConfigSnapshotCountAggregateOutputType | null
+  _min: ConfigSnapshotMinAggregateOutputType | null
+  _max: ConfigSnapshotMaxAggregateOutputType | null
+}
+
+export type ConfigSnapshotMinAggregateOutputType = {
+  id: string | null
+  routerIp: string | null
+  routerName: string | null
+  area: string | null
+  operation: string | null
+  user: string | null
+  chatMessage: string | null
+  conversationId: string | null
+  createdAt: Date | null
+  revertedAt: Date | null
+}
+
+export type ConfigSnapshotMaxAggregateOutputType = {
+  id: string | null
+  routerIp: string | null
+  routerName: string | null
+  area: string | null
+  operation: string | null
+  user: string | null
+  chatMessage: string | null
+  conversationId: string | null
+  createdAt: Date | null
+  revertedAt: Date | null
+}
+
+export type ConfigSnapshotCountAggregateOutputType = {
+  id: number
+  routerIp: number
+  routerName: number
+  area: number
+  operation: number
+  args: number
+  before: number
+  user: number
+  chatMessage: number
+  conversationId: number
+  createdAt: number
+  revertedAt: number
+  _all: number
+}
+
+
+export type ConfigSnapshotMinAggregateInputType = {
+  id?: true
+  routerIp?: true
+  routerName?: true
+  area?: true
+  operation?: true
+  user?: true
+  chatMessage?: true
+  conversationId?: true
+  createdAt?: true
+  revertedAt?: true
+}
+
+export type ConfigSnapshotMaxAggregateInputType = {
+  id?: true
+  routerIp?: true
+  routerName?: true
+  area?: true
+  operation?: true
+  user?: true
+  chatMessage?: true
+  conversationId?: true
+  createdAt?: true
+  revertedAt?: true
+}
+
+export type ConfigSnapshotCountAggregateInputType = {
+  id?: true
+  routerIp?: true
+  routerName?: true
+  area?: true
+  operation?: true
+  args?: true
+  before?: true
+  user?: true
+  chatMessage?: true
+  conversationId?: true
+  createdAt?: true
+  revertedAt?: true
+  _all?: true
+}
+
+export type ConfigSnapshotAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ConfigSnapshot to aggregate.
+   */
+  where?: Prisma.ConfigSnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ConfigSnapshots to fetch.
+   */
+  orderBy?: Prisma.ConfigSnapshotOrderByWithRelationInput | Prisma.ConfigSnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ConfigSnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ConfigSnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ConfigSnapshots.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ConfigSnapshots
+  **/
+  _count?: true | ConfigSnapshotCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ConfigSnapshotMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ConfigSnapshotMaxAggregateInputType
+}
+
+export type GetConfigSnapshotAggregateType<T extends ConfigSnapshotAggregateArgs> = {
+      [P in keyof T & keyof AggregateConfigSnapshot]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateConfigSnapshot[P]>
+    : Prisma.GetScalarType<T[P], AggregateConfigSnapshot[P]>
+}
+
+
+
+
+export type ConfigSnapshotGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ConfigSnapshotWhereInput
+  orderBy?: Prisma.ConfigSnapshotOrderByWithAggregationInput | Prisma.ConfigSnapshotOrderByWithAggregationInput[]
+  by: Prisma.ConfigSnapshotScalarFieldEnum[] | Prisma.ConfigSnapshotScalarFieldEnum
+  having?: Prisma.ConfigSnapshotScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ConfigSnapshotCountAggregateInputType | true
+  _min?: ConfigSnapshotMinAggregateInputType
+  _max?: ConfigSnapshotMaxAggregateInputType
+}
+
+export type ConfigSnapshotGroupByOutputType = {
+  id: string
+  routerIp: string
+  routerName: string | null
+  area: string
+  operation: string
+  args: runtime.JsonValue
+  before: runtime.JsonValue
+  user: string | null
+  chatMessage: string | null
+  conversationId: string | null
+  createdAt: Date
+  revertedAt: Date | null
+  _count: ConfigSnapshotCountAggregateOutputType | null
+  _min: ConfigSnapshotMinAggregateOutputType | null
+  _max: ConfigSnapshotMaxAggregateOutputType | null
+}
+
+type GetConfigSnapshotGroupByPayload<T extends ConfigSnapshotGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ConfigSnapshotGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ConfigSnapshotGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ConfigSnapshotGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ConfigSnapshotGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ConfigSnapshotWhereInput = {
+  AND?: Prisma.ConfigSnapshotWhereInput | Prisma.ConfigSnapshotWhereInput[]
+  OR?: Prisma.ConfigSnapshotWhereInput[]
+  NOT?: Prisma.ConfigSnapshotWhereInput | Prisma.ConfigSnapshotWhereInput[]
+  id?: Prisma.StringFilter<"ConfigSnapshot"> | string
+  routerIp?: Prisma.StringFilter<"ConfigSnapshot"> | string
+  routerName?: Prisma.StringNullableFilter<"ConfigSnapshot"> | string | null
+  area?: Prisma.StringFilter<"ConfigSnapshot"> | string
+  operation?: Prisma.StringFilter<"ConfigSnapshot"> | string
+  args?: Prisma.JsonFilter<"ConfigSnapshot">
+  before?: Prisma.JsonFilter<"ConfigSnapshot">
+  user?: Prisma.StringNullableFilter<"ConfigSnapshot"> | string | null
+  chatMessage?: Prisma.StringNullableFilter<"ConfigSnapshot"> | string | null
+  conversationId?: Prisma.StringNullableFilter<"ConfigSnapshot"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ConfigSnapshot"> | Date | string
+  revertedAt?: Prisma.DateTimeNullableFilter<"ConfigSnapshot"> | Date | string | null
+}
+
+export type ConfigSnapshotOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  routerName?: Prisma.SortOrderInput | Prisma.SortOrder
+  area?: Prisma.SortOrder
+  operation?: Prisma.SortOrder
+  args?: Prisma.SortOrder
+  before?: Prisma.SortOrder
+  user?: Prisma.SortOrderInput | Prisma.SortOrder
+  chatMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  conversationId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  revertedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+}
+
+export type ConfigSnapshotWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ConfigSnapshotWhereInput | Prisma.ConfigSnapshotWhereInput[]
+  OR?: Prisma.ConfigSnapshotWhereInput[]
+  NOT?: Prisma.ConfigSnapshotWhereInput | Prisma.ConfigSnapshotWhereInput[]
+  routerIp?: Prisma.StringFilter<"ConfigSnapshot"> | string
+  routerName?: Prisma.StringNullableFilter<"ConfigSnapshot"> | string | null
+  area?: Prisma.StringFilter<"ConfigSnapshot"> | string
+  operation?: Prisma.StringFilter<"ConfigSnapshot"> | string
+  args?: Prisma.JsonFilter<"ConfigSnapshot">
+  before?: Prisma.JsonFilter<"ConfigSnapshot">
+  user?: Prisma.StringNullableFilter<"ConfigSnapshot"> | string | null
+  chatMessage?: Prisma.StringNullableFilter<"ConfigSnapshot"> | string | null
+  conversationId?: Prisma.StringNullableFilter<"ConfigSnapshot"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ConfigSnapshot"> | Date | string
+  revertedAt?: Prisma.DateTimeNullableFilter<"ConfigSnapshot"> | Date | string | null
+}, "id">
+
+export type ConfigSnapshotOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  routerName?: Prisma.SortOrderInput | Prisma.SortOrder
+  area?: Prisma.SortOrder
+  operation?: Prisma.SortOrder
+  args?: Prisma.SortOrder
+  before?: Prisma.SortOrder
+  user?: Prisma.SortOrderInput | Prisma.SortOrder
+  chatMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  conversationId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  revertedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.ConfigSnapshotCountOrderByAggregateInput
+  _max?: Prisma.ConfigSnapshotMaxOrderByAggregateInput
+  _min?: Prisma.ConfigSnapshotMinOrderByAggregateInput
+}
+
+export type ConfigSnapshotScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ConfigSnapshotScalarWhereWithAggregatesInput | Prisma.ConfigSnapshotScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ConfigSnapshotScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ConfigSnapshotScalarWhereWithAggregatesInput | Prisma.ConfigSnapshotScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ConfigSnapshot"> | string
+  routerIp?: Prisma.StringWithAggregatesFilter<"ConfigSnapshot"> | string
+  routerName?: Prisma.StringNullableWithAggregatesFilter<"ConfigSnapshot"> | string | null
+  area?: Prisma.StringWithAggregatesFilter<"ConfigSnapshot"> | string
+  operation?: Prisma.StringWithAggregatesFilter<"ConfigSnapshot"> | string
+  args?: Prisma.JsonWithAggregatesFilter<"ConfigSnapshot">
+  before?: Prisma.JsonWithAggregatesFilter<"ConfigSnapshot">
+  user?: Prisma.StringNullableWithAggregatesFilter<"ConfigSnapshot"> | string | null
+  chatMessage?: Prisma.StringNullableWithAggregatesFilter<"ConfigSnapshot"> | string | null
+  conversationId?: Prisma.StringNullableWithAggregatesFilter<"ConfigSnapshot"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ConfigSnapshot"> | Date | string
+  revertedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ConfigSnapshot"> | Date | string | null
+}
+
+export type ConfigSnapshotCreateInput = {
+  id?: string
+  routerIp: string
+  routerName?: string | null
+  area: string
+  operation: string
+  args: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  before: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  user?: string | null
+  chatMessage?: string | null
+  conversationId?: string | null
+  createdAt?: Date | string
+  revertedAt?: Date | string | null
+}
+
+export type ConfigSnapshotUncheckedCreateInput = {
+  id?: string
+  routerIp: string
+  routerName?: string | null
+  area: string
+  operation: string
+  args: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  before: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  user?: string | null
+  chatMessage?: string | null
+  conversationId?: string | null
+  createdAt?: Date | string
+  revertedAt?: Date | string | null
+}
+
+export type ConfigSnapshotUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  routerName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  area?: Prisma.StringFieldUpdateOperationsInput | string
+  operation?: Prisma.StringFieldUpdateOperationsInput | string
+  args?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  before?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  user?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chatMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  conversationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ConfigSnapshotUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  routerName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  area?: Prisma.StringFieldUpdateOperationsInput | string
+  operation?: Prisma.StringFieldUpdateOperationsInput | string
+  args?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  before?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  user?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chatMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  conversationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ConfigSnapshotCreateManyInput = {
+  id?: string
+  routerIp: string
+  routerName?: string | null
+  area: string
+  operation: string
+  args: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  before: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  user?: string | null
+  chatMessage?: string | null
+  conversationId?: string | null
+  createdAt?: Date | string
+  revertedAt?: Date | string | null
+}
+
+export type ConfigSnapshotUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  routerName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  area?: Prisma.StringFieldUpdateOperationsInput | string
+  operation?: Prisma.StringFieldUpdateOperationsInput | string
+  args?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  before?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  user?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chatMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  conversationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ConfigSnapshotUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  routerName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  area?: Prisma.StringFieldUpdateOperationsInput | string
+  operation?: Prisma.StringFieldUpdateOperationsInput | string
+  args?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  before?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  user?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chatMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  conversationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ConfigSnapshotCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  routerName?: Prisma.SortOrder
+  area?: Prisma.SortOrder
+  operation?: Prisma.SortOrder
+  args?: Prisma.SortOrder
+  before?: Prisma.SortOrder
+  user?: Prisma.SortOrder
+  chatMessage?: Prisma.SortOrder
+  conversationId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  revertedAt?: Prisma.SortOrder
+}
+
+export type ConfigSnapshotMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  routerName?: Prisma.SortOrder
+  area?: Prisma.SortOrder
+  operation?: Prisma.SortOrder
+  user?: Prisma.SortOrder
+  chatMessage?: Prisma.SortOrder
+  conversationId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  revertedAt?: Prisma.SortOrder
+}
+
+export type ConfigSnapshotMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  routerName?: Prisma.SortOrder
+  area?: Prisma.SortOrder
+  operation?: Prisma.SortOrder
+  user?: Prisma.SortOrder
+  chatMessage?: Prisma.SortOrder
+  conversationId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  revertedAt?: Prisma.SortOrder
+}
+
+
+
+export type ConfigSnapshotSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  routerIp?: boolean
+  routerName?: boolean
+  area?: boolean
+  operation?: boolean
+  args?: boolean
+  before?: boolean
+  user?: boolean
+  chatMessage?: boolean
+  conversationId?: boolean
+  createdAt?: boolean
+  revertedAt?: boolean
+}, ExtArgs["result"]["configSnapshot"]>
+
+export type ConfigSnapshotSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  routerIp?: boolean
+  routerName?: boolean
+  area?: boolean
+  operation?: boolean
+  args?: boolean
+  before?: boolean
+  user?: boolean
+  chatMessage?: boolean
+  conversationId?: boolean
+  createdAt?: boolean
+  revertedAt?: boolean
+}, ExtArgs["result"]["configSnapshot"]>
+
+export type ConfigSnapshotSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  routerIp?: boolean
+  routerName?: boolean
+  area?: boolean
+  operation?: boolean
+  args?: boolean
+  before?: boolean
+  user?: boolean
+  chatMessage?: boolean
+  conversationId?: boolean
+  createdAt?: boolean
+  revertedAt?: boolean
+}, ExtArgs["result"]["configSnapshot"]>
+
+export type ConfigSnapshotSelectScalar = {
+  id?: boolean
+  routerIp?: boolean
+  routerName?: boolean
+  area?: boolean
+  operation?: boolean
+  args?: boolean
+  before?: boolean
+  user?: boolean
+  chatMessage?: boolean
+  conversationId?: boolean
+  createdAt?: boolean
+  revertedAt?: boolean
+}
+
+export type ConfigSnapshotOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "routerIp" | "routerName" | "area" | "operation" | "args" | "before" | "user" | "chatMessage" | "conversationId" | "createdAt" | "revertedAt", ExtArgs["result"]["configSnapshot"]>
+
+export type $ConfigSnapshotPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ConfigSnapshot"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    routerIp: string
+    routerName: string | null
+    area: string
+    operation: string
+    args: runtime.JsonValue
+    before: runtime.JsonValue
+    user: string | null
+    chatMessage: string | null
+    conversationId: string | null
+    createdAt: Date
+    revertedAt: Date | null
+  }, ExtArgs["result"]["configSnapshot"]>
+  composites: {}
+}
+
+export type ConfigSnapshotGetPayload<S extends boolean | null | undefined | ConfigSnapshotDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload, S>
+
+export type ConfigSnapshotCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ConfigSnapshotFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ConfigSnapshotCountAggregateInputType | true
+  }
+
+export interface ConfigSnapshotDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ConfigSnapshot'], meta: { name: 'ConfigSnapshot' } }
+  /**
+   * Find zero or one ConfigSnapshot that matches the filter.
+   * @param {ConfigSnapshotFindUniqueArgs} args - Arguments to find a ConfigSnapshot
+   * @example
+   * // Get one ConfigSnapshot
+   * const configSnapshot = await prisma.configSnapshot.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ConfigSnapshotFindUniqueArgs>(args: Prisma.SelectSubset<T, ConfigSnapshotFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ConfigSnapshotClient<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ConfigSnapshot that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ConfigSnapshotFindUniqueOrThrowArgs} args - Arguments to find a ConfigSnapshot
+   * @example
+   * // Get one ConfigSnapshot
+   * const configSnapshot = await prisma.configSnapshot.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ConfigSnapshotFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ConfigSnapshotFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ConfigSnapshotClient<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ConfigSnapshot that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConfigSnapshotFindFirstArgs} args - Arguments to find a ConfigSnapshot
+   * @example
+   * // Get one ConfigSnapshot
+   * const configSnapshot = await prisma.configSnapshot.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ConfigSnapshotFindFirstArgs>(args?: Prisma.SelectSubset<T, ConfigSnapshotFindFirstArgs<ExtArgs>>): Prisma.Prisma__ConfigSnapshotClient<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ConfigSnapshot that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConfigSnapshotFindFirstOrThrowArgs} args - Arguments to find a ConfigSnapshot
+   * @example
+   * // Get one ConfigSnapshot
+   * const configSnapshot = await prisma.configSnapshot.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ConfigSnapshotFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ConfigSnapshotFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ConfigSnapshotClient<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ConfigSnapshots that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConfigSnapshotFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ConfigSnapshots
+   * const configSnapshots = await prisma.configSnapshot.findMany()
+   * 
+   * // Get first 10 ConfigSnapshots
+   * const configSnapshots = await prisma.configSnapshot.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const configSnapshotWithIdOnly = await prisma.configSnapshot.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ConfigSnapshotFindManyArgs>(args?: Prisma.SelectSubset<T, ConfigSnapshotFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ConfigSnapshot.
+   * @param {ConfigSnapshotCreateArgs} args - Arguments to create a ConfigSnapshot.
+   * @example
+   * // Create one ConfigSnapshot
+   * const ConfigSnapshot = await prisma.configSnapshot.create({
+   *   data: {
+   *     // ... data to create a ConfigSnapshot
+   *   }
+   * })
+   * 
+   */
+  create<T extends ConfigSnapshotCreateArgs>(args: Prisma.SelectSubset<T, ConfigSnapshotCreateArgs<ExtArgs>>): Prisma.Prisma__ConfigSnapshotClient<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ConfigSnapshots.
+   * @param {ConfigSnapshotCreateManyArgs} args - Arguments to create many ConfigSnapshots.
+   * @example
+   * // Create many ConfigSnapshots
+   * const configSnapshot = await prisma.configSnapshot.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ConfigSnapshotCreateManyArgs>(args?: Prisma.SelectSubset<T, ConfigSnapshotCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ConfigSnapshots and returns the data saved in the database.
+   * @param {ConfigSnapshotCreateManyAndReturnArgs} args - Arguments to create many ConfigSnapshots.
+   * @example
+   * // Create many ConfigSnapshots
+   * const configSnapshot = await prisma.configSnapshot.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ConfigSnapshots and only return the `id`
+   * const configSnapshotWithIdOnly = await prisma.configSnapshot.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ConfigSnapshotCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ConfigSnapshotCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ConfigSnapshot.
+   * @param {ConfigSnapshotDeleteArgs} args - Arguments to delete one ConfigSnapshot.
+   * @example
+   * // Delete one ConfigSnapshot
+   * const ConfigSnapshot = await prisma.configSnapshot.delete({
+   *   where: {
+   *     // ... filter to delete one ConfigSnapshot
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ConfigSnapshotDeleteArgs>(args: Prisma.SelectSubset<T, ConfigSnapshotDeleteArgs<ExtArgs>>): Prisma.Prisma__ConfigSnapshotClient<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ConfigSnapshot.
+   * @param {ConfigSnapshotUpdateArgs} args - Arguments to update one ConfigSnapshot.
+   * @example
+   * // Update one ConfigSnapshot
+   * const configSnapshot = await prisma.configSnapshot.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ConfigSnapshotUpdateArgs>(args: Prisma.SelectSubset<T, ConfigSnapshotUpdateArgs<ExtArgs>>): Prisma.Prisma__ConfigSnapshotClient<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ConfigSnapshots.
+   * @param {ConfigSnapshotDeleteManyArgs} args - Arguments to filter ConfigSnapshots to delete.
+   * @example
+   * // Delete a few ConfigSnapshots
+   * const { count } = await prisma.configSnapshot.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ConfigSnapshotDeleteManyArgs>(args?: Prisma.SelectSubset<T, ConfigSnapshotDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ConfigSnapshots.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConfigSnapshotUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ConfigSnapshots
+   * const configSnapshot = await prisma.configSnapshot.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ConfigSnapshotUpdateManyArgs>(args: Prisma.SelectSubset<T, ConfigSnapshotUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ConfigSnapshots and returns the data updated in the database.
+   * @param {ConfigSnapshotUpdateManyAndReturnArgs} args - Arguments to update many ConfigSnapshots.
+   * @example
+   * // Update many ConfigSnapshots
+   * const configSnapshot = await prisma.configSnapshot.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ConfigSnapshots and only return the `id`
+   * const configSnapshotWithIdOnly = await prisma.configSnapshot.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ConfigSnapshotUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ConfigSnapshotUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ConfigSnapshot.
+   * @param {ConfigSnapshotUpsertArgs} args - Arguments to update or create a ConfigSnapshot.
+   * @example
+   * // Update or create a ConfigSnapshot
+   * const configSnapshot = await prisma.configSnapshot.upsert({
+   *   create: {
+   *     // ... data to create a ConfigSnapshot
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ConfigSnapshot we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ConfigSnapshotUpsertArgs>(args: Prisma.SelectSubset<T, ConfigSnapshotUpsertArgs<ExtArgs>>): Prisma.Prisma__ConfigSnapshotClient<runtime.Types.Result.GetResult<Prisma.$ConfigSnapshotPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ConfigSnapshots.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConfigSnapshotCountArgs} args - Arguments to filter ConfigSnapshots to count.
+   * @example
+   * // Count the number of ConfigSnapshots
+   * const count = await prisma.configSnapshot.count({
+   *   where: {
+   *     // ... the filter for the ConfigSnapshots we want to count
+   *   }
+   * })
+  **/
+  count<T extends ConfigSnapshotCountArgs>(
+    args?: Prisma.Subset<T, ConfigSnapshotCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ConfigSnapshotCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ConfigSnapshot.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConfigSnapshotAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ConfigSnapshotAggregateArgs>(args: Prisma.Subset<T, ConfigSnapshotAggregateArgs>): Prisma.PrismaPromise<GetConfigSnapshotAggregateType<T>>
+
+  /**
+   * Group by ConfigSnapshot.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConfigSnapshotGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ConfigSnapshotGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ConfigSnapshotGroupByArgs['orderBy'] }
+      : { orderBy?: ConfigSnapshotGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ConfigSnapshotGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetConfigSnapshotGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ConfigSnapshot model
+ */
+readonly fields: ConfigSnapshotFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ConfigSnapshot.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ConfigSnapshotClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ConfigSnapshot model
+ */
+export interface ConfigSnapshotFieldRefs {
+  readonly id: Prisma.FieldRef<"ConfigSnapshot", 'String'>
+  readonly routerIp: Prisma.FieldRef<"ConfigSnapshot", 'String'>
+  readonly routerName: Prisma.FieldRef<"ConfigSnapshot", 'String'>
+  readonly area: Prisma.FieldRef<"ConfigSnapshot", 'String'>
+  readonly operation: Prisma.FieldRef<"ConfigSnapshot", 'String'>
+  readonly args: Prisma.FieldRef<"ConfigSnapshot", 'Json'>
+  readonly before: Prisma.FieldRef<"ConfigSnapshot", 'Json'>
+  readonly user: Prisma.FieldRef<"ConfigSnapshot", 'String'>
+  readonly chatMessage: Prisma.FieldRef<"ConfigSnapshot", 'String'>
+  readonly conversationId: Prisma.FieldRef<"ConfigSnapshot", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ConfigSnapshot", 'DateTime'>
+  readonly revertedAt: Prisma.FieldRef<"ConfigSnapshot", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ConfigSnapshot findUnique
+ */
+export type ConfigSnapshotFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * Filter, which ConfigSnapshot to fetch.
+   */
+  where: Prisma.ConfigSnapshotWhereUniqueInput
+}
+
+/**
+ * ConfigSnapshot findUniqueOrThrow
+ */
+export type ConfigSnapshotFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * Filter, which ConfigSnapshot to fetch.
+   */
+  where: Prisma.ConfigSnapshotWhereUniqueInput
+}
+
+/**
+ * ConfigSnapshot findFirst
+ */
+export type ConfigSnapshotFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * Filter, which ConfigSnapshot to fetch.
+   */
+  where?: Prisma.ConfigSnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ConfigSnapshots to fetch.
+   */
+  orderBy?: Prisma.ConfigSnapshotOrderByWithRelationInput | Prisma.ConfigSnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ConfigSnapshots.
+   */
+  cursor?: Prisma.ConfigSnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ConfigSnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ConfigSnapshots.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ConfigSnapshots.
+   */
+  distinct?: Prisma.ConfigSnapshotScalarFieldEnum | Prisma.ConfigSnapshotScalarFieldEnum[]
+}
+
+/**
+ * ConfigSnapshot findFirstOrThrow
+ */
+export type ConfigSnapshotFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * Filter, which ConfigSnapshot to fetch.
+   */
+  where?: Prisma.ConfigSnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ConfigSnapshots to fetch.
+   */
+  orderBy?: Prisma.ConfigSnapshotOrderByWithRelationInput | Prisma.ConfigSnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ConfigSnapshots.
+   */
+  cursor?: Prisma.ConfigSnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ConfigSnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ConfigSnapshots.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ConfigSnapshots.
+   */
+  distinct?: Prisma.ConfigSnapshotScalarFieldEnum | Prisma.ConfigSnapshotScalarFieldEnum[]
+}
+
+/**
+ * ConfigSnapshot findMany
+ */
+export type ConfigSnapshotFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * Filter, which ConfigSnapshots to fetch.
+   */
+  where?: Prisma.ConfigSnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ConfigSnapshots to fetch.
+   */
+  orderBy?: Prisma.ConfigSnapshotOrderByWithRelationInput | Prisma.ConfigSnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ConfigSnapshots.
+   */
+  cursor?: Prisma.ConfigSnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ConfigSnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ConfigSnapshots.
+   */
+  skip?: number
+  distinct?: Prisma.ConfigSnapshotScalarFieldEnum | Prisma.ConfigSnapshotScalarFieldEnum[]
+}
+
+/**
+ * ConfigSnapshot create
+ */
+export type ConfigSnapshotCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * The data needed to create a ConfigSnapshot.
+   */
+  data: Prisma.XOR<Prisma.ConfigSnapshotCreateInput, Prisma.ConfigSnapshotUncheckedCreateInput>
+}
+
+/**
+ * ConfigSnapshot createMany
+ */
+export type ConfigSnapshotCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ConfigSnapshots.
+   */
+  data: Prisma.ConfigSnapshotCreateManyInput | Prisma.ConfigSnapshotCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ConfigSnapshot createManyAndReturn
+ */
+export type ConfigSnapshotCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * The data used to create many ConfigSnapshots.
+   */
+  data: Prisma.ConfigSnapshotCreateManyInput | Prisma.ConfigSnapshotCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ConfigSnapshot update
+ */
+export type ConfigSnapshotUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * The data needed to update a ConfigSnapshot.
+   */
+  data: Prisma.XOR<Prisma.ConfigSnapshotUpdateInput, Prisma.ConfigSnapshotUncheckedUpdateInput>
+  /**
+   * Choose, which ConfigSnapshot to update.
+   */
+  where: Prisma.ConfigSnapshotWhereUniqueInput
+}
+
+/**
+ * ConfigSnapshot updateMany
+ */
+export type ConfigSnapshotUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ConfigSnapshots.
+   */
+  data: Prisma.XOR<Prisma.ConfigSnapshotUpdateManyMutationInput, Prisma.ConfigSnapshotUncheckedUpdateManyInput>
+  /**
+   * Filter which ConfigSnapshots to update
+   */
+  where?: Prisma.ConfigSnapshotWhereInput
+  /**
+   * Limit how many ConfigSnapshots to update.
+   */
+  limit?: number
+}
+
+/**
+ * ConfigSnapshot updateManyAndReturn
+ */
+export type ConfigSnapshotUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * The data used to update ConfigSnapshots.
+   */
+  data: Prisma.XOR<Prisma.ConfigSnapshotUpdateManyMutationInput, Prisma.ConfigSnapshotUncheckedUpdateManyInput>
+  /**
+   * Filter which ConfigSnapshots to update
+   */
+  where?: Prisma.ConfigSnapshotWhereInput
+  /**
+   * Limit how many ConfigSnapshots to update.
+   */
+  limit?: number
+}
+
+/**
+ * ConfigSnapshot upsert
+ */
+export type ConfigSnapshotUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * The filter to search for the ConfigSnapshot to update in case it exists.
+   */
+  where: Prisma.ConfigSnapshotWhereUniqueInput
+  /**
+   * In case the ConfigSnapshot found by the `where` argument doesn't exist, create a new ConfigSnapshot with this data.
+   */
+  create: Prisma.XOR<Prisma.ConfigSnapshotCreateInput, Prisma.ConfigSnapshotUncheckedCreateInput>
+  /**
+   * In case the ConfigSnapshot was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ConfigSnapshotUpdateInput, Prisma.ConfigSnapshotUncheckedUpdateInput>
+}
+
+/**
+ * ConfigSnapshot delete
+ */
+export type ConfigSnapshotDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+  /**
+   * Filter which ConfigSnapshot to delete.
+   */
+  where: Prisma.ConfigSnapshotWhereUniqueInput
+}
+
+/**
+ * ConfigSnapshot deleteMany
+ */
+export type ConfigSnapshotDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ConfigSnapshots to delete
+   */
+  where?: Prisma.ConfigSnapshotWhereInput
+  /**
+   * Limit how many ConfigSnapshots to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ConfigSnapshot without action
+ */
+export type ConfigSnapshotDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ConfigSnapshot
+   */
+  select?: Prisma.ConfigSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ConfigSnapshot
+   */
+  omit?: Prisma.ConfigSnapshotOmit<ExtArgs> | null
+}
@@ -0,0 +1,1288 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `DeviceEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model DeviceEvent
+ * 
+ */
+export type DeviceEventModel = runtime.Types.Result.DefaultSelection<Prisma.$DeviceEventPayload>
+
+export type AggregateDeviceEvent = {
+  _count: DeviceEventCountAggregateOutputType | null
+  _min: DeviceEventMinAggregateOutputType | null
+  _max: DeviceEventMaxAggregateOutputType | null
+}
+
+export type DeviceEventMinAggregateOutputType = {
+  id: string | null
+  routerIp: string | null
+  mac: string | null
+  type: string | null
+  isNew: boolean | null
+  name: string | null
+  ip: string | null
+  vendor: string | null
+  dismissedAt: Date | null
+  createdAt: Date | null
+}
+
+export type DeviceEventMaxAggregateOutputType = {
+  id: string | null
+  routerIp: string | null
+  mac: string | null
+  type: string | null
+  isNew: boolean | null
+  name: string | null
+  ip: string | null
+  vendor: string | null
+  dismissedAt: Date | null
+  createdAt: Date | null
+}
+
+export type DeviceEventCountAggregateOutputType = {
+  id: number
+  routerIp: number
+  mac: number
+  type: number
+  isNew: number
+  name: number
+  ip: number
+  vendor: number
+  dismissedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type DeviceEventMinAggregateInputType = {
+  id?: true
+  routerIp?: true
+  mac?: true
+  type?: true
+  isNew?: true
+  name?: true
+  ip?: true
+  vendor?: true
+  dismissedAt?: true
+  createdAt?: true
+}
+
+export type DeviceEventMaxAggregateInputType = {
+  id?: true
+  routerIp?: true
+  mac?: true
+  type?: true
+  isNew?: true
+  name?: true
+  ip?: true
+  vendor?: true
+  dismissedAt?: true
+  createdAt?: true
+}
+
+export type DeviceEventCountAggregateInputType = {
+  id?: true
+  routerIp?: true
+  mac?: true
+  type?: true
+  isNew?: true
+  name?: true
+  ip?: true
+  vendor?: true
+  dismissedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type DeviceEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DeviceEvent to aggregate.
+   */
+  where?: Prisma.DeviceEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DeviceEvents to fetch.
+   */
+  orderBy?: Prisma.DeviceEventOrderByWithRelationInput | Prisma.DeviceEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.DeviceEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DeviceEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DeviceEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned DeviceEvents
+  **/
+  _count?: true | DeviceEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: DeviceEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: DeviceEventMaxAggregateInputType
+}
+
+export type GetDeviceEventAggregateType<T extends DeviceEventAggregateArgs> = {
+      [P in keyof T & keyof AggregateDeviceEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateDeviceEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregateDeviceEvent[P]>
+}
+
+
+
+
+export type DeviceEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DeviceEventWhereInput
+  orderBy?: Prisma.DeviceEventOrderByWithAggregationInput | Prisma.DeviceEventOrderByWithAggregationInput[]
+  by: Prisma.DeviceEventScalarFieldEnum[] | Prisma.DeviceEventScalarFieldEnum
+  having?: Prisma.DeviceEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: DeviceEventCountAggregateInputType | true
+  _min?: DeviceEventMinAggregateInputType
+  _max?: DeviceEventMaxAggregateInputType
+}
+
+export type DeviceEventGroupByOutputType = {
+  id: string
+  routerIp: string
+  mac: string
+  type: string
+  isNew: boolean
+  name: string | null
+  ip: string | null
+  vendor: string | null
+  dismissedAt: Date | null
+  createdAt: Date
+  _count: DeviceEventCountAggregateOutputType | null
+  _min: DeviceEventMinAggregateOutputType | null
+  _max: DeviceEventMaxAggregateOutputType | null
+}
+
+type GetDeviceEventGroupByPayload<T extends DeviceEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<DeviceEventGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof DeviceEventGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], DeviceEventGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], DeviceEventGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type DeviceEventWhereInput = {
+  AND?: Prisma.DeviceEventWhereInput | Prisma.DeviceEventWhereInput[]
+  OR?: Prisma.DeviceEventWhereInput[]
+  NOT?: Prisma.DeviceEventWhereInput | Prisma.DeviceEventWhereInput[]
+  id?: Prisma.StringFilter<"DeviceEvent"> | string
+  routerIp?: Prisma.StringFilter<"DeviceEvent"> | string
+  mac?: Prisma.StringFilter<"DeviceEvent"> | string
+  type?: Prisma.StringFilter<"DeviceEvent"> | string
+  isNew?: Prisma.BoolFilter<"DeviceEvent"> | boolean
+  name?: Prisma.StringNullableFilter<"DeviceEvent"> | string | null
+  ip?: Prisma.StringNullableFilter<"DeviceEvent"> | string | null
+  vendor?: Prisma.StringNullableFilter<"DeviceEvent"> | string | null
+  dismissedAt?: Prisma.DateTimeNullableFilter<"DeviceEvent"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"DeviceEvent"> | Date | string
+}
+
+export type DeviceEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  mac?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  isNew?: Prisma.SortOrder
+  name?: Prisma.SortOrderInput | Prisma.SortOrder
+  ip?: Prisma.SortOrderInput | Prisma.SortOrder
+  vendor?: Prisma.SortOrderInput | Prisma.SortOrder
+  dismissedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type DeviceEventWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.DeviceEventWhereInput | Prisma.DeviceEventWhereInput[]
+  OR?: Prisma.DeviceEventWhereInput[]
+  NOT?: Prisma.DeviceEventWhereInput | Prisma.DeviceEventWhereInput[]
+  routerIp?: Prisma.StringFilter<"DeviceEvent"> | string
+  mac?: Prisma.StringFilter<"DeviceEvent"> | string
+  type?: Prisma.StringFilter<"DeviceEvent"> | string
+  isNew?: Prisma.BoolFilter<"DeviceEvent"> | boolean
+  name?: Prisma.StringNullableFilter<"DeviceEvent"> | string | null
+  ip?: Prisma.StringNullableFilter<"DeviceEvent"> | string | null
+  vendor?: Prisma.StringNullableFilter<"DeviceEvent"> | string | null
+  dismissedAt?: Prisma.DateTimeNullableFilter<"DeviceEvent"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"DeviceEvent"> | Date | string
+}, "id">
+
+export type DeviceEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  mac?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  isNew?: Prisma.SortOrder
+  name?: Prisma.SortOrderInput | Prisma.SortOrder
+  ip?: Prisma.SortOrderInput | Prisma.SortOrder
+  vendor?: Prisma.SortOrderInput | Prisma.SortOrder
+  dismissedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.DeviceEventCountOrderByAggregateInput
+  _max?: Prisma.DeviceEventMaxOrderByAggregateInput
+  _min?: Prisma.DeviceEventMinOrderByAggregateInput
+}
+
+export type DeviceEventScalarWhereWithAggregatesInput = {
+  AND?: Prisma.DeviceEventScalarWhereWithAggregatesInput | Prisma.DeviceEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.DeviceEventScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.DeviceEventScalarWhereWithAggregatesInput | Prisma.DeviceEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"DeviceEvent"> | string
+  routerIp?: Prisma.StringWithAggregatesFilter<"DeviceEvent"> | string
+  mac?: Prisma.StringWithAggregatesFilter<"DeviceEvent"> | string
+  type?: Prisma.StringWithAggregatesFilter<"DeviceEvent"> | string
+  isNew?: Prisma.BoolWithAggregatesFilter<"DeviceEvent"> | boolean
+  name?: Prisma.StringNullableWithAggregatesFilter<"DeviceEvent"> | string | null
+  ip?: Prisma.StringNullableWithAggregatesFilter<"DeviceEvent"> | string | null
+  vendor?: Prisma.StringNullableWithAggregatesFilter<"DeviceEvent"> | string | null
+  dismissedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"DeviceEvent"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"DeviceEvent"> | Date | string
+}
+
+export type DeviceEventCreateInput = {
+  id?: string
+  routerIp: string
+  mac: string
+  type: string
+  isNew?: boolean
+  name?: string | null
+  ip?: string | null
+  vendor?: string | null
+  dismissedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type DeviceEventUncheckedCreateInput = {
+  id?: string
+  routerIp: string
+  mac: string
+  type: string
+  isNew?: boolean
+  name?: string | null
+  ip?: string | null
+  vendor?: string | null
+  dismissedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type DeviceEventUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  mac?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  isNew?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  vendor?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dismissedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DeviceEventUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  mac?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  isNew?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  vendor?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dismissedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DeviceEventCreateManyInput = {
+  id?: string
+  routerIp: string
+  mac: string
+  type: string
+  isNew?: boolean
+  name?: string | null
+  ip?: string | null
+  vendor?: string | null
+  dismissedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type DeviceEventUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  mac?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  isNew?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  vendor?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dismissedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DeviceEventUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  mac?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.StringFieldUpdateOperationsInput | string
+  isNew?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  vendor?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dismissedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DeviceEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  mac?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  isNew?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  ip?: Prisma.SortOrder
+  vendor?: Prisma.SortOrder
+  dismissedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type DeviceEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  mac?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  isNew?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  ip?: Prisma.SortOrder
+  vendor?: Prisma.SortOrder
+  dismissedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type DeviceEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  mac?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  isNew?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  ip?: Prisma.SortOrder
+  vendor?: Prisma.SortOrder
+  dismissedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type BoolFieldUpdateOperationsInput = {
+  set?: boolean
+}
+
+
+
+export type DeviceEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  routerIp?: boolean
+  mac?: boolean
+  type?: boolean
+  isNew?: boolean
+  name?: boolean
+  ip?: boolean
+  vendor?: boolean
+  dismissedAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["deviceEvent"]>
+
+export type DeviceEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  routerIp?: boolean
+  mac?: boolean
+  type?: boolean
+  isNew?: boolean
+  name?: boolean
+  ip?: boolean
+  vendor?: boolean
+  dismissedAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["deviceEvent"]>
+
+export type DeviceEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  routerIp?: boolean
+  mac?: boolean
+  type?: boolean
+  isNew?: boolean
+  name?: boolean
+  ip?: boolean
+  vendor?: boolean
+  dismissedAt?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["deviceEvent"]>
+
+export type DeviceEventSelectScalar = {
+  id?: boolean
+  routerIp?: boolean
+  mac?: boolean
+  type?: boolean
+  isNew?: boolean
+  name?: boolean
+  ip?: boolean
+  vendor?: boolean
+  dismissedAt?: boolean
+  createdAt?: boolean
+}
+
+export type DeviceEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "routerIp" | "mac" | "type" | "isNew" | "name" | "ip" | "vendor" | "dismissedAt" | "createdAt", ExtArgs["result"]["deviceEvent"]>
+
+export type $DeviceEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "DeviceEvent"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    routerIp: string
+    mac: string
+    type: string
+    isNew: boolean
+    name: string | null
+    ip: string | null
+    vendor: string | null
+    dismissedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["deviceEvent"]>
+  composites: {}
+}
+
+export type DeviceEventGetPayload<S extends boolean | null | undefined | DeviceEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload, S>
+
+export type DeviceEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<DeviceEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: DeviceEventCountAggregateInputType | true
+  }
+
+export interface DeviceEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['DeviceEvent'], meta: { name: 'DeviceEvent' } }
+  /**
+   * Find zero or one DeviceEvent that matches the filter.
+   * @param {DeviceEventFindUniqueArgs} args - Arguments to find a DeviceEvent
+   * @example
+   * // Get one DeviceEvent
+   * const deviceEvent = await prisma.deviceEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends DeviceEventFindUniqueArgs>(args: Prisma.SelectSubset<T, DeviceEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__DeviceEventClient<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one DeviceEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {DeviceEventFindUniqueOrThrowArgs} args - Arguments to find a DeviceEvent
+   * @example
+   * // Get one DeviceEvent
+   * const deviceEvent = await prisma.deviceEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends DeviceEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, DeviceEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__DeviceEventClient<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DeviceEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DeviceEventFindFirstArgs} args - Arguments to find a DeviceEvent
+   * @example
+   * // Get one DeviceEvent
+   * const deviceEvent = await prisma.deviceEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends DeviceEventFindFirstArgs>(args?: Prisma.SelectSubset<T, DeviceEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__DeviceEventClient<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DeviceEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DeviceEventFindFirstOrThrowArgs} args - Arguments to find a DeviceEvent
+   * @example
+   * // Get one DeviceEvent
+   * const deviceEvent = await prisma.deviceEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends DeviceEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, DeviceEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__DeviceEventClient<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more DeviceEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DeviceEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all DeviceEvents
+   * const deviceEvents = await prisma.deviceEvent.findMany()
+   * 
+   * // Get first 10 DeviceEvents
+   * const deviceEvents = await prisma.deviceEvent.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const deviceEventWithIdOnly = await prisma.deviceEvent.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends DeviceEventFindManyArgs>(args?: Prisma.SelectSubset<T, DeviceEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a DeviceEvent.
+   * @param {DeviceEventCreateArgs} args - Arguments to create a DeviceEvent.
+   * @example
+   * // Create one DeviceEvent
+   * const DeviceEvent = await prisma.deviceEvent.create({
+   *   data: {
+   *     // ... data to create a DeviceEvent
+   *   }
+   * })
+   * 
+   */
+  create<T extends DeviceEventCreateArgs>(args: Prisma.SelectSubset<T, DeviceEventCreateArgs<ExtArgs>>): Prisma.Prisma__DeviceEventClient<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many DeviceEvents.
+   * @param {DeviceEventCreateManyArgs} args - Arguments to create many DeviceEvents.
+   * @example
+   * // Create many DeviceEvents
+   * const deviceEvent = await prisma.deviceEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends DeviceEventCreateManyArgs>(args?: Prisma.SelectSubset<T, DeviceEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many DeviceEvents and returns the data saved in the database.
+   * @param {DeviceEventCreateManyAndReturnArgs} args - Arguments to create many DeviceEvents.
+   * @example
+   * // Create many DeviceEvents
+   * const deviceEvent = await prisma.deviceEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many DeviceEvents and only return the `id`
+   * const deviceEventWithIdOnly = await prisma.deviceEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends DeviceEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, DeviceEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a DeviceEvent.
+   * @param {DeviceEventDeleteArgs} args - Arguments to delete one DeviceEvent.
+   * @example
+   * // Delete one DeviceEvent
+   * const DeviceEvent = await prisma.deviceEvent.delete({
+   *   where: {
+   *     // ... filter to delete one DeviceEvent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends DeviceEventDeleteArgs>(args: Prisma.SelectSubset<T, DeviceEventDeleteArgs<ExtArgs>>): Prisma.Prisma__DeviceEventClient<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one DeviceEvent.
+   * @param {DeviceEventUpdateArgs} args - Arguments to update one DeviceEvent.
+   * @example
+   * // Update one DeviceEvent
+   * const deviceEvent = await prisma.deviceEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends DeviceEventUpdateArgs>(args: Prisma.SelectSubset<T, DeviceEventUpdateArgs<ExtArgs>>): Prisma.Prisma__DeviceEventClient<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more DeviceEvents.
+   * @param {DeviceEventDeleteManyArgs} args - Arguments to filter DeviceEvents to delete.
+   * @example
+   * // Delete a few DeviceEvents
+   * const { count } = await prisma.deviceEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends DeviceEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, DeviceEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DeviceEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DeviceEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many DeviceEvents
+   * const deviceEvent = await prisma.deviceEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends DeviceEventUpdateManyArgs>(args: Prisma.SelectSubset<T, DeviceEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DeviceEvents and returns the data updated in the database.
+   * @param {DeviceEventUpdateManyAndReturnArgs} args - Arguments to update many DeviceEvents.
+   * @example
+   * // Update many DeviceEvents
+   * const deviceEvent = await prisma.deviceEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more DeviceEvents and only return the `id`
+   * const deviceEventWithIdOnly = await prisma.deviceEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends DeviceEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, DeviceEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one DeviceEvent.
+   * @param {DeviceEventUpsertArgs} args - Arguments to update or create a DeviceEvent.
+   * @example
+   * // Update or create a DeviceEvent
+   * const deviceEvent = await prisma.deviceEvent.upsert({
+   *   create: {
+   *     // ... data to create a DeviceEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the DeviceEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends DeviceEventUpsertArgs>(args: Prisma.SelectSubset<T, DeviceEventUpsertArgs<ExtArgs>>): Prisma.Prisma__DeviceEventClient<runtime.Types.Result.GetResult<Prisma.$DeviceEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of DeviceEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DeviceEventCountArgs} args - Arguments to filter DeviceEvents to count.
+   * @example
+   * // Count the number of DeviceEvents
+   * const count = await prisma.deviceEvent.count({
+   *   where: {
+   *     // ... the filter for the DeviceEvents we want to count
+   *   }
+   * })
+  **/
+  count<T extends DeviceEventCountArgs>(
+    args?: Prisma.Subset<T, DeviceEventCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], DeviceEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a DeviceEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DeviceEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends DeviceEventAggregateArgs>(args: Prisma.Subset<T, DeviceEventAggregateArgs>): Prisma.PrismaPromise<GetDeviceEventAggregateType<T>>
+
+  /**
+   * Group by DeviceEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DeviceEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends DeviceEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: DeviceEventGroupByArgs['orderBy'] }
+      : { orderBy?: DeviceEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, DeviceEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetDeviceEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the DeviceEvent model
+ */
+readonly fields: DeviceEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for DeviceEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__DeviceEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the DeviceEvent model
+ */
+export interface DeviceEventFieldRefs {
+  readonly id: Prisma.FieldRef<"DeviceEvent", 'String'>
+  readonly routerIp: Prisma.FieldRef<"DeviceEvent", 'String'>
+  readonly mac: Prisma.FieldRef<"DeviceEvent", 'String'>
+  readonly type: Prisma.FieldRef<"DeviceEvent", 'String'>
+  readonly isNew: Prisma.FieldRef<"DeviceEvent", 'Boolean'>
+  readonly name: Prisma.FieldRef<"DeviceEvent", 'String'>
+  readonly ip: Prisma.FieldRef<"DeviceEvent", 'String'>
+  readonly vendor: Prisma.FieldRef<"DeviceEvent", 'String'>
+  readonly dismissedAt: Prisma.FieldRef<"DeviceEvent", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"DeviceEvent", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * DeviceEvent findUnique
+ */
+export type DeviceEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * Filter, which DeviceEvent to fetch.
+   */
+  where: Prisma.DeviceEventWhereUniqueInput
+}
+
+/**
+ * DeviceEvent findUniqueOrThrow
+ */
+export type DeviceEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * Filter, which DeviceEvent to fetch.
+   */
+  where: Prisma.DeviceEventWhereUniqueInput
+}
+
+/**
+ * DeviceEvent findFirst
+ */
+export type DeviceEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * Filter, which DeviceEvent to fetch.
+   */
+  where?: Prisma.DeviceEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DeviceEvents to fetch.
+   */
+  orderBy?: Prisma.DeviceEventOrderByWithRelationInput | Prisma.DeviceEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DeviceEvents.
+   */
+  cursor?: Prisma.DeviceEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DeviceEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DeviceEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DeviceEvents.
+   */
+  distinct?: Prisma.DeviceEventScalarFieldEnum | Prisma.DeviceEventScalarFieldEnum[]
+}
+
+/**
+ * DeviceEvent findFirstOrThrow
+ */
+export type DeviceEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * Filter, which DeviceEvent to fetch.
+   */
+  where?: Prisma.DeviceEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DeviceEvents to fetch.
+   */
+  orderBy?: Prisma.DeviceEventOrderByWithRelationInput | Prisma.DeviceEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DeviceEvents.
+   */
+  cursor?: Prisma.DeviceEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DeviceEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DeviceEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DeviceEvents.
+   */
+  distinct?: Prisma.DeviceEventScalarFieldEnum | Prisma.DeviceEventScalarFieldEnum[]
+}
+
+/**
+ * DeviceEvent findMany
+ */
+export type DeviceEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * Filter, which DeviceEvents to fetch.
+   */
+  where?: Prisma.DeviceEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DeviceEvents to fetch.
+   */
+  orderBy?: Prisma.DeviceEventOrderByWithRelationInput | Prisma.DeviceEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing DeviceEvents.
+   */
+  cursor?: Prisma.DeviceEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DeviceEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DeviceEvents.
+   */
+  skip?: number
+  distinct?: Prisma.DeviceEventScalarFieldEnum | Prisma.DeviceEventScalarFieldEnum[]
+}
+
+/**
+ * DeviceEvent create
+ */
+export type DeviceEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * The data needed to create a DeviceEvent.
+   */
+  data: Prisma.XOR<Prisma.DeviceEventCreateInput, Prisma.DeviceEventUncheckedCreateInput>
+}
+
+/**
+ * DeviceEvent createMany
+ */
+export type DeviceEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many DeviceEvents.
+   */
+  data: Prisma.DeviceEventCreateManyInput | Prisma.DeviceEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * DeviceEvent createManyAndReturn
+ */
+export type DeviceEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many DeviceEvents.
+   */
+  data: Prisma.DeviceEventCreateManyInput | Prisma.DeviceEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * DeviceEvent update
+ */
+export type DeviceEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * The data needed to update a DeviceEvent.
+   */
+  data: Prisma.XOR<Prisma.DeviceEventUpdateInput, Prisma.DeviceEventUncheckedUpdateInput>
+  /**
+   * Choose, which DeviceEvent to update.
+   */
+  where: Prisma.DeviceEventWhereUniqueInput
+}
+
+/**
+ * DeviceEvent updateMany
+ */
+export type DeviceEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update DeviceEvents.
+   */
+  data: Prisma.XOR<Prisma.DeviceEventUpdateManyMutationInput, Prisma.DeviceEventUncheckedUpdateManyInput>
+  /**
+   * Filter which DeviceEvents to update
+   */
+  where?: Prisma.DeviceEventWhereInput
+  /**
+   * Limit how many DeviceEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * DeviceEvent updateManyAndReturn
+ */
+export type DeviceEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * The data used to update DeviceEvents.
+   */
+  data: Prisma.XOR<Prisma.DeviceEventUpdateManyMutationInput, Prisma.DeviceEventUncheckedUpdateManyInput>
+  /**
+   * Filter which DeviceEvents to update
+   */
+  where?: Prisma.DeviceEventWhereInput
+  /**
+   * Limit how many DeviceEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * DeviceEvent upsert
+ */
+export type DeviceEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * The filter to search for the DeviceEvent to update in case it exists.
+   */
+  where: Prisma.DeviceEventWhereUniqueInput
+  /**
+   * In case the DeviceEvent found by the `where` argument doesn't exist, create a new DeviceEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.DeviceEventCreateInput, Prisma.DeviceEventUncheckedCreateInput>
+  /**
+   * In case the DeviceEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.DeviceEventUpdateInput, Prisma.DeviceEventUncheckedUpdateInput>
+}
+
+/**
+ * DeviceEvent delete
+ */
+export type DeviceEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+  /**
+   * Filter which DeviceEvent to delete.
+   */
+  where: Prisma.DeviceEventWhereUniqueInput
+}
+
+/**
+ * DeviceEvent deleteMany
+ */
+export type DeviceEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DeviceEvents to delete
+   */
+  where?: Prisma.DeviceEventWhereInput
+  /**
+   * Limit how many DeviceEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * DeviceEvent without action
+ */
+export type DeviceEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DeviceEvent
+   */
+  select?: Prisma.DeviceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DeviceEvent
+   */
+  omit?: Prisma.DeviceEventOmit<ExtArgs> | null
+}
@@ -0,0 +1,1196 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `MetricSample` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model MetricSample
+ * 
+ */
+export type MetricSampleModel = runtime.Types.Result.DefaultSelection<Prisma.$MetricSamplePayload>
+
+export type AggregateMetricSample = {
+  _count: MetricSampleCountAggregateOutputType | null
+  _avg: MetricSampleAvgAggregateOutputType | null
+  _sum: MetricSampleSumAggregateOutputType | null
+  _min: MetricSampleMinAggregateOutputType | null
+  _max: MetricSampleMaxAggregateOutputType | null
+}
+
+export type MetricSampleAvgAggregateOutputType = {
+  value: number | null
+}
+
+export type MetricSampleSumAggregateOutputType = {
+  value: number | null
+}
+
+export type MetricSampleMinAggregateOutputType = {
+  id: string | null
+  routerIp: string | null
+  metric: string | null
+  value: number | null
+  sampledAt: Date | null
+}
+
+export type MetricSampleMaxAggregateOutputType = {
+  id: string | null
+  routerIp: string | null
+  metric: string | null
+  value: number | null
+  sampledAt: Date | null
+}
+
+export type MetricSampleCountAggregateOutputType = {
+  id: number
+  routerIp: number
+  metric: number
+  value: number
+  sampledAt: number
+  _all: number
+}
+
+
+export type MetricSampleAvgAggregateInputType = {
+  value?: true
+}
+
+export type MetricSampleSumAggregateInputType = {
+  value?: true
+}
+
+export type MetricSampleMinAggregateInputType = {
+  id?: true
+  routerIp?: true
+  metric?: true
+  value?: true
+  sampledAt?: true
+}
+
+export type MetricSampleMaxAggregateInputType = {
+  id?: true
+  routerIp?: true
+  metric?: true
+  value?: true
+  sampledAt?: true
+}
+
+export type MetricSampleCountAggregateInputType = {
+  id?: true
+  routerIp?: true
+  metric?: true
+  value?: true
+  sampledAt?: true
+  _all?: true
+}
+
+export type MetricSampleAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which MetricSample to aggregate.
+   */
+  where?: Prisma.MetricSampleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MetricSamples to fetch.
+   */
+  orderBy?: Prisma.MetricSampleOrderByWithRelationInput | Prisma.MetricSampleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.MetricSampleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MetricSamples from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MetricSamples.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned MetricSamples
+  **/
+  _count?: true | MetricSampleCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: MetricSampleAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: MetricSampleSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: MetricSampleMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: MetricSampleMaxAggregateInputType
+}
+
+export type GetMetricSampleAggregateType<T extends MetricSampleAggregateArgs> = {
+      [P in keyof T & keyof AggregateMetricSample]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateMetricSample[P]>
+    : Prisma.GetScalarType<T[P], AggregateMetricSample[P]>
+}
+
+
+
+
+export type MetricSampleGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MetricSampleWhereInput
+  orderBy?: Prisma.MetricSampleOrderByWithAggregationInput | Prisma.MetricSampleOrderByWithAggregationInput[]
+  by: Prisma.MetricSampleScalarFieldEnum[] | Prisma.MetricSampleScalarFieldEnum
+  having?: Prisma.MetricSampleScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: MetricSampleCountAggregateInputType | true
+  _avg?: MetricSampleAvgAggregateInputType
+  _sum?: MetricSampleSumAggregateInputType
+  _min?: MetricSampleMinAggregateInputType
+  _max?: MetricSampleMaxAggregateInputType
+}
+
+export type MetricSampleGroupByOutputType = {
+  id: string
+  routerIp: string
+  metric: string
+  value: number
+  sampledAt: Date
+  _count: MetricSampleCountAggregateOutputType | null
+  _avg: MetricSampleAvgAggregateOutputType | null
+  _sum: MetricSampleSumAggregateOutputType | null
+  _min: MetricSampleMinAggregateOutputType | null
+  _max: MetricSampleMaxAggregateOutputType | null
+}
+
+type GetMetricSampleGroupByPayload<T extends MetricSampleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<MetricSampleGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof MetricSampleGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], MetricSampleGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], MetricSampleGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type MetricSampleWhereInput = {
+  AND?: Prisma.MetricSampleWhereInput | Prisma.MetricSampleWhereInput[]
+  OR?: Prisma.MetricSampleWhereInput[]
+  NOT?: Prisma.MetricSampleWhereInput | Prisma.MetricSampleWhereInput[]
+  id?: Prisma.StringFilter<"MetricSample"> | string
+  routerIp?: Prisma.StringFilter<"MetricSample"> | string
+  metric?: Prisma.StringFilter<"MetricSample"> | string
+  value?: Prisma.FloatFilter<"MetricSample"> | number
+  sampledAt?: Prisma.DateTimeFilter<"MetricSample"> | Date | string
+}
+
+export type MetricSampleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  metric?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  sampledAt?: Prisma.SortOrder
+}
+
+export type MetricSampleWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.MetricSampleWhereInput | Prisma.MetricSampleWhereInput[]
+  OR?: Prisma.MetricSampleWhereInput[]
+  NOT?: Prisma.MetricSampleWhereInput | Prisma.MetricSampleWhereInput[]
+  routerIp?: Prisma.StringFilter<"MetricSample"> | string
+  metric?: Prisma.StringFilter<"MetricSample"> | string
+  value?: Prisma.FloatFilter<"MetricSample"> | number
+  sampledAt?: Prisma.DateTimeFilter<"MetricSample"> | Date | string
+}, "id">
+
+export type MetricSampleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  metric?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  sampledAt?: Prisma.SortOrder
+  _count?: Prisma.MetricSampleCountOrderByAggregateInput
+  _avg?: Prisma.MetricSampleAvgOrderByAggregateInput
+  _max?: Prisma.MetricSampleMaxOrderByAggregateInput
+  _min?: Prisma.MetricSampleMinOrderByAggregateInput
+  _sum?: Prisma.MetricSampleSumOrderByAggregateInput
+}
+
+export type MetricSampleScalarWhereWithAggregatesInput = {
+  AND?: Prisma.MetricSampleScalarWhereWithAggregatesInput | Prisma.MetricSampleScalarWhereWithAggregatesInput[]
+  OR?: Prisma.MetricSampleScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.MetricSampleScalarWhereWithAggregatesInput | Prisma.MetricSampleScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"MetricSample"> | string
+  routerIp?: Prisma.StringWithAggregatesFilter<"MetricSample"> | string
+  metric?: Prisma.StringWithAggregatesFilter<"MetricSample"> | string
+  value?: Prisma.FloatWithAggregatesFilter<"MetricSample"> | number
+  sampledAt?: Prisma.DateTimeWithAggregatesFilter<"MetricSample"> | Date | string
+}
+
+export type MetricSampleCreateInput = {
+  id?: string
+  routerIp: string
+  metric: string
+  value: number
+  sampledAt?: Date | string
+}
+
+export type MetricSampleUncheckedCreateInput = {
+  id?: string
+  routerIp: string
+  metric: string
+  value: number
+  sampledAt?: Date | string
+}
+
+export type MetricSampleUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  metric?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.FloatFieldUpdateOperationsInput | number
+  sampledAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MetricSampleUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  metric?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.FloatFieldUpdateOperationsInput | number
+  sampledAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MetricSampleCreateManyInput = {
+  id?: string
+  routerIp: string
+  metric: string
+  value: number
+  sampledAt?: Date | string
+}
+
+export type MetricSampleUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  metric?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.FloatFieldUpdateOperationsInput | number
+  sampledAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MetricSampleUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  metric?: Prisma.StringFieldUpdateOperationsInput | string
+  value?: Prisma.FloatFieldUpdateOperationsInput | number
+  sampledAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MetricSampleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  metric?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  sampledAt?: Prisma.SortOrder
+}
+
+export type MetricSampleAvgOrderByAggregateInput = {
+  value?: Prisma.SortOrder
+}
+
+export type MetricSampleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  metric?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  sampledAt?: Prisma.SortOrder
+}
+
+export type MetricSampleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  routerIp?: Prisma.SortOrder
+  metric?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  sampledAt?: Prisma.SortOrder
+}
+
+export type MetricSampleSumOrderByAggregateInput = {
+  value?: Prisma.SortOrder
+}
+
+export type FloatFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+
+
+export type MetricSampleSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  routerIp?: boolean
+  metric?: boolean
+  value?: boolean
+  sampledAt?: boolean
+}, ExtArgs["result"]["metricSample"]>
+
+export type MetricSampleSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  routerIp?: boolean
+  metric?: boolean
+  value?: boolean
+  sampledAt?: boolean
+}, ExtArgs["result"]["metricSample"]>
+
+export type MetricSampleSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  routerIp?: boolean
+  metric?: boolean
+  value?: boolean
+  sampledAt?: boolean
+}, ExtArgs["result"]["metricSample"]>
+
+export type MetricSampleSelectScalar = {
+  id?: boolean
+  routerIp?: boolean
+  metric?: boolean
+  value?: boolean
+  sampledAt?: boolean
+}
+
+export type MetricSampleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "routerIp" | "metric" | "value" | "sampledAt", ExtArgs["result"]["metricSample"]>
+
+export type $MetricSamplePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "MetricSample"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    routerIp: string
+    metric: string
+    value: number
+    sampledAt: Date
+  }, ExtArgs["result"]["metricSample"]>
+  composites: {}
+}
+
+export type MetricSampleGetPayload<S extends boolean | null | undefined | MetricSampleDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload, S>
+
+export type MetricSampleCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<MetricSampleFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: MetricSampleCountAggregateInputType | true
+  }
+
+export interface MetricSampleDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['MetricSample'], meta: { name: 'MetricSample' } }
+  /**
+   * Find zero or one MetricSample that matches the filter.
+   * @param {MetricSampleFindUniqueArgs} args - Arguments to find a MetricSample
+   * @example
+   * // Get one MetricSample
+   * const metricSample = await prisma.metricSample.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends MetricSampleFindUniqueArgs>(args: Prisma.SelectSubset<T, MetricSampleFindUniqueArgs<ExtArgs>>): Prisma.Prisma__MetricSampleClient<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one MetricSample that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {MetricSampleFindUniqueOrThrowArgs} args - Arguments to find a MetricSample
+   * @example
+   * // Get one MetricSample
+   * const metricSample = await prisma.metricSample.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends MetricSampleFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, MetricSampleFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__MetricSampleClient<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first MetricSample that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MetricSampleFindFirstArgs} args - Arguments to find a MetricSample
+   * @example
+   * // Get one MetricSample
+   * const metricSample = await prisma.metricSample.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends MetricSampleFindFirstArgs>(args?: Prisma.SelectSubset<T, MetricSampleFindFirstArgs<ExtArgs>>): Prisma.Prisma__MetricSampleClient<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first MetricSample that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MetricSampleFindFirstOrThrowArgs} args - Arguments to find a MetricSample
+   * @example
+   * // Get one MetricSample
+   * const metricSample = await prisma.metricSample.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends MetricSampleFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, MetricSampleFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__MetricSampleClient<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more MetricSamples that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MetricSampleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all MetricSamples
+   * const metricSamples = await prisma.metricSample.findMany()
+   * 
+   * // Get first 10 MetricSamples
+   * const metricSamples = await prisma.metricSample.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const metricSampleWithIdOnly = await prisma.metricSample.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends MetricSampleFindManyArgs>(args?: Prisma.SelectSubset<T, MetricSampleFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a MetricSample.
+   * @param {MetricSampleCreateArgs} args - Arguments to create a MetricSample.
+   * @example
+   * // Create one MetricSample
+   * const MetricSample = await prisma.metricSample.create({
+   *   data: {
+   *     // ... data to create a MetricSample
+   *   }
+   * })
+   * 
+   */
+  create<T extends MetricSampleCreateArgs>(args: Prisma.SelectSubset<T, MetricSampleCreateArgs<ExtArgs>>): Prisma.Prisma__MetricSampleClient<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many MetricSamples.
+   * @param {MetricSampleCreateManyArgs} args - Arguments to create many MetricSamples.
+   * @example
+   * // Create many MetricSamples
+   * const metricSample = await prisma.metricSample.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends MetricSampleCreateManyArgs>(args?: Prisma.SelectSubset<T, MetricSampleCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many MetricSamples and returns the data saved in the database.
+   * @param {MetricSampleCreateManyAndReturnArgs} args - Arguments to create many MetricSamples.
+   * @example
+   * // Create many MetricSamples
+   * const metricSample = await prisma.metricSample.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many MetricSamples and only return the `id`
+   * const metricSampleWithIdOnly = await prisma.metricSample.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends MetricSampleCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, MetricSampleCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a MetricSample.
+   * @param {MetricSampleDeleteArgs} args - Arguments to delete one MetricSample.
+   * @example
+   * // Delete one MetricSample
+   * const MetricSample = await prisma.metricSample.delete({
+   *   where: {
+   *     // ... filter to delete one MetricSample
+   *   }
+   * })
+   * 
+   */
+  delete<T extends MetricSampleDeleteArgs>(args: Prisma.SelectSubset<T, MetricSampleDeleteArgs<ExtArgs>>): Prisma.Prisma__MetricSampleClient<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one MetricSample.
+   * @param {MetricSampleUpdateArgs} args - Arguments to update one MetricSample.
+   * @example
+   * // Update one MetricSample
+   * const metricSample = await prisma.metricSample.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends MetricSampleUpdateArgs>(args: Prisma.SelectSubset<T, MetricSampleUpdateArgs<ExtArgs>>): Prisma.Prisma__MetricSampleClient<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more MetricSamples.
+   * @param {MetricSampleDeleteManyArgs} args - Arguments to filter MetricSamples to delete.
+   * @example
+   * // Delete a few MetricSamples
+   * const { count } = await prisma.metricSample.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends MetricSampleDeleteManyArgs>(args?: Prisma.SelectSubset<T, MetricSampleDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more MetricSamples.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MetricSampleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many MetricSamples
+   * const metricSample = await prisma.metricSample.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends MetricSampleUpdateManyArgs>(args: Prisma.SelectSubset<T, MetricSampleUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more MetricSamples and returns the data updated in the database.
+   * @param {MetricSampleUpdateManyAndReturnArgs} args - Arguments to update many MetricSamples.
+   * @example
+   * // Update many MetricSamples
+   * const metricSample = await prisma.metricSample.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more MetricSamples and only return the `id`
+   * const metricSampleWithIdOnly = await prisma.metricSample.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends MetricSampleUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, MetricSampleUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one MetricSample.
+   * @param {MetricSampleUpsertArgs} args - Arguments to update or create a MetricSample.
+   * @example
+   * // Update or create a MetricSample
+   * const metricSample = await prisma.metricSample.upsert({
+   *   create: {
+   *     // ... data to create a MetricSample
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the MetricSample we want to update
+   *   }
+   * })
+   */
+  upsert<T extends MetricSampleUpsertArgs>(args: Prisma.SelectSubset<T, MetricSampleUpsertArgs<ExtArgs>>): Prisma.Prisma__MetricSampleClient<runtime.Types.Result.GetResult<Prisma.$MetricSamplePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of MetricSamples.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MetricSampleCountArgs} args - Arguments to filter MetricSamples to count.
+   * @example
+   * // Count the number of MetricSamples
+   * const count = await prisma.metricSample.count({
+   *   where: {
+   *     // ... the filter for the MetricSamples we want to count
+   *   }
+   * })
+  **/
+  count<T extends MetricSampleCountArgs>(
+    args?: Prisma.Subset<T, MetricSampleCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], MetricSampleCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a MetricSample.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MetricSampleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends MetricSampleAggregateArgs>(args: Prisma.Subset<T, MetricSampleAggregateArgs>): Prisma.PrismaPromise<GetMetricSampleAggregateType<T>>
+
+  /**
+   * Group by MetricSample.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MetricSampleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends MetricSampleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: MetricSampleGroupByArgs['orderBy'] }
+      : { orderBy?: MetricSampleGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, MetricSampleGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMetricSampleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the MetricSample model
+ */
+readonly fields: MetricSampleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for MetricSample.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__MetricSampleClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the MetricSample model
+ */
+export interface MetricSampleFieldRefs {
+  readonly id: Prisma.FieldRef<"MetricSample", 'String'>
+  readonly routerIp: Prisma.FieldRef<"MetricSample", 'String'>
+  readonly metric: Prisma.FieldRef<"MetricSample", 'String'>
+  readonly value: Prisma.FieldRef<"MetricSample", 'Float'>
+  readonly sampledAt: Prisma.FieldRef<"MetricSample", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * MetricSample findUnique
+ */
+export type MetricSampleFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * Filter, which MetricSample to fetch.
+   */
+  where: Prisma.MetricSampleWhereUniqueInput
+}
+
+/**
+ * MetricSample findUniqueOrThrow
+ */
+export type MetricSampleFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * Filter, which MetricSample to fetch.
+   */
+  where: Prisma.MetricSampleWhereUniqueInput
+}
+
+/**
+ * MetricSample findFirst
+ */
+export type MetricSampleFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * Filter, which MetricSample to fetch.
+   */
+  where?: Prisma.MetricSampleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MetricSamples to fetch.
+   */
+  orderBy?: Prisma.MetricSampleOrderByWithRelationInput | Prisma.MetricSampleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for MetricSamples.
+   */
+  cursor?: Prisma.MetricSampleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MetricSamples from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MetricSamples.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of MetricSamples.
+   */
+  distinct?: Prisma.MetricSampleScalarFieldEnum | Prisma.MetricSampleScalarFieldEnum[]
+}
+
+/**
+ * MetricSample findFirstOrThrow
+ */
+export type MetricSampleFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * Filter, which MetricSample to fetch.
+   */
+  where?: Prisma.MetricSampleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MetricSamples to fetch.
+   */
+  orderBy?: Prisma.MetricSampleOrderByWithRelationInput | Prisma.MetricSampleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for MetricSamples.
+   */
+  cursor?: Prisma.MetricSampleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MetricSamples from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MetricSamples.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of MetricSamples.
+   */
+  distinct?: Prisma.MetricSampleScalarFieldEnum | Prisma.MetricSampleScalarFieldEnum[]
+}
+
+/**
+ * MetricSample findMany
+ */
+export type MetricSampleFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * Filter, which MetricSamples to fetch.
+   */
+  where?: Prisma.MetricSampleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MetricSamples to fetch.
+   */
+  orderBy?: Prisma.MetricSampleOrderByWithRelationInput | Prisma.MetricSampleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing MetricSamples.
+   */
+  cursor?: Prisma.MetricSampleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MetricSamples from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MetricSamples.
+   */
+  skip?: number
+  distinct?: Prisma.MetricSampleScalarFieldEnum | Prisma.MetricSampleScalarFieldEnum[]
+}
+
+/**
+ * MetricSample create
+ */
+export type MetricSampleCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * The data needed to create a MetricSample.
+   */
+  data: Prisma.XOR<Prisma.MetricSampleCreateInput, Prisma.MetricSampleUncheckedCreateInput>
+}
+
+/**
+ * MetricSample createMany
+ */
+export type MetricSampleCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many MetricSamples.
+   */
+  data: Prisma.MetricSampleCreateManyInput | Prisma.MetricSampleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * MetricSample createManyAndReturn
+ */
+export type MetricSampleCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * The data used to create many MetricSamples.
+   */
+  data: Prisma.MetricSampleCreateManyInput | Prisma.MetricSampleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * MetricSample update
+ */
+export type MetricSampleUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * The data needed to update a MetricSample.
+   */
+  data: Prisma.XOR<Prisma.MetricSampleUpdateInput, Prisma.MetricSampleUncheckedUpdateInput>
+  /**
+   * Choose, which MetricSample to update.
+   */
+  where: Prisma.MetricSampleWhereUniqueInput
+}
+
+/**
+ * MetricSample updateMany
+ */
+export type MetricSampleUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update MetricSamples.
+   */
+  data: Prisma.XOR<Prisma.MetricSampleUpdateManyMutationInput, Prisma.MetricSampleUncheckedUpdateManyInput>
+  /**
+   * Filter which MetricSamples to update
+   */
+  where?: Prisma.MetricSampleWhereInput
+  /**
+   * Limit how many MetricSamples to update.
+   */
+  limit?: number
+}
+
+/**
+ * MetricSample updateManyAndReturn
+ */
+export type MetricSampleUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * The data used to update MetricSamples.
+   */
+  data: Prisma.XOR<Prisma.MetricSampleUpdateManyMutationInput, Prisma.MetricSampleUncheckedUpdateManyInput>
+  /**
+   * Filter which MetricSamples to update
+   */
+  where?: Prisma.MetricSampleWhereInput
+  /**
+   * Limit how many MetricSamples to update.
+   */
+  limit?: number
+}
+
+/**
+ * MetricSample upsert
+ */
+export type MetricSampleUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * The filter to search for the MetricSample to update in case it exists.
+   */
+  where: Prisma.MetricSampleWhereUniqueInput
+  /**
+   * In case the MetricSample found by the `where` argument doesn't exist, create a new MetricSample with this data.
+   */
+  create: Prisma.XOR<Prisma.MetricSampleCreateInput, Prisma.MetricSampleUncheckedCreateInput>
+  /**
+   * In case the MetricSample was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.MetricSampleUpdateInput, Prisma.MetricSampleUncheckedUpdateInput>
+}
+
+/**
+ * MetricSample delete
+ */
+export type MetricSampleDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+  /**
+   * Filter which MetricSample to delete.
+   */
+  where: Prisma.MetricSampleWhereUniqueInput
+}
+
+/**
+ * MetricSample deleteMany
+ */
+export type MetricSampleDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which MetricSamples to delete
+   */
+  where?: Prisma.MetricSampleWhereInput
+  /**
+   * Limit how many MetricSamples to delete.
+   */
+  limit?: number
+}
+
+/**
+ * MetricSample without action
+ */
+export type MetricSampleDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MetricSample
+   */
+  select?: Prisma.MetricSampleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MetricSample
+   */
+  omit?: Prisma.MetricSampleOmit<ExtArgs> | null
+}
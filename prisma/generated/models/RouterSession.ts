@@ -26,8 +26,14 @@ export type AggregateRouterSession = {
 
 export type RouterSessionMinAggregateOutputType = {
   id: string | null
+  clientSessionId: string | null
+  routerId: string | null
+  name: string | null
+  adapterId: string | null
   routerIp: string | null
   sessionId: string | null
+  username: string | null
+  encryptedCredentials: string | null
   expiresAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -35,8 +41,14 @@ export type RouterSessionMinAggregateOutputType = {
 
 export type RouterSessionMaxAggregateOutputType = {
   id: string | null
+  clientSessionId: string | null
+  routerId: string | null
+  name: string | null
+  adapterId: string | null
   routerIp: string | null
   sessionId: string | null
+  username: string | null
+  encryptedCredentials: string | null
   expiresAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -44,9 +56,15 @@ export type RouterSessionMaxAggregateOutputType = {
 
 export type RouterSessionCountAggregateOutputType = {
   id: number
+  clientSessionId: number
+  routerId: number
+  name: number
+  adapterId: number
   routerIp: number
   sessionId: number
   cookies: number
+  username: number
+  encryptedCredentials: number
   expiresAt: number
   createdAt: number
   updatedAt: number
@@ -56,8 +74,14 @@ export type RouterSessionCountAggregateOutputType = {
 
 export type RouterSessionMinAggregateInputType = {
   id?: true
+  clientSessionId?: true
+  routerId?: true
+  name?: true
+  adapterId?: true
   routerIp?: true
   sessionId?: true
+  username?: true
+  encryptedCredentials?: true
   expiresAt?: true
   createdAt?: true
   updatedAt?: true
@@ -65,8 +89,14 @@ export type RouterSessionMinAggregateInputType = {
 
 export type RouterSessionMaxAggregateInputType = {
   id?: true
+  clientSessionId?: true
+  routerId?: true
+  name?: true
+  adapterId?: true
   routerIp?: true
   sessionId?: true
+  username?: true
+  encryptedCredentials?: true
   expiresAt?: true
   createdAt?: true
   updatedAt?: true
@@ -74,9 +104,15 @@ export type RouterSessionMaxAggregateInputType = {
 
 export type RouterSessionCountAggregateInputType = {
   id?: true
+  clientSessionId?: true
+  routerId?: true
+  name?: true
+  adapterId?: true
   routerIp?: true
   sessionId?: true
   cookies?: true
+  username?: true
+  encryptedCredentials?: true
   expiresAt?: true
   createdAt?: true
   updatedAt?: true
@@ -157,9 +193,15 @@ export type RouterSessionGroupByArgs<ExtArgs extends runtime.Types.Extensions.In
 
 export type RouterSessionGroupByOutputType = {
   id: string
+  clientSessionId: string | null
+  routerId: string
+  name: string
+  adapterId: string | null
   routerIp: string
   sessionId: string
   cookies: runtime.JsonValue
+  username: string | null
+  encryptedCredentials: string | null
   expiresAt: Date | null
   createdAt: Date
   updatedAt: Date
@@ -188,42 +230,70 @@ export type RouterSessionWhereInput = {
   OR?: Prisma.RouterSessionWhereInput[]
   NOT?: Prisma.RouterSessionWhereInput | Prisma.RouterSessionWhereInput[]
   id?: Prisma.StringFilter<"RouterSession"> | string
+  clientSessionId?: Prisma.StringNullableFilter<"RouterSession"> | string | null
+  routerId?: Prisma.StringFilter<"RouterSession"> | string
+  name?: Prisma.StringFilter<"RouterSession"> | string
+  adapterId?: Prisma.StringNullableFilter<"RouterSession"> | string | null
   routerIp?: Prisma.StringFilter<"RouterSession"> | string
   sessionId?: Prisma.StringFilter<"RouterSession"> | string
   cookies?: Prisma.JsonFilter<"RouterSession">
+  username?: Prisma.StringNullableFilter<"RouterSession"> | string | null
+  encryptedCredentials?: Prisma.StringNullableFilter<"RouterSession"> | string | null
   expiresAt?: Prisma.DateTimeNullableFilter<"RouterSession"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"RouterSession"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"RouterSession"> | Date | string
+  clientSession?: Prisma.XOR<Prisma.ClientSessionNullableScalarRelationFilter, Prisma.ClientSessionWhereInput> | null
 }
 
 export type RouterSessionOrderByWithRelationInput = {
   id?: Prisma.SortOrder
+  clientSessionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  routerId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  adapterId?: Prisma.SortOrderInput | Prisma.SortOrder
   routerIp?: Prisma.SortOrder
   sessionId?: Prisma.SortOrder
   cookies?: Prisma.SortOrder
+  username?: Prisma.SortOrderInput | Prisma.SortOrder
+  encryptedCredentials?: Prisma.SortOrderInput | Prisma.SortOrder
   expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  clientSession?: Prisma.ClientSessionOrderByWithRelationInput
 }
 
 export type RouterSessionWhereUniqueInput = Prisma.AtLeast<{
   id?: string
+  clientSessionId_routerId?: Prisma.RouterSessionClientSessionIdRouterIdCompoundUniqueInput
   AND?: Prisma.RouterSessionWhereInput | Prisma.RouterSessionWhereInput[]
   OR?: Prisma.RouterSessionWhereInput[]
   NOT?: Prisma.RouterSessionWhereInput | Prisma.RouterSessionWhereInput[]
+  clientSessionId?: Prisma.StringNullableFilter<"RouterSession"> | string | null
+  routerId?: Prisma.StringFilter<"RouterSession"> | string
+  name?: Prisma.StringFilter<"RouterSession"> | string
+  adapterId?: Prisma.StringNullableFilter<"RouterSession"> | string | null
   routerIp?: Prisma.StringFilter<"RouterSession"> | string
   sessionId?: Prisma.StringFilter<"RouterSession"> | string
   cookies?: Prisma.JsonFilter<"RouterSession">
+  username?: Prisma.StringNullableFilter<"RouterSession"> | string | null
+  encryptedCredentials?: Prisma.StringNullableFilter<"RouterSession"> | string | null
   expiresAt?: Prisma.DateTimeNullableFilter<"RouterSession"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"RouterSession"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"RouterSession"> | Date | string
-}, "id">
+  clientSession?: Prisma.XOR<Prisma.ClientSessionNullableScalarRelationFilter, Prisma.ClientSessionWhereInput> | null
+}, "id" | "clientSessionId_routerId">
 
 export type RouterSessionOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
+  clientSessionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  routerId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  adapterId?: Prisma.SortOrderInput | Prisma.SortOrder
   routerIp?: Prisma.SortOrder
   sessionId?: Prisma.SortOrder
   cookies?: Prisma.SortOrder
+  username?: Prisma.SortOrderInput | Prisma.SortOrder
+  encryptedCredentials?: Prisma.SortOrderInput | Prisma.SortOrder
   expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -237,9 +307,15 @@ export type RouterSessionScalarWhereWithAggregatesInput = {
   OR?: Prisma.RouterSessionScalarWhereWithAggregatesInput[]
   NOT?: Prisma.RouterSessionScalarWhereWithAggregatesInput | Prisma.RouterSessionScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"RouterSession"> | string
+  clientSessionId?: Prisma.StringNullableWithAggregatesFilter<"RouterSession"> | string | null
+  routerId?: Prisma.StringWithAggregatesFilter<"RouterSession"> | string
+  name?: Prisma.StringWithAggregatesFilter<"RouterSession"> | string
+  adapterId?: Prisma.StringNullableWithAggregatesFilter<"RouterSession"> | string | null
   routerIp?: Prisma.StringWithAggregatesFilter<"RouterSession"> | string
   sessionId?: Prisma.StringWithAggregatesFilter<"RouterSession"> | string
   cookies?: Prisma.JsonWithAggregatesFilter<"RouterSession">
+  username?: Prisma.StringNullableWithAggregatesFilter<"RouterSession"> | string | null
+  encryptedCredentials?: Prisma.StringNullableWithAggregatesFilter<"RouterSession"> | string | null
   expiresAt?: Prisma.DateTimeNullableWithAggregatesFilter<"RouterSession"> | Date | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"RouterSession"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"RouterSession"> | Date | string
@@ -247,19 +323,31 @@ export type RouterSessionScalarWhereWithAggregatesInput = {
 
 export type RouterSessionCreateInput = {
   id?: string
+  routerId?: string
+  name?: string
+  adapterId?: string | null
   routerIp: string
   sessionId: string
   cookies: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: string | null
+  encryptedCredentials?: string | null
   expiresAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  clientSession?: Prisma.ClientSessionCreateNestedOneWithoutRoutersInput
 }
 
 export type RouterSessionUncheckedCreateInput = {
   id?: string
+  clientSessionId?: string | null
+  routerId?: string
+  name?: string
+  adapterId?: string | null
   routerIp: string
   sessionId: string
   cookies: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: string | null
+  encryptedCredentials?: string | null
   expiresAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -267,19 +355,31 @@ export type RouterSessionUncheckedCreateInput = {
 
 export type RouterSessionUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  adapterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   routerIp?: Prisma.StringFieldUpdateOperationsInput | string
   sessionId?: Prisma.StringFieldUpdateOperationsInput | string
   cookies?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  encryptedCredentials?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clientSession?: Prisma.ClientSessionUpdateOneWithoutRoutersNestedInput
 }
 
 export type RouterSessionUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientSessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  routerId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  adapterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   routerIp?: Prisma.StringFieldUpdateOperationsInput | string
   sessionId?: Prisma.StringFieldUpdateOperationsInput | string
   cookies?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  encryptedCredentials?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -287,9 +387,15 @@ export type RouterSessionUncheckedUpdateInput = {
 
 export type RouterSessionCreateManyInput = {
   id?: string
+  clientSessionId?: string | null
+  routerId?: string
+  name?: string
+  adapterId?: string | null
   routerIp: string
   sessionId: string
   cookies: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: string | null
+  encryptedCredentials?: string | null
   expiresAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -297,9 +403,14 @@ export type RouterSessionCreateManyInput = {
 
 export type RouterSessionUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  adapterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   routerIp?: Prisma.StringFieldUpdateOperationsInput | string
   sessionId?: Prisma.StringFieldUpdateOperationsInput | string
   cookies?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  encryptedCredentials?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -307,19 +418,46 @@ export type RouterSessionUpdateManyMutationInput = {
 
 export type RouterSessionUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientSessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  routerId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  adapterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   routerIp?: Prisma.StringFieldUpdateOperationsInput | string
   sessionId?: Prisma.StringFieldUpdateOperationsInput | string
   cookies?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  encryptedCredentials?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
+export type RouterSessionListRelationFilter = {
+  every?: Prisma.RouterSessionWhereInput
+  some?: Prisma.RouterSessionWhereInput
+  none?: Prisma.RouterSessionWhereInput
+}
+
+export type RouterSessionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RouterSessionClientSessionIdRouterIdCompoundUniqueInput = {
+  clientSessionId: string
+  routerId: string
+}
+
 export type RouterSessionCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  clientSessionId?: Prisma.SortOrder
+  routerId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  adapterId?: Prisma.SortOrder
   routerIp?: Prisma.SortOrder
   sessionId?: Prisma.SortOrder
   cookies?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  encryptedCredentials?: Prisma.SortOrder
   expiresAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -327,8 +465,14 @@ export type RouterSessionCountOrderByAggregateInput = {
 
 export type RouterSessionMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  clientSessionId?: Prisma.SortOrder
+  routerId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  adapterId?: Prisma.SortOrder
   routerIp?: Prisma.SortOrder
   sessionId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  encryptedCredentials?: Prisma.SortOrder
   expiresAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -336,77 +480,296 @@ export type RouterSessionMaxOrderByAggregateInput = {
 
 export type RouterSessionMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  clientSessionId?: Prisma.SortOrder
+  routerId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  adapterId?: Prisma.SortOrder
   routerIp?: Prisma.SortOrder
   sessionId?: Prisma.SortOrder
+  username?: Prisma.SortOrder
+  encryptedCredentials?: Prisma.SortOrder
   expiresAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
-export type StringFieldUpdateOperationsInput = {
-  set?: string
+export type RouterSessionCreateNestedManyWithoutClientSessionInput = {
+  create?: Prisma.XOR<Prisma.RouterSessionCreateWithoutClientSessionInput, Prisma.RouterSessionUncheckedCreateWithoutClientSessionInput> | Prisma.RouterSessionCreateWithoutClientSessionInput[] | Prisma.RouterSessionUncheckedCreateWithoutClientSessionInput[]
+  connectOrCreate?: Prisma.RouterSessionCreateOrConnectWithoutClientSessionInput | Prisma.RouterSessionCreateOrConnectWithoutClientSessionInput[]
+  createMany?: Prisma.RouterSessionCreateManyClientSessionInputEnvelope
+  connect?: Prisma.RouterSessionWhereUniqueInput | Prisma.RouterSessionWhereUniqueInput[]
+}
+
+export type RouterSessionUncheckedCreateNestedManyWithoutClientSessionInput = {
+  create?: Prisma.XOR<Prisma.RouterSessionCreateWithoutClientSessionInput, Prisma.RouterSessionUncheckedCreateWithoutClientSessionInput> | Prisma.RouterSessionCreateWithoutClientSessionInput[] | Prisma.RouterSessionUncheckedCreateWithoutClientSessionInput[]
+  connectOrCreate?: Prisma.RouterSessionCreateOrConnectWithoutClientSessionInput | Prisma.RouterSessionCreateOrConnectWithoutClientSessionInput[]
+  createMany?: Prisma.RouterSessionCreateManyClientSessionInputEnvelope
+  connect?: Prisma.RouterSessionWhereUniqueInput | Prisma.RouterSessionWhereUniqueInput[]
+}
+
+export type RouterSessionUpdateManyWithoutClientSessionNestedInput = {
+  create?: Prisma.XOR<Prisma.RouterSessionCreateWithoutClientSessionInput, Prisma.RouterSessionUncheckedCreateWithoutClientSessionInput> | Prisma.RouterSessionCreateWithoutClientSessionInput[] | Prisma.RouterSessionUncheckedCreateWithoutClientSessionInput[]
+  connectOrCreate?: Prisma.RouterSessionCreateOrConnectWithoutClientSessionInput | Prisma.RouterSessionCreateOrConnectWithoutClientSessionInput[]
+  upsert?: Prisma.RouterSessionUpsertWithWhereUniqueWithoutClientSessionInput | Prisma.RouterSessionUpsertWithWhereUniqueWithoutClientSessionInput[]
+  createMany?: Prisma.RouterSessionCreateManyClientSessionInputEnvelope
+  set?: Prisma.RouterSessionWhereUniqueInput | Prisma.RouterSessionWhereUniqueInput[]
+  disconnect?: Prisma.RouterSessionWhereUniqueInput | Prisma.RouterSessionWhereUniqueInput[]
+  delete?: Prisma.RouterSessionWhereUniqueInput | Prisma.RouterSessionWhereUniqueInput[]
+  connect?: Prisma.RouterSessionWhereUniqueInput | Prisma.RouterSessionWhereUniqueInput[]
+  update?: Prisma.RouterSessionUpdateWithWhereUniqueWithoutClientSessionInput | Prisma.RouterSessionUpdateWithWhereUniqueWithoutClientSessionInput[]
+  updateMany?: Prisma.RouterSessionUpdateManyWithWhereWithoutClientSessionInput | Prisma.RouterSessionUpdateManyWithWhereWithoutClientSessionInput[]
+  deleteMany?: Prisma.RouterSessionScalarWhereInput | Prisma.RouterSessionScalarWhereInput[]
+}
+
+export type RouterSessionUncheckedUpdateManyWithoutClientSessionNestedInput = {
+  create?: Prisma.XOR<Prisma.RouterSessionCreateWithoutClientSessionInput, Prisma.RouterSessionUncheckedCreateWithoutClientSessionInput> | Prisma.RouterSessionCreateWithoutClientSessionInput[] | Prisma.RouterSessionUncheckedCreateWithoutClientSessionInput[]
+  connectOrCreate?: Prisma.RouterSessionCreateOrConnectWithoutClientSessionInput | Prisma.RouterSessionCreateOrConnectWithoutClientSessionInput[]
+  upsert?: Prisma.RouterSessionUpsertWithWhereUniqueWithoutClientSessionInput | Prisma.RouterSessionUpsertWithWhereUniqueWithoutClientSessionInput[]
+  createMany?: Prisma.RouterSessionCreateManyClientSessionInputEnvelope
+  set?: Prisma.RouterSessionWhereUniqueInput | Prisma.RouterSessionWhereUniqueInput[]
+  disconnect?: Prisma.RouterSessionWhereUniqueInput | Prisma.RouterSessionWhereUniqueInput[]
+  delete?: Prisma.RouterSessionWhereUniqueInput | Prisma.RouterSessionWhereUniqueInput[]
+  connect?: Prisma.RouterSessionWhereUniqueInput | Prisma.RouterSessionWhereUniqueInput[]
+  update?: Prisma.RouterSessionUpdateWithWhereUniqueWithoutClientSessionInput | Prisma.RouterSessionUpdateWithWhereUniqueWithoutClientSessionInput[]
+  updateMany?: Prisma.RouterSessionUpdateManyWithWhereWithoutClientSessionInput | Prisma.RouterSessionUpdateManyWithWhereWithoutClientSessionInput[]
+  deleteMany?: Prisma.RouterSessionScalarWhereInput | Prisma.RouterSessionScalarWhereInput[]
 }
 
 export type NullableDateTimeFieldUpdateOperationsInput = {
   set?: Date | string | null
 }
 
-export type DateTimeFieldUpdateOperationsInput = {
-  set?: Date | string
+export type RouterSessionCreateWithoutClientSessionInput = {
+  id?: string
+  routerId?: string
+  name?: string
+  adapterId?: string | null
+  routerIp: string
+  sessionId: string
+  cookies: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: string | null
+  encryptedCredentials?: string | null
+  expiresAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RouterSessionUncheckedCreateWithoutClientSessionInput = {
+  id?: string
+  routerId?: string
+  name?: string
+  adapterId?: string | null
+  routerIp: string
+  sessionId: string
+  cookies: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: string | null
+  encryptedCredentials?: string | null
+  expiresAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RouterSessionCreateOrConnectWithoutClientSessionInput = {
+  where: Prisma.RouterSessionWhereUniqueInput
+  create: Prisma.XOR<Prisma.RouterSessionCreateWithoutClientSessionInput, Prisma.RouterSessionUncheckedCreateWithoutClientSessionInput>
+}
+
+export type RouterSessionCreateManyClientSessionInputEnvelope = {
+  data: Prisma.RouterSessionCreateManyClientSessionInput | Prisma.RouterSessionCreateManyClientSessionInput[]
+  skipDuplicates?: boolean
+}
+
+export type RouterSessionUpsertWithWhereUniqueWithoutClientSessionInput = {
+  where: Prisma.RouterSessionWhereUniqueInput
+  update: Prisma.XOR<Prisma.RouterSessionUpdateWithoutClientSessionInput, Prisma.RouterSessionUncheckedUpdateWithoutClientSessionInput>
+  create: Prisma.XOR<Prisma.RouterSessionCreateWithoutClientSessionInput, Prisma.RouterSessionUncheckedCreateWithoutClientSessionInput>
+}
+
+export type RouterSessionUpdateWithWhereUniqueWithoutClientSessionInput = {
+  where: Prisma.RouterSessionWhereUniqueInput
+  data: Prisma.XOR<Prisma.RouterSessionUpdateWithoutClientSessionInput, Prisma.RouterSessionUncheckedUpdateWithoutClientSessionInput>
+}
+
+export type RouterSessionUpdateManyWithWhereWithoutClientSessionInput = {
+  where: Prisma.RouterSessionScalarWhereInput
+  data: Prisma.XOR<Prisma.RouterSessionUpdateManyMutationInput, Prisma.RouterSessionUncheckedUpdateManyWithoutClientSessionInput>
+}
+
+export type RouterSessionScalarWhereInput = {
+  AND?: Prisma.RouterSessionScalarWhereInput | Prisma.RouterSessionScalarWhereInput[]
+  OR?: Prisma.RouterSessionScalarWhereInput[]
+  NOT?: Prisma.RouterSessionScalarWhereInput | Prisma.RouterSessionScalarWhereInput[]
+  id?: Prisma.StringFilter<"RouterSession"> | string
+  clientSessionId?: Prisma.StringNullableFilter<"RouterSession"> | string | null
+  routerId?: Prisma.StringFilter<"RouterSession"> | string
+  name?: Prisma.StringFilter<"RouterSession"> | string
+  adapterId?: Prisma.StringNullableFilter<"RouterSession"> | string | null
+  routerIp?: Prisma.StringFilter<"RouterSession"> | string
+  sessionId?: Prisma.StringFilter<"RouterSession"> | string
+  cookies?: Prisma.JsonFilter<"RouterSession">
+  username?: Prisma.StringNullableFilter<"RouterSession"> | string | null
+  encryptedCredentials?: Prisma.StringNullableFilter<"RouterSession"> | string | null
+  expiresAt?: Prisma.DateTimeNullableFilter<"RouterSession"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"RouterSession"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"RouterSession"> | Date | string
+}
+
+export type RouterSessionCreateManyClientSessionInput = {
+  id?: string
+  routerId?: string
+  name?: string
+  adapterId?: string | null
+  routerIp: string
+  sessionId: string
+  cookies: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: string | null
+  encryptedCredentials?: string | null
+  expiresAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RouterSessionUpdateWithoutClientSessionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  adapterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  sessionId?: Prisma.StringFieldUpdateOperationsInput | string
+  cookies?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  encryptedCredentials?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RouterSessionUncheckedUpdateWithoutClientSessionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  adapterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  sessionId?: Prisma.StringFieldUpdateOperationsInput | string
+  cookies?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  encryptedCredentials?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RouterSessionUncheckedUpdateManyWithoutClientSessionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  routerId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  adapterId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  routerIp?: Prisma.StringFieldUpdateOperationsInput | string
+  sessionId?: Prisma.StringFieldUpdateOperationsInput | string
+  cookies?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  encryptedCredentials?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
 
 export type RouterSessionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
+  clientSessionId?: boolean
+  routerId?: boolean
+  name?: boolean
+  adapterId?: boolean
   routerIp?: boolean
   sessionId?: boolean
   cookies?: boolean
+  username?: boolean
+  encryptedCredentials?: boolean
   expiresAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  clientSession?: boolean | Prisma.RouterSession$clientSessionArgs<ExtArgs>
 }, ExtArgs["result"]["routerSession"]>
 
 export type RouterSessionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
+  clientSessionId?: boolean
+  routerId?: boolean
+  name?: boolean
+  adapterId?: boolean
   routerIp?: boolean
   sessionId?: boolean
   cookies?: boolean
+  username?: boolean
+  encryptedCredentials?: boolean
   expiresAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  clientSession?: boolean | Prisma.RouterSession$clientSessionArgs<ExtArgs>
 }, ExtArgs["result"]["routerSession"]>
 
 export type RouterSessionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
+  clientSessionId?: boolean
+  routerId?: boolean
+  name?: boolean
+  adapterId?: boolean
   routerIp?: boolean
   sessionId?: boolean
   cookies?: boolean
+  username?: boolean
+  encryptedCredentials?: boolean
   expiresAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  clientSession?: boolean | Prisma.RouterSession$clientSessionArgs<ExtArgs>
 }, ExtArgs["result"]["routerSession"]>
 
 export type RouterSessionSelectScalar = {
   id?: boolean
+  clientSessionId?: boolean
+  routerId?: boolean
+  name?: boolean
+  adapterId?: boolean
   routerIp?: boolean
   sessionId?: boolean
   cookies?: boolean
+  username?: boolean
+  encryptedCredentials?: boolean
   expiresAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type RouterSessionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "routerIp" | "sessionId" | "cookies" | "expiresAt" | "createdAt" | "updatedAt", ExtArgs["result"]["routerSession"]>
+export type RouterSessionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clientSessionId" | "routerId" | "name" | "adapterId" | "routerIp" | "sessionId" | "cookies" | "username" | "encryptedCredentials" | "expiresAt" | "createdAt" | "updatedAt", ExtArgs["result"]["routerSession"]>
+export type RouterSessionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clientSession?: boolean | Prisma.RouterSession$clientSessionArgs<ExtArgs>
+}
+export type RouterSessionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clientSession?: boolean | Prisma.RouterSession$clientSessionArgs<ExtArgs>
+}
+export type RouterSessionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clientSession?: boolean | Prisma.RouterSession$clientSessionArgs<ExtArgs>
+}
 
 export type $RouterSessionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "RouterSession"
-  objects: {}
+  objects: {
+    clientSession: Prisma.$ClientSessionPayload<ExtArgs> | null
+  }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
+    clientSessionId: string | null
+    routerId: string
+    name: string
+    adapterId: string | null
     routerIp: string
     sessionId: string
     cookies: runtime.JsonValue
+    username: string | null
+    encryptedCredentials: string | null
     expiresAt: Date | null
     createdAt: Date
     updatedAt: Date
@@ -804,6 +1167,7 @@ readonly fields: RouterSessionFieldRefs;
  */
 export interface Prisma__RouterSessionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
+  clientSession<T extends Prisma.RouterSession$clientSessionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RouterSession$clientSessionArgs<ExtArgs>>): Prisma.Prisma__ClientSessionClient<runtime.Types.Result.GetResult<Prisma.$ClientSessionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -834,9 +1198,15 @@ export interface Prisma__RouterSessionClient<T, Null = never, ExtArgs extends ru
  */
 export interface RouterSessionFieldRefs {
   readonly id: Prisma.FieldRef<"RouterSession", 'String'>
+  readonly clientSessionId: Prisma.FieldRef<"RouterSession", 'String'>
+  readonly routerId: Prisma.FieldRef<"RouterSession", 'String'>
+  readonly name: Prisma.FieldRef<"RouterSession", 'String'>
+  readonly adapterId: Prisma.FieldRef<"RouterSession", 'String'>
   readonly routerIp: Prisma.FieldRef<"RouterSession", 'String'>
   readonly sessionId: Prisma.FieldRef<"RouterSession", 'String'>
   readonly cookies: Prisma.FieldRef<"RouterSession", 'Json'>
+  readonly username: Prisma.FieldRef<"RouterSession", 'String'>
+  readonly encryptedCredentials: Prisma.FieldRef<"RouterSession", 'String'>
   readonly expiresAt: Prisma.FieldRef<"RouterSession", 'DateTime'>
   readonly createdAt: Prisma.FieldRef<"RouterSession", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"RouterSession", 'DateTime'>
@@ -856,6 +1226,10 @@ export type RouterSessionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions
    * Omit specific fields from the RouterSession
    */
   omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
   /**
    * Filter, which RouterSession to fetch.
    */
@@ -874,6 +1248,10 @@ export type RouterSessionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Ext
    * Omit specific fields from the RouterSession
    */
   omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
   /**
    * Filter, which RouterSession to fetch.
    */
@@ -892,6 +1270,10 @@ export type RouterSessionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.
    * Omit specific fields from the RouterSession
    */
   omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
   /**
    * Filter, which RouterSession to fetch.
    */
@@ -940,6 +1322,10 @@ export type RouterSessionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Exte
    * Omit specific fields from the RouterSession
    */
   omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
   /**
    * Filter, which RouterSession to fetch.
    */
@@ -988,6 +1374,10 @@ export type RouterSessionFindManyArgs<ExtArgs extends runtime.Types.Extensions.I
    * Omit specific fields from the RouterSession
    */
   omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
   /**
    * Filter, which RouterSessions to fetch.
    */
@@ -1031,6 +1421,10 @@ export type RouterSessionCreateArgs<ExtArgs extends runtime.Types.Extensions.Int
    * Omit specific fields from the RouterSession
    */
   omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
   /**
    * The data needed to create a RouterSession.
    */
@@ -1065,6 +1459,10 @@ export type RouterSessionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.E
    */
   data: Prisma.RouterSessionCreateManyInput | Prisma.RouterSessionCreateManyInput[]
   skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionIncludeCreateManyAndReturn<ExtArgs> | null
 }
 
 /**
@@ -1079,6 +1477,10 @@ export type RouterSessionUpdateArgs<ExtArgs extends runtime.Types.Extensions.Int
    * Omit specific fields from the RouterSession
    */
   omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
   /**
    * The data needed to update a RouterSession.
    */
@@ -1131,6 +1533,10 @@ export type RouterSessionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.E
    * Limit how many RouterSessions to update.
    */
   limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionIncludeUpdateManyAndReturn<ExtArgs> | null
 }
 
 /**
@@ -1145,6 +1551,10 @@ export type RouterSessionUpsertArgs<ExtArgs extends runtime.Types.Extensions.Int
    * Omit specific fields from the RouterSession
    */
   omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
   /**
    * The filter to search for the RouterSession to update in case it exists.
    */
@@ -1171,6 +1581,10 @@ export type RouterSessionDeleteArgs<ExtArgs extends runtime.Types.Extensions.Int
    * Omit specific fields from the RouterSession
    */
   omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
   /**
    * Filter which RouterSession to delete.
    */
@@ -1191,6 +1605,25 @@ export type RouterSessionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions
   limit?: number
 }
 
+/**
+ * RouterSession.clientSession
+ */
+export type RouterSession$clientSessionArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClientSession
+   */
+  select?: Prisma.ClientSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClientSession
+   */
+  omit?: Prisma.ClientSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClientSessionInclude<ExtArgs> | null
+  where?: Prisma.ClientSessionWhereInput
+}
+
 /**
  * RouterSession without action
  */
@@ -1203,4 +1636,8 @@ export type RouterSessionDefaultArgs<ExtArgs extends runtime.Types.Extensions.In
    * Omit specific fields from the RouterSession
    */
   omit?: Prisma.RouterSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouterSessionInclude<ExtArgs> | null
 }
@@ -0,0 +1,1428 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SpeedTest` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model SpeedTest
+ * 
+ */
+export type SpeedTestModel = runtime.Types.Result.DefaultSelection<Prisma.$SpeedTestPayload>
+
+export type AggregateSpeedTest = {
+  _count: SpeedTestCountAggregateOutputType | null
+  _avg: SpeedTestAvgAggregateOutputType | null
+  _sum: SpeedTestSumAggregateOutputType | null
+  _min: SpeedTestMinAggregateOutputType | null
+  _max: SpeedTestMaxAggregateOutputType | null
+}
+
+export type SpeedTestAvgAggregateOutputType = {
+  downloadMbps: number | null
+  uploadMbps: number | null
+  latencyMs: number | null
+  jitterMs: number | null
+  downloadLatencyMs: number | null
+  uploadLatencyMs: number | null
+  bufferbloatMs: number | null
+}
+
+export type SpeedTestSumAggregateOutputType = {
+  downloadMbps: number | null
+  uploadMbps: number | null
+  latencyMs: number | null
+  jitterMs: number | null
+  downloadLatencyMs: number | null
+  uploadLatencyMs: number | null
+  bufferbloatMs: number | null
+}
+
+export type SpeedTestMinAggregateOutputType = {
+  id: string | null
+  server: string | null
+  downloadMbps: number | null
+  uploadMbps: number | null
+  latencyMs: number | null
+  jitterMs: number | null
+  downloadLatencyMs: number | null
+  uploadLatencyMs: number | null
+  bufferbloatMs: number | null
+  grade: string | null
+  error: string | null
+  createdAt: Date | null
+}
+
+export type SpeedTestMaxAggregateOutputType = {
+  id: string | null
+  server: string | null
+  downloadMbps: number | null
+  uploadMbps: number | null
+  latencyMs: number | null
+  jitterMs: number | null
+  downloadLatencyMs: number | null
+  uploadLatencyMs: number | null
+  bufferbloatMs: number | null
+  grade: string | null
+  error: string | null
+  createdAt: Date | null
+}
+
+export type SpeedTestCountAggregateOutputType = {
+  id: number
+  server: number
+  downloadMbps: number
+  uploadMbps: number
+  latencyMs: number
+  jitterMs: number
+  downloadLatencyMs: number
+  uploadLatencyMs: number
+  bufferbloatMs: number
+  grade: number
+  error: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SpeedTestAvgAggregateInputType = {
+  downloadMbps?: true
+  uploadMbps?: true
+  latencyMs?: true
+  jitterMs?: true
+  downloadLatencyMs?: true
+  uploadLatencyMs?: true
+  bufferbloatMs?: true
+}
+
+export type SpeedTestSumAggregateInputType = {
+  downloadMbps?: true
+  uploadMbps?: true
+  latencyMs?: true
+  jitterMs?: true
+  downloadLatencyMs?: true
+  uploadLatencyMs?: true
+  bufferbloatMs?: true
+}
+
+export type SpeedTestMinAggregateInputType = {
+  id?: true
+  server?: true
+  downloadMbps?: true
+  uploadMbps?: true
+  latencyMs?: true
+  jitterMs?: true
+  downloadLatencyMs?: true
+  uploadLatencyMs?: true
+  bufferbloatMs?: true
+  grade?: true
+  error?: true
+  createdAt?: true
+}
+
+export type SpeedTestMaxAggregateInputType = {
+  id?: true
+  server?: true
+  downloadMbps?: true
+  uploadMbps?: true
+  latencyMs?: true
+  jitterMs?: true
+  downloadLatencyMs?: true
+  uploadLatencyMs?: true
+  bufferbloatMs?: true
+  grade?: true
+  error?: true
+  createdAt?: true
+}
+
+export type SpeedTestCountAggregateInputType = {
+  id?: true
+  server?: true
+  downloadMbps?: true
+  uploadMbps?: true
+  latencyMs?: true
+  jitterMs?: true
+  downloadLatencyMs?: true
+  uploadLatencyMs?: true
+  bufferbloatMs?: true
+  grade?: true
+  error?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SpeedTestAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SpeedTest to aggregate.
+   */
+  where?: Prisma.SpeedTestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SpeedTests to fetch.
+   */
+  orderBy?: Prisma.SpeedTestOrderByWithRelationInput | Prisma.SpeedTestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SpeedTestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SpeedTests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SpeedTests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SpeedTests
+  **/
+  _count?: true | SpeedTestCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SpeedTestAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SpeedTestSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SpeedTestMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SpeedTestMaxAggregateInputType
+}
+
+export type GetSpeedTestAggregateType<T extends SpeedTestAggregateArgs> = {
+      [P in keyof T & keyof AggregateSpeedTest]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSpeedTest[P]>
+    : Prisma.GetScalarType<T[P], AggregateSpeedTest[P]>
+}
+
+
+
+
+export type SpeedTestGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SpeedTestWhereInput
+  orderBy?: Prisma.SpeedTestOrderByWithAggregationInput | Prisma.SpeedTestOrderByWithAggregationInput[]
+  by: Prisma.SpeedTestScalarFieldEnum[] | Prisma.SpeedTestScalarFieldEnum
+  having?: Prisma.SpeedTestScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SpeedTestCountAggregateInputType | true
+  _avg?: SpeedTestAvgAggregateInputType
+  _sum?: SpeedTestSumAggregateInputType
+  _min?: SpeedTestMinAggregateInputType
+  _max?: SpeedTestMaxAggregateInputType
+}
+
+export type SpeedTestGroupByOutputType = {
+  id: string
+  server: string
+  downloadMbps: number | null
+  uploadMbps: number | null
+  latencyMs: number | null
+  jitterMs: number | null
+  downloadLatencyMs: number | null
+  uploadLatencyMs: number | null
+  bufferbloatMs: number | null
+  grade: string | null
+  error: string | null
+  createdAt: Date
+  _count: SpeedTestCountAggregateOutputType | null
+  _avg: SpeedTestAvgAggregateOutputType | null
+  _sum: SpeedTestSumAggregateOutputType | null
+  _min: SpeedTestMinAggregateOutputType | null
+  _max: SpeedTestMaxAggregateOutputType | null
+}
+
+type GetSpeedTestGroupByPayload<T extends SpeedTestGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SpeedTestGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SpeedTestGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SpeedTestGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SpeedTestGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SpeedTestWhereInput = {
+  AND?: Prisma.SpeedTestWhereInput | Prisma.SpeedTestWhereInput[]
+  OR?: Prisma.SpeedTestWhereInput[]
+  NOT?: Prisma.SpeedTestWhereInput | Prisma.SpeedTestWhereInput[]
+  id?: Prisma.StringFilter<"SpeedTest"> | string
+  server?: Prisma.StringFilter<"SpeedTest"> | string
+  downloadMbps?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  uploadMbps?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  latencyMs?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  jitterMs?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  downloadLatencyMs?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  uploadLatencyMs?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  bufferbloatMs?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  grade?: Prisma.StringNullableFilter<"SpeedTest"> | string | null
+  error?: Prisma.StringNullableFilter<"SpeedTest"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SpeedTest"> | Date | string
+}
+
+export type SpeedTestOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  server?: Prisma.SortOrder
+  downloadMbps?: Prisma.SortOrderInput | Prisma.SortOrder
+  uploadMbps?: Prisma.SortOrderInput | Prisma.SortOrder
+  latencyMs?: Prisma.SortOrderInput | Prisma.SortOrder
+  jitterMs?: Prisma.SortOrderInput | Prisma.SortOrder
+  downloadLatencyMs?: Prisma.SortOrderInput | Prisma.SortOrder
+  uploadLatencyMs?: Prisma.SortOrderInput | Prisma.SortOrder
+  bufferbloatMs?: Prisma.SortOrderInput | Prisma.SortOrder
+  grade?: Prisma.SortOrderInput | Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SpeedTestWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.SpeedTestWhereInput | Prisma.SpeedTestWhereInput[]
+  OR?: Prisma.SpeedTestWhereInput[]
+  NOT?: Prisma.SpeedTestWhereInput | Prisma.SpeedTestWhereInput[]
+  server?: Prisma.StringFilter<"SpeedTest"> | string
+  downloadMbps?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  uploadMbps?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  latencyMs?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  jitterMs?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  downloadLatencyMs?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  uploadLatencyMs?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  bufferbloatMs?: Prisma.FloatNullableFilter<"SpeedTest"> | number | null
+  grade?: Prisma.StringNullableFilter<"SpeedTest"> | string | null
+  error?: Prisma.StringNullableFilter<"SpeedTest"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SpeedTest"> | Date | string
+}, "id">
+
+export type SpeedTestOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  server?: Prisma.SortOrder
+  downloadMbps?: Prisma.SortOrderInput | Prisma.SortOrder
+  uploadMbps?: Prisma.SortOrderInput | Prisma.SortOrder
+  latencyMs?: Prisma.SortOrderInput | Prisma.SortOrder
+  jitterMs?: Prisma.SortOrderInput | Prisma.SortOrder
+  downloadLatencyMs?: Prisma.SortOrderInput | Prisma.SortOrder
+  uploadLatencyMs?: Prisma.SortOrderInput | Prisma.SortOrder
+  bufferbloatMs?: Prisma.SortOrderInput | Prisma.SortOrder
+  grade?: Prisma.SortOrderInput | Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SpeedTestCountOrderByAggregateInput
+  _avg?: Prisma.SpeedTestAvgOrderByAggregateInput
+  _max?: Prisma.SpeedTestMaxOrderByAggregateInput
+  _min?: Prisma.SpeedTestMinOrderByAggregateInput
+  _sum?: Prisma.SpeedTestSumOrderByAggregateInput
+}
+
+export type SpeedTestScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SpeedTestScalarWhereWithAggregatesInput | Prisma.SpeedTestScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SpeedTestScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SpeedTestScalarWhereWithAggregatesInput | Prisma.SpeedTestScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SpeedTest"> | string
+  server?: Prisma.StringWithAggregatesFilter<"SpeedTest"> | string
+  downloadMbps?: Prisma.FloatNullableWithAggregatesFilter<"SpeedTest"> | number | null
+  uploadMbps?: Prisma.FloatNullableWithAggregatesFilter<"SpeedTest"> | number | null
+  latencyMs?: Prisma.FloatNullableWithAggregatesFilter<"SpeedTest"> | number | null
+  jitterMs?: Prisma.FloatNullableWithAggregatesFilter<"SpeedTest"> | number | null
+  downloadLatencyMs?: Prisma.FloatNullableWithAggregatesFilter<"SpeedTest"> | number | null
+  uploadLatencyMs?: Prisma.FloatNullableWithAggregatesFilter<"SpeedTest"> | number | null
+  bufferbloatMs?: Prisma.FloatNullableWithAggregatesFilter<"SpeedTest"> | number | null
+  grade?: Prisma.StringNullableWithAggregatesFilter<"SpeedTest"> | string | null
+  error?: Prisma.StringNullableWithAggregatesFilter<"SpeedTest"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SpeedTest"> | Date | string
+}
+
+export type SpeedTestCreateInput = {
+  id?: string
+  server: string
+  downloadMbps?: number | null
+  uploadMbps?: number | null
+  latencyMs?: number | null
+  jitterMs?: number | null
+  downloadLatencyMs?: number | null
+  uploadLatencyMs?: number | null
+  bufferbloatMs?: number | null
+  grade?: string | null
+  error?: string | null
+  createdAt?: Date | string
+}
+
+export type SpeedTestUncheckedCreateInput = {
+  id?: string
+  server: string
+  downloadMbps?: number | null
+  uploadMbps?: number | null
+  latencyMs?: number | null
+  jitterMs?: number | null
+  downloadLatencyMs?: number | null
+  uploadLatencyMs?: number | null
+  bufferbloatMs?: number | null
+  grade?: string | null
+  error?: string | null
+  createdAt?: Date | string
+}
+
+export type SpeedTestUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  server?: Prisma.StringFieldUpdateOperationsInput | string
+  downloadMbps?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  uploadMbps?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  latencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  jitterMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  downloadLatencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  uploadLatencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  bufferbloatMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  grade?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SpeedTestUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  server?: Prisma.StringFieldUpdateOperationsInput | string
+  downloadMbps?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  uploadMbps?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  latencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  jitterMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  downloadLatencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  uploadLatencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  bufferbloatMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  grade?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SpeedTestCreateManyInput = {
+  id?: string
+  server: string
+  downloadMbps?: number | null
+  uploadMbps?: number | null
+  latencyMs?: number | null
+  jitterMs?: number | null
+  downloadLatencyMs?: number | null
+  uploadLatencyMs?: number | null
+  bufferbloatMs?: number | null
+  grade?: string | null
+  error?: string | null
+  createdAt?: Date | string
+}
+
+export type SpeedTestUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  server?: Prisma.StringFieldUpdateOperationsInput | string
+  downloadMbps?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  uploadMbps?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  latencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  jitterMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  downloadLatencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  uploadLatencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  bufferbloatMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  grade?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SpeedTestUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  server?: Prisma.StringFieldUpdateOperationsInput | string
+  downloadMbps?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  uploadMbps?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  latencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  jitterMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  downloadLatencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  uploadLatencyMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  bufferbloatMs?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  grade?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SpeedTestCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  server?: Prisma.SortOrder
+  downloadMbps?: Prisma.SortOrder
+  uploadMbps?: Prisma.SortOrder
+  latencyMs?: Prisma.SortOrder
+  jitterMs?: Prisma.SortOrder
+  downloadLatencyMs?: Prisma.SortOrder
+  uploadLatencyMs?: Prisma.SortOrder
+  bufferbloatMs?: Prisma.SortOrder
+  grade?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SpeedTestAvgOrderByAggregateInput = {
+  downloadMbps?: Prisma.SortOrder
+  uploadMbps?: Prisma.SortOrder
+  latencyMs?: Prisma.SortOrder
+  jitterMs?: Prisma.SortOrder
+  downloadLatencyMs?: Prisma.SortOrder
+  uploadLatencyMs?: Prisma.SortOrder
+  bufferbloatMs?: Prisma.SortOrder
+}
+
+export type SpeedTestMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  server?: Prisma.SortOrder
+  downloadMbps?: Prisma.SortOrder
+  uploadMbps?: Prisma.SortOrder
+  latencyMs?: Prisma.SortOrder
+  jitterMs?: Prisma.SortOrder
+  downloadLatencyMs?: Prisma.SortOrder
+  uploadLatencyMs?: Prisma.SortOrder
+  bufferbloatMs?: Prisma.SortOrder
+  grade?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SpeedTestMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  server?: Prisma.SortOrder
+  downloadMbps?: Prisma.SortOrder
+  uploadMbps?: Prisma.SortOrder
+  latencyMs?: Prisma.SortOrder
+  jitterMs?: Prisma.SortOrder
+  downloadLatencyMs?: Prisma.SortOrder
+  uploadLatencyMs?: Prisma.SortOrder
+  bufferbloatMs?: Prisma.SortOrder
+  grade?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SpeedTestSumOrderByAggregateInput = {
+  downloadMbps?: Prisma.SortOrder
+  uploadMbps?: Prisma.SortOrder
+  latencyMs?: Prisma.SortOrder
+  jitterMs?: Prisma.SortOrder
+  downloadLatencyMs?: Prisma.SortOrder
+  uploadLatencyMs?: Prisma.SortOrder
+  bufferbloatMs?: Prisma.SortOrder
+}
+
+export type NullableFloatFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+
+
+export type SpeedTestSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  server?: boolean
+  downloadMbps?: boolean
+  uploadMbps?: boolean
+  latencyMs?: boolean
+  jitterMs?: boolean
+  downloadLatencyMs?: boolean
+  uploadLatencyMs?: boolean
+  bufferbloatMs?: boolean
+  grade?: boolean
+  error?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["speedTest"]>
+
+export type SpeedTestSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  server?: boolean
+  downloadMbps?: boolean
+  uploadMbps?: boolean
+  latencyMs?: boolean
+  jitterMs?: boolean
+  downloadLatencyMs?: boolean
+  uploadLatencyMs?: boolean
+  bufferbloatMs?: boolean
+  grade?: boolean
+  error?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["speedTest"]>
+
+export type SpeedTestSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  server?: boolean
+  downloadMbps?: boolean
+  uploadMbps?: boolean
+  latencyMs?: boolean
+  jitterMs?: boolean
+  downloadLatencyMs?: boolean
+  uploadLatencyMs?: boolean
+  bufferbloatMs?: boolean
+  grade?: boolean
+  error?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["speedTest"]>
+
+export type SpeedTestSelectScalar = {
+  id?: boolean
+  server?: boolean
+  downloadMbps?: boolean
+  uploadMbps?: boolean
+  latencyMs?: boolean
+  jitterMs?: boolean
+  downloadLatencyMs?: boolean
+  uploadLatencyMs?: boolean
+  bufferbloatMs?: boolean
+  grade?: boolean
+  error?: boolean
+  createdAt?: boolean
+}
+
+export type SpeedTestOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "server" | "downloadMbps" | "uploadMbps" | "latencyMs" | "jitterMs" | "downloadLatencyMs" | "uploadLatencyMs" | "bufferbloatMs" | "grade" | "error" | "createdAt", ExtArgs["result"]["speedTest"]>
+
+export type $SpeedTestPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SpeedTest"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    server: string
+    downloadMbps: number | null
+    uploadMbps: number | null
+    latencyMs: number | null
+    jitterMs: number | null
+    downloadLatencyMs: number | null
+    uploadLatencyMs: number | null
+    bufferbloatMs: number | null
+    grade: string | null
+    error: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["speedTest"]>
+  composites: {}
+}
+
+export type SpeedTestGetPayload<S extends boolean | null | undefined | SpeedTestDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload, S>
+
+export type SpeedTestCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SpeedTestFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SpeedTestCountAggregateInputType | true
+  }
+
+export interface SpeedTestDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SpeedTest'], meta: { name: 'SpeedTest' } }
+  /**
+   * Find zero or one SpeedTest that matches the filter.
+   * @param {SpeedTestFindUniqueArgs} args - Arguments to find a SpeedTest
+   * @example
+   * // Get one SpeedTest
+   * const speedTest = await prisma.speedTest.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SpeedTestFindUniqueArgs>(args: Prisma.SelectSubset<T, SpeedTestFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SpeedTestClient<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SpeedTest that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SpeedTestFindUniqueOrThrowArgs} args - Arguments to find a SpeedTest
+   * @example
+   * // Get one SpeedTest
+   * const speedTest = await prisma.speedTest.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SpeedTestFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SpeedTestFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SpeedTestClient<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SpeedTest that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SpeedTestFindFirstArgs} args - Arguments to find a SpeedTest
+   * @example
+   * // Get one SpeedTest
+   * const speedTest = await prisma.speedTest.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SpeedTestFindFirstArgs>(args?: Prisma.SelectSubset<T, SpeedTestFindFirstArgs<ExtArgs>>): Prisma.Prisma__SpeedTestClient<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SpeedTest that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SpeedTestFindFirstOrThrowArgs} args - Arguments to find a SpeedTest
+   * @example
+   * // Get one SpeedTest
+   * const speedTest = await prisma.speedTest.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SpeedTestFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SpeedTestFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SpeedTestClient<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SpeedTests that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SpeedTestFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SpeedTests
+   * const speedTests = await prisma.speedTest.findMany()
+   * 
+   * // Get first 10 SpeedTests
+   * const speedTests = await prisma.speedTest.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const speedTestWithIdOnly = await prisma.speedTest.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SpeedTestFindManyArgs>(args?: Prisma.SelectSubset<T, SpeedTestFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SpeedTest.
+   * @param {SpeedTestCreateArgs} args - Arguments to create a SpeedTest.
+   * @example
+   * // Create one SpeedTest
+   * const SpeedTest = await prisma.speedTest.create({
+   *   data: {
+   *     // ... data to create a SpeedTest
+   *   }
+   * })
+   * 
+   */
+  create<T extends SpeedTestCreateArgs>(args: Prisma.SelectSubset<T, SpeedTestCreateArgs<ExtArgs>>): Prisma.Prisma__SpeedTestClient<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SpeedTests.
+   * @param {SpeedTestCreateManyArgs} args - Arguments to create many SpeedTests.
+   * @example
+   * // Create many SpeedTests
+   * const speedTest = await prisma.speedTest.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SpeedTestCreateManyArgs>(args?: Prisma.SelectSubset<T, SpeedTestCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SpeedTests and returns the data saved in the database.
+   * @param {SpeedTestCreateManyAndReturnArgs} args - Arguments to create many SpeedTests.
+   * @example
+   * // Create many SpeedTests
+   * const speedTest = await prisma.speedTest.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SpeedTests and only return the `id`
+   * const speedTestWithIdOnly = await prisma.speedTest.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SpeedTestCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SpeedTestCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SpeedTest.
+   * @param {SpeedTestDeleteArgs} args - Arguments to delete one SpeedTest.
+   * @example
+   * // Delete one SpeedTest
+   * const SpeedTest = await prisma.speedTest.delete({
+   *   where: {
+   *     // ... filter to delete one SpeedTest
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SpeedTestDeleteArgs>(args: Prisma.SelectSubset<T, SpeedTestDeleteArgs<ExtArgs>>): Prisma.Prisma__SpeedTestClient<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SpeedTest.
+   * @param {SpeedTestUpdateArgs} args - Arguments to update one SpeedTest.
+   * @example
+   * // Update one SpeedTest
+   * const speedTest = await prisma.speedTest.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SpeedTestUpdateArgs>(args: Prisma.SelectSubset<T, SpeedTestUpdateArgs<ExtArgs>>): Prisma.Prisma__SpeedTestClient<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SpeedTests.
+   * @param {SpeedTestDeleteManyArgs} args - Arguments to filter SpeedTests to delete.
+   * @example
+   * // Delete a few SpeedTests
+   * const { count } = await prisma.speedTest.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SpeedTestDeleteManyArgs>(args?: Prisma.SelectSubset<T, SpeedTestDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SpeedTests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SpeedTestUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SpeedTests
+   * const speedTest = await prisma.speedTest.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SpeedTestUpdateManyArgs>(args: Prisma.SelectSubset<T, SpeedTestUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SpeedTests and returns the data updated in the database.
+   * @param {SpeedTestUpdateManyAndReturnArgs} args - Arguments to update many SpeedTests.
+   * @example
+   * // Update many SpeedTests
+   * const speedTest = await prisma.speedTest.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SpeedTests and only return the `id`
+   * const speedTestWithIdOnly = await prisma.speedTest.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SpeedTestUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SpeedTestUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SpeedTest.
+   * @param {SpeedTestUpsertArgs} args - Arguments to update or create a SpeedTest.
+   * @example
+   * // Update or create a SpeedTest
+   * const speedTest = await prisma.speedTest.upsert({
+   *   create: {
+   *     // ... data to create a SpeedTest
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SpeedTest we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SpeedTestUpsertArgs>(args: Prisma.SelectSubset<T, SpeedTestUpsertArgs<ExtArgs>>): Prisma.Prisma__SpeedTestClient<runtime.Types.Result.GetResult<Prisma.$SpeedTestPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SpeedTests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SpeedTestCountArgs} args - Arguments to filter SpeedTests to count.
+   * @example
+   * // Count the number of SpeedTests
+   * const count = await prisma.speedTest.count({
+   *   where: {
+   *     // ... the filter for the SpeedTests we want to count
+   *   }
+   * })
+  **/
+  count<T extends SpeedTestCountArgs>(
+    args?: Prisma.Subset<T, SpeedTestCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SpeedTestCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SpeedTest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SpeedTestAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SpeedTestAggregateArgs>(args: Prisma.Subset<T, SpeedTestAggregateArgs>): Prisma.PrismaPromise<GetSpeedTestAggregateType<T>>
+
+  /**
+   * Group by SpeedTest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SpeedTestGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SpeedTestGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SpeedTestGroupByArgs['orderBy'] }
+      : { orderBy?: SpeedTestGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SpeedTestGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSpeedTestGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SpeedTest model
+ */
+readonly fields: SpeedTestFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SpeedTest.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SpeedTestClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SpeedTest model
+ */
+export interface SpeedTestFieldRefs {
+  readonly id: Prisma.FieldRef<"SpeedTest", 'String'>
+  readonly server: Prisma.FieldRef<"SpeedTest", 'String'>
+  readonly downloadMbps: Prisma.FieldRef<"SpeedTest", 'Float'>
+  readonly uploadMbps: Prisma.FieldRef<"SpeedTest", 'Float'>
+  readonly latencyMs: Prisma.FieldRef<"SpeedTest", 'Float'>
+  readonly jitterMs: Prisma.FieldRef<"SpeedTest", 'Float'>
+  readonly downloadLatencyMs: Prisma.FieldRef<"SpeedTest", 'Float'>
+  readonly uploadLatencyMs: Prisma.FieldRef<"SpeedTest", 'Float'>
+  readonly bufferbloatMs: Prisma.FieldRef<"SpeedTest", 'Float'>
+  readonly grade: Prisma.FieldRef<"SpeedTest", 'String'>
+  readonly error: Prisma.FieldRef<"SpeedTest", 'String'>
+  readonly createdAt: Prisma.FieldRef<"SpeedTest", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SpeedTest findUnique
+ */
+export type SpeedTestFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * Filter, which SpeedTest to fetch.
+   */
+  where: Prisma.SpeedTestWhereUniqueInput
+}
+
+/**
+ * SpeedTest findUniqueOrThrow
+ */
+export type SpeedTestFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * Filter, which SpeedTest to fetch.
+   */
+  where: Prisma.SpeedTestWhereUniqueInput
+}
+
+/**
+ * SpeedTest findFirst
+ */
+export type SpeedTestFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * Filter, which SpeedTest to fetch.
+   */
+  where?: Prisma.SpeedTestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SpeedTests to fetch.
+   */
+  orderBy?: Prisma.SpeedTestOrderByWithRelationInput | Prisma.SpeedTestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SpeedTests.
+   */
+  cursor?: Prisma.SpeedTestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SpeedTests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SpeedTests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SpeedTests.
+   */
+  distinct?: Prisma.SpeedTestScalarFieldEnum | Prisma.SpeedTestScalarFieldEnum[]
+}
+
+/**
+ * SpeedTest findFirstOrThrow
+ */
+export type SpeedTestFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * Filter, which SpeedTest to fetch.
+   */
+  where?: Prisma.SpeedTestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SpeedTests to fetch.
+   */
+  orderBy?: Prisma.SpeedTestOrderByWithRelationInput | Prisma.SpeedTestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SpeedTests.
+   */
+  cursor?: Prisma.SpeedTestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SpeedTests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SpeedTests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SpeedTests.
+   */
+  distinct?: Prisma.SpeedTestScalarFieldEnum | Prisma.SpeedTestScalarFieldEnum[]
+}
+
+/**
+ * SpeedTest findMany
+ */
+export type SpeedTestFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * Filter, which SpeedTests to fetch.
+   */
+  where?: Prisma.SpeedTestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SpeedTests to fetch.
+   */
+  orderBy?: Prisma.SpeedTestOrderByWithRelationInput | Prisma.SpeedTestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SpeedTests.
+   */
+  cursor?: Prisma.SpeedTestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SpeedTests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SpeedTests.
+   */
+  skip?: number
+  distinct?: Prisma.SpeedTestScalarFieldEnum | Prisma.SpeedTestScalarFieldEnum[]
+}
+
+/**
+ * SpeedTest create
+ */
+export type SpeedTestCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * The data needed to create a SpeedTest.
+   */
+  data: Prisma.XOR<Prisma.SpeedTestCreateInput, Prisma.SpeedTestUncheckedCreateInput>
+}
+
+/**
+ * SpeedTest createMany
+ */
+export type SpeedTestCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SpeedTests.
+   */
+  data: Prisma.SpeedTestCreateManyInput | Prisma.SpeedTestCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SpeedTest createManyAndReturn
+ */
+export type SpeedTestCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * The data used to create many SpeedTests.
+   */
+  data: Prisma.SpeedTestCreateManyInput | Prisma.SpeedTestCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SpeedTest update
+ */
+export type SpeedTestUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * The data needed to update a SpeedTest.
+   */
+  data: Prisma.XOR<Prisma.SpeedTestUpdateInput, Prisma.SpeedTestUncheckedUpdateInput>
+  /**
+   * Choose, which SpeedTest to update.
+   */
+  where: Prisma.SpeedTestWhereUniqueInput
+}
+
+/**
+ * SpeedTest updateMany
+ */
+export type SpeedTestUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SpeedTests.
+   */
+  data: Prisma.XOR<Prisma.SpeedTestUpdateManyMutationInput, Prisma.SpeedTestUncheckedUpdateManyInput>
+  /**
+   * Filter which SpeedTests to update
+   */
+  where?: Prisma.SpeedTestWhereInput
+  /**
+   * Limit how many SpeedTests to update.
+   */
+  limit?: number
+}
+
+/**
+ * SpeedTest updateManyAndReturn
+ */
+export type SpeedTestUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * The data used to update SpeedTests.
+   */
+  data: Prisma.XOR<Prisma.SpeedTestUpdateManyMutationInput, Prisma.SpeedTestUncheckedUpdateManyInput>
+  /**
+   * Filter which SpeedTests to update
+   */
+  where?: Prisma.SpeedTestWhereInput
+  /**
+   * Limit how many SpeedTests to update.
+   */
+  limit?: number
+}
+
+/**
+ * SpeedTest upsert
+ */
+export type SpeedTestUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * The filter to search for the SpeedTest to update in case it exists.
+   */
+  where: Prisma.SpeedTestWhereUniqueInput
+  /**
+   * In case the SpeedTest found by the `where` argument doesn't exist, create a new SpeedTest with this data.
+   */
+  create: Prisma.XOR<Prisma.SpeedTestCreateInput, Prisma.SpeedTestUncheckedCreateInput>
+  /**
+   * In case the SpeedTest was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SpeedTestUpdateInput, Prisma.SpeedTestUncheckedUpdateInput>
+}
+
+/**
+ * SpeedTest delete
+ */
+export type SpeedTestDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+  /**
+   * Filter which SpeedTest to delete.
+   */
+  where: Prisma.SpeedTestWhereUniqueInput
+}
+
+/**
+ * SpeedTest deleteMany
+ */
+export type SpeedTestDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SpeedTests to delete
+   */
+  where?: Prisma.SpeedTestWhereInput
+  /**
+   * Limit how many SpeedTests to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SpeedTest without action
+ */
+export type SpeedTestDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SpeedTest
+   */
+  select?: Prisma.SpeedTestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SpeedTest
+   */
+  omit?: Prisma.SpeedTestOmit<ExtArgs> | null
+}
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "router_sessions" ADD COLUMN     "adapter_id" TEXT,
+ADD COLUMN     "client_session_id" TEXT,
+ADD COLUMN     "name" TEXT NOT NULL DEFAULT 'Main Router',
+ADD COLUMN     "router_id" TEXT NOT NULL DEFAULT 'main';
+
+-- CreateTable
+CREATE TABLE "client_sessions" (
+    "id" TEXT NOT NULL,
+    "active_router_id" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "client_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "client_sessions_expires_at_idx" ON "client_sessions"("expires_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "router_sessions_client_session_id_router_id_key" ON "router_sessions"("client_session_id", "router_id");
+
+-- AddForeignKey
+ALTER TABLE "router_sessions" ADD CONSTRAINT "router_sessions_client_session_id_fkey" FOREIGN KEY ("client_session_id") REFERENCES "client_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
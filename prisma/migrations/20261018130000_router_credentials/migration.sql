@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "router_sessions" ADD COLUMN     "encrypted_credentials" TEXT;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "router_sessions" ADD COLUMN "username" TEXT;
+
+-- CreateTable
+CREATE TABLE "config_snapshots" (
+    "id" TEXT NOT NULL,
+    "router_ip" TEXT NOT NULL,
+    "router_name" TEXT,
+    "area" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "before" JSONB NOT NULL,
+    "user" TEXT,
+    "chat_message" TEXT,
+    "conversation_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reverted_at" TIMESTAMP(3),
+
+    CONSTRAINT "config_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "config_snapshots_router_ip_created_at_idx" ON "config_snapshots"("router_ip", "created_at");
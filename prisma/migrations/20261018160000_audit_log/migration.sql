@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "audit_log" (
+    "id" TEXT NOT NULL,
+    "router_ip" TEXT NOT NULL,
+    "router_name" TEXT,
+    "router_id" TEXT,
+    "session_id" TEXT,
+    "user" TEXT,
+    "tool_name" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "outcome" TEXT NOT NULL,
+    "result" TEXT NOT NULL,
+    "conversation_id" TEXT,
+    "message_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_log_router_ip_created_at_idx" ON "audit_log"("router_ip", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_log_tool_name_created_at_idx" ON "audit_log"("tool_name", "created_at");
+
+-- Append-only: reject updates and deletes
+CREATE FUNCTION "audit_log_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_log_no_update_or_delete"
+    BEFORE UPDATE OR DELETE ON "audit_log"
+    FOR EACH ROW EXECUTE FUNCTION "audit_log_append_only"();
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "devices" (
+    "id" TEXT NOT NULL,
+    "router_ip" TEXT NOT NULL,
+    "mac" TEXT NOT NULL,
+    "hostname" TEXT,
+    "ip" TEXT,
+    "vendor" TEXT,
+    "nickname" TEXT,
+    "owner" TEXT,
+    "connection" TEXT NOT NULL DEFAULT 'unknown',
+    "first_seen" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "devices_router_ip_mac_key" ON "devices"("router_ip", "mac");
+
+-- CreateIndex
+CREATE INDEX "devices_router_ip_last_seen_idx" ON "devices"("router_ip", "last_seen");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "device_events" (
+    "id" TEXT NOT NULL,
+    "router_ip" TEXT NOT NULL,
+    "mac" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "is_new" BOOLEAN NOT NULL DEFAULT false,
+    "name" TEXT,
+    "ip" TEXT,
+    "vendor" TEXT,
+    "dismissed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "device_events_router_ip_created_at_idx" ON "device_events"("router_ip", "created_at");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "metric_samples" (
+    "id" TEXT NOT NULL,
+    "router_ip" TEXT NOT NULL,
+    "metric" TEXT NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "sampled_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "metric_samples_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "metric_samples_router_ip_metric_sampled_at_idx" ON "metric_samples"("router_ip", "metric", "sampled_at");
+
+-- CreateIndex
+CREATE INDEX "metric_samples_sampled_at_idx" ON "metric_samples"("sampled_at");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "speed_tests" (
+    "id" TEXT NOT NULL,
+    "server" TEXT NOT NULL,
+    "download_mbps" DOUBLE PRECISION,
+    "upload_mbps" DOUBLE PRECISION,
+    "latency_ms" DOUBLE PRECISION,
+    "jitter_ms" DOUBLE PRECISION,
+    "download_latency_ms" DOUBLE PRECISION,
+    "upload_latency_ms" DOUBLE PRECISION,
+    "bufferbloat_ms" DOUBLE PRECISION,
+    "grade" TEXT,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "speed_tests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "speed_tests_created_at_idx" ON "speed_tests"("created_at");
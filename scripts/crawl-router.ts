@@ -1,24 +1,28 @@
-// Script to fetch HTML from advanced settings pages using DB session
-import { ZTERouterAdapter } from '../lib/adapters/zte';
+// Script to fetch HTML from advanced settings pages using a stored session
+// Usage: npx tsx scripts/crawl-router.ts [routerIp]
+import { createAdapter, hasCapability } from '../lib/adapters/registry';
+import { getSessionStore } from '../lib/router/session-store';
 import { prisma } from '../prisma/prisma';
 
 async function main() {
-    // Get session from database
-    const session = await prisma.routerSession.findFirst({
-        orderBy: { createdAt: 'desc' }
-    });
+    // Reuse the most recent unexpired session created by logging in from /setup
+    const routerIp = process.argv[2];
+    const session = await getSessionStore().findRouterSession(routerIp ? { routerIp } : {});
 
     if (!session) {
         console.error('No session found in database. Please login first.');
         process.exit(1);
     }
 
-    const cookies = session.cookies as Array<{ name: string; value: string }>;
-    const sessionCookie = cookies.map(c => `${c.name}=${c.value}`).join('; ');
+    const sessionCookie = session.cookies.map(c => `${c.name}=${c.value}`).join('; ');
 
-    console.log(`Using session for router: ${session.routerIp}`);
+    console.log(`Using session for router: ${session.name} (${session.routerIp})`);
 
-    const adapter = new ZTERouterAdapter(session.routerIp, sessionCookie);
+    const adapter = createAdapter(session.adapterId, session.routerIp, sessionCookie);
+    if (!hasCapability(adapter, 'rawPages')) {
+        console.error(`Adapter "${adapter.id}" does not support raw page access.`);
+        process.exit(1);
+    }
 
     const endpoints = [
         { name: 'WiFi Basic', path: '/cgi-bin/wlan_basic.asp' },
@@ -35,7 +39,7 @@ async function main() {
         console.log('='.repeat(60));
 
         try {
-            const html = await (adapter as any).fetchPage(endpoint.path);
+            const html = await adapter.fetchPage(endpoint.path);
             console.log(html.slice(0, 6000)); // First 6000 chars
         } catch (error: any) {
             console.error(`Error fetching ${endpoint.name}:`, error.message);
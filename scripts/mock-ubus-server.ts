@@ -0,0 +1,247 @@
+// Local mock of an OpenWrt rpcd ubus JSON-RPC endpoint for testing the OpenWrt adapter without hardware.
+// Usage: npx tsx scripts/mock-ubus-server.ts [port]   (login: root / admin)
+// Then log in from /setup (or point the adapter) at 127.0.0.1:<port>.
+import http from 'http';
+import { randomBytes } from 'crypto';
+
+const PORT = parseInt(process.argv[2] || process.env.MOCK_UBUS_PORT || '8080', 10);
+const USERNAME = process.env.MOCK_UBUS_USER || 'root';
+const PASSWORD = process.env.MOCK_UBUS_PASSWORD || 'admin';
+
+const NULL_SESSION = '00000000000000000000000000000000';
+
+// ubus status codes
+const OK = 0;
+const INVALID_ARGUMENT = 2;
+const METHOD_NOT_FOUND = 3;
+const NOT_FOUND = 4;
+const PERMISSION_DENIED = 6;
+
+type Section = Record<string, string | string[] | number | boolean>;
+
+// ============ MOCK STATE ============
+
+const sessions = new Set<string>();
+const bootTime = Date.now();
+let anonymousCounter = 0;
+
+const uci: Record<string, Record<string, Section>> = {
+    network: {
+        lan: { '.type': 'interface', '.name': 'lan', '.anonymous': false, device: 'br-lan', proto: 'static', ipaddr: '192.168.1.1', netmask: '255.255.255.0' },
+        wan: { '.type': 'interface', '.name': 'wan', '.anonymous': false, device: 'wan', proto: 'pppoe', username: 'user@isp' },
+    },
+    dhcp: {
+        lan: { '.type': 'dhcp', '.name': 'lan', '.anonymous': false, interface: 'lan', start: '100', limit: '150', leasetime: '12h' },
+        cfg03: { '.type': 'host', '.name': 'cfg03', '.anonymous': true, name: 'nas', mac: 'd4:be:d9:d7:0a:6a', ip: '192.168.1.20' },
+    },
+    wireless: {
+        radio0: { '.type': 'wifi-device', '.name': 'radio0', '.anonymous': false, type: 'mac80211', band: '2g', channel: '6', htmode: 'HT20' },
+        default_radio0: { '.type': 'wifi-iface', '.name': 'default_radio0', '.anonymous': false, device: 'radio0', network: 'lan', mode: 'ap', ssid: 'OpenWrt-Lab', encryption: 'psk2', key: 'labpassword' },
+    },
+    firewall: {
+        cfg01: { '.type': 'defaults', '.name': 'cfg01', '.anonymous': true, syn_flood: '1', input: 'ACCEPT', output: 'ACCEPT', forward: 'REJECT' },
+        cfg02: { '.type': 'redirect', '.name': 'cfg02', '.anonymous': true, name: 'NAS-HTTPS', target: 'DNAT', src: 'wan', dest: 'lan', proto: 'tcp', src_dport: '8443', dest_ip: '192.168.1.20', dest_port: '443' },
+    },
+};
+
+const leases = [
+    { hostname: 'laptop', ipaddr: '192.168.1.101', macaddr: 'a8:6d:aa:12:a3:5e', expires: 40123 },
+    { hostname: 'nas', ipaddr: '192.168.1.20', macaddr: 'd4:be:d9:d7:0a:6a', expires: -1 },
+    { hostname: 'phone', ipaddr: '192.168.1.134', macaddr: 'e2:bc:c1:88:33:26', expires: 3600 },
+];
+
+const stations = [
+    { mac: 'E2:BC:C1:88:33:26', signal: -52, noise: -95 },
+];
+
+// Neighbouring networks for iwinfo scan: channel 1 is crowded, 11 is quiet
+const neighbors = [
+    { ssid: 'Neighbour-1', bssid: 'a4:2b:b0:10:00:01', mode: 'Master', channel: 1, signal: -48, quality: 62, quality_max: 70, encryption: { enabled: true, wpa: [2], authentication: ['psk'], ciphers: ['ccmp'] } },
+    { ssid: 'PTCL-BB', bssid: 'a4:2b:b0:10:00:02', mode: 'Master', channel: 1, signal: -60, quality: 50, quality_max: 70, encryption: { enabled: true, wpa: [1, 2], authentication: ['psk'], ciphers: ['tkip', 'ccmp'] } },
+    { ssid: 'Cafe Guest', bssid: 'a4:2b:b0:10:00:03', mode: 'Master', channel: 3, signal: -71, quality: 39, quality_max: 70, encryption: { enabled: false } },
+    { ssid: 'HP-Print-5C', bssid: 'a4:2b:b0:10:00:04', mode: 'Master', channel: 6, signal: -80, quality: 30, quality_max: 70, encryption: { enabled: false } },
+    { ssid: '', bssid: 'a4:2b:b0:10:00:05', mode: 'Master', channel: 36, signal: -66, quality: 44, quality_max: 70, encryption: { enabled: true, wpa: [3], authentication: ['sae'], ciphers: ['ccmp'] } },
+];
+
+function deviceStats(rx: number, tx: number) {
+    return { rx_bytes: rx * 900, tx_bytes: tx * 900, rx_packets: rx, tx_packets: tx, rx_errors: 2, tx_errors: 1, rx_dropped: 4, tx_dropped: 0 };
+}
+
+// ============ HELPERS ============
+
+function sectionsWithIndex(config: string): Record<string, Section> {
+    const result: Record<string, Section> = {};
+    Object.entries(uci[config]).forEach(([name, section], index) => {
+        result[name] = { ...section, '.index': index };
+    });
+    return result;
+}
+
+function arpTable(): string {
+    const header = 'IP address       HW type     Flags       HW address            Mask     Device';
+    const rows = leases.map(l => `${l.ipaddr.padEnd(17)}0x1         0x2         ${l.macaddr}     *        br-lan`);
+    return [header, ...rows].join('\n') + '\n';
+}
+
+// ============ UBUS OBJECTS ============
+
+// Arguments the mocked methods read (ubus passes a JSON object)
+interface UbusArgs {
+    config?: string;
+    section?: string;
+    type?: string;
+    name?: string;
+    values?: Record<string, unknown>;
+    device?: string;
+    path?: string;
+    username?: string;
+    password?: string;
+}
+
+type Handler = (args: UbusArgs) => [number, unknown?];
+
+const objects: Record<string, Record<string, Handler>> = {
+    session: {
+        login: ({ username, password }) => {
+            if (username !== USERNAME || password !== PASSWORD) return [PERMISSION_DENIED];
+            const token = randomBytes(16).toString('hex');
+            sessions.add(token);
+            return [OK, { ubus_rpc_session: token, timeout: 300, expires: 300 }];
+        },
+        destroy: () => [OK],
+    },
+    system: {
+        board: () => [OK, {
+            kernel: '5.15.137', hostname: 'OpenWrt', system: 'MediaTek MT7621', model: 'Xiaomi Mi Router 4A Gigabit Edition',
+            board_name: 'xiaomi,mi-router-4a-gigabit', release: { distribution: 'OpenWrt', version: '23.05.2', revision: 'r23630', description: 'OpenWrt 23.05.2 r23630' },
+        }],
+        info: () => [OK, { uptime: Math.floor((Date.now() - bootTime) / 1000) + 86400 * 3, localtime: Math.floor(Date.now() / 1000) }],
+        reboot: () => [OK],
+    },
+    'network.interface.lan': {
+        status: () => [OK, { up: true, proto: 'static', 'ipv4-address': [{ address: uci.network.lan.ipaddr, mask: 24 }] }],
+    },
+    'network.interface.wan': {
+        status: () => [OK, {
+            up: true, proto: 'pppoe',
+            'ipv4-address': [{ address: '39.46.240.18', mask: 32 }],
+            route: [{ target: '0.0.0.0', mask: 0, nexthop: '39.46.192.1' }],
+            'dns-server': ['202.125.128.1', '8.8.8.8'],
+        }],
+    },
+    'network.device': {
+        status: () => [OK, {
+            'br-lan': { up: true, carrier: true, macaddr: '50:64:2b:aa:bb:01', statistics: deviceStats(120000, 98000) },
+            lan1: { up: true, carrier: true, macaddr: '50:64:2b:aa:bb:01', statistics: deviceStats(80000, 64000) },
+            lan2: { up: true, carrier: false, macaddr: '50:64:2b:aa:bb:01', statistics: deviceStats(0, 0) },
+            wan: { up: true, carrier: true, macaddr: '50:64:2b:aa:bb:02', statistics: deviceStats(500000, 210000) },
+            'phy0-ap0': { up: uci.wireless.default_radio0.disabled !== '1', carrier: true, macaddr: '50:64:2b:aa:bb:03', statistics: deviceStats(40000, 36000) },
+        }],
+    },
+    'luci-rpc': {
+        getDHCPLeases: () => [OK, { dhcp_leases: leases }],
+    },
+    file: {
+        read: ({ path }) => path === '/proc/net/arp' ? [OK, { data: arpTable() }] : [NOT_FOUND],
+    },
+    iwinfo: {
+        devices: () => [OK, { devices: ['phy0-ap0'] }],
+        info: ({ device }) => device !== 'phy0-ap0' ? [NOT_FOUND] : [OK, {
+            ssid: uci.wireless.default_radio0.ssid, bssid: '50:64:2B:AA:BB:03', mode: 'Master',
+            channel: uci.wireless.radio0.channel === 'auto' ? 1 : parseInt(String(uci.wireless.radio0.channel), 10),
+            noise: -95, signal: 0, txpower: 20,
+            encryption: { enabled: uci.wireless.default_radio0.encryption !== 'none', description: 'WPA2 PSK (CCMP)' },
+        }],
+        assoclist: ({ device }) => device !== 'phy0-ap0' ? [NOT_FOUND] : [OK, { results: stations }],
+        scan: ({ device }) => device !== 'phy0-ap0' ? [NOT_FOUND] : [OK, { results: neighbors }],
+    },
+    uci: {
+        get: ({ config = '', section = '' }) => {
+            if (!uci[config]) return [NOT_FOUND];
+            if (section) return uci[config][section] ? [OK, { values: sectionsWithIndex(config)[section] }] : [NOT_FOUND];
+            return [OK, { values: sectionsWithIndex(config) }];
+        },
+        set: ({ config = '', section = '', values }) => {
+            if (!uci[config]?.[section]) return [NOT_FOUND];
+            if (!values || typeof values !== 'object') return [INVALID_ARGUMENT];
+            Object.assign(uci[config][section], values);
+            return [OK];
+        },
+        add: ({ config = '', type, name, values }) => {
+            if (!uci[config] || !type) return [INVALID_ARGUMENT];
+            const sectionName = name || `cfg${(++anonymousCounter + 0x10).toString(16)}`;
+            uci[config][sectionName] = { ...(values || {}), '.type': type, '.name': sectionName, '.anonymous': !name };
+            return [OK, { section: sectionName }];
+        },
+        delete: ({ config = '', section = '' }) => {
+            if (!uci[config]?.[section]) return [NOT_FOUND];
+            delete uci[config][section];
+            return [OK];
+        },
+        commit: ({ config = '' }) => {
+            if (!uci[config]) return [NOT_FOUND];
+            console.log(`[Mock ubus] Committed ${config}`);
+            return [OK];
+        },
+    },
+    luci: {
+        setPassword: ({ username, password }) => (username && password ? [OK, { result: true }] : [INVALID_ARGUMENT]),
+    },
+};
+
+// ============ JSON-RPC SERVER ============
+
+function handleCall(params: unknown[]): [number, unknown?] {
+    const [session, object, method, args = {}] = params as [string, string, string, UbusArgs];
+
+    const isLogin = object === 'session' && method === 'login';
+    if (!isLogin && (session === NULL_SESSION || !sessions.has(session))) {
+        return [PERMISSION_DENIED];
+    }
+
+    const handler = objects[object]?.[method];
+    if (!handler) return [objects[object] ? METHOD_NOT_FOUND : NOT_FOUND];
+    return handler(args);
+}
+
+const server = http.createServer((req, res) => {
+    if (req.method === 'GET') {
+        // Minimal LuCI landing page so detection/fingerprinting sees an OpenWrt device
+        res.writeHead(200, { 'Content-Type': 'text/html', 'Server': 'uhttpd' });
+        res.end('<!DOCTYPE html><html><head><title>OpenWrt - LuCI</title></head><body><div id="maincontent">Powered by LuCI openwrt-23.05</div></body></html>');
+        return;
+    }
+
+    if (req.method !== 'POST' || req.url !== '/ubus') {
+        res.writeHead(404);
+        res.end();
+        return;
+    }
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+        let id: unknown = null;
+        try {
+            const request = JSON.parse(body);
+            id = request.id;
+            if (request.method !== 'call' || !Array.isArray(request.params)) {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } }));
+                return;
+            }
+
+            const result = handleCall(request.params);
+            console.log(`[Mock ubus] ${request.params[1]}.${request.params[2]} -> ${result[0]}`);
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+        } catch {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32700, message: 'Parse error' } }));
+        }
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`[Mock ubus] Listening on http://127.0.0.1:${PORT}/ubus (login: ${USERNAME} / ${PASSWORD})`);
+});
@@ -0,0 +1,89 @@
+// Tiny throughput test endpoint for runSpeedTest, so speed tests work offline on the LAN.
+// Usage: npx tsx scripts/speed-test-server.ts [port]
+// Run it on a wired machine (or anywhere reachable) and set SPEED_TEST_URL=http://<host>:<port>.
+//
+// GET  /ping             -> 204, for latency probes
+// GET  /download?bytes=N -> N bytes of incompressible data
+// POST /upload           -> drains the body, replies { "bytes": N }
+import http from 'http';
+import { randomBytes } from 'crypto';
+
+const PORT = parseInt(process.argv[2] || process.env.SPEED_TEST_PORT || '8090', 10);
+const MAX_DOWNLOAD_BYTES = 1024 * 1024 * 1024;
+
+// One random block, written repeatedly: cheap to serve and defeats any compression on the path
+const BLOCK = randomBytes(64 * 1024);
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function sendDownload(res: http.ServerResponse, bytes: number) {
+    res.writeHead(200, {
+        ...CORS_HEADERS,
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': bytes,
+        'Cache-Control': 'no-store',
+    });
+
+    let remaining = bytes;
+    const write = () => {
+        while (remaining > 0) {
+            const chunk = remaining >= BLOCK.length ? BLOCK : BLOCK.subarray(0, remaining);
+            remaining -= chunk.length;
+            if (!res.write(chunk)) {
+                res.once('drain', write);
+                return;
+            }
+        }
+        res.end();
+    };
+    res.on('close', () => { remaining = 0; });
+    write();
+}
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS);
+        res.end();
+        return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/ping') {
+        res.writeHead(204, { ...CORS_HEADERS, 'Cache-Control': 'no-store' });
+        res.end();
+        return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/download') {
+        const bytes = parseInt(url.searchParams.get('bytes') || '', 10);
+        if (!(bytes > 0) || bytes > MAX_DOWNLOAD_BYTES) {
+            res.writeHead(400, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: `bytes must be between 1 and ${MAX_DOWNLOAD_BYTES}` }));
+            return;
+        }
+        sendDownload(res, bytes);
+        return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/upload') {
+        let bytes = 0;
+        req.on('data', (chunk: Buffer) => { bytes += chunk.length; });
+        req.on('end', () => {
+            res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ bytes }));
+        });
+        return;
+    }
+
+    res.writeHead(404, CORS_HEADERS);
+    res.end();
+});
+
+server.listen(PORT, () => {
+    console.log(`[Speed test] Listening on http://0.0.0.0:${PORT} (set SPEED_TEST_URL=http://<this-host>:${PORT})`);
+});
@@ -0,0 +1,170 @@
+// Local stub DNS server for testing the DNS diagnostics without the internet.
+// Usage: npx tsx scripts/stub-dns-server.ts [port] [--hijack] [--dnssec] [--delay=ms]
+//   --hijack   answer unknown names with an "ad server" address instead of NXDOMAIN
+//   --dnssec   behave like a validating resolver (AD bit set, SERVFAIL for dnssec-failed.org)
+//   --delay    wait this long before every answer
+// Then ask the assistant to compare DNS servers including 127.0.0.1:<port>.
+import dgram from 'dgram';
+
+const PORT = parseInt(process.argv.slice(2).find(arg => /^\d+$/.test(arg)) || process.env.STUB_DNS_PORT || '5353', 10);
+const HIJACK = process.argv.includes('--hijack');
+const DNSSEC = process.argv.includes('--dnssec');
+const DELAY = parseInt(process.argv.find(arg => arg.startsWith('--delay='))?.slice('--delay='.length) || '0', 10);
+
+const HIJACK_ADDRESS = '198.51.100.10';
+
+const TYPES: Record<number, string> = { 1: 'A', 2: 'NS', 5: 'CNAME', 15: 'MX', 16: 'TXT', 28: 'AAAA' };
+const TYPE_CODES = Object.fromEntries(Object.entries(TYPES).map(([code, name]) => [name, Number(code)]));
+
+// Response codes
+const NOERROR = 0;
+const SERVFAIL = 2;
+const NXDOMAIN = 3;
+const NOTIMP = 4;
+
+type RecordData = string | { priority: number; exchange: string };
+
+// ============ ZONE ============
+
+const zone: Record<string, Partial<Record<string, RecordData[]>>> = {
+    'google.com': {
+        A: ['142.250.181.14'],
+        AAAA: ['2a00:1450:4018:803::200e'],
+        MX: [{ priority: 10, exchange: 'smtp.google.com' }],
+        TXT: ['v=spf1 include:_spf.google.com ~all'],
+        NS: ['ns1.google.com', 'ns2.google.com'],
+    },
+    'wikipedia.org': { A: ['185.15.59.224'], AAAA: ['2a02:ec80:300:ed1a::1'] },
+    'github.com': { A: ['140.82.121.3'] },
+    'cloudflare.com': { A: ['104.16.132.229'] },
+    'microsoft.com': { A: ['20.70.246.20'] },
+    'isc.org': { A: ['151.101.2.217'] },
+    'example.com': { A: ['93.184.215.14'], AAAA: ['2606:2800:21f:cb07:6820:80da:af6b:8b2c'] },
+    'www.example.com': { CNAME: ['example.com'] },
+    'dnssec-failed.org': { A: ['96.99.227.255'] },
+    // The resolver's own public address, as Google's "what is my resolver" name reports it
+    'o-o.myaddr.l.google.com': { TXT: ['203.0.113.53'] },
+};
+
+// ============ WIRE FORMAT ============
+
+function encodeName(name: string): Buffer {
+    const labels = name.replace(/\.$/, '').split('.').filter(Boolean);
+    return Buffer.concat([...labels.map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)])), Buffer.from([0])]);
+}
+
+function readName(message: Buffer, offset: number): { name: string; next: number } {
+    const labels: string[] = [];
+    while (message[offset] !== 0) {
+        const length = message[offset];
+        labels.push(message.toString('ascii', offset + 1, offset + 1 + length));
+        offset += length + 1;
+    }
+    return { name: labels.join('.').toLowerCase(), next: offset + 1 };
+}
+
+function encodeIpv6(address: string): Buffer {
+    const [head, tail = ''] = address.split('::');
+    const headParts = head ? head.split(':') : [];
+    const tailParts = tail ? tail.split(':') : [];
+    const parts = address.includes('::')
+        ? [...headParts, ...Array(8 - headParts.length - tailParts.length).fill('0'), ...tailParts]
+        : headParts;
+    const buffer = Buffer.alloc(16);
+    parts.forEach((part, i) => buffer.writeUInt16BE(parseInt(part, 16), i * 2));
+    return buffer;
+}
+
+function encodeRdata(type: string, data: RecordData): Buffer {
+    switch (type) {
+        case 'A': return Buffer.from(String(data).split('.').map(Number));
+        case 'AAAA': return encodeIpv6(String(data));
+        case 'NS':
+        case 'CNAME': return encodeName(String(data));
+        case 'MX': {
+            const mx = data as { priority: number; exchange: string };
+            const priority = Buffer.alloc(2);
+            priority.writeUInt16BE(mx.priority);
+            return Buffer.concat([priority, encodeName(mx.exchange)]);
+        }
+        case 'TXT': {
+            const text = Buffer.from(String(data));
+            return Buffer.concat([Buffer.from([text.length]), text]);
+        }
+        default: return Buffer.alloc(0);
+    }
+}
+
+function encodeRecord(name: string, type: string, data: RecordData): Buffer {
+    const rdata = encodeRdata(type, data);
+    const fixed = Buffer.alloc(10);
+    fixed.writeUInt16BE(TYPE_CODES[type], 0);
+    fixed.writeUInt16BE(1, 2);          // class IN
+    fixed.writeUInt32BE(300, 4);        // TTL
+    fixed.writeUInt16BE(rdata.length, 8);
+    return Buffer.concat([encodeName(name), fixed, rdata]);
+}
+
+// Answers for a question, following CNAMEs inside the zone
+function lookup(name: string, type: string): { rcode: number; answers: Buffer[] } {
+    if (DNSSEC && name === 'dnssec-failed.org') return { rcode: SERVFAIL, answers: [] };
+
+    const answers: Buffer[] = [];
+    let current = name;
+    for (let depth = 0; depth < 8; depth++) {
+        const records = zone[current];
+        if (!records) {
+            if (HIJACK && type === 'A') answers.push(encodeRecord(current, 'A', HIJACK_ADDRESS));
+            return { rcode: answers.length > 0 || depth > 0 ? NOERROR : NXDOMAIN, answers };
+        }
+        if (records[type]) {
+            answers.push(...records[type]!.map(data => encodeRecord(current, type, data)));
+            return { rcode: NOERROR, answers };
+        }
+        const cname = records.CNAME?.[0];
+        if (!cname || type === 'CNAME') return { rcode: NOERROR, answers };
+        answers.push(encodeRecord(current, 'CNAME', cname));
+        current = String(cname);
+    }
+    return { rcode: SERVFAIL, answers: [] };
+}
+
+function respond(query: Buffer): Buffer | null {
+    if (query.length < 12) return null;
+    const id = query.readUInt16BE(0);
+    const { name, next } = readName(query, 12);
+    const qtype = query.readUInt16BE(next);
+    const question = query.subarray(12, next + 4);
+    const type = TYPES[qtype];
+
+    const { rcode, answers } = type ? lookup(name, type) : { rcode: NOTIMP, answers: [] };
+    console.log(`[Stub DNS] ${type ?? qtype} ${name} -> ${['NOERROR', '', 'SERVFAIL', 'NXDOMAIN', 'NOTIMP'][rcode]} (${answers.length} answers)`);
+
+    const header = Buffer.alloc(12);
+    header.writeUInt16BE(id, 0);
+    // QR, RD and RA; AD when acting as a validating resolver
+    header.writeUInt16BE(0x8180 | (DNSSEC && rcode === NOERROR ? 0x0020 : 0) | rcode, 2);
+    header.writeUInt16BE(1, 4);
+    header.writeUInt16BE(answers.length, 6);
+    return Buffer.concat([header, question, ...answers]);
+}
+
+// ============ SERVER ============
+
+const server = dgram.createSocket('udp4');
+
+server.on('message', (message, remote) => {
+    let response: Buffer | null = null;
+    try {
+        response = respond(message);
+    } catch (error: unknown) {
+        console.error('[Stub DNS] Bad query:', error instanceof Error ? error.message : error);
+    }
+    if (!response) return;
+    setTimeout(() => server.send(response, remote.port, remote.address), DELAY);
+});
+
+server.bind(PORT, () => {
+    const modes = [HIJACK && 'hijacking NXDOMAIN', DNSSEC && 'validating', DELAY && `${DELAY} ms delay`].filter(Boolean).join(', ');
+    console.log(`[Stub DNS] Listening on udp://127.0.0.1:${PORT}${modes ? ` (${modes})` : ''}`);
+});